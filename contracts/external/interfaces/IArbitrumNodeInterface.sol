@@ -0,0 +1,53 @@
+/*
+
+    Copyright 2023 Dolomite.
+
+    Licensed under the Apache License, Version 2.0 (the "License");
+    you may not use this file except in compliance with the License.
+    You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+    Unless required by applicable law or agreed to in writing, software
+    distributed under the License is distributed on an "AS IS" BASIS,
+    WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+    See the License for the specific language governing permissions and
+    limitations under the License.
+
+*/
+
+pragma solidity ^0.5.7;
+
+
+/**
+ * @title IArbitrumNodeInterface
+ * @author Dolomite
+ *
+ * Virtual contract of Arbitrum Nitro nodes, which only exists for calls made with `eth_call` or `eth_estimateGas`
+ */
+interface IArbitrumNodeInterface {
+
+    /**
+     * Estimates the gas of a transaction and breaks the estimate down into its L1 and L2 components
+     *
+     * @param  to                The destination of the transaction
+     * @param  contractCreation  True if the transaction creates a contract, in which case `to` is ignored
+     * @param  data              The calldata of the transaction
+     * @return                   The gas estimate, which includes the L1 component; the part of the gas estimate that
+     *                           pays for posting the transaction to L1; the L2 base fee; and ArbOS's estimate of the L1
+     *                           base fee
+     */
+    function gasEstimateComponents(
+        address to,
+        bool contractCreation,
+        bytes calldata data
+    )
+        external
+        payable
+        returns (
+            uint64 gasEstimate,
+            uint64 gasEstimateForL1,
+            uint256 baseFee,
+            uint256 l1BaseFeeEstimate
+        );
+}
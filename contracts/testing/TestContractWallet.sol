@@ -0,0 +1,77 @@
+/*
+
+    Copyright 2023 Dolomite.
+
+    Licensed under the Apache License, Version 2.0 (the "License");
+    you may not use this file except in compliance with the License.
+    You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+    Unless required by applicable law or agreed to in writing, software
+    distributed under the License is distributed on an "AS IS" BASIS,
+    WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+    See the License for the specific language governing permissions and
+    limitations under the License.
+
+*/
+
+pragma solidity ^0.5.7;
+pragma experimental ABIEncoderV2;
+
+
+/**
+ * @title TestContractWallet
+ * @author Dolomite
+ *
+ * A minimal EIP-1271 wallet for testing. A signature is valid if the owner signed the hash directly, without a prefix.
+ */
+contract TestContractWallet
+{
+    // ============ Constants ============
+
+    bytes4 constant public EIP1271_MAGIC_VALUE = 0x1626ba7e;
+
+    bytes4 constant public EIP1271_INVALID_VALUE = 0xffffffff;
+
+    // ============ Storage ============
+
+    address public owner;
+
+    // ============ Constructor ============
+
+    constructor(
+        address _owner
+    )
+        public
+    {
+        owner = _owner;
+    }
+
+    // ============ Functions ============
+
+    function isValidSignature(
+        bytes32 _hash,
+        bytes memory _signature
+    )
+        public
+        view
+        returns (bytes4)
+    {
+        if (_signature.length != 65) {
+            return EIP1271_INVALID_VALUE;
+        }
+
+        bytes32 r;
+        bytes32 s;
+        uint8 v;
+        /* solium-disable-next-line security/no-inline-assembly */
+        assembly {
+            r := mload(add(_signature, 32))
+            s := mload(add(_signature, 64))
+            v := byte(0, mload(add(_signature, 96)))
+        }
+
+        return ecrecover(_hash, v, r, s) == owner ? EIP1271_MAGIC_VALUE : EIP1271_INVALID_VALUE;
+    }
+}
@@ -27,8 +27,10 @@ import GenericTraderProxyV1 from '../build/contracts/GenericTraderProxyV1.json';
 import GenericTraderProxyV1Lib from '../build/contracts/GenericTraderProxyV1Lib.json';
 import LiquidateOrVaporizeImpl from '../build/contracts/LiquidateOrVaporizeImpl.json';
 import IArbitrumGasInfo from '../build/contracts/IArbitrumGasInfo.json';
+import IArbitrumNodeInterface from '../build/contracts/IArbitrumNodeInterface.json';
 import IERC20Detailed from '../build/contracts/IERC20Detailed.json';
 import IInterestSetter from '../build/contracts/IInterestSetter.json';
+import IIsolationModeToken from '../build/contracts/IIsolationModeToken.json';
 import IIsolationModeUnwrapperTrader from '../build/contracts/IIsolationModeUnwrapperTrader.json';
 import IIsolationModeWrapperTrader from '../build/contracts/IIsolationModeWrapperTrader.json';
 import IPriceOracle from '../build/contracts/IPriceOracle.json';
@@ -80,8 +82,10 @@ export default {
   GenericTraderProxyV1Lib,
   LiquidateOrVaporizeImpl,
   IArbitrumGasInfo,
+  IArbitrumNodeInterface,
   IERC20Detailed,
   IInterestSetter,
+  IIsolationModeToken,
   IIsolationModeUnwrapperTrader,
   IIsolationModeWrapperTrader,
   IPriceOracle,
@@ -7,6 +7,7 @@ import TestAutoTrader from '../build/contracts/TestAutoTrader.json';
 import TestCallee from '../build/contracts/TestCallee.json';
 import TestChainlinkFlags from '../build/contracts/TestChainlinkFlags.json';
 import TestChainlinkPriceOracleV1 from '../build/contracts/TestChainlinkPriceOracleV1.json';
+import TestContractWallet from '../build/contracts/TestContractWallet.json';
 import TestCounter from '../build/contracts/TestCounter.json';
 import TestDolomiteAmmLibrary from '../build/contracts/TestDolomiteAmmLibrary.json';
 import TestDolomiteMargin from '../build/contracts/TestDolomiteMargin.json';
@@ -50,6 +51,7 @@ export default {
   TestCallee,
   TestChainlinkFlags,
   TestChainlinkPriceOracleV1,
+  TestContractWallet,
   TestCounter,
   TestDolomiteAmmLibrary,
   TestDolomiteMargin,
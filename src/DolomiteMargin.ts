@@ -20,10 +20,14 @@ import Web3 from 'web3';
 import { Provider } from 'web3/providers';
 import { Contracts } from './lib/Contracts';
 import { Interest } from './lib/Interest';
+import { AccountIndexer } from './modules/AccountIndexer';
+import { AccountRiskCalculator } from './modules/AccountRiskCalculator';
 import { Admin } from './modules/Admin';
 import { AmmRebalancerProxyV1 } from './modules/AmmRebalancerProxyV1';
 import { AmmRebalancerProxyV2 } from './modules/AmmRebalancerProxyV2';
+import { ArbitrumCostEstimator } from './modules/ArbitrumCostEstimator';
 import { ArbitrumGasInfo } from './modules/ArbitrumGasInfo';
+import { BorrowPositionManager } from './modules/BorrowPositionManager';
 import { BorrowPositionProxyV1 } from './modules/BorrowPositionProxyV1';
 import { BorrowPositionProxyV2 } from './modules/BorrowPositionProxyV2';
 import { DepositProxy } from './modules/DepositProxy';
@@ -31,8 +35,12 @@ import { DolomiteAmmFactory } from './modules/DolomiteAmmFactory';
 import { DolomiteAmmPair } from './modules/DolomiteAmmPair';
 import { DolomiteAmmRouterProxy } from './modules/DolomiteAmmRouterProxy';
 import { Expiry } from './modules/Expiry';
+import { ExpiryLiquidator } from './modules/ExpiryLiquidator';
+import { ExpiryManager } from './modules/ExpiryManager';
 import { GenericTraderProxyV1 } from './modules/GenericTraderProxyV1';
 import { Getters } from './modules/Getters';
+import { LiquidationRoutePlanner } from './modules/LiquidationRoutePlanner';
+import { LiquidationScanner } from './modules/LiquidationScanner';
 import { LiquidatorAssetRegistry } from './modules/LiquidatorAssetRegistry';
 import { LiquidatorProxyV1 } from './modules/LiquidatorProxyV1';
 import { LiquidatorProxyV1WithAmm } from './modules/LiquidatorProxyV1WithAmm';
@@ -41,19 +49,32 @@ import { LiquidatorProxyV3WithLiquidityToken } from './modules/LiquidatorProxyV3
 import { LiquidatorProxyV4WithGenericTrader } from './modules/LiquidatorProxyV4WithGenericTrader';
 import { IsolationModeUnwrapper } from './modules/IsolationModeUnwrapper';
 import { Logs } from './modules/Logs';
+import { LogStream } from './modules/LogStream';
+import { MarginPositionManager } from './modules/MarginPositionManager';
 import { MultiCall } from './modules/MultiCall';
 import { Operation } from './modules/operate/Operation';
 import { ChainlinkPriceOracleV1 } from './modules/oracles/ChainlinkPriceOracleV1';
 import { OrderMapper } from './modules/OrderMapper';
 import { Permissions } from './modules/Permissions';
+import { SignedActions } from './modules/SignedActions';
+import { SignedOperationManager } from './modules/SignedOperationManager';
 import { SignedOperations } from './modules/SignedOperations';
 import { StandardActions } from './modules/StandardActions';
 import { SubgraphAPI } from './modules/SubgraphAPI';
+import { SwapRouteQuoter } from './modules/SwapRouteQuoter';
 import { Token } from './modules/Token';
 import { TransferProxy } from './modules/TransferProxy';
 import { WalletLogin } from './modules/WalletLogin';
 import { WETH } from './modules/WETH';
-import { address, DolomiteMarginOptions, EthereumAccount, Networks } from './types';
+import {
+  address,
+  DolomiteMarginOptions,
+  EthereumAccount,
+  FeeEstimator,
+  Networks,
+  SigningProvider,
+  TransactionSender,
+} from './types';
 import { IsolationModeWrapper } from './modules/IsolationModeWrapper';
 import { ExpiryProxy } from './modules/ExpiryProxy';
 
@@ -61,8 +82,12 @@ export class DolomiteMargin {
   public networkId: number;
   public web3: Web3;
   // Contract Wrappers
+  public arbitrumCostEstimator: ArbitrumCostEstimator;
   public arbitrumGasInfo: ArbitrumGasInfo;
+  public accountIndexer: AccountIndexer;
+  public accountRiskCalculator: AccountRiskCalculator;
   public admin: Admin;
+  public borrowPositionManager: BorrowPositionManager;
   public borrowPositionProxyV1: BorrowPositionProxyV1;
   public borrowPositionProxyV2: BorrowPositionProxyV2;
   public ammRebalancerProxyV1: AmmRebalancerProxyV1;
@@ -75,9 +100,13 @@ export class DolomiteMargin {
   public dolomiteAmmRouterProxy: DolomiteAmmRouterProxy;
   public expiry: Expiry;
   public expiryProxy: ExpiryProxy;
+  public expiryLiquidator: ExpiryLiquidator;
+  public expiryManager: ExpiryManager;
   public genericTraderProxyV1: GenericTraderProxyV1;
   public getters: Getters;
   public interest: Interest;
+  public liquidationRoutePlanner: LiquidationRoutePlanner;
+  public liquidationScanner: LiquidationScanner;
   public liquidatorAssetRegistry: LiquidatorAssetRegistry;
   public liquidatorProxyV1: LiquidatorProxyV1;
   public liquidatorProxyV1WithAmm: LiquidatorProxyV1WithAmm;
@@ -85,11 +114,16 @@ export class DolomiteMargin {
   public liquidatorProxyV3WithLiquidityToken: LiquidatorProxyV3WithLiquidityToken;
   public liquidatorProxyV4WithGenericTrader: LiquidatorProxyV4WithGenericTrader;
   public logs: Logs;
+  public logStream: LogStream;
+  public marginPositionManager: MarginPositionManager;
   public multiCall: MultiCall;
   public operation: Operation;
   public permissions: Permissions;
+  public signedActions: SignedActions;
+  public signedOperationManager: SignedOperationManager;
   public signedOperations: SignedOperations;
   public standardActions: StandardActions;
+  public swapRouteQuoter: SwapRouteQuoter;
   public token: Token;
   public transferProxy: TransferProxy;
   public walletLogin: WalletLogin;
@@ -112,6 +146,7 @@ export class DolomiteMargin {
     this.admin = new Admin(this.contracts);
     this.ammRebalancerProxyV1 = new AmmRebalancerProxyV1(this.contracts);
     this.ammRebalancerProxyV2 = new AmmRebalancerProxyV2(this.contracts);
+    this.api = new SubgraphAPI(options.apiEndpoint, options.apiTimeout);
     this.arbitrumGasInfo = new ArbitrumGasInfo(this.contracts);
     this.borrowPositionProxyV1 = new BorrowPositionProxyV1(this.contracts);
     this.borrowPositionProxyV2 = new BorrowPositionProxyV2(this.contracts);
@@ -123,23 +158,58 @@ export class DolomiteMargin {
     this.expiryProxy = new ExpiryProxy(this.contracts);
     this.genericTraderProxyV1 = new GenericTraderProxyV1(this.contracts);
     this.getters = new Getters(this.contracts);
-    this.interest = new Interest(networkId);
+    this.accountRiskCalculator = new AccountRiskCalculator(this.getters);
+    this.borrowPositionManager = new BorrowPositionManager(this.borrowPositionProxyV2, this.getters);
+    this.swapRouteQuoter = new SwapRouteQuoter(
+      this.contracts,
+      this.getters,
+      this.dolomiteAmmFactory,
+      this.dolomiteAmmRouterProxy,
+    );
+    this.marginPositionManager = new MarginPositionManager(
+      this.genericTraderProxyV1,
+      this.getters,
+      this.borrowPositionManager,
+      this.swapRouteQuoter,
+    );
+    this.arbitrumCostEstimator = new ArbitrumCostEstimator(this.contracts, this.getters);
+    this.interest = new Interest(networkId, this.contracts, this.getters);
     this.liquidatorAssetRegistry = new LiquidatorAssetRegistry(this.contracts);
+    this.liquidationRoutePlanner = new LiquidationRoutePlanner(
+      this.contracts,
+      this.getters,
+      this.liquidatorAssetRegistry,
+      this.dolomiteAmmFactory,
+      this.dolomiteAmmRouterProxy,
+    );
     this.liquidatorProxyV1 = new LiquidatorProxyV1(this.contracts);
     this.liquidatorProxyV1WithAmm = new LiquidatorProxyV1WithAmm(this.contracts);
     this.liquidatorProxyV2WithExternalLiquidity = new LiquidatorProxyV2WithExternalLiquidity(this.contracts);
     this.liquidatorProxyV3WithLiquidityToken = new LiquidatorProxyV3WithLiquidityToken(this.contracts);
     this.liquidatorProxyV4WithGenericTrader = new LiquidatorProxyV4WithGenericTrader(this.contracts);
     this.logs = new Logs(this.contracts, this.web3);
+    this.logStream = new LogStream(this.contracts, this.logs, this.web3);
+    this.accountIndexer = new AccountIndexer(this.logStream);
     this.multiCall = new MultiCall(this.contracts);
+    this.liquidationScanner = new LiquidationScanner(this.getters, this.multiCall);
     this.networkId = networkId;
     this.operation = new Operation(this.contracts, new OrderMapper(this.contracts), networkId);
+    this.expiryLiquidator = new ExpiryLiquidator(this.operation, this.getters, this.expiry, this.multiCall);
+    this.expiryManager = new ExpiryManager(
+      this.operation,
+      this.expiry,
+      this.getters,
+      this.multiCall,
+      this.logStream,
+    );
     this.permissions = new Permissions(this.contracts);
-    this.signedOperations = new SignedOperations(this.contracts, this.web3, networkId);
+    this.signedOperations = new SignedOperations(this.contracts, this.web3, networkId, options.signingProvider);
+    this.signedActions = new SignedActions(this.operation, this.signedOperations);
+    this.signedOperationManager = new SignedOperationManager(this.contracts, this.signedOperations, this.multiCall);
     this.standardActions = new StandardActions(this.operation, this.contracts);
     this.token = new Token(this.contracts);
     this.transferProxy = new TransferProxy(this.contracts);
-    this.walletLogin = new WalletLogin(this.web3, networkId);
+    this.walletLogin = new WalletLogin(this.web3, networkId, { signingProvider: options.signingProvider });
     this.weth = new WETH(this.contracts, this.token);
 
     if (options.accounts) {
@@ -160,6 +230,29 @@ export class DolomiteMargin {
     this.interest.setNetworkId(networkId);
   }
 
+  /**
+   * Sets how operations and wallet logins are signed, instead of with the accounts of the web3 provider.
+   */
+  public setSigningProvider(signingProvider: SigningProvider): void {
+    this.signedOperations.setSigningProvider(signingProvider);
+    this.walletLogin.setSigningProvider(signingProvider);
+  }
+
+  /**
+   * Sets how transactions are sent, instead of with web3. See `TransactionManager`.
+   */
+  public setTransactionSender(transactionSender: TransactionSender): void {
+    this.contracts.setTransactionSender(transactionSender);
+  }
+
+  /**
+   * Sets how the fees of EIP-1559 transactions are estimated, in place of the default `FeeHistoryFeeEstimator`. See
+   * `ArbitrumFeeEstimator`.
+   */
+  public setFeeEstimator(feeEstimator: FeeEstimator): void {
+    this.contracts.setFeeEstimator(feeEstimator);
+  }
+
   public setDefaultAccount(account: address): void {
     this.web3.eth.defaultAccount = account;
     this.contracts.setDefaultAccount(account);
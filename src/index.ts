@@ -28,3 +28,7 @@ export { DolomiteMargin } from './DolomiteMargin';
 export { Web3, BigNumber };
 export * from './types';
 export * from './lib/Constants';
+export * from './lib/FeeEstimators';
+export * from './lib/SigningProviders';
+export * from './lib/Siwe';
+export * from './lib/TransactionManager';
@@ -17,6 +17,7 @@
 */
 
 import BigNumber from 'bignumber.js';
+import { promisify } from 'es6-promisify';
 import Web3 from 'web3';
 import { Block, TransactionObject, Tx } from 'web3/eth/types';
 import PromiEvent from 'web3/promiEvent';
@@ -29,6 +30,7 @@ import aaveCopyCatStableCoinInterestSetterJson from '../../build/published_contr
 import ammRebalancerProxyV1Json from '../../build/published_contracts/AmmRebalancerProxyV1.json';
 import ammRebalancerProxyV2Json from '../../build/published_contracts/AmmRebalancerProxyV2.json';
 import arbitrumGasInfoJson from '../../build/published_contracts/IArbitrumGasInfo.json';
+import arbitrumNodeInterfaceJson from '../../build/published_contracts/IArbitrumNodeInterface.json';
 import arbitrumMultiCallJson from '../../build/published_contracts/ArbitrumMultiCall.json';
 import borrowPositionProxyV1Json from '../../build/published_contracts/BorrowPositionProxyV1.json';
 import borrowPositionProxyV2Json from '../../build/published_contracts/BorrowPositionProxyV2.json';
@@ -45,6 +47,7 @@ import expiryJson from '../../build/published_contracts/Expiry.json';
 import expiryProxyJson from '../../build/published_contracts/ExpiryProxy.json';
 import genericTraderProxyV1Json from '../../build/published_contracts/GenericTraderProxyV1.json';
 import interestSetterJson from '../../build/published_contracts/IInterestSetter.json';
+import isolationModeTokenJson from '../../build/published_contracts/IIsolationModeToken.json';
 import isolationModeUnwrapperJson from '../../build/published_contracts/IIsolationModeUnwrapperTrader.json';
 import isolationModeWrapperJson from '../../build/published_contracts/IIsolationModeWrapperTrader.json';
 import priceOracleJson from '../../build/published_contracts/IPriceOracle.json';
@@ -84,8 +87,10 @@ import { Expiry } from '../../build/wrappers/Expiry';
 import { ExpiryProxy } from '../../build/wrappers/ExpiryProxy';
 import { GenericTraderProxyV1 } from '../../build/wrappers/GenericTraderProxyV1';
 import { IArbitrumGasInfo } from '../../build/wrappers/IArbitrumGasInfo';
+import { IArbitrumNodeInterface } from '../../build/wrappers/IArbitrumNodeInterface';
 import { IERC20Detailed as ERC20 } from '../../build/wrappers/IERC20Detailed';
 import { IInterestSetter as InterestSetter } from '../../build/wrappers/IInterestSetter';
+import { IIsolationModeToken } from '../../build/wrappers/IIsolationModeToken';
 import { IIsolationModeUnwrapperTrader } from '../../build/wrappers/IIsolationModeUnwrapperTrader';
 import { IIsolationModeWrapperTrader } from '../../build/wrappers/IIsolationModeWrapperTrader';
 import { IPriceOracle as PriceOracle } from '../../build/wrappers/IPriceOracle';
@@ -110,10 +115,18 @@ import {
   ContractCallOptions,
   ContractConstantCallOptions,
   DolomiteMarginOptions,
+  FeeEstimator,
+  Integer,
+  TransactionSender,
   TxResult,
 } from '../types';
 
 import { SUBTRACT_GAS_LIMIT } from './Constants';
+import { FeeHistoryFeeEstimator } from './FeeEstimators';
+import { signEip1559Transaction } from './SignatureHelper';
+
+const RECEIPT_POLLING_INTERVAL_MS = 1000;
+const DEFAULT_RECEIPT_TIMEOUT_MS = 750000;
 
 interface CallableTransactionObject<T> {
   call(tx?: Tx, blockNumber?: number): Promise<T>;
@@ -126,6 +139,7 @@ export class Contracts {
   public ammRebalancerProxyV1: AmmRebalancerProxyV1;
   public ammRebalancerProxyV2: AmmRebalancerProxyV2;
   public arbitrumGasInfo: IArbitrumGasInfo;
+  public arbitrumNodeInterface: IArbitrumNodeInterface;
   public arbitrumMultiCall: ArbitrumMultiCall;
   public borrowPositionProxyV1: BorrowPositionProxyV1;
   public borrowPositionProxyV2: BorrowPositionProxyV2;
@@ -166,6 +180,13 @@ export class Contracts {
   protected readonly confirmationType: ConfirmationType;
   protected readonly defaultGas: string | number;
   protected readonly defaultGasPrice: string | number;
+  protected readonly defaultMaxFeePerGas: string | number;
+  protected readonly defaultMaxPriorityFeePerGas: string | number;
+  protected transactionSender: TransactionSender | undefined;
+  protected feeEstimator: FeeEstimator;
+  protected readonly receiptTimeout: number;
+  private eip1559Support: Promise<boolean> | undefined;
+  private chainId: number | undefined;
 
   constructor(provider: Provider, networkId: number, web3: Web3, options: DolomiteMarginOptions) {
     this.provider = provider;
@@ -175,7 +196,12 @@ export class Contracts {
     this.confirmationType = options.confirmationType || ConfirmationType.Confirmed;
     this.defaultGas = options.defaultGas;
     this.defaultGasPrice = options.defaultGasPrice;
+    this.defaultMaxFeePerGas = options.defaultMaxFeePerGas;
+    this.defaultMaxPriorityFeePerGas = options.defaultMaxPriorityFeePerGas;
     this.blockGasLimit = options.blockGasLimit;
+    this.transactionSender = options.transactionSender;
+    this.feeEstimator = options.feeEstimator || new FeeHistoryFeeEstimator(web3);
+    this.receiptTimeout = options.receiptTimeout || DEFAULT_RECEIPT_TIMEOUT_MS;
 
     // Contracts
     this.aaveCopyCatAltCoinInterestSetter = new this.web3.eth.Contract(
@@ -187,6 +213,7 @@ export class Contracts {
     this.ammRebalancerProxyV1 = new this.web3.eth.Contract(ammRebalancerProxyV1Json.abi) as AmmRebalancerProxyV1;
     this.ammRebalancerProxyV2 = new this.web3.eth.Contract(ammRebalancerProxyV2Json.abi) as AmmRebalancerProxyV2;
     this.arbitrumGasInfo = new this.web3.eth.Contract(arbitrumGasInfoJson.abi) as IArbitrumGasInfo;
+    this.arbitrumNodeInterface = new this.web3.eth.Contract(arbitrumNodeInterfaceJson.abi) as IArbitrumNodeInterface;
     this.arbitrumMultiCall = new this.web3.eth.Contract(arbitrumMultiCallJson.abi) as ArbitrumMultiCall;
     this.borrowPositionProxyV1 = new this.web3.eth.Contract(borrowPositionProxyV1Json.abi) as BorrowPositionProxyV1;
     this.borrowPositionProxyV2 = new this.web3.eth.Contract(borrowPositionProxyV2Json.abi) as BorrowPositionProxyV2;
@@ -254,6 +281,13 @@ export class Contracts {
     return pair;
   }
 
+  public getIsolationModeToken(contractAddress: address): IIsolationModeToken {
+    const token = new this.web3.eth.Contract(isolationModeTokenJson.abi, contractAddress) as IIsolationModeToken;
+    token.setProvider(this.provider);
+    token.options.from = this.dolomiteMargin.options.from;
+    return token;
+  }
+
   public getIsolationModeUnwrapper(contractAddress: address): IIsolationModeUnwrapperTrader {
     const unwrapper = new this.web3.eth.Contract(
       isolationModeUnwrapperJson.abi,
@@ -292,6 +326,7 @@ export class Contracts {
       { contract: this.ammRebalancerProxyV1, json: ammRebalancerProxyV1Json },
       { contract: this.ammRebalancerProxyV2, json: ammRebalancerProxyV2Json },
       { contract: this.arbitrumGasInfo, json: arbitrumGasInfoJson },
+      { contract: this.arbitrumNodeInterface, json: arbitrumNodeInterfaceJson },
       { contract: this.arbitrumMultiCall, json: arbitrumMultiCallJson },
       { contract: this.borrowPositionProxyV1, json: borrowPositionProxyV1Json },
       { contract: this.borrowPositionProxyV2, json: borrowPositionProxyV2Json },
@@ -334,6 +369,7 @@ export class Contracts {
     this.ammRebalancerProxyV1.options.from = account;
     this.ammRebalancerProxyV2.options.from = account;
     this.arbitrumGasInfo.options.from = account;
+    this.arbitrumNodeInterface.options.from = account;
     this.arbitrumMultiCall.options.from = account;
     this.borrowPositionProxyV1.options.from = account;
     this.borrowPositionProxyV2.options.from = account;
@@ -366,17 +402,44 @@ export class Contracts {
     this.weth.options.from = account;
   }
 
+  /**
+   * Sends transactions with the sender, such as a `TransactionManager`, instead of with web3.
+   */
+  public setTransactionSender(transactionSender: TransactionSender): void {
+    this.transactionSender = transactionSender;
+  }
+
+  /**
+   * Sets how the fees of EIP-1559 transactions are estimated, when they aren't given in `ContractCallOptions` or as
+   * defaults in `DolomiteMarginOptions`. Defaults to a `FeeHistoryFeeEstimator`.
+   */
+  public setFeeEstimator(feeEstimator: FeeEstimator): void {
+    this.feeEstimator = feeEstimator;
+  }
+
   public async callContractFunction<T>(
     method: TransactionObject<T>,
     options: ContractCallOptions = {},
   ): Promise<TxResult> {
-    const { confirmations, confirmationType, autoGasMultiplier, ...txOptions } = options;
+    const {
+      confirmations,
+      confirmationType,
+      autoGasMultiplier,
+      maxFeePerGas,
+      maxPriorityFeePerGas,
+      ...txOptions
+    } = options;
 
     if (!this.blockGasLimit) {
       await this.setGasLimit();
     }
 
-    if (!txOptions.gasPrice && this.defaultGasPrice) {
+    const hasFeeOptions = maxFeePerGas !== undefined || maxPriorityFeePerGas !== undefined;
+    if (txOptions.gasPrice && hasFeeOptions) {
+      throw new Error('Cannot specify both gasPrice and the EIP-1559 fees');
+    }
+
+    if (!txOptions.gasPrice && this.defaultGasPrice && !hasFeeOptions) {
       txOptions.gasPrice = this.defaultGasPrice;
     }
 
@@ -412,6 +475,54 @@ export class Contracts {
       txOptions.value = '0';
     }
 
+    const t = confirmationType !== undefined ? confirmationType : this.confirmationType;
+
+    if (!Object.values(ConfirmationType).includes(t)) {
+      throw new Error(`Invalid confirmation type: ${t}`);
+    }
+
+    const contract = (method as any)._parent;
+    const from = txOptions.from || contract.options.from || this.web3.eth.defaultAccount;
+    const fees = txOptions.gasPrice ? null : await this.getEip1559Fees(maxFeePerGas, maxPriorityFeePerGas);
+
+    if (this.transactionSender) {
+      const feeOptions = fees ? {
+        maxFeePerGas: fees.maxFeePerGas.toFixed(0),
+        maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toFixed(0),
+      } : {};
+      return this.transactionSender.sendTransaction(
+        {
+          ...txOptions,
+          ...feeOptions,
+          from,
+          to: contract._address,
+          data: method.encodeABI(),
+        },
+        {
+          confirmationType: t,
+          confirmations: confirmations || this.defaultConfirmations,
+        },
+      );
+    }
+
+    if (fees) {
+      const transactionHash = await this.sendEip1559Transaction({
+        ...txOptions,
+        from,
+        to: contract._address,
+        data: method.encodeABI(),
+      }, fees);
+      if (t === ConfirmationType.Hash) {
+        return { transactionHash };
+      }
+      const confirmation = this.waitForReceipt(transactionHash, from, confirmations || this.defaultConfirmations)
+        .then(receipt => this.decodeReceiptEvents(contract, receipt));
+      if (t === ConfirmationType.Confirmed) {
+        return confirmation;
+      }
+      return { transactionHash, confirmation };
+    }
+
     const promi: PromiEvent<T> = method.send(txOptions);
 
     const OUTCOMES = {
@@ -423,12 +534,6 @@ export class Contracts {
     let hashOutcome = OUTCOMES.INITIAL;
     let confirmationOutcome = OUTCOMES.INITIAL;
 
-    const t = confirmationType !== undefined ? confirmationType : this.confirmationType;
-
-    if (!Object.values(ConfirmationType).includes(t)) {
-      throw new Error(`Invalid confirmation type: ${t}`);
-    }
-
     let hashPromise: Promise<string>;
     let confirmationPromise: Promise<TransactionReceipt>;
 
@@ -538,4 +643,186 @@ export class Contracts {
     const block: Block = await this.web3.eth.getBlock('latest');
     this.blockGasLimit = block.gasLimit - SUBTRACT_GAS_LIMIT;
   }
+
+  /**
+   * Resolves the fees of the transaction from the options, then the defaults and then the fee estimator. Without any
+   * options or defaults, the fees are only estimated for chains with a base fee, and null is returned otherwise so that
+   * web3 sends a legacy transaction.
+   */
+  private async getEip1559Fees(
+    maxFeePerGas?: string | number,
+    maxPriorityFeePerGas?: string | number,
+  ): Promise<{ maxFeePerGas: Integer; maxPriorityFeePerGas: Integer } | null> {
+    let maxFee = maxFeePerGas !== undefined ? maxFeePerGas : this.defaultMaxFeePerGas;
+    let maxPriorityFee = maxPriorityFeePerGas !== undefined ? maxPriorityFeePerGas : this.defaultMaxPriorityFeePerGas;
+
+    if (maxFee === undefined && maxPriorityFee === undefined && !(await this.supportsEip1559())) {
+      return null;
+    }
+
+    if (maxFee === undefined || maxPriorityFee === undefined) {
+      const estimate = await this.feeEstimator.estimateFees();
+      maxFee = maxFee !== undefined ? maxFee : estimate.maxFeePerGas.toFixed(0);
+      maxPriorityFee = maxPriorityFee !== undefined ? maxPriorityFee : estimate.maxPriorityFeePerGas.toFixed(0);
+    }
+
+    return {
+      maxFeePerGas: new BigNumber(maxFee),
+      maxPriorityFeePerGas: new BigNumber(maxPriorityFee),
+    };
+  }
+
+  private supportsEip1559(): Promise<boolean> {
+    if (!this.eip1559Support) {
+      this.eip1559Support = this.web3.eth.getBlock('latest').then((block: any) => {
+        return block.baseFeePerGas !== undefined && block.baseFeePerGas !== null;
+      });
+      // Retry on the next transaction if the block couldn't be fetched
+      this.eip1559Support.catch(() => {
+        this.eip1559Support = undefined;
+      });
+    }
+    return this.eip1559Support;
+  }
+
+  private async getChainId(): Promise<number> {
+    if (this.chainId === undefined) {
+      this.chainId = Number(await this.sendRpc('eth_chainId', []));
+    }
+    return this.chainId;
+  }
+
+  /**
+   * Sends the transaction with `eth_sendTransaction` directly, since web3 always adds a gas price to the transactions
+   * it sends, which makes the node treat them as legacy transactions. Accounts of the web3 wallet sign the transaction
+   * locally instead, and it's sent with `eth_sendRawTransaction`.
+   */
+  private async sendEip1559Transaction(
+    tx: Tx,
+    fees: { maxFeePerGas: Integer; maxPriorityFeePerGas: Integer },
+  ): Promise<string> {
+    const wallet: any = this.web3.eth.accounts.wallet;
+    const account = tx.from && (wallet[tx.from.toLowerCase()] || wallet[tx.from]);
+    if (account) {
+      const nonce = tx.nonce !== undefined ? tx.nonce : await this.web3.eth.getTransactionCount(tx.from, 'pending');
+      const rawTransaction = signEip1559Transaction(
+        {
+          ...tx,
+          nonce,
+          maxFeePerGas: fees.maxFeePerGas.toFixed(0),
+          maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toFixed(0),
+        },
+        await this.getChainId(),
+        account.privateKey,
+      );
+      return this.sendRpc('eth_sendRawTransaction', [rawTransaction]);
+    }
+
+    const params: { [key: string]: string } = {
+      from: tx.from,
+      to: tx.to,
+      data: tx.data,
+      value: Web3.utils.toHex(new BigNumber(tx.value).toFixed(0)),
+      gas: Web3.utils.toHex(new BigNumber(tx.gas).toFixed(0)),
+      maxFeePerGas: Web3.utils.toHex(fees.maxFeePerGas.toFixed(0)),
+      maxPriorityFeePerGas: Web3.utils.toHex(fees.maxPriorityFeePerGas.toFixed(0)),
+      type: '0x2',
+    };
+    if (tx.nonce !== undefined) {
+      params.nonce = Web3.utils.toHex(tx.nonce);
+    }
+    return this.sendRpc('eth_sendTransaction', [params]);
+  }
+
+  private async sendRpc(method: string, params: any[]): Promise<any> {
+    const provider: any = this.web3.currentProvider;
+    const send = promisify(provider.send).bind(provider);
+    const response = await send({
+      method,
+      params,
+      jsonrpc: '2.0',
+      id: new Date().getTime(),
+    });
+    if (response.error) {
+      throw new Error(response.error.message);
+    }
+    return response.result;
+  }
+
+  /**
+   * Polls for the receipt of a transaction sent by `sendEip1559Transaction`. Fails once another transaction from the
+   * same sender is mined with its nonce, or once `receiptTimeout` milliseconds pass without it being mined.
+   */
+  private async waitForReceipt(
+    transactionHash: string,
+    from: address,
+    confirmations?: number,
+  ): Promise<TransactionReceipt> {
+    const deadline = Date.now() + this.receiptTimeout;
+    let nonce: number | undefined;
+    let receipt: TransactionReceipt | null = null;
+    while (!receipt) {
+      receipt = await this.web3.eth.getTransactionReceipt(transactionHash);
+      if (!receipt) {
+        if (nonce === undefined) {
+          const transaction = await this.web3.eth.getTransaction(transactionHash);
+          nonce = transaction ? transaction.nonce : undefined;
+        }
+
+        if (nonce !== undefined && await this.web3.eth.getTransactionCount(from, 'latest') > nonce) {
+          // The nonce was used, so either the transaction was just mined or another transaction took its place
+          receipt = await this.web3.eth.getTransactionReceipt(transactionHash);
+          if (!receipt) {
+            throw new Error(
+              `Transaction ${transactionHash} was dropped, since its nonce was used by another transaction`,
+            );
+          }
+        } else if (Date.now() >= deadline) {
+          throw new Error(`Transaction ${transactionHash} was not mined within ${this.receiptTimeout}ms`);
+        } else {
+          await new Promise(resolve => setTimeout(resolve, RECEIPT_POLLING_INTERVAL_MS));
+        }
+      }
+    }
+
+    if (confirmations && confirmations > 1) {
+      while (await this.web3.eth.getBlockNumber() < receipt.blockNumber + confirmations - 1) {
+        await new Promise(resolve => setTimeout(resolve, RECEIPT_POLLING_INTERVAL_MS));
+      }
+    }
+
+    if (!receipt.status) {
+      throw new Error(`Transaction ${transactionHash} was reverted`);
+    }
+    return receipt;
+  }
+
+  /**
+   * Decodes the logs of the receipt into `events` and removes them, the same way web3's `send` does for the
+   * transactions it sends.
+   */
+  private decodeReceiptEvents(contract: any, receipt: TransactionReceipt): TransactionReceipt {
+    const events: { [name: string]: any } = {};
+    let anonymousCount = 0;
+    receipt.logs.forEach((log) => {
+      const event = contract._decodeEventABI.call(
+        { name: 'ALLEVENTS', jsonInterface: contract.options.jsonInterface },
+        log,
+      );
+      if (!event.event) {
+        events[anonymousCount] = event;
+        anonymousCount += 1;
+      } else if (!events[event.event]) {
+        events[event.event] = event;
+      } else if (Array.isArray(events[event.event])) {
+        events[event.event].push(event);
+      } else {
+        events[event.event] = [events[event.event], event];
+      }
+    });
+
+    const decoded: any = { ...receipt, events };
+    delete decoded.logs;
+    return decoded;
+  }
 }
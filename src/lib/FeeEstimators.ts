@@ -0,0 +1,95 @@
+import BigNumber from 'bignumber.js';
+import { promisify } from 'es6-promisify';
+import Web3 from 'web3';
+import { ArbitrumGasInfo } from '../modules/ArbitrumGasInfo';
+import { FeeEstimate, FeeEstimator, Integer } from '../types';
+
+export interface FeeHistoryFeeEstimatorOptions {
+  /**
+   * The number of recent blocks whose priority fees are sampled. Defaults to 10.
+   */
+  blockCount?: number;
+  /**
+   * The percentile of the priority fees paid in each block, weighted by gas used. Defaults to 50.
+   */
+  rewardPercentile?: number;
+  /**
+   * The multiplier applied to the base fee of the next block, so the transaction can still be included if the base
+   * fee rises. Defaults to 2.
+   */
+  baseFeeMultiplier?: number;
+}
+
+/**
+ * Estimates fees from the base fees and priority fees of recent blocks, using `eth_feeHistory`.
+ */
+export class FeeHistoryFeeEstimator implements FeeEstimator {
+  private web3: Web3;
+  private blockCount: number;
+  private rewardPercentile: number;
+  private baseFeeMultiplier: number;
+
+  constructor(web3: Web3, options: FeeHistoryFeeEstimatorOptions = {}) {
+    this.web3 = web3;
+    this.blockCount = options.blockCount || 10;
+    this.rewardPercentile = options.rewardPercentile || 50;
+    this.baseFeeMultiplier = options.baseFeeMultiplier || 2;
+  }
+
+  public async estimateFees(): Promise<FeeEstimate> {
+    const provider: any = this.web3.currentProvider;
+    const send = promisify(provider.send).bind(provider);
+    const response = await send({
+      method: 'eth_feeHistory',
+      params: [Web3.utils.toHex(this.blockCount), 'latest', [this.rewardPercentile]],
+      jsonrpc: '2.0',
+      id: new Date().getTime(),
+    });
+    if (response.error) {
+      throw new Error(response.error.message);
+    }
+
+    // The last base fee is the one of the next block
+    const baseFees: string[] = response.result.baseFeePerGas;
+    const nextBaseFee = new BigNumber(baseFees[baseFees.length - 1]);
+    const rewards: Integer[] = response.result.reward
+      .map((blockRewards: string[]) => new BigNumber(blockRewards[0]))
+      .sort((a: Integer, b: Integer) => a.comparedTo(b));
+    const maxPriorityFeePerGas = rewards.length > 0 ? rewards[Math.floor(rewards.length / 2)] : new BigNumber(0);
+
+    return {
+      maxPriorityFeePerGas,
+      maxFeePerGas: nextBaseFee.times(this.baseFeeMultiplier).integerValue().plus(maxPriorityFeePerGas),
+    };
+  }
+}
+
+export interface ArbitrumFeeEstimatorOptions {
+  /**
+   * The multiplier applied to the current price of L2 gas, so the transaction can still be included if the price
+   * rises. Defaults to 2.
+   */
+  baseFeeMultiplier?: number;
+}
+
+/**
+ * Estimates fees from the gas prices reported by ArbGasInfo. Arbitrum doesn't pay priority fees to the sequencer, so
+ * the priority fee is always zero.
+ */
+export class ArbitrumFeeEstimator implements FeeEstimator {
+  private arbitrumGasInfo: ArbitrumGasInfo;
+  private baseFeeMultiplier: number;
+
+  constructor(arbitrumGasInfo: ArbitrumGasInfo, options: ArbitrumFeeEstimatorOptions = {}) {
+    this.arbitrumGasInfo = arbitrumGasInfo;
+    this.baseFeeMultiplier = options.baseFeeMultiplier || 2;
+  }
+
+  public async estimateFees(): Promise<FeeEstimate> {
+    const prices = await this.arbitrumGasInfo.getPricesInWei();
+    return {
+      maxFeePerGas: prices.perArbGasTotal.times(this.baseFeeMultiplier).integerValue(),
+      maxPriorityFeePerGas: new BigNumber(0),
+    };
+  }
+}
@@ -17,10 +17,25 @@
 */
 
 import { BigNumber } from 'bignumber.js';
-import { Decimal, Integer } from '../types';
-import { getInterestPerSecondForDoubleExponent, getInterestPerSecondForAAVECopyCat } from './Helpers';
+import { PolynomialInterestSetter } from '../../build/wrappers/PolynomialInterestSetter';
+import { address, ContractConstantCallOptions, Decimal, Index, Integer } from '../types';
+import {
+  getInterestPerSecondForAAVECopyCat,
+  getInterestPerSecondForDoubleExponent,
+  getInterestPerSecondForPolynomial,
+  stringToDecimal,
+} from './Helpers';
 import interestConstants from './interest-constants.json';
 import { INTEGERS } from './Constants';
+import { Contracts } from './Contracts';
+import DolomiteMarginMath from '../modules/DolomiteMarginMath';
+import { Getters } from '../modules/Getters';
+
+// The models give different rates at these utilizations (25% and 50%), so they're used to tell interest setters apart
+const INTEREST_SETTER_PROBES = [
+  { totalBorrowed: new BigNumber('1e18'), totalSupply: new BigNumber('4e18') },
+  { totalBorrowed: new BigNumber('1e18'), totalSupply: new BigNumber('2e18') },
+];
 
 interface ExtraData {
   interestRateModel: string;
@@ -41,11 +56,88 @@ export interface DoubleExponentData extends ExtraData {
   coefficients: number[];
 }
 
+export interface PolynomialData extends ExtraData {
+  interestRateModel: 'Polynomial';
+  maxAPR: Decimal;
+  coefficients: number[];
+}
+
+export type InterestRateModelData = AlwaysZeroData | AAVECopyCatData | DoubleExponentData | PolynomialData;
+
+export interface InterestProjectionChange {
+  timestamp: Integer;
+  /**
+   * The change in the total amount borrowed, in wei
+   */
+  borrowDelta?: Integer;
+  /**
+   * The change in the total amount supplied, in wei
+   */
+  supplyDelta?: Integer;
+}
+
+export interface UtilizationPoint {
+  timestamp: Integer;
+  /**
+   * The utilization that the market is set to from this timestamp onwards, by adjusting the total amount borrowed
+   */
+  utilization: Decimal;
+}
+
+export interface InterestProjectionParams {
+  startTimestamp: Integer;
+  /**
+   * The number of seconds to project forward
+   */
+  duration: Integer;
+  /**
+   * The number of seconds between each point in the projection. The index is compounded once per step.
+   */
+  step: Integer;
+  index: Index;
+  totalBorrowed: Integer;
+  totalSupply: Integer;
+  /**
+   * Overrides the earnings rate of the network, e.g. to stress-test a call to `setEarningsRate`
+   */
+  earningsRate?: Decimal;
+  changes?: InterestProjectionChange[];
+  utilizationCurve?: UtilizationPoint[];
+}
+
+export interface InterestProjectionPoint {
+  timestamp: Integer;
+  totalBorrowed: Integer;
+  totalSupply: Integer;
+  utilization: Decimal;
+  borrowInterestRate: Decimal;
+  supplyInterestRate: Decimal;
+  borrowAPR: Decimal;
+  supplyAPR: Decimal;
+  /**
+   * The APY if the index were compounded every second at the current rate
+   */
+  borrowAPY: Decimal;
+  supplyAPY: Decimal;
+  /**
+   * The index at this point in time, compounded the same way as `Interest.calculateNewIndex` on-chain
+   */
+  index: Index;
+}
+
 export class Interest {
   private networkId: number;
+  private contracts?: Contracts;
+  private getters?: Getters;
 
-  constructor(networkId: number) {
+  /**
+   * @param contracts Optional. Needed to read the interest rate models of markets from chain.
+   * @param getters   Optional. Needed to read the interest rate models of markets from chain.
+   */
+  constructor(networkId: number, contracts?: Contracts, getters?: Getters) {
     this.setNetworkId(networkId);
+    this.contracts = contracts;
+    this.getters = getters;
   }
 
   public setNetworkId(networkId: number): void {
@@ -64,24 +156,298 @@ export class Interest {
   public getInterestPerSecondByMarket(
     marketId: Integer,
     totals: { totalBorrowed: Integer; totalSupply: Integer },
-    extraData?: AAVECopyCatData | DoubleExponentData,
+    extraData?: InterestRateModelData,
   ): {
     borrowInterestRate: Integer,
     supplyInterestRate: Integer,
   } {
-    const earningsRate = this.getEarningsRate();
+    return this.getInterestPerSecond(
+      extraData ?? this.getMarketConstants(marketId),
+      totals,
+      this.getEarningsRate(),
+    );
+  }
+
+  /**
+   * Same as `getInterestPerSecondByMarket`, but uses the market's interest setter and the earnings rate that are
+   * currently set on chain, instead of the static constants for the network.
+   */
+  public async getInterestPerSecondByMarketFromChain(
+    marketId: Integer,
+    totals: { totalBorrowed: Integer; totalSupply: Integer },
+    options?: ContractConstantCallOptions,
+  ): Promise<{
+    borrowInterestRate: Integer,
+    supplyInterestRate: Integer,
+  }> {
+    const [constants, earningsRate] = await Promise.all([
+      this.getInterestRateModelByMarket(marketId, options),
+      this.getGetters().getEarningsRate(options),
+    ]);
+    return this.getInterestPerSecond(constants, totals, earningsRate);
+  }
+
+  /**
+   * Reads the interest setter of the market from chain and returns its model and parameters, which can be passed as
+   * the `extraData` of `getInterestPerSecondByMarket` or `projectInterest`. The model is detected by probing the
+   * interest setter, so deployments other than the published contracts are recognized too. Falls back to the static
+   * constants for the network if the interest setter doesn't behave like any of the known models.
+   */
+  public async getInterestRateModelByMarket(
+    marketId: Integer,
+    options?: ContractConstantCallOptions,
+  ): Promise<InterestRateModelData> {
+    const [interestSetter, token] = await Promise.all([
+      this.getGetters().getMarketInterestSetter(marketId, options),
+      this.getGetters().getMarketTokenAddress(marketId, options),
+    ]);
+    const constants = await this.getInterestRateModelForSetter(interestSetter, token, options);
+    return constants ?? this.getMarketConstants(marketId);
+  }
+
+  /**
+   * Projects the interest rates and index of a market forward in time. At each step, the scheduled changes and the
+   * utilization curve are applied before the rates are calculated, and the index is then compounded until the next
+   * step using those rates.
+   */
+  public projectInterest(
+    marketId: Integer,
+    params: InterestProjectionParams,
+    extraData?: InterestRateModelData,
+  ): InterestProjectionPoint[] {
+    if (params.step.lte(0)) {
+      throw new Error('Projection step must be positive');
+    }
+
     const constants = extraData ?? this.getMarketConstants(marketId);
+    const earningsRate = params.earningsRate ?? this.getEarningsRate();
+    const changes = (params.changes || [])
+      .slice()
+      .sort((a, b) => a.timestamp.comparedTo(b.timestamp));
+    const utilizationCurve = (params.utilizationCurve || [])
+      .slice()
+      .sort((a, b) => a.timestamp.comparedTo(b.timestamp));
+    const endTimestamp = params.startTimestamp.plus(params.duration);
 
-    // determine the borrow interest rate (capped at 18 decimal places)
-    let borrowInterestRate: Decimal;
+    let index = { ...params.index, lastUpdate: params.startTimestamp };
+    let borrowPar = Interest.weiToPar(params.totalBorrowed, index, true);
+    let supplyPar = Interest.weiToPar(params.totalSupply, index, false);
+    let changeCursor = 0;
+    const points: InterestProjectionPoint[] = [];
+
+    for (let timestamp = params.startTimestamp; timestamp.lte(endTimestamp); timestamp = timestamp.plus(params.step)) {
+      while (changeCursor < changes.length && changes[changeCursor].timestamp.lte(timestamp)) {
+        const change = changes[changeCursor];
+        if (change.borrowDelta) {
+          borrowPar = borrowPar.plus(Interest.weiToPar(change.borrowDelta, index, true));
+        }
+        if (change.supplyDelta) {
+          supplyPar = supplyPar.plus(Interest.weiToPar(change.supplyDelta, index, false));
+        }
+        borrowPar = BigNumber.max(borrowPar, INTEGERS.ZERO);
+        supplyPar = BigNumber.max(supplyPar, INTEGERS.ZERO);
+        changeCursor += 1;
+      }
+
+      const totalSupply = Interest.parToWei(supplyPar, index, false);
+      const utilizationPoint = utilizationCurve.filter(point => point.timestamp.lte(timestamp)).pop();
+      if (utilizationPoint) {
+        const totalBorrowedWei = totalSupply.times(utilizationPoint.utilization).integerValue(BigNumber.ROUND_DOWN);
+        borrowPar = Interest.weiToPar(totalBorrowedWei, index, true);
+      }
+      const totalBorrowed = Interest.parToWei(borrowPar, index, true);
+
+      const { borrowInterestRate, supplyInterestRate } = this.getInterestPerSecond(
+        constants,
+        { totalBorrowed, totalSupply },
+        earningsRate,
+      );
+      points.push({
+        timestamp,
+        totalBorrowed,
+        totalSupply,
+        borrowInterestRate,
+        supplyInterestRate,
+        index,
+        utilization: totalSupply.isZero() ? INTEGERS.ZERO : totalBorrowed.div(totalSupply),
+        borrowAPR: borrowInterestRate.times(INTEGERS.ONE_YEAR_IN_SECONDS),
+        supplyAPR: supplyInterestRate.times(INTEGERS.ONE_YEAR_IN_SECONDS),
+        borrowAPY: Interest.getAPY(borrowInterestRate),
+        supplyAPY: Interest.getAPY(supplyInterestRate),
+      });
+
+      index = Interest.calculateNewIndex(
+        index,
+        borrowInterestRate,
+        { totalBorrowed, totalSupply },
+        earningsRate,
+        timestamp.plus(params.step),
+      );
+    }
+
+    return points;
+  }
+
+  // ============ Private Helper Functions ============
+
+  /**
+   * Converts a change in the total borrowed or total supplied to par, rounding the same way as the protocol
+   */
+  private static weiToPar(wei: Integer, index: Index, isBorrow: boolean): Integer {
+    const par = DolomiteMarginMath.weiToPar(isBorrow ? wei.abs().negated() : wei.abs(), index).abs();
+    return wei.lt(0) ? par.negated() : par;
+  }
+
+  private static parToWei(par: Integer, index: Index, isBorrow: boolean): Integer {
+    const wei = DolomiteMarginMath.parToWei(isBorrow ? par.abs().negated() : par.abs(), index).abs();
+    return par.lt(0) ? wei.negated() : wei;
+  }
+
+  private static getAPY(interestPerSecond: Decimal): Decimal {
+    return new BigNumber(
+      Math.expm1(Math.log1p(interestPerSecond.toNumber()) * INTEGERS.ONE_YEAR_IN_SECONDS.toNumber()),
+    );
+  }
+
+  /**
+   * Mirrors `Interest.calculateNewIndex` in the protocol, using the totals from before the update
+   */
+  private static calculateNewIndex(
+    index: Index,
+    borrowInterestRate: Decimal,
+    totals: { totalBorrowed: Integer; totalSupply: Integer },
+    earningsRate: Decimal,
+    timestamp: Integer,
+  ): Index {
+    const base = INTEGERS.INTEREST_RATE_BASE;
+    const borrowInterest = borrowInterestRate.times(base).times(timestamp.minus(index.lastUpdate));
+
+    let supplyInterest = INTEGERS.ZERO;
+    if (!totals.totalSupply.isZero()) {
+      supplyInterest = borrowInterest.times(earningsRate).integerValue(BigNumber.ROUND_DOWN);
+      if (totals.totalBorrowed.lt(totals.totalSupply)) {
+        supplyInterest = DolomiteMarginMath.getPartial(supplyInterest, totals.totalBorrowed, totals.totalSupply);
+      }
+    }
+
+    const borrowIndex = index.borrow.times(base);
+    const supplyIndex = index.supply.times(base);
+    return {
+      borrow: DolomiteMarginMath.getPartial(borrowIndex, borrowInterest, base).plus(borrowIndex).div(base),
+      supply: DolomiteMarginMath.getPartial(supplyIndex, supplyInterest, base).plus(supplyIndex).div(base),
+      lastUpdate: timestamp,
+    };
+  }
+
+  private static getBorrowInterestRate(
+    constants: InterestRateModelData,
+    totals: { totalBorrowed: Integer; totalSupply: Integer },
+  ): Decimal {
     if (constants.interestRateModel === 'DoubleExponent') {
-      borrowInterestRate = getInterestPerSecondForDoubleExponent(constants.maxAPR, constants.coefficients, totals);
-    } else if (constants.interestRateModel === 'AAVECopyCat') {
-      borrowInterestRate = getInterestPerSecondForAAVECopyCat(constants.isStableCoin, totals);
-    } else if (constants.interestRateModel === 'AlwaysZero') {
-      borrowInterestRate = INTEGERS.ZERO;
+      return getInterestPerSecondForDoubleExponent(constants.maxAPR, constants.coefficients, totals);
+    }
+    if (constants.interestRateModel === 'Polynomial') {
+      return getInterestPerSecondForPolynomial(constants.maxAPR, constants.coefficients, totals);
+    }
+    if (constants.interestRateModel === 'AAVECopyCat') {
+      return getInterestPerSecondForAAVECopyCat(constants.isStableCoin, totals);
+    }
+    return INTEGERS.ZERO;
+  }
+
+  /**
+   * Setters don't report which model they implement. Only the Polynomial and DoubleExponent setters have `getMaxAPR`
+   * and `getCoefficients`, and the model is then whichever one's formula matches the rates the setter returns.
+   */
+  private async getInterestRateModelForSetter(
+    interestSetter: address,
+    token: address,
+    options?: ContractConstantCallOptions,
+  ): Promise<InterestRateModelData | null> {
+    const contracts = this.getContracts();
+    const setter: PolynomialInterestSetter = contracts.polynomialInterestSetter.clone();
+    setter.options.address = interestSetter;
+
+    const [rates, parameters] = await Promise.all([
+      Promise.all(INTEREST_SETTER_PROBES.map(async (totals) => {
+        const result = await contracts.callConstantContractFunction(
+          setter.methods.getInterestRate(token, totals.totalBorrowed.toFixed(0), totals.totalSupply.toFixed(0)),
+          options,
+        );
+        return stringToDecimal(result.value);
+      })),
+      this.getSetterParameters(setter, options),
+    ]);
+
+    let candidates: InterestRateModelData[];
+    if (parameters) {
+      candidates = [
+        { interestRateModel: 'Polynomial', ...parameters },
+        { interestRateModel: 'DoubleExponent', ...parameters },
+      ];
+    } else {
+      candidates = [
+        { interestRateModel: 'AlwaysZero' },
+        { interestRateModel: 'AAVECopyCat', isStableCoin: true },
+        { interestRateModel: 'AAVECopyCat', isStableCoin: false },
+      ];
     }
 
+    const match = candidates.find((candidate) => {
+      return INTEREST_SETTER_PROBES.every((totals, i) => {
+        return Interest.getBorrowInterestRate(candidate, totals).eq(rates[i]);
+      });
+    });
+    return match ?? null;
+  }
+
+  /**
+   * @return The parameters of a Polynomial or DoubleExponent setter, or null if the setter doesn't have them
+   */
+  private async getSetterParameters(
+    setter: PolynomialInterestSetter,
+    options?: ContractConstantCallOptions,
+  ): Promise<{ maxAPR: Decimal, coefficients: number[] } | null> {
+    const contracts = this.getContracts();
+    try {
+      const [maxAPR, coefficients] = await Promise.all([
+        contracts.callConstantContractFunction(setter.methods.getMaxAPR(), options),
+        contracts.callConstantContractFunction(setter.methods.getCoefficients(), options),
+      ]);
+      return {
+        maxAPR: stringToDecimal(maxAPR),
+        coefficients: coefficients.map(coefficient => Number(coefficient)),
+      };
+    } catch (e) {
+      return null;
+    }
+  }
+
+  private getContracts(): Contracts {
+    if (!this.contracts) {
+      throw new Error('Interest must be constructed with contracts to read from chain');
+    }
+    return this.contracts;
+  }
+
+  private getGetters(): Getters {
+    if (!this.getters) {
+      throw new Error('Interest must be constructed with getters to read from chain');
+    }
+    return this.getters;
+  }
+
+  private getInterestPerSecond(
+    constants: InterestRateModelData,
+    totals: { totalBorrowed: Integer; totalSupply: Integer },
+    earningsRate: Decimal,
+  ): {
+    borrowInterestRate: Integer,
+    supplyInterestRate: Integer,
+  } {
+    // determine the borrow interest rate (capped at 18 decimal places)
+    const borrowInterestRate = Interest.getBorrowInterestRate(constants, totals);
+
     // determine the supply interest rate (uncapped decimal places)
     let supplyInterestRate = borrowInterestRate.times(earningsRate);
     if (totals.totalBorrowed.lt(totals.totalSupply)) {
@@ -96,8 +462,6 @@ export class Interest {
     };
   }
 
-  // ============ Private Helper Functions ============
-
   private getNetworkConstants() {
     const networkConstants = interestConstants[this.networkId];
     if (!networkConstants) {
@@ -106,7 +470,7 @@ export class Interest {
     return networkConstants;
   }
 
-  private getMarketConstants(marketId: Integer): AlwaysZeroData | AAVECopyCatData | DoubleExponentData {
+  private getMarketConstants(marketId: Integer): InterestRateModelData {
     const networkConstants = this.getNetworkConstants();
     const constants = networkConstants[marketId.toFixed(0)];
     if (!constants) {
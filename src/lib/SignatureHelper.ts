@@ -1,14 +1,35 @@
+import BigNumber from 'bignumber.js';
 import { ethers } from 'ethers';
 import Web3 from 'web3';
+import { Tx } from 'web3/eth/types';
 import { stripHexPrefix } from './BytesHelper';
-import { address } from '../types';
+import { address, Eip1559FeeOptions } from '../types';
 
 export enum SIGNATURE_TYPES {
   NO_PREPEND = 0,
   DECIMAL = 1,
   HEXADECIMAL = 2,
+  /**
+   * An EIP-1271 signature of a smart contract wallet, which can be of any length. Only verified off-chain; the
+   * SignedOperationProxy does not accept it.
+   */
+  CONTRACT = 3,
 }
 
+/**
+ * Returned by `isValidSignature(bytes32,bytes)` of an EIP-1271 contract when the signature is valid
+ */
+export const EIP1271_MAGIC_VALUE: string = '0x1626ba7e';
+
+export const EIP1271_IS_VALID_SIGNATURE_ABI = {
+  name: 'isValidSignature',
+  type: 'function',
+  inputs: [
+    { name: 'hash', type: 'bytes32' },
+    { name: 'signature', type: 'bytes' },
+  ],
+};
+
 export const PREPEND_DEC: string = '\x19Ethereum Signed Message:\n32';
 
 export const PREPEND_HEX: string = '\x19Ethereum Signed Message:\n\x20';
@@ -82,6 +103,24 @@ export function ecRecoverTypedSignature(
   );
 }
 
+/**
+ * Wraps the signature of a smart contract wallet, which the wallet checks in `isValidSignature`.
+ */
+export function createContractTypedSignature(signature: string): string {
+  return `0x${stripHexPrefix(signature)}0${SIGNATURE_TYPES.CONTRACT}`;
+}
+
+export function getTypedSignatureType(typedSignature: string): number {
+  return parseInt(typedSignature.slice(-2), 16);
+}
+
+/**
+ * Returns the signature without its trailing type byte.
+ */
+export function getTypedSignatureWithoutType(typedSignature: string): string {
+  return `0x${stripHexPrefix(typedSignature).slice(0, -2)}`;
+}
+
 export function createTypedSignature(
   signature: string,
   sigType: number,
@@ -117,3 +156,45 @@ export function fixRawSignature(signature: string): string {
       throw new Error(`Invalid v value: ${v}`);
   }
 }
+
+/**
+ * Signs an EIP-1559 (type 2) transaction with the private key and returns the raw transaction, which is
+ * `0x02 || rlp([chainId, nonce, maxPriorityFeePerGas, maxFeePerGas, gas, to, value, data, accessList, yParity, r, s])`.
+ * Neither web3 nor ethers 4 can serialize these transactions, so the envelope is encoded here.
+ */
+export function signEip1559Transaction(
+  tx: Tx & Eip1559FeeOptions,
+  chainId: number,
+  privateKey: string,
+): string {
+  const fields = [
+    toRlpQuantity(chainId),
+    toRlpQuantity(tx.nonce),
+    toRlpQuantity(tx.maxPriorityFeePerGas),
+    toRlpQuantity(tx.maxFeePerGas),
+    toRlpQuantity(tx.gas),
+    tx.to ? tx.to.toLowerCase() : '0x',
+    toRlpQuantity(tx.value),
+    tx.data || '0x',
+    [],
+  ];
+  const digest = ethers.utils.keccak256(ethers.utils.concat(['0x02', ethers.utils.RLP.encode(fields)]));
+  const signature = new ethers.utils.SigningKey(privateKey).signDigest(digest);
+  const signedFields = fields.concat([
+    toRlpQuantity(signature.recoveryParam),
+    ethers.utils.hexStripZeros(signature.r),
+    ethers.utils.hexStripZeros(signature.s),
+  ]);
+  return ethers.utils.hexlify(ethers.utils.concat(['0x02', ethers.utils.RLP.encode(signedFields)]));
+}
+
+/**
+ * RLP encodes quantities as big-endian bytes without leading zeros, so zero is the empty string
+ */
+function toRlpQuantity(value: number | string | BigNumber | undefined): string {
+  const hex = new BigNumber(value || 0).toString(16);
+  if (hex === '0') {
+    return '0x';
+  }
+  return `0x${hex.length % 2 === 0 ? '' : '0'}${hex}`;
+}
@@ -0,0 +1,173 @@
+import axios from 'axios';
+import { promisify } from 'es6-promisify';
+import { ethers } from 'ethers';
+import Web3 from 'web3';
+import { addressesAreEqual } from './BytesHelper';
+import { address, Eip1193Provider, SigningMethod, SigningProvider } from '../types';
+
+interface TypedDataRequest {
+  method: string;
+  data: object | string;
+}
+
+function utf8ToHex(message: string): string {
+  return ethers.utils.hexlify(ethers.utils.toUtf8Bytes(message));
+}
+
+function getTypedDataRequest(data: object, signingMethod: SigningMethod): TypedDataRequest {
+  switch (signingMethod) {
+    case SigningMethod.TypedData:
+    case SigningMethod.CoinbaseWallet:
+      return { data, method: 'eth_signTypedData' };
+    case SigningMethod.MetaMask:
+      return { method: 'eth_signTypedData_v3', data: JSON.stringify(data) };
+    case SigningMethod.MetaMaskLatest:
+      return { method: 'eth_signTypedData_v4', data: JSON.stringify(data) };
+    default:
+      throw new Error(`Invalid signing method ${signingMethod}`);
+  }
+}
+
+/**
+ * Signs with the accounts of a web3 provider, either unlocked on the node or loaded into `web3.eth.accounts.wallet`.
+ */
+export class Web3SigningProvider implements SigningProvider {
+  private web3: Web3;
+
+  constructor(web3: Web3) {
+    this.web3 = web3;
+  }
+
+  public async signHash(hash: string, signer: address): Promise<string> {
+    return this.web3.eth.sign(hash, signer);
+  }
+
+  public async signMessage(message: string, signer: address): Promise<string> {
+    return this.web3.eth.sign(utf8ToHex(message), signer);
+  }
+
+  public async signTypedData(
+    signer: address,
+    data: object,
+    hash: string,
+    signingMethod: SigningMethod,
+  ): Promise<string> {
+    const { method, data: rpcData } = getTypedDataRequest(data, signingMethod);
+    const sendMethod = signingMethod === SigningMethod.TypedData ? 'send' : 'sendAsync';
+
+    const provider = this.web3.currentProvider;
+    const sendAsync = promisify(provider[sendMethod]).bind(provider);
+    const response = await sendAsync({
+      method,
+      params: [signer, rpcData],
+      jsonrpc: '2.0',
+      id: new Date().getTime(),
+    });
+    if (response.error) {
+      throw new Error(response.error.message);
+    }
+    return response.result;
+  }
+}
+
+/**
+ * Signs in memory with a private key, without a provider. Typed data is signed through its EIP-712 hash, so every
+ * typed data `SigningMethod` produces the same signature.
+ */
+export class PrivateKeySigningProvider implements SigningProvider {
+  private signingKey: ethers.utils.SigningKey;
+
+  constructor(privateKey: string) {
+    this.signingKey = new ethers.utils.SigningKey(privateKey);
+  }
+
+  public get address(): address {
+    return this.signingKey.address;
+  }
+
+  public async signHash(hash: string, signer: address): Promise<string> {
+    this.checkSigner(signer);
+    return this.signDigest(ethers.utils.hashMessage(ethers.utils.arrayify(hash)));
+  }
+
+  public async signMessage(message: string, signer: address): Promise<string> {
+    this.checkSigner(signer);
+    return this.signDigest(ethers.utils.hashMessage(message));
+  }
+
+  public async signTypedData(
+    signer: address,
+    data: object,
+    hash: string,
+    signingMethod: SigningMethod,
+  ): Promise<string> {
+    this.checkSigner(signer);
+    getTypedDataRequest(data, signingMethod); // throws for signing methods that are not for typed data
+    return this.signDigest(hash);
+  }
+
+  private signDigest(digest: string): string {
+    return ethers.utils.joinSignature(this.signingKey.signDigest(digest));
+  }
+
+  private checkSigner(signer: address): void {
+    if (!addressesAreEqual(signer, this.address)) {
+      throw new Error(`Cannot sign for ${signer} with the private key of ${this.address}`);
+    }
+  }
+}
+
+/**
+ * Signs by sending requests to an EIP-1193 provider, such as a browser wallet.
+ */
+export class Eip1193SigningProvider implements SigningProvider {
+  private provider: Eip1193Provider;
+
+  constructor(provider: Eip1193Provider) {
+    this.provider = provider;
+  }
+
+  public async signHash(hash: string, signer: address): Promise<string> {
+    return this.provider.request({ method: 'eth_sign', params: [signer, hash] });
+  }
+
+  public async signMessage(message: string, signer: address): Promise<string> {
+    return this.provider.request({ method: 'personal_sign', params: [utf8ToHex(message), signer] });
+  }
+
+  public async signTypedData(
+    signer: address,
+    data: object,
+    hash: string,
+    signingMethod: SigningMethod,
+  ): Promise<string> {
+    const { method, data: rpcData } = getTypedDataRequest(data, signingMethod);
+    return this.provider.request({ method, params: [signer, rpcData] });
+  }
+}
+
+/**
+ * Signs by sending JSON-RPC requests to a remote signer, such as Clef or Web3Signer, over HTTP.
+ */
+export class RemoteSigningProvider extends Eip1193SigningProvider {
+  constructor(url: string, headers: { [name: string]: string } = {}) {
+    super({
+      request: async ({ method, params }) => {
+        const response = await axios.post(
+          url,
+          {
+            method,
+            params,
+            jsonrpc: '2.0',
+            id: new Date().getTime(),
+          },
+          { headers },
+        );
+        if (response.data.error) {
+          throw new Error(response.data.error.message);
+        }
+        return response.data.result;
+      },
+    });
+  }
+}
@@ -0,0 +1,139 @@
+import { ethers } from 'ethers';
+import { stripHexPrefix } from './BytesHelper';
+import { SiweMessage, SiweNonceStore } from '../types';
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+const RESOURCES_LINE = 'Resources:';
+
+/**
+ * @return A random nonce of 32 hexadecimal characters
+ */
+export function generateSiweNonce(): string {
+  return stripHexPrefix(ethers.utils.hexlify(ethers.utils.randomBytes(16)));
+}
+
+/**
+ * Formats the message as the text that is signed, following the EIP-4361 ABNF.
+ */
+export function formatSiweMessage(message: SiweMessage): string {
+  const lines = [
+    `${message.domain}${HEADER_SUFFIX}`,
+    ethers.utils.getAddress(message.address),
+    '',
+    message.statement === undefined ? '' : `${message.statement}\n`,
+    `URI: ${message.uri}`,
+    `Version: ${message.version}`,
+    `Chain ID: ${message.chainId}`,
+    `Nonce: ${message.nonce}`,
+    `Issued At: ${message.issuedAt.toISOString()}`,
+  ];
+  if (message.expirationTime) {
+    lines.push(`Expiration Time: ${message.expirationTime.toISOString()}`);
+  }
+  if (message.notBefore) {
+    lines.push(`Not Before: ${message.notBefore.toISOString()}`);
+  }
+  if (message.requestId !== undefined) {
+    lines.push(`Request ID: ${message.requestId}`);
+  }
+  if (message.resources && message.resources.length > 0) {
+    lines.push(RESOURCES_LINE);
+    message.resources.forEach(resource => lines.push(`- ${resource}`));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Parses the text of a message created by `formatSiweMessage` or any other EIP-4361 implementation.
+ */
+export function parseSiweMessage(text: string): SiweMessage {
+  const lines = text.split('\n');
+  if (lines.length < 4 || !lines[0].endsWith(HEADER_SUFFIX) || lines[2] !== '') {
+    throw new Error('Invalid Sign-In with Ethereum message: invalid header');
+  }
+
+  let statement: string | undefined;
+  let index = 4;
+  if (lines[3] !== '') {
+    if (lines[4] !== '') {
+      throw new Error('Invalid Sign-In with Ethereum message: invalid statement');
+    }
+    statement = lines[3];
+    index = 5;
+  }
+
+  const fields: { [key: string]: string } = {};
+  let resources: string[] | undefined;
+  for (; index < lines.length; index += 1) {
+    const line = lines[index];
+    if (resources) {
+      if (!line.startsWith('- ')) {
+        throw new Error(`Invalid Sign-In with Ethereum message: invalid resource "${line}"`);
+      }
+      resources.push(line.substring(2));
+    } else if (line === RESOURCES_LINE) {
+      resources = [];
+    } else {
+      const separatorIndex = line.indexOf(': ');
+      if (separatorIndex < 0) {
+        throw new Error(`Invalid Sign-In with Ethereum message: invalid line "${line}"`);
+      }
+      fields[line.substring(0, separatorIndex)] = line.substring(separatorIndex + 2);
+    }
+  }
+
+  const getField = (key: string): string => {
+    if (fields[key] === undefined) {
+      throw new Error(`Invalid Sign-In with Ethereum message: missing ${key}`);
+    }
+    return fields[key];
+  };
+
+  return {
+    statement,
+    resources,
+    domain: lines[0].substring(0, lines[0].length - HEADER_SUFFIX.length),
+    address: ethers.utils.getAddress(lines[1]),
+    uri: getField('URI'),
+    version: getField('Version'),
+    chainId: Number(getField('Chain ID')),
+    nonce: getField('Nonce'),
+    issuedAt: parseDate(getField('Issued At')),
+    expirationTime: fields['Expiration Time'] === undefined ? undefined : parseDate(fields['Expiration Time']),
+    notBefore: fields['Not Before'] === undefined ? undefined : parseDate(fields['Not Before']),
+    requestId: fields['Request ID'],
+  };
+}
+
+/**
+ * Keeps the issued nonces in memory. Suited to a single server process; servers behind a load balancer should back
+ * `SiweNonceStore` with a shared database instead.
+ */
+export class InMemorySiweNonceStore implements SiweNonceStore {
+  private issuedNonces: Set<string>;
+
+  constructor() {
+    this.issuedNonces = new Set<string>();
+  }
+
+  /**
+   * @return A new nonce to put in the message the client signs
+   */
+  public issueNonce(): string {
+    const nonce = generateSiweNonce();
+    this.issuedNonces.add(nonce);
+    return nonce;
+  }
+
+  public async useNonce(nonce: string): Promise<boolean> {
+    return this.issuedNonces.delete(nonce);
+  }
+}
+
+function parseDate(value: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid Sign-In with Ethereum message: invalid date "${value}"`);
+  }
+  return date;
+}
@@ -0,0 +1,414 @@
+import BigNumber from 'bignumber.js';
+import { promisify } from 'es6-promisify';
+import { ethers } from 'ethers';
+import Web3 from 'web3';
+import { Tx } from 'web3/eth/types';
+import { TransactionReceipt } from 'web3/types';
+import {
+  address,
+  ConfirmationType,
+  Eip1559FeeOptions,
+  TransactionLifecycleEvent,
+  TransactionLifecycleEventType,
+  TransactionSender,
+  TxResult,
+} from '../types';
+import { signEip1559Transaction } from './SignatureHelper';
+
+const DEFAULT_GAS_PRICE_BUMP_MULTIPLIER = 1.125;
+const DEFAULT_POLLING_INTERVAL_MS = 1000;
+const DEFAULT_RECEIPT_TIMEOUT_MS = 750000;
+const CANCEL_GAS = 21000;
+
+export interface TransactionManagerOptions {
+  /**
+   * The multiplier applied to the gas price of a transaction when it's sped up or canceled. Defaults to 1.125, since
+   * most nodes only accept a replacement whose gas price is at least 10% higher. Both fees of EIP-1559 transactions
+   * are bumped by it.
+   */
+  gasPriceBumpMultiplier?: number;
+  /**
+   * The number of milliseconds between checks for the receipt of a pending transaction. Defaults to 1000.
+   */
+  pollingInterval?: number;
+  /**
+   * The number of milliseconds to wait for a transaction to be mined after its latest broadcast before it's no longer
+   * tracked, which emits a `TimedOut` event and fails its confirmation. Defaults to 750000, like `receiptTimeout` of
+   * `DolomiteMarginOptions`.
+   */
+  receiptTimeout?: number;
+  /**
+   * Called with each event as it happens, in addition to the event being added to `TxResult#lifecycleEvents`
+   */
+  onLifecycleEvent?: (event: TransactionLifecycleEvent) => void;
+}
+
+type ManagedTx = Tx & Eip1559FeeOptions;
+
+interface PendingTransaction {
+  tx: ManagedTx;
+  from: address;
+  nonce: number;
+  /**
+   * The original transaction and its replacements, from oldest to newest. `gasPrice` is the `maxFeePerGas` of
+   * EIP-1559 transactions and `timestamp` is when it was broadcast, in milliseconds.
+   */
+  broadcasts: { transactionHash: string; gasPrice: BigNumber; timestamp: number }[];
+  lifecycleEvents: TransactionLifecycleEvent[];
+}
+
+/**
+ * Sends transactions with nonces that it assigns itself, so several transactions from the same sender can be sent
+ * in the same block, and lets pending transactions be sped up or canceled by re-broadcasting them with a higher gas
+ * price. Transactions are signed with the accounts in `web3.eth.accounts.wallet` or, for other accounts, by the node.
+ */
+export class TransactionManager implements TransactionSender {
+  private web3: Web3;
+  private gasPriceBumpMultiplier: number;
+  private pollingInterval: number;
+  private receiptTimeout: number;
+  private onLifecycleEvent?: (event: TransactionLifecycleEvent) => void;
+  private nextNonces: { [sender: string]: number };
+  private nonceReservations: { [sender: string]: Promise<void> };
+  private pendingTransactions: PendingTransaction[];
+  private chainId: number | undefined;
+
+  constructor(web3: Web3, options: TransactionManagerOptions = {}) {
+    this.web3 = web3;
+    this.gasPriceBumpMultiplier = options.gasPriceBumpMultiplier || DEFAULT_GAS_PRICE_BUMP_MULTIPLIER;
+    this.pollingInterval = options.pollingInterval || DEFAULT_POLLING_INTERVAL_MS;
+    this.receiptTimeout = options.receiptTimeout || DEFAULT_RECEIPT_TIMEOUT_MS;
+    this.onLifecycleEvent = options.onLifecycleEvent;
+    this.nextNonces = {};
+    this.nonceReservations = {};
+    this.pendingTransactions = [];
+  }
+
+  public async sendTransaction(
+    tx: ManagedTx,
+    options: { confirmationType: ConfirmationType; confirmations?: number },
+  ): Promise<TxResult> {
+    if (!tx.from) {
+      throw new Error('No "from" address specified');
+    }
+
+    const from = tx.from;
+    const nonce = await this.reserveNonce(from);
+    let managedTx: ManagedTx;
+    if (tx.maxFeePerGas !== undefined) {
+      managedTx = { ...tx, nonce };
+    } else {
+      const gasPrice = tx.gasPrice || await this.web3.eth.getGasPrice();
+      managedTx = { ...tx, nonce, gasPrice: new BigNumber(gasPrice).toFixed(0) };
+    }
+    const pending: PendingTransaction = {
+      from,
+      nonce,
+      tx: managedTx,
+      broadcasts: [],
+      lifecycleEvents: [],
+    };
+
+    let transactionHash: string;
+    try {
+      transactionHash = await this.signAndBroadcast(pending, pending.tx);
+    } catch (error) {
+      // The nonce may not have been used, so the next one is read from the node again
+      delete this.nextNonces[from.toLowerCase()];
+      throw error;
+    }
+    this.pendingTransactions.push(pending);
+
+    if (options.confirmationType === ConfirmationType.Hash) {
+      this.waitForReceipt(pending, options.confirmations).catch(() => undefined);
+      return { transactionHash, lifecycleEvents: pending.lifecycleEvents };
+    }
+
+    const confirmation = this.waitForReceipt(pending, options.confirmations);
+    if (options.confirmationType === ConfirmationType.Confirmed) {
+      const receipt = await confirmation;
+      return { ...receipt, lifecycleEvents: pending.lifecycleEvents };
+    }
+
+    return {
+      transactionHash,
+      confirmation,
+      lifecycleEvents: pending.lifecycleEvents,
+    };
+  }
+
+  /**
+   * Re-broadcasts a pending transaction with a higher gas price. For EIP-1559 transactions, the gas price is the new
+   * `maxFeePerGas` and the priority fee is bumped by `gasPriceBumpMultiplier`.
+   *
+   * @param transactionHash The hash of the transaction or of any of its replacements
+   * @param gasPrice        Defaults to the last gas price multiplied by `gasPriceBumpMultiplier`
+   * @return The hash of the replacement
+   */
+  public async speedUp(transactionHash: string, gasPrice?: BigNumber): Promise<string> {
+    const pending = this.getPendingTransaction(transactionHash);
+    return this.replace(pending, pending.tx, gasPrice);
+  }
+
+  /**
+   * Replaces a pending transaction with a transfer of zero ETH from the sender to itself, which uses the same nonce
+   * and a higher gas price.
+   *
+   * @param transactionHash The hash of the transaction or of any of its replacements
+   * @param gasPrice        Defaults to the last gas price multiplied by `gasPriceBumpMultiplier`
+   * @return The hash of the replacement
+   */
+  public async cancel(transactionHash: string, gasPrice?: BigNumber): Promise<string> {
+    const pending = this.getPendingTransaction(transactionHash);
+    const cancelTx: ManagedTx = {
+      from: pending.from,
+      to: pending.from,
+      value: '0',
+      data: '0x',
+      gas: CANCEL_GAS,
+      nonce: pending.nonce,
+    };
+    return this.replace(pending, cancelTx, gasPrice);
+  }
+
+  /**
+   * @return The hash of the latest broadcast of each pending transaction of the sender, from the lowest nonce to the
+   *         highest
+   */
+  public getPendingTransactionHashes(from: address): string[] {
+    return this.pendingTransactions
+      .filter(pending => pending.from.toLowerCase() === from.toLowerCase())
+      .sort((a, b) => a.nonce - b.nonce)
+      .map(pending => pending.broadcasts[pending.broadcasts.length - 1].transactionHash);
+  }
+
+  /**
+   * Forgets the nonce assigned to the sender's last transaction, so that the next nonce is read from the node. Useful
+   * when transactions for the same account are also sent from elsewhere.
+   */
+  public resetNonce(from: address): void {
+    delete this.nextNonces[from.toLowerCase()];
+  }
+
+  // ============ Private Helper Functions ============
+
+  private reserveNonce(from: address): Promise<number> {
+    const key = from.toLowerCase();
+    const reservation = (this.nonceReservations[key] || Promise.resolve()).then(async () => {
+      const pendingCount = await this.web3.eth.getTransactionCount(from, 'pending');
+      const nonce = Math.max(pendingCount, this.nextNonces[key] || 0);
+      this.nextNonces[key] = nonce + 1;
+      return nonce;
+    });
+    this.nonceReservations[key] = reservation.then(() => undefined, () => undefined);
+    return reservation;
+  }
+
+  private getPendingTransaction(transactionHash: string): PendingTransaction {
+    const pending = this.pendingTransactions.find((p) => {
+      return p.broadcasts.some(broadcast => broadcast.transactionHash === transactionHash);
+    });
+    if (!pending) {
+      throw new Error(`Transaction ${transactionHash} is not pending`);
+    }
+    return pending;
+  }
+
+  private async replace(pending: PendingTransaction, tx: ManagedTx, gasPrice?: BigNumber): Promise<string> {
+    const { transactionHash: replacedHash, gasPrice: lastGasPrice } = pending.broadcasts[pending.broadcasts.length - 1];
+    const newGasPrice = gasPrice || lastGasPrice.times(this.gasPriceBumpMultiplier).integerValue(BigNumber.ROUND_UP);
+    if (newGasPrice.lte(lastGasPrice)) {
+      throw new Error(`Gas price must be higher than the last gas price of ${lastGasPrice.toFixed(0)}`);
+    }
+
+    let replacementTx: ManagedTx;
+    if (pending.tx.maxFeePerGas !== undefined) {
+      const priorityFee = new BigNumber(pending.tx.maxPriorityFeePerGas || 0)
+        .times(this.gasPriceBumpMultiplier)
+        .integerValue(BigNumber.ROUND_UP);
+      replacementTx = {
+        ...tx,
+        maxFeePerGas: newGasPrice.toFixed(0),
+        maxPriorityFeePerGas: BigNumber.min(priorityFee, newGasPrice).toFixed(0),
+      };
+    } else {
+      replacementTx = { ...tx, gasPrice: newGasPrice.toFixed(0) };
+    }
+    const transactionHash = await this.signAndBroadcast(pending, replacementTx);
+    this.emit(pending, TransactionLifecycleEventType.Replaced, replacedHash, lastGasPrice, transactionHash);
+    return transactionHash;
+  }
+
+  private async signAndBroadcast(pending: PendingTransaction, tx: ManagedTx): Promise<string> {
+    const wallet: any = this.web3.eth.accounts.wallet;
+    const account = wallet[pending.from.toLowerCase()] || wallet[pending.from];
+    const isEip1559 = tx.maxFeePerGas !== undefined;
+    let rawTransaction: string;
+    if (account && isEip1559) {
+      rawTransaction = signEip1559Transaction(tx, await this.getChainId(), account.privateKey);
+    } else if (account) {
+      rawTransaction = (await this.web3.eth.accounts.signTransaction(tx, account.privateKey)).rawTransaction;
+    } else {
+      rawTransaction = await this.signWithNode(tx, pending.from);
+    }
+    const transactionHash = ethers.utils.keccak256(rawTransaction);
+    const gasPrice = new BigNumber(isEip1559 ? tx.maxFeePerGas : tx.gasPrice);
+    this.emit(pending, TransactionLifecycleEventType.Signed, transactionHash, gasPrice);
+
+    await new Promise((resolve, reject) => {
+      const promi: any = this.web3.eth.sendSignedTransaction(rawTransaction);
+      promi.on('error', (error: Error) => {
+        reject(error);
+        promi.off();
+      });
+      promi.on('transactionHash', (txHash: string) => {
+        resolve(txHash);
+        promi.off();
+      });
+    });
+
+    pending.tx = tx;
+    pending.broadcasts.push({ transactionHash, gasPrice, timestamp: Date.now() });
+    this.emit(pending, TransactionLifecycleEventType.Broadcast, transactionHash, gasPrice);
+
+    return transactionHash;
+  }
+
+  private async getChainId(): Promise<number> {
+    if (this.chainId === undefined) {
+      const provider: any = this.web3.currentProvider;
+      const send = promisify(provider.send).bind(provider);
+      const response = await send({
+        method: 'eth_chainId',
+        params: [],
+        jsonrpc: '2.0',
+        id: new Date().getTime(),
+      });
+      if (response.error) {
+        throw new Error(response.error.message);
+      }
+      this.chainId = Number(response.result);
+    }
+    return this.chainId;
+  }
+
+  /**
+   * web3 doesn't know the EIP-1559 fields, so those transactions are signed with `eth_signTransaction` directly
+   */
+  private async signWithNode(tx: ManagedTx, from: address): Promise<string> {
+    if (tx.maxFeePerGas === undefined) {
+      return (await this.web3.eth.signTransaction(tx, from)).raw;
+    }
+
+    const provider: any = this.web3.currentProvider;
+    const send = promisify(provider.send).bind(provider);
+    const response = await send({
+      method: 'eth_signTransaction',
+      params: [{
+        from,
+        to: tx.to,
+        data: tx.data,
+        nonce: Web3.utils.toHex(tx.nonce),
+        value: Web3.utils.toHex(new BigNumber(tx.value || 0).toFixed(0)),
+        gas: Web3.utils.toHex(new BigNumber(tx.gas).toFixed(0)),
+        maxFeePerGas: Web3.utils.toHex(new BigNumber(tx.maxFeePerGas).toFixed(0)),
+        maxPriorityFeePerGas: Web3.utils.toHex(new BigNumber(tx.maxPriorityFeePerGas || 0).toFixed(0)),
+        type: '0x2',
+      }],
+      jsonrpc: '2.0',
+      id: new Date().getTime(),
+    });
+    if (response.error) {
+      throw new Error(response.error.message);
+    }
+    return response.result.raw;
+  }
+
+  private async waitForReceipt(pending: PendingTransaction, confirmations?: number): Promise<TransactionReceipt> {
+    let receipt: TransactionReceipt | null = null;
+    while (!receipt) {
+      receipt = await this.getReceipt(pending);
+      if (!receipt) {
+        const latestCount = await this.web3.eth.getTransactionCount(pending.from, 'latest');
+        if (latestCount > pending.nonce) {
+          // The nonce was used, so either one of the transactions was just mined or another transaction took its place
+          receipt = await this.getReceipt(pending);
+          if (!receipt) {
+            return this.drop(pending);
+          }
+        } else if (Date.now() - pending.broadcasts[pending.broadcasts.length - 1].timestamp >= this.receiptTimeout) {
+          return this.timeOut(pending);
+        } else {
+          await this.sleep();
+        }
+      }
+    }
+
+    this.removePending(pending);
+    const mined = pending.broadcasts.find(broadcast => broadcast.transactionHash === receipt.transactionHash);
+    this.emit(pending, TransactionLifecycleEventType.Mined, mined.transactionHash, mined.gasPrice);
+
+    if (confirmations && confirmations > 1) {
+      while (await this.web3.eth.getBlockNumber() < receipt.blockNumber + confirmations - 1) {
+        await this.sleep();
+      }
+    }
+
+    if (!receipt.status) {
+      throw new Error(`Transaction ${receipt.transactionHash} was reverted`);
+    }
+    return receipt;
+  }
+
+  private async getReceipt(pending: PendingTransaction): Promise<TransactionReceipt | null> {
+    const receipts = await Promise.all(
+      pending.broadcasts.map(({ transactionHash }) => this.web3.eth.getTransactionReceipt(transactionHash)),
+    );
+    return receipts.find(receipt => !!receipt) || null;
+  }
+
+  private drop(pending: PendingTransaction): never {
+    this.removePending(pending);
+    const { transactionHash, gasPrice } = pending.broadcasts[pending.broadcasts.length - 1];
+    this.emit(pending, TransactionLifecycleEventType.Dropped, transactionHash, gasPrice);
+    throw new Error(`Transaction ${transactionHash} was dropped, since its nonce was used by another transaction`);
+  }
+
+  private timeOut(pending: PendingTransaction): never {
+    this.removePending(pending);
+    const { transactionHash, gasPrice } = pending.broadcasts[pending.broadcasts.length - 1];
+    this.emit(pending, TransactionLifecycleEventType.TimedOut, transactionHash, gasPrice);
+    throw new Error(`Transaction ${transactionHash} was not mined within ${this.receiptTimeout}ms`);
+  }
+
+  private removePending(pending: PendingTransaction): void {
+    this.pendingTransactions = this.pendingTransactions.filter(p => p !== pending);
+  }
+
+  private emit(
+    pending: PendingTransaction,
+    type: TransactionLifecycleEventType,
+    transactionHash: string,
+    gasPrice: BigNumber,
+    replacedBy?: string,
+  ): void {
+    const event: TransactionLifecycleEvent = {
+      type,
+      transactionHash,
+      from: pending.from,
+      nonce: pending.nonce,
+      gasPrice: gasPrice.toFixed(0),
+    };
+    if (replacedBy) {
+      event.replacedBy = replacedBy;
+    }
+    pending.lifecycleEvents.push(event);
+    if (this.onLifecycleEvent) {
+      this.onLifecycleEvent(event);
+    }
+  }
+
+  private sleep(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, this.pollingInterval));
+  }
+}
@@ -0,0 +1,374 @@
+import {
+  AccountIndexerChanges,
+  AccountIndexerStore,
+  AccountIndexerUndoLog,
+  address,
+  Balance,
+  BalanceUpdate,
+  DolomiteMarginLog,
+  DolomiteMarginLogName,
+  Index,
+  Integer,
+  LogStreamBatch,
+  LogStreamCheckpoint,
+  LogStreamOptions,
+} from '../types';
+import DolomiteMarginMath from './DolomiteMarginMath';
+import { InMemoryAccountIndexerStore } from './AccountIndexerStore';
+import { DEFAULT_REORG_DEPTH, LogStream } from './LogStream';
+
+const INDEXED_EVENT_NAMES: DolomiteMarginLogName[] = [
+  'LogIndexUpdate',
+  'LogDeposit',
+  'LogWithdraw',
+  'LogTransfer',
+  'LogBuy',
+  'LogSell',
+  'LogTrade',
+  'LogLiquidate',
+  'LogVaporize',
+  'LogAddMarket',
+  'ExpirySet',
+];
+
+/**
+ * Rebuilds the par balance of every account and the expiry of every borrow from the logs of DolomiteMargin and Expiry.
+ * Each balance-changing event contains the new par of every account that it touches, so the state doesn't depend on
+ * replaying interest accrual. The query functions mirror the ones in `Getters` and `Expiry`.
+ *
+ * The changes of the last `reorgDepth` blocks are kept in an undo log, so the state can be rolled back when those
+ * blocks are reorganized out of the chain.
+ */
+export class AccountIndexer {
+  private logStream: LogStream;
+  private store: AccountIndexerStore;
+
+  constructor(logStream: LogStream, store: AccountIndexerStore = new InMemoryAccountIndexerStore()) {
+    this.logStream = logStream;
+    this.store = store;
+  }
+
+  /**
+   * Indexes every block after the stored checkpoint, or from `fromBlock` if nothing has been indexed yet. Pass the
+   * block in which DolomiteMargin was deployed as `fromBlock` to index every account.
+   *
+   * @return The checkpoint of the last block that was indexed
+   */
+  public async sync(
+    fromBlock: number,
+    streamOptions: LogStreamOptions = {},
+  ): Promise<LogStreamCheckpoint> {
+    const checkpoint = await this.store.getCheckpoint();
+    return this.logStream.replay(
+      checkpoint ?? fromBlock,
+      batch => this.applyBatch(batch, streamOptions.reorgDepth),
+      { ...streamOptions, eventNames: INDEXED_EVENT_NAMES },
+    );
+  }
+
+  /**
+   * Applies the logs of a batch to the store, after rolling back the blocks that were reorganized out of the chain.
+   * Batches must be applied in order.
+   *
+   * @param reorgDepth  The number of blocks whose changes are kept so they can be rolled back. It should match the
+   *                    `reorgDepth` of the `LogStream` batches, which defaults to 64.
+   */
+  public async applyBatch(batch: LogStreamBatch, reorgDepth: number = DEFAULT_REORG_DEPTH): Promise<void> {
+    const [storedUndoLog, checkpoint] = await Promise.all([this.store.getUndoLog(), this.store.getCheckpoint()]);
+    // Nothing before the stored checkpoint can be undone if the store doesn't have an undo log yet
+    const undoLog: AccountIndexerUndoLog = storedUndoLog ?? {
+      fromBlock: checkpoint ? checkpoint.blockNumber + 1 : batch.fromBlock,
+      entries: [],
+    };
+    const changes = AccountIndexer.createChanges();
+    let entries = [...undoLog.entries];
+
+    if (batch.reorgFromBlock !== null) {
+      const { reorgFromBlock } = batch;
+      if (reorgFromBlock < undoLog.fromBlock) {
+        throw new Error(
+          `Cannot revert the indexed state to block ${reorgFromBlock}, since changes are only kept from block `
+          + `${undoLog.fromBlock}. Reindex from scratch, or sync with more confirmations`,
+        );
+      }
+      entries
+        .filter(entry => entry.blockNumber >= reorgFromBlock)
+        .reverse()
+        .forEach(entry => AccountIndexer.appendChanges(changes, entry.changes));
+      entries = entries.filter(entry => entry.blockNumber < reorgFromBlock);
+    }
+
+    const previousValues = new PreviousValues(this.store);
+    previousValues.apply(changes);
+    const logsByBlock = new Map<number, DolomiteMarginLog[]>();
+    batch.logs.forEach((log) => {
+      logsByBlock.set(log.blockNumber, [...(logsByBlock.get(log.blockNumber) || []), log]);
+    });
+    const blocks = Array.from(logsByBlock.entries());
+    for (let i = 0; i < blocks.length; i += 1) {
+      const [blockNumber, logs] = blocks[i];
+      const blockChanges = AccountIndexer.createChanges();
+      logs.forEach(log => AccountIndexer.addChanges(blockChanges, log));
+      entries.push({ blockNumber, changes: await previousValues.getUndoChanges(blockChanges) });
+      previousValues.apply(blockChanges);
+      AccountIndexer.appendChanges(changes, blockChanges);
+    }
+
+    const fromBlock = Math.max(undoLog.fromBlock, batch.checkpoint.blockNumber - reorgDepth + 1);
+    await this.store.commit(
+      changes,
+      batch.checkpoint,
+      { fromBlock, entries: entries.filter(entry => entry.blockNumber >= fromBlock) },
+    );
+  }
+
+  // ============ Getter Functions ============
+
+  public async getCheckpoint(): Promise<LogStreamCheckpoint | null> {
+    return this.store.getCheckpoint();
+  }
+
+  /**
+   * The index as of the last `LogIndexUpdate` of the market. Unlike `Getters.getMarketCurrentIndex`, interest that
+   * accrued since then isn't included.
+   */
+  public async getMarketIndex(marketId: Integer): Promise<Index | null> {
+    return this.store.getMarketIndex(marketId);
+  }
+
+  public async getAccountPar(
+    accountOwner: address,
+    accountNumber: Integer,
+    marketId: Integer,
+  ): Promise<Integer> {
+    return this.store.getAccountPar(accountOwner, accountNumber, marketId);
+  }
+
+  /**
+   * The wei balance, using the index of the market's last `LogIndexUpdate`
+   */
+  public async getAccountWei(
+    accountOwner: address,
+    accountNumber: Integer,
+    marketId: Integer,
+  ): Promise<Integer> {
+    const [par, index] = await Promise.all([
+      this.store.getAccountPar(accountOwner, accountNumber, marketId),
+      this.store.getMarketIndex(marketId),
+    ]);
+    return AccountIndexer.parToWei(par, index);
+  }
+
+  /**
+   * The balances of every market in which the account has a non-zero par balance, sorted by market ID. The wei
+   * balances use the index of each market's last `LogIndexUpdate`, and the token address is null for markets that
+   * were added before the first indexed block.
+   */
+  public async getAccountBalances(
+    accountOwner: address,
+    accountNumber: Integer,
+  ): Promise<Balance[]> {
+    const marketIds = await this.store.getAccountMarketIds(accountOwner, accountNumber);
+    return Promise.all(marketIds.map(async (marketId) => {
+      const [tokenAddress, par, index] = await Promise.all([
+        this.store.getMarketTokenAddress(marketId),
+        this.store.getAccountPar(accountOwner, accountNumber, marketId),
+        this.store.getMarketIndex(marketId),
+      ]);
+      return {
+        marketId,
+        tokenAddress,
+        par,
+        wei: AccountIndexer.parToWei(par, index),
+      };
+    }));
+  }
+
+  public async getExpiry(
+    accountOwner: address,
+    accountNumber: Integer,
+    marketId: Integer,
+  ): Promise<Integer> {
+    return this.store.getExpiry(accountOwner, accountNumber, marketId);
+  }
+
+  // ============ Private Helper Functions ============
+
+  private static parToWei(par: Integer, index: Index | null): Integer {
+    // Markets start with an index of 1 and the first `LogIndexUpdate` is only emitted once the market is used
+    return index ? DolomiteMarginMath.parToWei(par, index) : par;
+  }
+
+  private static createChanges(): AccountIndexerChanges {
+    return {
+      marketTokenAddresses: [],
+      marketIndexes: [],
+      accountPars: [],
+      expiries: [],
+    };
+  }
+
+  private static appendChanges(changes: AccountIndexerChanges, newChanges: AccountIndexerChanges): void {
+    changes.marketTokenAddresses.push(...newChanges.marketTokenAddresses);
+    changes.marketIndexes.push(...newChanges.marketIndexes);
+    changes.accountPars.push(...newChanges.accountPars);
+    changes.expiries.push(...newChanges.expiries);
+  }
+
+  private static addChanges(changes: AccountIndexerChanges, log: DolomiteMarginLog): void {
+    const addPar = (owner: address, accountNumber: Integer, marketId: Integer, update: BalanceUpdate) => {
+      changes.accountPars.push({ owner, marketId, number: accountNumber, par: update.newPar });
+    };
+
+    switch (log.name) {
+      case 'LogIndexUpdate':
+        changes.marketIndexes.push({ marketId: log.args.market, index: log.args.index });
+        break;
+      case 'LogAddMarket':
+        changes.marketTokenAddresses.push({ marketId: log.args.marketId, tokenAddress: log.args.token });
+        break;
+      case 'LogDeposit':
+      case 'LogWithdraw':
+        addPar(log.args.accountOwner, log.args.accountNumber, log.args.market, log.args.update);
+        break;
+      case 'LogTransfer':
+        addPar(log.args.accountOneOwner, log.args.accountOneNumber, log.args.market, log.args.updateOne);
+        addPar(log.args.accountTwoOwner, log.args.accountTwoNumber, log.args.market, log.args.updateTwo);
+        break;
+      case 'LogBuy':
+      case 'LogSell':
+        addPar(log.args.accountOwner, log.args.accountNumber, log.args.takerMarket, log.args.takerUpdate);
+        addPar(log.args.accountOwner, log.args.accountNumber, log.args.makerMarket, log.args.makerUpdate);
+        break;
+      case 'LogTrade': {
+        const { args } = log;
+        addPar(args.takerAccountOwner, args.takerAccountNumber, args.inputMarket, args.takerInputUpdate);
+        addPar(args.takerAccountOwner, args.takerAccountNumber, args.outputMarket, args.takerOutputUpdate);
+        addPar(args.makerAccountOwner, args.makerAccountNumber, args.inputMarket, args.makerInputUpdate);
+        addPar(args.makerAccountOwner, args.makerAccountNumber, args.outputMarket, args.makerOutputUpdate);
+        break;
+      }
+      case 'LogLiquidate': {
+        const { args } = log;
+        addPar(args.solidAccountOwner, args.solidAccountNumber, args.heldMarket, args.solidHeldUpdate);
+        addPar(args.solidAccountOwner, args.solidAccountNumber, args.owedMarket, args.solidOwedUpdate);
+        addPar(args.liquidAccountOwner, args.liquidAccountNumber, args.heldMarket, args.liquidHeldUpdate);
+        addPar(args.liquidAccountOwner, args.liquidAccountNumber, args.owedMarket, args.liquidOwedUpdate);
+        break;
+      }
+      case 'LogVaporize': {
+        const { args } = log;
+        addPar(args.solidAccountOwner, args.solidAccountNumber, args.heldMarket, args.solidHeldUpdate);
+        addPar(args.solidAccountOwner, args.solidAccountNumber, args.owedMarket, args.solidOwedUpdate);
+        addPar(args.vaporAccountOwner, args.vaporAccountNumber, args.owedMarket, args.vaporOwedUpdate);
+        break;
+      }
+      case 'ExpirySet':
+        changes.expiries.push({
+          owner: log.args.owner,
+          number: log.args.number,
+          marketId: log.args.marketId,
+          expiry: log.args.time,
+        });
+        break;
+      default:
+        break;
+    }
+  }
+}
+
+/**
+ * Tracks the values of the state as the changes of a batch are applied, so the changes that undo each block can be
+ * built. Values that weren't changed yet are read from the store.
+ */
+class PreviousValues {
+  private store: AccountIndexerStore;
+  private values: Map<string, any>;
+
+  constructor(store: AccountIndexerStore) {
+    this.store = store;
+    this.values = new Map<string, any>();
+  }
+
+  /**
+   * @return The changes that restore the values from before `changes` are applied
+   */
+  public async getUndoChanges(changes: AccountIndexerChanges): Promise<AccountIndexerChanges> {
+    const undoChanges: AccountIndexerChanges = {
+      marketTokenAddresses: [],
+      marketIndexes: [],
+      accountPars: [],
+      expiries: [],
+    };
+    const keys = new Set<string>();
+    const isFirstChange = (key: string) => {
+      const isFirst = !keys.has(key);
+      keys.add(key);
+      return isFirst;
+    };
+
+    for (let i = 0; i < changes.marketTokenAddresses.length; i += 1) {
+      const { marketId } = changes.marketTokenAddresses[i];
+      const key = PreviousValues.getMarketKey('tokenAddress', marketId);
+      if (isFirstChange(key)) {
+        const tokenAddress = await this.get(key, () => this.store.getMarketTokenAddress(marketId));
+        undoChanges.marketTokenAddresses.push({ marketId, tokenAddress });
+      }
+    }
+    for (let i = 0; i < changes.marketIndexes.length; i += 1) {
+      const { marketId } = changes.marketIndexes[i];
+      const key = PreviousValues.getMarketKey('index', marketId);
+      if (isFirstChange(key)) {
+        const index = await this.get(key, () => this.store.getMarketIndex(marketId));
+        undoChanges.marketIndexes.push({ marketId, index });
+      }
+    }
+    for (let i = 0; i < changes.accountPars.length; i += 1) {
+      const { owner, marketId, ...account } = changes.accountPars[i];
+      const key = PreviousValues.getAccountKey('par', owner, account.number, marketId);
+      if (isFirstChange(key)) {
+        const par = await this.get(key, () => this.store.getAccountPar(owner, account.number, marketId));
+        undoChanges.accountPars.push({ owner, marketId, par, number: account.number });
+      }
+    }
+    for (let i = 0; i < changes.expiries.length; i += 1) {
+      const { owner, marketId, ...account } = changes.expiries[i];
+      const key = PreviousValues.getAccountKey('expiry', owner, account.number, marketId);
+      if (isFirstChange(key)) {
+        const expiry = await this.get(key, () => this.store.getExpiry(owner, account.number, marketId));
+        undoChanges.expiries.push({ owner, marketId, expiry, number: account.number });
+      }
+    }
+    return undoChanges;
+  }
+
+  public apply(changes: AccountIndexerChanges): void {
+    changes.marketTokenAddresses.forEach(({ marketId, tokenAddress }) => {
+      this.values.set(PreviousValues.getMarketKey('tokenAddress', marketId), tokenAddress);
+    });
+    changes.marketIndexes.forEach(({ marketId, index }) => {
+      this.values.set(PreviousValues.getMarketKey('index', marketId), index);
+    });
+    changes.accountPars.forEach(({ owner, marketId, par, ...account }) => {
+      this.values.set(PreviousValues.getAccountKey('par', owner, account.number, marketId), par);
+    });
+    changes.expiries.forEach(({ owner, marketId, expiry, ...account }) => {
+      this.values.set(PreviousValues.getAccountKey('expiry', owner, account.number, marketId), expiry);
+    });
+  }
+
+  private async get<T>(key: string, read: () => Promise<T>): Promise<T> {
+    if (!this.values.has(key)) {
+      this.values.set(key, await read());
+    }
+    return this.values.get(key);
+  }
+
+  private static getMarketKey(field: string, marketId: Integer): string {
+    return `${field}-${marketId.toFixed(0)}`;
+  }
+
+  private static getAccountKey(field: string, owner: address, accountNumber: Integer, marketId: Integer): string {
+    return `${field}-${owner.toLowerCase()}-${accountNumber.toFixed(0)}-${marketId.toFixed(0)}`;
+  }
+}
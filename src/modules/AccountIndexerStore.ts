@@ -0,0 +1,221 @@
+import BigNumber from 'bignumber.js';
+import {
+  AccountIndexerChanges,
+  AccountIndexerStore,
+  AccountIndexerUndoLog,
+  address,
+  Index,
+  Integer,
+  LogStreamCheckpoint,
+} from '../types';
+
+interface SerializedIndex {
+  borrow: string;
+  supply: string;
+  lastUpdate: string;
+}
+
+interface SerializedChanges {
+  marketTokenAddresses: { marketId: string; tokenAddress: address | null }[];
+  marketIndexes: { marketId: string; index: SerializedIndex | null }[];
+  accountPars: { owner: address; number: string; marketId: string; par: string }[];
+  expiries: { owner: address; number: string; marketId: string; expiry: string }[];
+}
+
+interface AccountIndexerState {
+  checkpoint: LogStreamCheckpoint | null;
+  undoLog?: {
+    fromBlock: number;
+    entries: { blockNumber: number; changes: SerializedChanges }[];
+  } | null;
+  tokenAddresses: { [marketId: string]: address };
+  indexes: { [marketId: string]: SerializedIndex };
+  /**
+   * Keyed by account and then by market ID. Zero balances are removed.
+   */
+  pars: { [accountKey: string]: { [marketId: string]: string } };
+  expiries: { [accountKey: string]: { [marketId: string]: string } };
+}
+
+/**
+ * Keeps the indexed state in memory. The state is lost when the process exits. It's kept in a JSON-compatible form, so
+ * subclasses can persist it as is, like `JsonFileAccountIndexerStore` does.
+ */
+export class InMemoryAccountIndexerStore implements AccountIndexerStore {
+  protected state: AccountIndexerState;
+
+  constructor() {
+    this.state = {
+      checkpoint: null,
+      undoLog: null,
+      tokenAddresses: {},
+      indexes: {},
+      pars: {},
+      expiries: {},
+    };
+  }
+
+  public async getCheckpoint(): Promise<LogStreamCheckpoint | null> {
+    return this.state.checkpoint;
+  }
+
+  public async getUndoLog(): Promise<AccountIndexerUndoLog | null> {
+    const { undoLog } = this.state;
+    if (!undoLog) {
+      return null;
+    }
+    return {
+      fromBlock: undoLog.fromBlock,
+      entries: undoLog.entries.map(({ blockNumber, changes }) => ({
+        blockNumber,
+        changes: InMemoryAccountIndexerStore.deserializeChanges(changes),
+      })),
+    };
+  }
+
+  public async getMarketTokenAddress(marketId: Integer): Promise<address | null> {
+    return this.state.tokenAddresses[marketId.toFixed(0)] ?? null;
+  }
+
+  public async getMarketIndex(marketId: Integer): Promise<Index | null> {
+    const index = this.state.indexes[marketId.toFixed(0)];
+    return index ? InMemoryAccountIndexerStore.deserializeIndex(index) : null;
+  }
+
+  public async getAccountPar(accountOwner: address, accountNumber: Integer, marketId: Integer): Promise<Integer> {
+    const pars = this.state.pars[InMemoryAccountIndexerStore.getAccountKey(accountOwner, accountNumber)] || {};
+    return new BigNumber(pars[marketId.toFixed(0)] ?? 0);
+  }
+
+  public async getAccountMarketIds(accountOwner: address, accountNumber: Integer): Promise<Integer[]> {
+    const pars = this.state.pars[InMemoryAccountIndexerStore.getAccountKey(accountOwner, accountNumber)] || {};
+    return Object.keys(pars)
+      .map(marketId => new BigNumber(marketId))
+      .sort((a, b) => a.comparedTo(b));
+  }
+
+  public async getExpiry(accountOwner: address, accountNumber: Integer, marketId: Integer): Promise<Integer> {
+    const expiries = this.state.expiries[InMemoryAccountIndexerStore.getAccountKey(accountOwner, accountNumber)] || {};
+    return new BigNumber(expiries[marketId.toFixed(0)] ?? 0);
+  }
+
+  public async commit(
+    changes: AccountIndexerChanges,
+    checkpoint: LogStreamCheckpoint,
+    undoLog: AccountIndexerUndoLog,
+  ): Promise<void> {
+    const serializedChanges = InMemoryAccountIndexerStore.serializeChanges(changes);
+    serializedChanges.marketTokenAddresses.forEach(({ marketId, tokenAddress }) => {
+      if (tokenAddress === null) {
+        delete this.state.tokenAddresses[marketId];
+      } else {
+        this.state.tokenAddresses[marketId] = tokenAddress;
+      }
+    });
+    serializedChanges.marketIndexes.forEach(({ marketId, index }) => {
+      if (index === null) {
+        delete this.state.indexes[marketId];
+      } else {
+        this.state.indexes[marketId] = index;
+      }
+    });
+    serializedChanges.accountPars.forEach(({ marketId, par, ...account }) => {
+      const accountKey = InMemoryAccountIndexerStore.getAccountKey(account.owner, new BigNumber(account.number));
+      const pars = this.state.pars[accountKey] || {};
+      if (new BigNumber(par).isZero()) {
+        delete pars[marketId];
+      } else {
+        pars[marketId] = par;
+      }
+
+      if (Object.keys(pars).length === 0) {
+        delete this.state.pars[accountKey];
+      } else {
+        this.state.pars[accountKey] = pars;
+      }
+    });
+    serializedChanges.expiries.forEach(({ marketId, expiry, ...account }) => {
+      const accountKey = InMemoryAccountIndexerStore.getAccountKey(account.owner, new BigNumber(account.number));
+      this.state.expiries[accountKey] = {
+        ...this.state.expiries[accountKey],
+        [marketId]: expiry,
+      };
+    });
+    this.state.checkpoint = checkpoint;
+    this.state.undoLog = {
+      fromBlock: undoLog.fromBlock,
+      entries: undoLog.entries.map(entry => ({
+        blockNumber: entry.blockNumber,
+        changes: InMemoryAccountIndexerStore.serializeChanges(entry.changes),
+      })),
+    };
+  }
+
+  // ============ Private Helper Functions ============
+
+  private static getAccountKey(accountOwner: address, accountNumber: Integer): string {
+    return `${accountOwner.toLowerCase()}-${accountNumber.toFixed(0)}`;
+  }
+
+  private static deserializeIndex(index: SerializedIndex): Index {
+    return {
+      borrow: new BigNumber(index.borrow),
+      supply: new BigNumber(index.supply),
+      lastUpdate: new BigNumber(index.lastUpdate),
+    };
+  }
+
+  private static serializeChanges(changes: AccountIndexerChanges): SerializedChanges {
+    return {
+      marketTokenAddresses: changes.marketTokenAddresses.map(({ marketId, tokenAddress }) => ({
+        tokenAddress,
+        marketId: marketId.toFixed(0),
+      })),
+      marketIndexes: changes.marketIndexes.map(({ marketId, index }) => ({
+        marketId: marketId.toFixed(0),
+        index: index && {
+          borrow: index.borrow.toFixed(),
+          supply: index.supply.toFixed(),
+          lastUpdate: index.lastUpdate.toFixed(0),
+        },
+      })),
+      accountPars: changes.accountPars.map(({ owner, marketId, par, ...account }) => ({
+        owner,
+        number: account.number.toFixed(0),
+        marketId: marketId.toFixed(0),
+        par: par.toFixed(0),
+      })),
+      expiries: changes.expiries.map(({ owner, marketId, expiry, ...account }) => ({
+        owner,
+        number: account.number.toFixed(0),
+        marketId: marketId.toFixed(0),
+        expiry: expiry.toFixed(0),
+      })),
+    };
+  }
+
+  private static deserializeChanges(changes: SerializedChanges): AccountIndexerChanges {
+    return {
+      marketTokenAddresses: changes.marketTokenAddresses.map(({ marketId, tokenAddress }) => ({
+        tokenAddress,
+        marketId: new BigNumber(marketId),
+      })),
+      marketIndexes: changes.marketIndexes.map(({ marketId, index }) => ({
+        marketId: new BigNumber(marketId),
+        index: index && InMemoryAccountIndexerStore.deserializeIndex(index),
+      })),
+      accountPars: changes.accountPars.map(({ owner, marketId, par, ...account }) => ({
+        owner,
+        number: new BigNumber(account.number),
+        marketId: new BigNumber(marketId),
+        par: new BigNumber(par),
+      })),
+      expiries: changes.expiries.map(({ owner, marketId, expiry, ...account }) => ({
+        owner,
+        number: new BigNumber(account.number),
+        marketId: new BigNumber(marketId),
+        expiry: new BigNumber(expiry),
+      })),
+    };
+  }
+}
@@ -0,0 +1,215 @@
+import BigNumber from 'bignumber.js';
+import { INTEGERS } from '../lib/Constants';
+import {
+  AccountRisk,
+  AccountStatus,
+  address,
+  Balance,
+  ContractConstantCallOptions,
+  Decimal,
+  Integer,
+  MarketRisk,
+  Values,
+} from '../types';
+import DolomiteMarginMath from './DolomiteMarginMath';
+import { Getters } from './Getters';
+
+interface MarketBalance {
+  marketId: Integer;
+  wei: Integer;
+}
+
+/**
+ * Calculates how close an account is to being liquidated, and how much can be withdrawn or borrowed from it, using the
+ * same premium-adjusted math as DolomiteMargin. Every value is in the same units as `Values`.
+ */
+export class AccountRiskCalculator {
+  private getters: Getters;
+
+  constructor(getters: Getters) {
+    this.getters = getters;
+  }
+
+  // ============ Getters ============
+
+  /**
+   * @param additionalMarketIds Markets in which the account has no balance, but for which `maxBorrowWei` is needed
+   */
+  public async getAccountRisk(
+    owner: address,
+    accountNumber: Integer,
+    additionalMarketIds: Integer[] = [],
+    options?: ContractConstantCallOptions,
+  ): Promise<AccountRisk> {
+    const { blockNumber, results: accountResults } = await this.getters
+      .batch()
+      .getMarginRatio()
+      .getAccountStatus(owner, accountNumber)
+      .getAccountBalances(owner, accountNumber)
+      .execute(options);
+    const marginRatio: Decimal = accountResults[0];
+    const accountStatus: AccountStatus = accountResults[1];
+    const balances: MarketBalance[] = (accountResults[2] as Balance[])
+      .filter(({ wei }) => !wei.isZero())
+      .map(({ marketId, wei }) => ({ marketId, wei }));
+    additionalMarketIds
+      .filter(marketId => !balances.some(balance => balance.marketId.eq(marketId)))
+      .forEach(marketId => balances.push({ marketId, wei: INTEGERS.ZERO }));
+
+    const prices: { [marketId: string]: Integer } = {};
+    const marginPremiums: { [marketId: string]: Decimal } = {};
+    if (balances.length > 0) {
+      const marketBatch = this.getters.batch();
+      balances.forEach(({ marketId }) => marketBatch.getMarketPrice(marketId).getMarketMarginPremium(marketId));
+      const { results: marketResults } = await marketBatch.execute({ ...options, blockNumber });
+      balances.forEach(({ marketId }, i) => {
+        prices[marketId.toFixed()] = marketResults[2 * i];
+        marginPremiums[marketId.toFixed()] = marketResults[(2 * i) + 1];
+      });
+    }
+
+    const adjustedValues = AccountRiskCalculator.getAdjustedAccountValues(balances, prices, marginPremiums);
+    const markets: MarketRisk[] = balances.map(({ marketId, wei }) => {
+      const price = prices[marketId.toFixed()];
+      const marginPremium = marginPremiums[marketId.toFixed()];
+      return {
+        marketId,
+        wei,
+        price,
+        marginPremium,
+        liquidationPrice: wei.isZero()
+          ? null
+          : AccountRiskCalculator.getLiquidationPrice(wei, price, marginPremium, adjustedValues, marginRatio),
+        maxWithdrawWei: AccountRiskCalculator.getMaxWithdrawWei(wei, price, marginPremium, adjustedValues, marginRatio),
+        maxBorrowWei: AccountRiskCalculator.getMaxBorrowWei(wei, price, marginPremium, adjustedValues, marginRatio),
+      };
+    });
+
+    return {
+      owner,
+      marginRatio,
+      adjustedValues,
+      markets,
+      number: accountNumber,
+      healthFactor: adjustedValues.borrow.isZero()
+        ? null
+        : adjustedValues.supply.div(AccountRiskCalculator.getRequiredSupply(adjustedValues.borrow, marginRatio)),
+      isLiquidatable: Getters.isLiquidatable(accountStatus, marginRatio, adjustedValues),
+    };
+  }
+
+  // ============ Helper Functions ============
+
+  /**
+   * Sums the value of each balance, dividing supply values by one plus the market's margin premium and multiplying
+   * borrow values by it, rounding each one down like `Storage#getAccountValues`.
+   */
+  public static getAdjustedAccountValues(
+    balances: MarketBalance[],
+    prices: { [marketId: string]: Integer },
+    marginPremiums: { [marketId: string]: Decimal },
+  ): Values {
+    const base = INTEGERS.INTEREST_RATE_BASE;
+    return balances.reduce(
+      (values, { marketId, wei }) => {
+        const assetValue = wei.abs().times(prices[marketId.toFixed()]);
+        const adjust = marginPremiums[marketId.toFixed()].plus(1).times(base).integerValue();
+        if (wei.gt(0)) {
+          return { ...values, supply: values.supply.plus(DolomiteMarginMath.getPartial(assetValue, base, adjust)) };
+        }
+        return { ...values, borrow: values.borrow.plus(DolomiteMarginMath.getPartial(assetValue, adjust, base)) };
+      },
+      { supply: INTEGERS.ZERO, borrow: INTEGERS.ZERO },
+    );
+  }
+
+  /**
+   * Solves for the price at which the adjusted supply value falls below the required supply value, if only the price
+   * of this balance's market changes.
+   */
+  public static getLiquidationPrice(
+    wei: Integer,
+    price: Integer,
+    marginPremium: Decimal,
+    adjustedValues: Values,
+    marginRatio: Decimal,
+  ): Integer | null {
+    if (adjustedValues.borrow.isZero()) {
+      return null;
+    }
+
+    const adjust = marginPremium.plus(1);
+    let liquidationPrice: BigNumber;
+    if (wei.gt(0)) {
+      const otherSupply = adjustedValues.supply.minus(wei.times(price).div(adjust));
+      liquidationPrice = AccountRiskCalculator.getRequiredSupply(adjustedValues.borrow, marginRatio)
+        .minus(otherSupply)
+        .times(adjust)
+        .div(wei);
+    } else {
+      const otherBorrow = adjustedValues.borrow.minus(wei.abs().times(price).times(adjust));
+      liquidationPrice = adjustedValues.supply
+        .div(marginRatio.plus(1))
+        .minus(otherBorrow)
+        .div(wei.abs().times(adjust));
+    }
+
+    return liquidationPrice.gt(0) ? liquidationPrice.integerValue(BigNumber.ROUND_DOWN) : null;
+  }
+
+  public static getMaxWithdrawWei(
+    wei: Integer,
+    price: Integer,
+    marginPremium: Decimal,
+    adjustedValues: Values,
+    marginRatio: Decimal,
+  ): Integer {
+    if (wei.lte(0)) {
+      return INTEGERS.ZERO;
+    }
+
+    const excessSupply = AccountRiskCalculator.getExcessSupply(adjustedValues, marginRatio);
+    if (adjustedValues.borrow.isZero() || excessSupply.gte(wei.times(price).div(marginPremium.plus(1)))) {
+      return wei;
+    }
+    return BigNumber.max(
+      excessSupply.times(marginPremium.plus(1)).div(price).integerValue(BigNumber.ROUND_DOWN),
+      INTEGERS.ZERO,
+    );
+  }
+
+  public static getMaxBorrowWei(
+    wei: Integer,
+    price: Integer,
+    marginPremium: Decimal,
+    adjustedValues: Values,
+    marginRatio: Decimal,
+  ): Integer {
+    const adjust = marginPremium.plus(1);
+    const withdrawnSupply = wei.gt(0) ? wei.times(price).div(adjust) : INTEGERS.ZERO;
+    const excessSupply = AccountRiskCalculator.getExcessSupply(adjustedValues, marginRatio).minus(withdrawnSupply);
+    if (excessSupply.lte(0)) {
+      return INTEGERS.ZERO;
+    }
+
+    // Each unit that's borrowed adds its adjusted value to the borrow value and that times the margin ratio to the
+    // required margin
+    return excessSupply
+      .div(price.times(adjust).times(marginRatio.plus(1)))
+      .integerValue(BigNumber.ROUND_DOWN);
+  }
+
+  // ============ Private Helper Functions ============
+
+  /**
+   * The adjusted supply value needed to stay collateralized, computed like `Storage#isCollateralized`
+   */
+  private static getRequiredSupply(borrow: Integer, marginRatio: Decimal): Integer {
+    const base = INTEGERS.INTEREST_RATE_BASE;
+    return borrow.plus(DolomiteMarginMath.getPartial(borrow, marginRatio.times(base).integerValue(), base));
+  }
+
+  private static getExcessSupply(adjustedValues: Values, marginRatio: Decimal): Integer {
+    return adjustedValues.supply.minus(AccountRiskCalculator.getRequiredSupply(adjustedValues.borrow, marginRatio));
+  }
+}
@@ -0,0 +1,112 @@
+import BigNumber from 'bignumber.js';
+import { TransactionObject } from 'web3/eth/types';
+import { Contracts } from '../lib/Contracts';
+import {
+  address,
+  ContractCallOptions,
+  Integer,
+} from '../types';
+import { Getters } from './Getters';
+import { AccountOperation } from './operate/AccountOperation';
+
+export interface TransactionCost {
+  /**
+   * The gas used to execute the transaction on L2, which is the node's gas estimate minus `l1Gas`
+   */
+  l2Gas: Integer;
+  /**
+   * The L2 base fee, which is paid for all of the gas of the transaction
+   */
+  l2GasPrice: Integer;
+  l2Cost: Integer;
+  /**
+   * The extra gas that ArbOS charges for posting the transaction's compressed calldata to L1. It's part of the node's
+   * gas estimate and is priced at the L2 base fee.
+   */
+  l1Gas: Integer;
+  /**
+   * ArbOS's estimate of the L1 base fee, which determines `l1Gas`
+   */
+  l1GasPrice: Integer;
+  l1Cost: Integer;
+  /**
+   * The total cost in wei of ETH
+   */
+  totalCost: Integer;
+  /**
+   * The total cost in USD, in the same units as `Values` (36 decimals), so it can be compared to the value of a
+   * liquidation reward such as `ExpiryLiquidation#expectedProfit`
+   */
+  totalCostUsd: Integer;
+}
+
+/**
+ * Estimates the total cost of sending transactions on Arbitrum, which is the cost of executing them on L2 plus the
+ * cost of posting their calldata to L1. Both are estimated by the NodeInterface of the Arbitrum node, and the cost is
+ * converted to USD using the price of the WETH market.
+ */
+export class ArbitrumCostEstimator {
+  private contracts: Contracts;
+  private getters: Getters;
+
+  constructor(contracts: Contracts, getters: Getters) {
+    this.contracts = contracts;
+    this.getters = getters;
+  }
+
+  /**
+   * @param method  Any transaction object of the contracts, such as `contracts.dolomiteMargin.methods.operate(...)`
+   * @param options The options the transaction would be sent with, which must include `from`
+   */
+  public async estimateTransactionCost<T>(
+    method: TransactionObject<T>,
+    options: ContractCallOptions = {},
+  ): Promise<TransactionCost> {
+    return this.getCost((method as any)._parent._address, method.encodeABI(), options);
+  }
+
+  /**
+   * @param operation The operation, which isn't committed
+   * @param options   The options the operation would be committed with, which must include `from`
+   */
+  public async estimateOperationCost(
+    operation: AccountOperation,
+    options: ContractCallOptions = {},
+  ): Promise<TransactionCost> {
+    return this.getCost(operation.getTarget(), operation.encode(options), options);
+  }
+
+  // ============ Private Helper Functions ============
+
+  private async getCost(to: address, calldata: string, options: ContractCallOptions): Promise<TransactionCost> {
+    const [components, ethPrice] = await Promise.all([
+      this.contracts.callConstantContractFunction(
+        this.contracts.arbitrumNodeInterface.methods.gasEstimateComponents(to, false, calldata),
+        { from: options.from, value: options.value },
+      ),
+      this.getEthPrice(),
+    ]);
+
+    const gasEstimate = new BigNumber(components.gasEstimate);
+    const l1Gas = new BigNumber(components.gasEstimateForL1);
+    const l2GasPrice = new BigNumber(components.baseFee);
+    const l2Gas = gasEstimate.minus(l1Gas);
+    const totalCost = gasEstimate.times(l2GasPrice);
+
+    return {
+      l2Gas,
+      l2GasPrice,
+      l1Gas,
+      totalCost,
+      l2Cost: l2Gas.times(l2GasPrice),
+      l1GasPrice: new BigNumber(components.l1BaseFeeEstimate),
+      l1Cost: l1Gas.times(l2GasPrice),
+      totalCostUsd: totalCost.times(ethPrice),
+    };
+  }
+
+  private async getEthPrice(): Promise<Integer> {
+    const wethMarketId = await this.getters.getMarketIdByTokenAddress(this.contracts.weth.options.address);
+    return this.getters.getMarketPrice(wethMarketId);
+  }
+}
@@ -0,0 +1,337 @@
+import { INTEGERS } from '../lib/Constants';
+import {
+  AccountStatus,
+  address,
+  Balance,
+  BalanceCheckFlag,
+  BorrowPosition,
+  BorrowPositionCollateral,
+  ContractCallOptions,
+  ContractConstantCallOptions,
+  Decimal,
+  Integer,
+  TxResult,
+  Values,
+} from '../types';
+import { AccountRiskCalculator } from './AccountRiskCalculator';
+import { BorrowPositionProxyV2 } from './BorrowPositionProxyV2';
+import { Getters } from './Getters';
+
+const DEFAULT_BATCH_SIZE = 50;
+
+/**
+ * Manages borrow positions, which are isolated accounts of an owner that are opened, funded and closed through
+ * `BorrowPositionProxyV2`. Account number 0 is treated as the owner's main account, so it's never allocated to a
+ * position.
+ */
+export class BorrowPositionManager {
+  private borrowPositionProxyV2: BorrowPositionProxyV2;
+  private getters: Getters;
+
+  constructor(borrowPositionProxyV2: BorrowPositionProxyV2, getters: Getters) {
+    this.borrowPositionProxyV2 = borrowPositionProxyV2;
+    this.getters = getters;
+  }
+
+  // ============ Getters ============
+
+  /**
+   * Finds account numbers of the owner that have no balances, scanning upwards from `fromAccountNumber`. Numbers are
+   * not reserved, so positions that are opened concurrently should be given the numbers up front.
+   */
+  public async getUnusedAccountNumbers(
+    owner: address,
+    count: number = 1,
+    fromAccountNumber: Integer = INTEGERS.ONE,
+    options?: ContractConstantCallOptions,
+  ): Promise<Integer[]> {
+    const unused: Integer[] = [];
+    let start = fromAccountNumber;
+    while (unused.length < count) {
+      const accountNumbers = Array.from({ length: DEFAULT_BATCH_SIZE }, (_, i) => start.plus(i));
+      const batch = this.getters.batch();
+      accountNumbers.forEach(accountNumber => batch.getAccountMarketsWithBalances(owner, accountNumber));
+      const { results } = await batch.execute(options);
+
+      accountNumbers
+        .filter((_, i) => (results[i] as Integer[]).length === 0)
+        .slice(0, count - unused.length)
+        .forEach(accountNumber => unused.push(accountNumber));
+      start = start.plus(DEFAULT_BATCH_SIZE);
+    }
+    return unused;
+  }
+
+  public async getBorrowPosition(
+    owner: address,
+    accountNumber: Integer,
+    options?: ContractConstantCallOptions,
+  ): Promise<BorrowPosition> {
+    const [position] = await this.getBorrowPositions(owner, [accountNumber], options);
+    return position || this.getEmptyPosition(owner, accountNumber);
+  }
+
+  /**
+   * @return The positions of the given accounts that have a balance, in the same order. Empty accounts are omitted.
+   */
+  public async getBorrowPositions(
+    owner: address,
+    accountNumbers: Integer[],
+    options?: ContractConstantCallOptions,
+  ): Promise<BorrowPosition[]> {
+    if (accountNumbers.length === 0) {
+      return [];
+    }
+
+    const accountBatch = this.getters.batch().getMarginRatio();
+    accountNumbers.forEach((accountNumber) => {
+      accountBatch
+        .getAccountStatus(owner, accountNumber)
+        .getAdjustedAccountValues(owner, accountNumber)
+        .getAccountBalances(owner, accountNumber);
+    });
+    const { blockNumber, results: accountResults } = await accountBatch.execute(options);
+    const marginRatio: Decimal = accountResults[0];
+
+    const accounts = accountNumbers
+      .map((accountNumber, i) => ({
+        accountNumber,
+        accountStatus: accountResults[(3 * i) + 1] as AccountStatus,
+        adjustedValues: accountResults[(3 * i) + 2] as Values,
+        balances: (accountResults[(3 * i) + 3] as Balance[]).filter(({ wei }) => !wei.isZero()),
+      }))
+      .filter(({ balances }) => balances.length > 0);
+    if (accounts.length === 0) {
+      return [];
+    }
+
+    const marketIds: Integer[] = [];
+    accounts.forEach(({ balances }) => {
+      balances.forEach(({ marketId }) => {
+        if (!marketIds.some(id => id.eq(marketId))) {
+          marketIds.push(marketId);
+        }
+      });
+    });
+    const marketBatch = this.getters.batch();
+    marketIds.forEach(marketId => marketBatch.getMarketPrice(marketId).getMarketMarginPremium(marketId));
+    const { results: marketResults } = await marketBatch.execute({ ...options, blockNumber });
+
+    const prices: { [marketId: string]: Integer } = {};
+    const marginPremiums: { [marketId: string]: Decimal } = {};
+    marketIds.forEach((marketId, i) => {
+      prices[marketId.toFixed()] = marketResults[2 * i];
+      marginPremiums[marketId.toFixed()] = marketResults[(2 * i) + 1];
+    });
+
+    return accounts.map(({ accountNumber, accountStatus, adjustedValues, balances }) => {
+      const liquidationPrices: { [marketId: string]: Integer | null } = {};
+      balances.forEach((balance) => {
+        const key = balance.marketId.toFixed();
+        liquidationPrices[key] = AccountRiskCalculator.getLiquidationPrice(
+          balance.wei,
+          prices[key],
+          marginPremiums[key],
+          adjustedValues,
+          marginRatio,
+        );
+      });
+
+      return {
+        adjustedValues,
+        liquidationPrices,
+        owner,
+        number: accountNumber,
+        collateral: balances.filter(({ wei }) => wei.gt(0)),
+        debt: balances.filter(({ wei }) => wei.lt(0)),
+        collateralization: adjustedValues.borrow.isZero()
+          ? null
+          : adjustedValues.supply.div(adjustedValues.borrow),
+        isLiquidatable: Getters.isLiquidatable(accountStatus, marginRatio, adjustedValues),
+      };
+    });
+  }
+
+  // ============ Setters ============
+
+  /**
+   * Opens a position by moving the collateral from `fromAccountNumber` into the borrow account, which is allocated
+   * with `getUnusedAccountNumbers` if it's not given. The first collateral market opens the position and each of the
+   * others is transferred in its own transaction.
+   */
+  public async openBorrowPosition(
+    owner: address,
+    fromAccountNumber: Integer,
+    collateral: BorrowPositionCollateral[],
+    borrowAccountNumber?: Integer,
+    balanceCheckFlag: BalanceCheckFlag = BalanceCheckFlag.Both,
+    options: ContractCallOptions = {},
+  ): Promise<{ borrowAccountNumber: Integer; results: TxResult[] }> {
+    if (collateral.length === 0) {
+      throw new Error('No collateral to open the position with');
+    }
+
+    const accountNumber = borrowAccountNumber || (await this.getUnusedAccountNumbers(owner))[0];
+    const txOptions = { ...options, from: owner };
+    const results: TxResult[] = [];
+    results.push(await this.borrowPositionProxyV2.openBorrowPosition(
+      fromAccountNumber,
+      accountNumber,
+      collateral[0].marketId,
+      collateral[0].amountWei,
+      balanceCheckFlag,
+      txOptions,
+    ));
+    for (let i = 1; i < collateral.length; i += 1) {
+      results.push(await this.borrowPositionProxyV2.transferBetweenAccounts(
+        fromAccountNumber,
+        accountNumber,
+        collateral[i].marketId,
+        collateral[i].amountWei,
+        balanceCheckFlag,
+        txOptions,
+      ));
+    }
+    return { results, borrowAccountNumber: accountNumber };
+  }
+
+  /**
+   * The same as `openBorrowPosition`, for positions managed by a caller that's authorized on `BorrowPositionProxyV2`.
+   * The transactions are sent from `options.from`.
+   */
+  public async openBorrowPositionWithDifferentAccounts(
+    fromAccountOwner: address,
+    fromAccountNumber: Integer,
+    borrowAccountOwner: address,
+    collateral: BorrowPositionCollateral[],
+    borrowAccountNumber?: Integer,
+    balanceCheckFlag: BalanceCheckFlag = BalanceCheckFlag.Both,
+    options: ContractCallOptions = {},
+  ): Promise<{ borrowAccountNumber: Integer; results: TxResult[] }> {
+    if (collateral.length === 0) {
+      throw new Error('No collateral to open the position with');
+    }
+
+    const accountNumber = borrowAccountNumber || (await this.getUnusedAccountNumbers(borrowAccountOwner))[0];
+    const results: TxResult[] = [];
+    results.push(await this.borrowPositionProxyV2.openBorrowPositionWithDifferentAccounts(
+      fromAccountOwner,
+      fromAccountNumber,
+      borrowAccountOwner,
+      accountNumber,
+      collateral[0].marketId,
+      collateral[0].amountWei,
+      balanceCheckFlag,
+      options,
+    ));
+    for (let i = 1; i < collateral.length; i += 1) {
+      results.push(await this.borrowPositionProxyV2.transferBetweenAccountsWithDifferentAccounts(
+        fromAccountOwner,
+        fromAccountNumber,
+        borrowAccountOwner,
+        accountNumber,
+        collateral[i].marketId,
+        collateral[i].amountWei,
+        balanceCheckFlag,
+        options,
+      ));
+    }
+    return { results, borrowAccountNumber: accountNumber };
+  }
+
+  /**
+   * Repays every debt of the position from `toAccountNumber` and then moves all of its collateral back there.
+   */
+  public async closeBorrowPosition(
+    owner: address,
+    borrowAccountNumber: Integer,
+    toAccountNumber: Integer = INTEGERS.ZERO,
+    balanceCheckFlag: BalanceCheckFlag = BalanceCheckFlag.From,
+    options: ContractCallOptions = {},
+  ): Promise<TxResult[]> {
+    const position = await this.getBorrowPosition(owner, borrowAccountNumber);
+    if (position.collateral.length === 0 && position.debt.length === 0) {
+      throw new Error(`Account ${borrowAccountNumber.toFixed(0)} of ${owner} has no position to close`);
+    }
+
+    const txOptions = { ...options, from: owner };
+    const results: TxResult[] = [];
+    for (let i = 0; i < position.debt.length; i += 1) {
+      results.push(await this.borrowPositionProxyV2.repayAllForBorrowPosition(
+        toAccountNumber,
+        borrowAccountNumber,
+        position.debt[i].marketId,
+        balanceCheckFlag,
+        txOptions,
+      ));
+    }
+    if (position.collateral.length > 0) {
+      results.push(await this.borrowPositionProxyV2.closeBorrowPosition(
+        borrowAccountNumber,
+        toAccountNumber,
+        position.collateral.map(({ marketId }) => marketId),
+        txOptions,
+      ));
+    }
+    return results;
+  }
+
+  /**
+   * The same as `closeBorrowPosition`, for positions managed by a caller that's authorized on
+   * `BorrowPositionProxyV2`. The transactions are sent from `options.from`.
+   */
+  public async closeBorrowPositionWithDifferentAccounts(
+    borrowAccountOwner: address,
+    borrowAccountNumber: Integer,
+    toAccountOwner: address,
+    toAccountNumber: Integer = INTEGERS.ZERO,
+    balanceCheckFlag: BalanceCheckFlag = BalanceCheckFlag.From,
+    options: ContractCallOptions = {},
+  ): Promise<TxResult[]> {
+    const position = await this.getBorrowPosition(borrowAccountOwner, borrowAccountNumber);
+    if (position.collateral.length === 0 && position.debt.length === 0) {
+      throw new Error(
+        `Account ${borrowAccountNumber.toFixed(0)} of ${borrowAccountOwner} has no position to close`,
+      );
+    }
+
+    const results: TxResult[] = [];
+    for (let i = 0; i < position.debt.length; i += 1) {
+      results.push(await this.borrowPositionProxyV2.repayAllForBorrowPositionWithDifferentAccounts(
+        toAccountOwner,
+        toAccountNumber,
+        borrowAccountOwner,
+        borrowAccountNumber,
+        position.debt[i].marketId,
+        balanceCheckFlag,
+        options,
+      ));
+    }
+    if (position.collateral.length > 0) {
+      results.push(await this.borrowPositionProxyV2.closeBorrowPositionWithDifferentAccounts(
+        borrowAccountOwner,
+        borrowAccountNumber,
+        toAccountOwner,
+        toAccountNumber,
+        position.collateral.map(({ marketId }) => marketId),
+        options,
+      ));
+    }
+    return results;
+  }
+
+  // ============ Private Helper Functions ============
+
+  private getEmptyPosition(owner: address, accountNumber: Integer): BorrowPosition {
+    return {
+      owner,
+      number: accountNumber,
+      collateral: [],
+      debt: [],
+      adjustedValues: { supply: INTEGERS.ZERO, borrow: INTEGERS.ZERO },
+      collateralization: null,
+      isLiquidatable: false,
+      liquidationPrices: {},
+    };
+  }
+}
@@ -4,6 +4,7 @@ import {
   AccountInfo,
   address,
   ContractCallOptions,
+  ContractConstantCallOptions,
   Integer,
   TxResult,
 } from '../types';
@@ -99,9 +100,10 @@ export class DolomiteAmmPair {
     };
   }
 
-  public async getReservesWei(): Promise<Reserves> {
+  public async getReservesWei(options: ContractConstantCallOptions = {}): Promise<Reserves> {
     const { _reserve0, _reserve1, _blockTimestampLast } = await this.contracts.callConstantContractFunction(
-      this.pair.methods.getReservesWei()
+      this.pair.methods.getReservesWei(),
+      options,
     );
     return {
       reserve0: new BigNumber(_reserve0),
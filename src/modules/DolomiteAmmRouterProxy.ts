@@ -2,7 +2,15 @@
 
 import { BalanceCheckFlag } from '../index';
 import { Contracts } from '../lib/Contracts';
-import { address, AmountDenomination, AmountReference, ContractCallOptions, Integer, TxResult, } from '../types';
+import {
+  address,
+  AmountDenomination,
+  AmountReference,
+  ContractCallOptions,
+  ContractConstantCallOptions,
+  Integer,
+  TxResult,
+} from '../types';
 import { DolomiteAmmFactory } from './DolomiteAmmFactory';
 import { DolomiteAmmPair } from './DolomiteAmmPair';
 
@@ -38,30 +46,33 @@ export class DolomiteAmmRouterProxy {
     amountIn: Integer,
     tokenIn: address,
     tokenOut: address,
+    options: ContractConstantCallOptions = {},
   ): Promise<Integer> {
-    return this.getDolomiteAmmAmountOutWithPath(amountIn, [tokenIn, tokenOut]);
+    return this.getDolomiteAmmAmountOutWithPath(amountIn, [tokenIn, tokenOut], options);
   }
 
   public async getDolomiteAmmAmountOutWithPath(
     amountIn: Integer,
     path: address[],
+    options: ContractConstantCallOptions = {},
   ): Promise<Integer> {
-    const amounts = await this.getDolomiteAmmAmountsOutWithPath(amountIn, path);
+    const amounts = await this.getDolomiteAmmAmountsOutWithPath(amountIn, path, options);
     return amounts[amounts.length - 1];
   }
 
   public async getDolomiteAmmAmountsOutWithPath(
     amountIn: Integer,
     path: address[],
+    options: ContractConstantCallOptions = {},
   ): Promise<Integer[]> {
     const amounts = new Array<Integer>(path.length);
     amounts[0] = amountIn;
     const dolomiteAmmFactory = new DolomiteAmmFactory(this.contracts);
 
     for (let i = 0; i < path.length - 1; i += 1) {
-      const pairAddress = await dolomiteAmmFactory.getPair(path[i], path[i + 1]);
+      const pairAddress = await dolomiteAmmFactory.getPair(path[i], path[i + 1], options);
       const pair = new DolomiteAmmPair(this.contracts, this.contracts.getDolomiteAmmPair(pairAddress));
-      const { reserve0, reserve1 } = await pair.getReservesWei();
+      const { reserve0, reserve1 } = await pair.getReservesWei(options);
       const token0 = path[i] < path[i + 1] ? path[i] : path[i + 1];
       amounts[i + 1] = this.getDolomiteAmmAmountOutWithReserves(
         amounts[i],
@@ -0,0 +1,142 @@
+import BigNumber from 'bignumber.js';
+import { INTEGERS } from '../lib/Constants';
+import {
+  address,
+  ContractConstantCallOptions,
+  Decimal,
+  Integer,
+} from '../types';
+import { Expiry } from './Expiry';
+import { Getters } from './Getters';
+import { MultiCall } from './MultiCall';
+import { AccountOperation } from './operate/AccountOperation';
+import { Operation } from './operate/Operation';
+
+export interface ExpiryLiquidation {
+  /**
+   * The operation that closes the expired borrow, ready to be committed by a global operator
+   */
+  operation: AccountOperation;
+  expiry: Integer;
+  blockTimestamp: Integer;
+  /**
+   * The (positive) amount owed by the expired account in the expired market
+   */
+  owedWei: Integer;
+  /**
+   * The markets that are seized, from the largest supply value to the smallest
+   */
+  collateralPreferences: Integer[];
+  /**
+   * The value of the reward earned by the liquidator, in the same units as `Values`. This is a lower bound, since the
+   * expiry spread keeps ramping up until the operation is mined.
+   */
+  expectedProfit: Integer;
+}
+
+/**
+ * Builds the operation that fully liquidates an expired borrow using `AccountOperation#fullyLiquidateExpiredAccount`,
+ * reading the balances, prices, spread premiums, expiry ramp time and block timestamp from the chain.
+ */
+export class ExpiryLiquidator {
+  private operation: Operation;
+  private getters: Getters;
+  private expiry: Expiry;
+  private multiCall: MultiCall;
+
+  constructor(operation: Operation, getters: Getters, expiry: Expiry, multiCall: MultiCall) {
+    this.operation = operation;
+    this.getters = getters;
+    this.expiry = expiry;
+    this.multiCall = multiCall;
+  }
+
+  public async getLiquidation(
+    liquidatorOwner: address,
+    liquidatorNumber: Integer,
+    expiredOwner: address,
+    expiredNumber: Integer,
+    expiredMarket: Integer,
+    options?: ContractConstantCallOptions,
+  ): Promise<ExpiryLiquidation> {
+    const [balances, expiry, expiryRampTime, liquidationSpread, blockTimestamp] = await Promise.all([
+      this.getters.getAccountBalances(expiredOwner, expiredNumber, options),
+      this.expiry.getExpiry(expiredOwner, expiredNumber, expiredMarket, options),
+      this.expiry.getRampTime(options),
+      this.getters.getLiquidationSpread(options),
+      this.multiCall.getCurrentBlockTimestamp(options),
+    ]);
+    if (expiry.isZero()) {
+      throw new Error(`Market ${expiredMarket.toFixed(0)} of the expired account has no expiry`);
+    }
+
+    const marketIds = balances.filter(({ wei }) => !wei.isZero()).map(({ marketId }) => marketId);
+    const [prices, spreadPremiums] = await Promise.all([
+      Promise.all(marketIds.map(marketId => this.getters.getMarketPrice(marketId, options))),
+      Promise.all(marketIds.map(marketId => this.getters.getMarketSpreadPremium(marketId, options))),
+    ]);
+
+    const weisMap: { [marketId: string]: Integer } = {};
+    const pricesMap: { [marketId: string]: Integer } = {};
+    const spreadPremiumsMap: { [marketId: string]: Decimal } = {};
+    marketIds.forEach((marketId, i) => {
+      weisMap[marketId.toFixed(0)] = balances.find(balance => balance.marketId.eq(marketId)).wei;
+      pricesMap[marketId.toFixed(0)] = prices[i];
+      spreadPremiumsMap[marketId.toFixed(0)] = spreadPremiums[i];
+    });
+    if (!weisMap[expiredMarket.toFixed(0)]) {
+      throw new Error('Expired account must have negative expired balance');
+    }
+
+    const getValue = (marketId: Integer) => weisMap[marketId.toFixed(0)].times(pricesMap[marketId.toFixed(0)]);
+    const collateralPreferences = marketIds
+      .filter(marketId => weisMap[marketId.toFixed(0)].gt(0))
+      .sort((a, b) => getValue(b).comparedTo(getValue(a)));
+
+    const operation = this.operation
+      .initiate()
+      .fullyLiquidateExpiredAccount(
+        liquidatorOwner,
+        liquidatorNumber,
+        expiredOwner,
+        expiredNumber,
+        expiredMarket,
+        expiry,
+        blockTimestamp,
+        weisMap,
+        pricesMap,
+        spreadPremiumsMap,
+        collateralPreferences,
+        expiryRampTime,
+        liquidationSpread,
+      );
+
+    const owedWei = weisMap[expiredMarket.toFixed(0)].negated();
+    const owedPrice = pricesMap[expiredMarket.toFixed(0)];
+    const rampAdjustment = BigNumber.min(blockTimestamp.minus(expiry).div(expiryRampTime), INTEGERS.ONE);
+    let remainingOwedValue = owedWei.times(owedPrice);
+    let expectedProfit = INTEGERS.ZERO;
+    collateralPreferences.forEach((heldMarket) => {
+      if (remainingOwedValue.lte(0)) {
+        return;
+      }
+      const spread = liquidationSpread
+        .times(spreadPremiumsMap[heldMarket.toFixed(0)].plus(1))
+        .times(spreadPremiumsMap[expiredMarket.toFixed(0)].plus(1))
+        .times(rampAdjustment);
+      // The liquidator receives (1 + spread) of held value for each unit of owed value that they repay
+      const repaidValue = BigNumber.min(remainingOwedValue, getValue(heldMarket).div(spread.plus(1)));
+      expectedProfit = expectedProfit.plus(repaidValue.times(spread));
+      remainingOwedValue = remainingOwedValue.minus(repaidValue);
+    });
+
+    return {
+      operation,
+      expiry,
+      blockTimestamp,
+      owedWei,
+      collateralPreferences,
+      expectedProfit: expectedProfit.integerValue(BigNumber.ROUND_DOWN),
+    };
+  }
+}
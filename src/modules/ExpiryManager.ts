@@ -0,0 +1,241 @@
+import BigNumber from 'bignumber.js';
+import { addressesAreEqual } from '../lib/BytesHelper';
+import {
+  address,
+  ContractCallOptions,
+  ContractConstantCallOptions,
+  ExpiryArg,
+  ExpiryArgValidation,
+  ExpiryPosition,
+  ExpirySet,
+  Integer,
+  TxResult,
+} from '../types';
+import { Expiry } from './Expiry';
+import { Getters } from './Getters';
+import { LogStream } from './LogStream';
+import { MultiCall } from './MultiCall';
+import { Operation } from './operate/Operation';
+
+/**
+ * Manages the expiries of many borrow positions at once. Args are validated against the approvals given with
+ * `SetApprovalForExpiry` before being submitted, since the Expiry contract silently ignores args it can't apply.
+ */
+export class ExpiryManager {
+  private operation: Operation;
+  private expiry: Expiry;
+  private getters: Getters;
+  private multiCall: MultiCall;
+  private logStream: LogStream;
+
+  constructor(
+    operation: Operation,
+    expiry: Expiry,
+    getters: Getters,
+    multiCall: MultiCall,
+    logStream: LogStream,
+  ) {
+    this.operation = operation;
+    this.expiry = expiry;
+    this.getters = getters;
+    this.multiCall = multiCall;
+    this.logStream = logStream;
+  }
+
+  // ============ Getters ============
+
+  /**
+   * Finds the positions in the market that currently have an expiry, using the `ExpirySet` events since `fromBlock`.
+   * The events are read in chunks of blocks with `LogStream`, up to `options.blockNumber` or the latest block.
+   *
+   * @return The positions, sorted by expiry (soonest first)
+   */
+  public async getExpiringPositions(
+    marketId: Integer,
+    fromBlock: number = 0,
+    options?: ContractConstantCallOptions,
+  ): Promise<ExpiryPosition[]> {
+    const toBlock = options && options.blockNumber !== undefined
+      ? options.blockNumber
+      : await this.logStream.getLatestBlockNumber();
+    const logs = await this.logStream.getLogs(fromBlock, toBlock, { eventNames: ['ExpirySet'] });
+
+    const accounts: { owner: address; number: Integer }[] = [];
+    logs
+      .map(log => log as ExpirySet)
+      .filter(({ args }) => args.marketId.eq(marketId))
+      .forEach(({ args }) => {
+        const isDuplicate = accounts.some((account) => {
+          return addressesAreEqual(account.owner, args.owner) && account.number.eq(args.number);
+        });
+        if (!isDuplicate) {
+          accounts.push({ owner: args.owner, number: args.number });
+        }
+      });
+    if (accounts.length === 0) {
+      return [];
+    }
+
+    // The latest event of each account may be stale, so the current expiries are read from the contract
+    const batch = this.getters.batch();
+    accounts.forEach(account => batch.getExpiry(account.owner, account.number, marketId));
+    const { results: expiries } = await batch.execute({ ...options, blockNumber: toBlock });
+
+    return accounts
+      .map((account, i) => ({
+        marketId,
+        owner: account.owner,
+        number: account.number,
+        expiry: expiries[i] as Integer,
+      }))
+      .filter(({ expiry }) => !expiry.isZero())
+      .sort((a, b) => a.expiry.comparedTo(b.expiry));
+  }
+
+  /**
+   * Checks what the Expiry contract would do with each arg if `sender` submitted them now. Args for accounts that
+   * aren't owned by `sender` are checked against the owner's approval and its `minTimeDelta`.
+   */
+  public async validateExpiryArgs(
+    sender: address,
+    expiryArgs: ExpiryArg[],
+    options?: ContractConstantCallOptions,
+  ): Promise<ExpiryArgValidation[]> {
+    if (expiryArgs.length === 0) {
+      return [];
+    }
+
+    const batch = this.getters.batch();
+    expiryArgs.forEach(({ accountOwner, accountId, marketId }) => {
+      batch
+        .getAccountPar(accountOwner, accountId, marketId)
+        .getExpiry(accountOwner, accountId, marketId);
+    });
+    // The batch is read first, so the other reads can use the same block
+    const { blockNumber, results } = await batch.execute(options);
+    const blockOptions = { ...options, blockNumber };
+    const [approvals, rampTime, timestamp] = await Promise.all([
+      Promise.all(expiryArgs.map(({ accountOwner }) => {
+        return addressesAreEqual(accountOwner, sender)
+          ? Promise.resolve(null)
+          : this.expiry.getApproval(accountOwner, sender, blockOptions);
+      })),
+      this.expiry.getRampTime(blockOptions),
+      this.multiCall.getCurrentBlockTimestamp(blockOptions),
+    ]);
+
+    return expiryArgs.map((expiryArg, i) => {
+      const par: Integer = results[2 * i];
+      const currentExpiry: Integer = results[(2 * i) + 1];
+      const approval: Integer | null = approvals[i];
+
+      let error: string | null = null;
+      let newExpiry: Integer;
+      if (approval && approval.isZero()) {
+        error = `${sender} is not approved to set expiries for ${expiryArg.accountOwner}`;
+        newExpiry = currentExpiry;
+      } else if (approval && expiryArg.timeDelta.lt(approval)) {
+        error = `Time delta is less than the approved minimum of ${approval.toFixed(0)} seconds`;
+        newExpiry = currentExpiry;
+      } else if (expiryArg.timeDelta.isZero()) {
+        newExpiry = new BigNumber(0);
+      } else if (par.gte(0)) {
+        error = `Account has no borrow in market ${expiryArg.marketId.toFixed(0)}, so its expiry would be unset`;
+        newExpiry = new BigNumber(0);
+      } else if (expiryArg.forceUpdate || currentExpiry.isZero()) {
+        newExpiry = timestamp.plus(expiryArg.timeDelta);
+      } else {
+        newExpiry = currentExpiry;
+      }
+
+      const warnings: string[] = [];
+      if (!error && !newExpiry.isZero()) {
+        if (newExpiry.eq(currentExpiry) && !expiryArg.forceUpdate) {
+          warnings.push('The existing expiry is kept, since forceUpdate is false');
+        }
+        if (newExpiry.plus(rampTime).lte(timestamp)) {
+          warnings.push('The expiry is already past the ramp, so the full liquidation spread applies');
+        } else if (newExpiry.lte(timestamp)) {
+          warnings.push('The expiry has already passed and its liquidation spread is ramping up');
+        }
+      }
+
+      return {
+        expiryArg,
+        error,
+        warnings,
+        newExpiry,
+      };
+    });
+  }
+
+  // ============ Setters ============
+
+  /**
+   * Sets the expiries in a single operation from the account of `sender`.
+   *
+   * @throws If any of the args would be ignored or would unset the expiry. See `validateExpiryArgs`.
+   */
+  public async setExpiries(
+    sender: address,
+    senderAccountNumber: Integer,
+    expiryArgs: ExpiryArg[],
+    options: ContractCallOptions = {},
+  ): Promise<TxResult> {
+    if (expiryArgs.length === 0) {
+      throw new Error('No expiries to set');
+    }
+
+    const validations = await this.validateExpiryArgs(sender, expiryArgs);
+    const invalid = validations.find(({ error }) => error !== null);
+    if (invalid) {
+      const { accountOwner, accountId, marketId } = invalid.expiryArg;
+      throw new Error(
+        `Invalid expiry for <${accountOwner}, ${accountId.toFixed(0)}, ${marketId.toFixed(0)}>: ${invalid.error}`,
+      );
+    }
+
+    return this.operation
+      .initiate()
+      .setExpiry({
+        expiryArgs,
+        primaryAccountOwner: sender,
+        primaryAccountId: senderAccountNumber,
+      })
+      .commit({ ...options, from: sender });
+  }
+
+  /**
+   * Pushes back the expiry of each position by `extension` seconds, such as the positions returned by
+   * `getExpiringPositions`. The time deltas are measured from the latest block, so each new expiry ends up a few
+   * seconds later than requested once the operation is mined.
+   *
+   * @throws If an extended expiry would already have passed, since the Expiry contract can only set future expiries
+   */
+  public async extendExpiries(
+    sender: address,
+    senderAccountNumber: Integer,
+    positions: ExpiryPosition[],
+    extension: Integer,
+    options: ContractCallOptions = {},
+  ): Promise<TxResult> {
+    const timestamp = await this.multiCall.getCurrentBlockTimestamp();
+    const expiryArgs = positions.map((position) => {
+      const timeDelta = position.expiry.plus(extension).minus(timestamp);
+      if (timeDelta.lte(0)) {
+        throw new Error(
+          `Extended expiry of <${position.owner}, ${position.number.toFixed(0)}, ${position.marketId.toFixed(0)}> `
+          + 'would already have passed',
+        );
+      }
+      return {
+        timeDelta,
+        accountOwner: position.owner,
+        accountId: position.number,
+        marketId: position.marketId,
+        forceUpdate: true,
+      };
+    });
+    return this.setExpiries(sender, senderAccountNumber, expiryArgs, options);
+  }
+}
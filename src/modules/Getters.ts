@@ -19,6 +19,8 @@ import {
   Values,
 } from '../types';
 import DolomiteMarginMath from './DolomiteMarginMath';
+import { GettersBatch } from './GettersBatch';
+import { MultiCall } from './MultiCall';
 
 export class Getters {
   private contracts: Contracts;
@@ -27,9 +29,17 @@ export class Getters {
     this.contracts = contracts;
   }
 
-  // ============ Getters for Risk ============
+  /**
+   * Starts a batch of getter calls that are sent to the chain in a single MultiCall, e.g.
+   * `getters.batch().getMarketWithInfo(marketId).getAccountBalances(owner, number).execute()`
+   */
+  public batch(): GettersBatch {
+    return new GettersBatch(this.contracts, new MultiCall(this.contracts));
+  }
+
+  // ============ Parsers ============
 
-  private static parseIndex(
+  public static parseIndex(
     {
       borrow,
       supply,
@@ -47,7 +57,7 @@ export class Getters {
     };
   }
 
-  private static parseTotalPar(
+  public static parseTotalPar(
     {
       supply,
       borrow,
@@ -62,6 +72,99 @@ export class Getters {
     };
   }
 
+  public static parseMarket(market: any): Market {
+    return {
+      ...market,
+      totalPar: Getters.parseTotalPar(market.totalPar),
+      index: Getters.parseIndex(market.index),
+      marginPremium: stringToDecimal(market.marginPremium.value),
+      spreadPremium: stringToDecimal(market.spreadPremium.value),
+      maxWei: new BigNumber(market.maxWei.value),
+    };
+  }
+
+  public static parseMarketWithInfo(marketWithInfo: any): MarketWithInfo {
+    const market = marketWithInfo[0];
+    const currentIndex = marketWithInfo[1];
+    const currentPrice = marketWithInfo[2];
+    const currentInterestRate = marketWithInfo[3];
+
+    return {
+      market: Getters.parseMarket(market),
+      currentIndex: Getters.parseIndex(currentIndex),
+      currentPrice: new BigNumber(currentPrice.value),
+      currentInterestRate: stringToDecimal(currentInterestRate.value),
+    };
+  }
+
+  public static parseAccountStatus(rawStatus: string): AccountStatus {
+    switch (rawStatus) {
+      case '0':
+        return AccountStatus.Normal;
+      case '1':
+        return AccountStatus.Liquidating;
+      case '2':
+        return AccountStatus.Vaporizing;
+      default:
+        throw new Error(`invalid account status ${rawStatus}`);
+    }
+  }
+
+  public static parseValues(result: any): Values {
+    return {
+      supply: new BigNumber(result[0].value),
+      borrow: new BigNumber(result[1].value),
+    };
+  }
+
+  public static parseAccountBalances(balances: any): Balance[] {
+    const marketIds = balances[0];
+    const tokens = balances[1];
+    const pars = balances[2];
+    const weis = balances[3];
+
+    const result: Balance[] = [];
+    for (let i = 0; i < tokens.length; i += 1) {
+      result.push({
+        marketId: new BigNumber(marketIds[i]),
+        tokenAddress: tokens[i],
+        par: valueToInteger(pars[i]),
+        wei: valueToInteger(weis[i]),
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Whether an account with the given status and adjusted values can be liquidated, using the same checks as
+   * `isAccountLiquidatable`
+   */
+  public static isLiquidatable(
+    accountStatus: AccountStatus,
+    marginRatio: Decimal,
+    adjustedValues: Values,
+  ): boolean {
+    // return true if account has been partially liquidated
+    if (
+      adjustedValues.borrow.gt(0) &&
+      adjustedValues.supply.gt(0) &&
+      accountStatus === AccountStatus.Liquidating
+    ) {
+      return true;
+    }
+
+    // return false if account is vaporizable
+    if (adjustedValues.supply.isZero()) {
+      return false;
+    }
+
+    // return true if account is undercollateralized
+    const marginRequirement = adjustedValues.borrow.times(marginRatio);
+    return adjustedValues.supply.lt(adjustedValues.borrow.plus(marginRequirement));
+  }
+
+  // ============ Getters for Risk ============
+
   public async getMarginRatio(
     options?: ContractConstantCallOptions,
   ): Promise<Decimal> {
@@ -388,14 +491,7 @@ export class Getters {
       this.contracts.dolomiteMargin.methods.getMarket(marketId.toFixed(0)),
       options,
     );
-    return {
-      ...market,
-      totalPar: Getters.parseTotalPar(market.totalPar),
-      index: Getters.parseIndex(market.index),
-      marginPremium: stringToDecimal(market.marginPremium.value),
-      spreadPremium: stringToDecimal(market.spreadPremium.value),
-      maxWei: new BigNumber(market.maxWei.value),
-    };
+    return Getters.parseMarket(market);
   }
 
   public async getMarketWithInfo(
@@ -406,24 +502,7 @@ export class Getters {
       this.contracts.dolomiteMargin.methods.getMarketWithInfo(marketId.toFixed(0)),
       options,
     );
-    const market = marketWithInfo[0];
-    const currentIndex = marketWithInfo[1];
-    const currentPrice = marketWithInfo[2];
-    const currentInterestRate = marketWithInfo[3];
-
-    return {
-      market: {
-        ...market,
-        totalPar: Getters.parseTotalPar(market.totalPar),
-        index: Getters.parseIndex(market.index),
-        marginPremium: stringToDecimal(market.marginPremium.value),
-        spreadPremium: stringToDecimal(market.spreadPremium.value),
-        maxWei: new BigNumber(market.maxWei.value),
-      },
-      currentIndex: Getters.parseIndex(currentIndex),
-      currentPrice: new BigNumber(currentPrice.value),
-      currentInterestRate: stringToDecimal(currentInterestRate.value),
-    };
+    return Getters.parseMarketWithInfo(marketWithInfo);
   }
 
   // ============ Getters for Accounts ============
@@ -503,16 +582,7 @@ export class Getters {
       }),
       options,
     );
-    switch (rawStatus) {
-      case '0':
-        return AccountStatus.Normal;
-      case '1':
-        return AccountStatus.Liquidating;
-      case '2':
-        return AccountStatus.Vaporizing;
-      default:
-        throw new Error(`invalid account status ${rawStatus}`);
-    }
+    return Getters.parseAccountStatus(rawStatus);
   }
 
   public async getAccountValues(
@@ -527,10 +597,7 @@ export class Getters {
       }),
       options,
     );
-    return {
-      supply: new BigNumber(result[0].value),
-      borrow: new BigNumber(result[1].value),
-    };
+    return Getters.parseValues(result);
   }
 
   public async getAccountMarketsWithBalances(
@@ -609,10 +676,7 @@ export class Getters {
       }),
       options,
     );
-    return {
-      supply: new BigNumber(result[0].value),
-      borrow: new BigNumber(result[1].value),
-    };
+    return Getters.parseValues(result);
   }
 
   // ============ Getters for Permissions ============
@@ -629,21 +693,7 @@ export class Getters {
       }),
       options,
     );
-    const marketIds = balances[0];
-    const tokens = balances[1];
-    const pars = balances[2];
-    const weis = balances[3];
-
-    const result: Balance[] = [];
-    for (let i = 0; i < tokens.length; i += 1) {
-      result.push({
-        marketId: new BigNumber(marketIds[i]),
-        tokenAddress: tokens[i],
-        par: valueToInteger(pars[i]),
-        wei: valueToInteger(weis[i]),
-      });
-    }
-    return result;
+    return Getters.parseAccountBalances(balances);
   }
 
   public async isAccountLiquidatable(
@@ -656,24 +706,7 @@ export class Getters {
       this.getMarginRatio(options),
       this.getAdjustedAccountValues(liquidOwner, liquidNumber, options),
     ]);
-
-    // return true if account has been partially liquidated
-    if (
-      accountValues.borrow.gt(0) &&
-      accountValues.supply.gt(0) &&
-      accountStatus === AccountStatus.Liquidating
-    ) {
-      return true;
-    }
-
-    // return false if account is vaporizable
-    if (accountValues.supply.isZero()) {
-      return false;
-    }
-
-    // return true if account is undercollateralized
-    const marginRequirement = accountValues.borrow.times(marginRatio);
-    return accountValues.supply.lt(accountValues.borrow.plus(marginRequirement));
+    return Getters.isLiquidatable(accountStatus, marginRatio, accountValues);
   }
 
   // ============ Getters for Admin ============
@@ -0,0 +1,312 @@
+import BigNumber from 'bignumber.js';
+import { ethers } from 'ethers';
+import { ABIDefinition } from 'web3/eth/abi';
+import Contract from 'web3/eth/contract';
+import { TransactionObject } from 'web3/eth/types';
+import { Contracts } from '../lib/Contracts';
+import { stringToDecimal, valueToInteger } from '../lib/Helpers';
+import {
+  address,
+  ContractConstantCallOptions,
+  Integer,
+} from '../types';
+import { Reserves } from './DolomiteAmmPair';
+import { Getters } from './Getters';
+import { MultiCall } from './MultiCall';
+
+interface BatchedCall {
+  contract: Contract;
+  method: TransactionObject<any>;
+  name: string;
+  parse: (result: any) => any;
+}
+
+// Decodes integers to strings, the same way web3 does, so the parsers in Getters can be reused on the results
+const abiCoder = new ethers.utils.AbiCoder((type: string, value: any) => {
+  if (type.match(/^u?int/) && !Array.isArray(value)) {
+    return value.toString();
+  }
+  return value;
+});
+
+/**
+ * Batches DolomiteMargin, Expiry and Dolomite AMM getter calls into a single call to MultiCall#aggregate, so all of the
+ * results are read from the same block. Results are returned in the order in which the calls were added.
+ */
+export class GettersBatch {
+  private contracts: Contracts;
+  private multiCall: MultiCall;
+  private calls: BatchedCall[];
+
+  constructor(contracts: Contracts, multiCall: MultiCall) {
+    this.contracts = contracts;
+    this.multiCall = multiCall;
+    this.calls = [];
+  }
+
+  // ============ Risk ============
+
+  public getMarginRatio(): GettersBatch {
+    return this.add(
+      'getMarginRatio',
+      this.contracts.dolomiteMargin.methods.getMarginRatio(),
+      result => stringToDecimal(result.value),
+    );
+  }
+
+  public getLiquidationSpreadForPair(heldMarketId: Integer, owedMarketId: Integer): GettersBatch {
+    return this.add(
+      'getLiquidationSpreadForPair',
+      this.contracts.dolomiteMargin.methods.getLiquidationSpreadForPair(
+        heldMarketId.toFixed(0),
+        owedMarketId.toFixed(0),
+      ),
+      result => stringToDecimal(result.value),
+    );
+  }
+
+  // ============ Markets ============
+
+  public getMarket(marketId: Integer): GettersBatch {
+    return this.add(
+      'getMarket',
+      this.contracts.dolomiteMargin.methods.getMarket(marketId.toFixed(0)),
+      Getters.parseMarket,
+    );
+  }
+
+  public getMarketWithInfo(marketId: Integer): GettersBatch {
+    return this.add(
+      'getMarketWithInfo',
+      this.contracts.dolomiteMargin.methods.getMarketWithInfo(marketId.toFixed(0)),
+      Getters.parseMarketWithInfo,
+    );
+  }
+
+  public getMarketCurrentIndex(marketId: Integer): GettersBatch {
+    return this.add(
+      'getMarketCurrentIndex',
+      this.contracts.dolomiteMargin.methods.getMarketCurrentIndex(marketId.toFixed(0)),
+      Getters.parseIndex,
+    );
+  }
+
+  public getMarketTokenAddress(marketId: Integer): GettersBatch {
+    return this.add(
+      'getMarketTokenAddress',
+      this.contracts.dolomiteMargin.methods.getMarketTokenAddress(marketId.toFixed(0)),
+      result => result,
+    );
+  }
+
+  public getMarketPrice(marketId: Integer): GettersBatch {
+    return this.add(
+      'getMarketPrice',
+      this.contracts.dolomiteMargin.methods.getMarketPrice(marketId.toFixed(0)),
+      result => new BigNumber(result.value),
+    );
+  }
+
+  public getMarketMarginPremium(marketId: Integer): GettersBatch {
+    return this.add(
+      'getMarketMarginPremium',
+      this.contracts.dolomiteMargin.methods.getMarketMarginPremium(marketId.toFixed(0)),
+      result => stringToDecimal(result.value),
+    );
+  }
+
+  // ============ Accounts ============
+
+  public getAccountPar(accountOwner: address, accountNumber: Integer, marketId: Integer): GettersBatch {
+    return this.add(
+      'getAccountPar',
+      this.contracts.dolomiteMargin.methods.getAccountPar(
+        {
+          owner: accountOwner,
+          number: accountNumber.toFixed(0),
+        },
+        marketId.toFixed(0),
+      ),
+      valueToInteger,
+    );
+  }
+
+  public getAccountWei(accountOwner: address, accountNumber: Integer, marketId: Integer): GettersBatch {
+    return this.add(
+      'getAccountWei',
+      this.contracts.dolomiteMargin.methods.getAccountWei(
+        {
+          owner: accountOwner,
+          number: accountNumber.toFixed(0),
+        },
+        marketId.toFixed(0),
+      ),
+      valueToInteger,
+    );
+  }
+
+  public getAccountStatus(accountOwner: address, accountNumber: Integer): GettersBatch {
+    return this.add(
+      'getAccountStatus',
+      this.contracts.dolomiteMargin.methods.getAccountStatus({
+        owner: accountOwner,
+        number: accountNumber.toFixed(0),
+      }),
+      Getters.parseAccountStatus,
+    );
+  }
+
+  public getAccountValues(accountOwner: address, accountNumber: Integer): GettersBatch {
+    return this.add(
+      'getAccountValues',
+      this.contracts.dolomiteMargin.methods.getAccountValues({
+        owner: accountOwner,
+        number: accountNumber.toFixed(0),
+      }),
+      Getters.parseValues,
+    );
+  }
+
+  public getAdjustedAccountValues(accountOwner: address, accountNumber: Integer): GettersBatch {
+    return this.add(
+      'getAdjustedAccountValues',
+      this.contracts.dolomiteMargin.methods.getAdjustedAccountValues({
+        owner: accountOwner,
+        number: accountNumber.toFixed(0),
+      }),
+      Getters.parseValues,
+    );
+  }
+
+  public getAccountMarketsWithBalances(accountOwner: address, accountNumber: Integer): GettersBatch {
+    return this.add(
+      'getAccountMarketsWithBalances',
+      this.contracts.dolomiteMargin.methods.getAccountMarketsWithBalances({
+        owner: accountOwner,
+        number: accountNumber.toFixed(0),
+      }),
+      (result: string[]) => result.map(marketId => new BigNumber(marketId)),
+    );
+  }
+
+  public getAccountBalances(accountOwner: address, accountNumber: Integer): GettersBatch {
+    return this.add(
+      'getAccountBalances',
+      this.contracts.dolomiteMargin.methods.getAccountBalances({
+        owner: accountOwner,
+        number: accountNumber.toFixed(0),
+      }),
+      Getters.parseAccountBalances,
+    );
+  }
+
+  // ============ Expiry ============
+
+  public getExpiry(accountOwner: address, accountNumber: Integer, marketId: Integer): GettersBatch {
+    return this.add(
+      'getExpiry',
+      this.contracts.expiry.methods.getExpiry(
+        {
+          owner: accountOwner,
+          number: accountNumber.toFixed(0),
+        },
+        marketId.toFixed(0),
+      ),
+      result => new BigNumber(result),
+      this.contracts.expiry,
+    );
+  }
+
+  public getExpiryRampTime(): GettersBatch {
+    return this.add(
+      'getExpiryRampTime',
+      this.contracts.expiry.methods.g_expiryRampTime(),
+      result => new BigNumber(result),
+      this.contracts.expiry,
+    );
+  }
+
+  // ============ Dolomite AMM ============
+
+  public getDolomiteAmmPair(index: number): GettersBatch {
+    return this.add(
+      'allPairs',
+      this.contracts.dolomiteAmmFactory.methods.allPairs(index),
+      result => result,
+      this.contracts.dolomiteAmmFactory,
+    );
+  }
+
+  public getDolomiteAmmPairToken0(pair: address): GettersBatch {
+    const contract = this.contracts.getDolomiteAmmPair(pair);
+    return this.add('token0', contract.methods.token0(), result => result, contract);
+  }
+
+  public getDolomiteAmmPairToken1(pair: address): GettersBatch {
+    const contract = this.contracts.getDolomiteAmmPair(pair);
+    return this.add('token1', contract.methods.token1(), result => result, contract);
+  }
+
+  public getDolomiteAmmPairReservesWei(pair: address): GettersBatch {
+    const contract = this.contracts.getDolomiteAmmPair(pair);
+    return this.add(
+      'getReservesWei',
+      contract.methods.getReservesWei(),
+      (result): Reserves => ({
+        reserve0: new BigNumber(result[0]),
+        reserve1: new BigNumber(result[1]),
+        blockTimestampLast: parseInt(result[2], 10),
+      }),
+      contract,
+    );
+  }
+
+  // ============ Execution ============
+
+  /**
+   * Sends all of the batched calls in one MultiCall. Each result has the same type as the return value of the Getters
+   * function with the same name.
+   */
+  public async execute(
+    options?: ContractConstantCallOptions,
+  ): Promise<{ blockNumber: number, results: any[] }> {
+    if (this.calls.length === 0) {
+      throw new Error('No calls have been added to batch');
+    }
+
+    const { blockNumber, results } = await this.multiCall.aggregate(
+      this.calls.map(call => ({
+        target: call.contract.options.address,
+        callData: call.method.encodeABI(),
+      })),
+      options,
+    );
+
+    return {
+      blockNumber,
+      results: results.map((result, i) => this.decode(this.calls[i], result)),
+    };
+  }
+
+  // ============ Private Helper Functions ============
+
+  private add(
+    name: string,
+    method: TransactionObject<any>,
+    parse: (result: any) => any,
+    contract: Contract = this.contracts.dolomiteMargin,
+  ): GettersBatch {
+    this.calls.push({ contract, name, method, parse });
+    return this;
+  }
+
+  private decode(call: BatchedCall, returnData: string): any {
+    const abi: ABIDefinition = call.contract.options.jsonInterface.find(
+      e => e.type === 'function' && e.name === call.name,
+    );
+    const decoded = abiCoder.decode(abi.outputs, returnData);
+
+    // web3 unwraps the results of functions with a single output
+    return call.parse(abi.outputs.length === 1 ? decoded[0] : decoded);
+  }
+}
@@ -1,5 +1,5 @@
 import { Contracts } from '../lib/Contracts';
-import { ActionArgs, address, Integer } from '../types';
+import { ActionArgs, address, ContractConstantCallOptions, Integer } from '../types';
 import { hexStringToBytes, toBytesNoPadding } from '../lib/BytesHelper';
 import { IIsolationModeUnwrapperTrader } from '../../build/wrappers/IIsolationModeUnwrapperTrader';
 import BigNumber from 'bignumber.js';
@@ -17,8 +17,15 @@ export class IsolationModeUnwrapper {
     return this.unwrapperContract.options.address;
   }
 
-  public async token(): Promise<address> {
-    return this.contracts.callConstantContractFunction(this.unwrapperContract.methods.token());
+  public async token(options?: ContractConstantCallOptions): Promise<address> {
+    return this.contracts.callConstantContractFunction(this.unwrapperContract.methods.token(), options);
+  }
+
+  public async isValidOutputToken(outputToken: address, options?: ContractConstantCallOptions): Promise<boolean> {
+    return this.contracts.callConstantContractFunction(
+      this.unwrapperContract.methods.isValidOutputToken(outputToken),
+      options,
+    );
   }
 
   public async actionsLength(): Promise<Integer> {
@@ -57,6 +64,7 @@ export class IsolationModeUnwrapper {
     takerToken: address,
     desiredMakerToken: Integer,
     orderData: string,
+    options?: ContractConstantCallOptions,
   ): Promise<Integer> {
     const result = await this.contracts.callConstantContractFunction(
       this.unwrapperContract.methods.getExchangeCost(
@@ -65,6 +73,7 @@ export class IsolationModeUnwrapper {
         desiredMakerToken.toFixed(),
         hexStringToBytes(orderData),
       ),
+      options,
     );
     return new BigNumber(result);
   }
@@ -1,5 +1,5 @@
 import { Contracts } from '../lib/Contracts';
-import { ActionArgs, address, Integer } from '../types';
+import { ActionArgs, address, ContractConstantCallOptions, Integer } from '../types';
 import { hexStringToBytes, toBytesNoPadding } from '../lib/BytesHelper';
 import { IIsolationModeWrapperTrader } from '../../build/wrappers/IIsolationModeWrapperTrader';
 import BigNumber from 'bignumber.js';
@@ -17,8 +17,15 @@ export class IsolationModeWrapper {
     return this.wrapperContract.options.address;
   }
 
-  public async token(): Promise<address> {
-    return this.contracts.callConstantContractFunction(this.wrapperContract.methods.token());
+  public async token(options?: ContractConstantCallOptions): Promise<address> {
+    return this.contracts.callConstantContractFunction(this.wrapperContract.methods.token(), options);
+  }
+
+  public async isValidInputToken(inputToken: address, options?: ContractConstantCallOptions): Promise<boolean> {
+    return this.contracts.callConstantContractFunction(
+      this.wrapperContract.methods.isValidInputToken(inputToken),
+      options,
+    );
   }
 
   public async actionsLength(): Promise<Integer> {
@@ -57,6 +64,7 @@ export class IsolationModeWrapper {
     takerToken: address,
     desiredMakerToken: Integer,
     orderData: string,
+    options?: ContractConstantCallOptions,
   ): Promise<Integer> {
     const result = await this.contracts.callConstantContractFunction(
       this.wrapperContract.methods.getExchangeCost(
@@ -65,6 +73,7 @@ export class IsolationModeWrapper {
         desiredMakerToken.toFixed(),
         hexStringToBytes(orderData),
       ),
+      options,
     );
     return new BigNumber(result);
   }
@@ -0,0 +1,39 @@
+import fs from 'fs';
+import {
+  AccountIndexerChanges,
+  AccountIndexerUndoLog,
+  LogStreamCheckpoint,
+} from '../types';
+import { InMemoryAccountIndexerStore } from './AccountIndexerStore';
+
+/**
+ * Keeps the indexed state in memory and writes all of it to a JSON file after every commit, so indexing can be resumed
+ * by a later process. Suited to small deployments; large deployments should back `AccountIndexerStore` with a database.
+ *
+ * Since it uses `fs`, it isn't exported from the package's index or used by `DolomiteMargin`, so that browser bundles
+ * don't include it. Import it from `modules/JsonFileAccountIndexerStore` and pass it to `AccountIndexer`.
+ */
+export class JsonFileAccountIndexerStore extends InMemoryAccountIndexerStore {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    super();
+    this.filePath = filePath;
+    if (fs.existsSync(filePath)) {
+      this.state = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    }
+  }
+
+  public async commit(
+    changes: AccountIndexerChanges,
+    checkpoint: LogStreamCheckpoint,
+    undoLog: AccountIndexerUndoLog,
+  ): Promise<void> {
+    await super.commit(changes, checkpoint, undoLog);
+
+    // Write to a temporary file first, so the stored file is never left half-written
+    const tempFilePath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempFilePath, JSON.stringify(this.state));
+    fs.renameSync(tempFilePath, this.filePath);
+  }
+}
@@ -0,0 +1,349 @@
+import BigNumber from 'bignumber.js';
+import { ethers } from 'ethers';
+import { ADDRESSES } from '../lib/Constants';
+import { Contracts } from '../lib/Contracts';
+import { AccountInfo, address, ContractConstantCallOptions, Decimal, Integer } from '../types';
+import { DolomiteAmmFactory } from './DolomiteAmmFactory';
+import { DolomiteAmmRouterProxy } from './DolomiteAmmRouterProxy';
+import { GenericTraderParam, GenericTraderType } from './GenericTraderProxyV1';
+import { Getters } from './Getters';
+import { IsolationModeUnwrapper } from './IsolationModeUnwrapper';
+import { IsolationModeWrapper } from './IsolationModeWrapper';
+import { LiquidatorAssetRegistry } from './LiquidatorAssetRegistry';
+
+const DEFAULT_SLIPPAGE_TOLERANCE = new BigNumber('0.005');
+
+export interface IsolationModeConverter {
+  /**
+   * The isolation mode market that is unwrapped when held and wrapped when owed
+   */
+  marketId: Integer;
+  /**
+   * The market that the unwrapper outputs and the wrapper accepts as input
+   */
+  underlyingMarketId: Integer;
+  unwrapper: address;
+  wrapper: address;
+}
+
+export interface LiquidationRouteOptions {
+  /**
+   * The fraction by which the final output may fall short of the quote. Defaults to 0.5%.
+   */
+  slippageTolerance?: Decimal;
+  /**
+   * The converters for any isolation mode markets that may appear on either end of the route
+   */
+  isolationModeConverters?: IsolationModeConverter[];
+  /**
+   * The markets that may be used as a hop between two Dolomite AMM pairs, when the held and owed markets have no pair
+   */
+  intermediateMarketIds?: Integer[];
+}
+
+export interface LiquidationRoute {
+  marketIdsPath: Integer[];
+  /**
+   * The quoted amount of each market in `marketIdsPath`, before slippage
+   */
+  amountWeisPath: Integer[];
+  inputAmountWei: Integer;
+  minOutputAmountWei: Integer;
+  tradersPath: GenericTraderParam[];
+  makerAccounts: AccountInfo[];
+}
+
+interface RouteStep {
+  inputMarketId: Integer;
+  outputMarketId: Integer;
+  traderType: GenericTraderType;
+  trader: address;
+}
+
+/**
+ * Builds the `marketIdsPath`, `tradersPath`, `makerAccounts` and `minOutputAmountWei` arguments for
+ * `LiquidatorProxyV4WithGenericTrader#liquidate`. Isolation mode markets are unwrapped or wrapped using the provided
+ * converters and everything in between is traded through Dolomite AMM pairs, which act as internal liquidity.
+ */
+export class LiquidationRoutePlanner {
+  private contracts: Contracts;
+  private getters: Getters;
+  private liquidatorAssetRegistry: LiquidatorAssetRegistry;
+  private dolomiteAmmFactory: DolomiteAmmFactory;
+  private dolomiteAmmRouterProxy: DolomiteAmmRouterProxy;
+
+  constructor(
+    contracts: Contracts,
+    getters: Getters,
+    liquidatorAssetRegistry: LiquidatorAssetRegistry,
+    dolomiteAmmFactory: DolomiteAmmFactory,
+    dolomiteAmmRouterProxy: DolomiteAmmRouterProxy,
+  ) {
+    this.contracts = contracts;
+    this.getters = getters;
+    this.liquidatorAssetRegistry = liquidatorAssetRegistry;
+    this.dolomiteAmmFactory = dolomiteAmmFactory;
+    this.dolomiteAmmRouterProxy = dolomiteAmmRouterProxy;
+  }
+
+  /**
+   * Plans the route for selling `inputAmountWei` of the held market for the owed market.
+   *
+   * @param heldMarketId    The market seized from the liquid account, which is the first market in the path
+   * @param owedMarketId    The market owed by the liquid account, which is the last market in the path
+   * @param inputAmountWei  The amount of the held market to sell
+   * @param routeOptions    The slippage tolerance, isolation mode converters and intermediate markets to consider
+   * @param options         Additional options to be passed through to the web3 calls
+   */
+  public async planRoute(
+    heldMarketId: Integer,
+    owedMarketId: Integer,
+    inputAmountWei: Integer,
+    routeOptions: LiquidationRouteOptions = {},
+    options?: ContractConstantCallOptions,
+  ): Promise<LiquidationRoute> {
+    if (heldMarketId.eq(owedMarketId)) {
+      throw new Error('Held market and owed market cannot be the same');
+    }
+    const slippageTolerance = routeOptions.slippageTolerance || DEFAULT_SLIPPAGE_TOLERANCE;
+    if (slippageTolerance.lt(0) || slippageTolerance.gte(1)) {
+      throw new Error(`Invalid slippage tolerance: ${slippageTolerance.toFixed()}`);
+    }
+
+    await Promise.all([
+      this.checkLiquidatorIsWhitelisted(heldMarketId, options),
+      this.checkLiquidatorIsWhitelisted(owedMarketId, options),
+    ]);
+
+    const converters = routeOptions.isolationModeConverters || [];
+    const heldConverter = converters.find(converter => converter.marketId.eq(heldMarketId));
+    const owedConverter = converters.find(converter => converter.marketId.eq(owedMarketId));
+
+    const steps: RouteStep[] = [];
+    let fromMarketId = heldMarketId;
+    let toMarketId = owedMarketId;
+    if (heldConverter) {
+      await this.checkConverter(heldConverter, true, options);
+      steps.push({
+        inputMarketId: heldMarketId,
+        outputMarketId: heldConverter.underlyingMarketId,
+        traderType: GenericTraderType.IsolationModeUnwrapper,
+        trader: heldConverter.unwrapper,
+      });
+      fromMarketId = heldConverter.underlyingMarketId;
+    }
+    if (owedConverter) {
+      await this.checkConverter(owedConverter, false, options);
+      toMarketId = owedConverter.underlyingMarketId;
+    }
+
+    let amountWeisPath = [inputAmountWei];
+    if (steps.length > 0) {
+      amountWeisPath.push(await this.quoteStep(steps[0], inputAmountWei, options));
+    }
+    if (!fromMarketId.eq(toMarketId)) {
+      const ammRoute = await this.findAmmRoute(
+        fromMarketId,
+        toMarketId,
+        amountWeisPath[amountWeisPath.length - 1],
+        routeOptions.intermediateMarketIds || [],
+        options,
+      );
+      steps.push(...ammRoute.steps);
+      amountWeisPath = amountWeisPath.concat(ammRoute.amountWeisPath.slice(1));
+    }
+    if (owedConverter) {
+      const wrapperStep = {
+        inputMarketId: owedConverter.underlyingMarketId,
+        outputMarketId: owedMarketId,
+        traderType: GenericTraderType.IsolationModeWrapper,
+        trader: owedConverter.wrapper,
+      };
+      steps.push(wrapperStep);
+      amountWeisPath.push(await this.quoteStep(wrapperStep, amountWeisPath[amountWeisPath.length - 1], options));
+    }
+
+    const makerAccounts: AccountInfo[] = [];
+    const tradersPath = steps.map((step, i) => {
+      if (step.traderType !== GenericTraderType.InternalLiquidity) {
+        return {
+          traderType: step.traderType,
+          makerAccountIndex: 0,
+          trader: step.trader,
+          tradeData: ethers.utils.defaultAbiCoder.encode(['bytes'], ['0x']),
+        };
+      }
+
+      makerAccounts.push({ owner: step.trader, number: '0' });
+      return {
+        traderType: step.traderType,
+        makerAccountIndex: makerAccounts.length - 1,
+        trader: step.trader,
+        tradeData: ethers.utils.defaultAbiCoder.encode(
+          ['uint256', 'bytes'],
+          [
+            amountWeisPath[i].toFixed(0),
+            ethers.utils.defaultAbiCoder.encode(['uint256'], [amountWeisPath[i + 1].toFixed(0)]),
+          ],
+        ),
+      };
+    });
+
+    const outputAmountWei = amountWeisPath[amountWeisPath.length - 1];
+    return {
+      amountWeisPath,
+      inputAmountWei,
+      tradersPath,
+      makerAccounts,
+      marketIdsPath: [heldMarketId, ...steps.map(step => step.outputMarketId)],
+      minOutputAmountWei: outputAmountWei
+        .times(new BigNumber(1).minus(slippageTolerance))
+        .integerValue(BigNumber.ROUND_DOWN),
+    };
+  }
+
+  // ============ Private Helper Functions ============
+
+  private async checkLiquidatorIsWhitelisted(
+    marketId: Integer,
+    options?: ContractConstantCallOptions,
+  ): Promise<void> {
+    const liquidators = await this.liquidatorAssetRegistry.getLiquidatorsForAsset(marketId, options);
+    const liquidator = this.contracts.liquidatorProxyV4WithGenericTrader.options.address.toLowerCase();
+    if (liquidators.length > 0 && !liquidators.some(l => l.toLowerCase() === liquidator)) {
+      throw new Error(`LiquidatorProxyV4WithGenericTrader is not whitelisted for market ${marketId.toFixed()}`);
+    }
+  }
+
+  private async checkConverter(
+    converter: IsolationModeConverter,
+    isUnwrapper: boolean,
+    options?: ContractConstantCallOptions,
+  ): Promise<void> {
+    const [isolationModeToken, underlyingToken] = await Promise.all([
+      this.getters.getMarketTokenAddress(converter.marketId, options),
+      this.getters.getMarketTokenAddress(converter.underlyingMarketId, options),
+    ]);
+
+    const converterAddress = isUnwrapper ? converter.unwrapper : converter.wrapper;
+    const isolationModeTokenContract = this.contracts.getIsolationModeToken(isolationModeToken);
+    const isTrustedPromise: Promise<boolean> = this.contracts.callConstantContractFunction(
+      isolationModeTokenContract.methods.isTokenConverterTrusted(converterAddress),
+      options,
+    );
+
+    let token: address;
+    let isValidUnderlyingToken: boolean;
+    let isTrusted: boolean;
+    if (isUnwrapper) {
+      const unwrapper = this.getUnwrapper(converterAddress);
+      [token, isValidUnderlyingToken, isTrusted] = await Promise.all([
+        unwrapper.token(options),
+        unwrapper.isValidOutputToken(underlyingToken, options),
+        isTrustedPromise,
+      ]);
+    } else {
+      const wrapper = this.getWrapper(converterAddress);
+      [token, isValidUnderlyingToken, isTrusted] = await Promise.all([
+        wrapper.token(options),
+        wrapper.isValidInputToken(underlyingToken, options),
+        isTrustedPromise,
+      ]);
+    }
+
+    const name = isUnwrapper ? 'unwrapper' : 'wrapper';
+    if (token.toLowerCase() !== isolationModeToken.toLowerCase()) {
+      throw new Error(`Invalid ${name} for market ${converter.marketId.toFixed()}`);
+    }
+    // GenericTraderProxyBase reverts when the isolation mode token doesn't trust the converter
+    if (!isTrusted) {
+      throw new Error(`Untrusted ${name} for market ${converter.marketId.toFixed()}`);
+    }
+    if (!isValidUnderlyingToken) {
+      throw new Error(
+        `Invalid underlying market ${converter.underlyingMarketId.toFixed()} for ${name} of market `
+        + `${converter.marketId.toFixed()}`,
+      );
+    }
+  }
+
+  /**
+   * Finds the AMM route with the largest output, using either a direct pair or a single intermediate market
+   */
+  private async findAmmRoute(
+    fromMarketId: Integer,
+    toMarketId: Integer,
+    amountIn: Integer,
+    intermediateMarketIds: Integer[],
+    options?: ContractConstantCallOptions,
+  ): Promise<{ steps: RouteStep[], amountWeisPath: Integer[] }> {
+    const marketIdsPaths = [[fromMarketId, toMarketId]].concat(
+      intermediateMarketIds
+        .filter(marketId => !marketId.eq(fromMarketId) && !marketId.eq(toMarketId))
+        .map(marketId => [fromMarketId, marketId, toMarketId]),
+    );
+
+    const routes = await Promise.all(marketIdsPaths.map(async (marketIdsPath) => {
+      const tokens = await Promise.all(
+        marketIdsPath.map(marketId => this.getters.getMarketTokenAddress(marketId, options)),
+      );
+      const pairs = await Promise.all(
+        tokens.slice(1).map((token, i) => this.dolomiteAmmFactory.getPair(tokens[i], token, options)),
+      );
+      if (pairs.some(pair => pair === ADDRESSES.ZERO)) {
+        return null;
+      }
+
+      const amountWeisPath = await this.dolomiteAmmRouterProxy.getDolomiteAmmAmountsOutWithPath(
+        amountIn,
+        tokens,
+        options,
+      );
+      const steps = pairs.map((pair, i) => ({
+        inputMarketId: marketIdsPath[i],
+        outputMarketId: marketIdsPath[i + 1],
+        traderType: GenericTraderType.InternalLiquidity,
+        trader: pair,
+      }));
+      return { steps, amountWeisPath };
+    }));
+
+    const bestRoute = routes
+      .filter(route => route !== null)
+      .reduce(
+        (best, route) => {
+          const output = route.amountWeisPath[route.amountWeisPath.length - 1];
+          return !best || output.gt(best.amountWeisPath[best.amountWeisPath.length - 1]) ? route : best;
+        },
+        null,
+      );
+    if (!bestRoute) {
+      throw new Error(`No route found from market ${fromMarketId.toFixed()} to market ${toMarketId.toFixed()}`);
+    }
+    return bestRoute;
+  }
+
+  private async quoteStep(
+    step: RouteStep,
+    inputAmountWei: Integer,
+    options?: ContractConstantCallOptions,
+  ): Promise<Integer> {
+    const [inputToken, outputToken] = await Promise.all([
+      this.getters.getMarketTokenAddress(step.inputMarketId, options),
+      this.getters.getMarketTokenAddress(step.outputMarketId, options),
+    ]);
+    // The converters quote the output amount for the given input amount
+    const converter = step.traderType === GenericTraderType.IsolationModeUnwrapper
+      ? this.getUnwrapper(step.trader)
+      : this.getWrapper(step.trader);
+    return converter.getExchangeCost(inputToken, outputToken, inputAmountWei, '0x', options);
+  }
+
+  private getUnwrapper(unwrapper: address): IsolationModeUnwrapper {
+    return new IsolationModeUnwrapper(this.contracts, this.contracts.getIsolationModeUnwrapper(unwrapper));
+  }
+
+  private getWrapper(wrapper: address): IsolationModeWrapper {
+    return new IsolationModeWrapper(this.contracts, this.contracts.getIsolationModeWrapper(wrapper));
+  }
+}
@@ -0,0 +1,210 @@
+import BigNumber from 'bignumber.js';
+import { INTEGERS } from '../lib/Constants';
+import {
+  AccountStatus,
+  Balance,
+  ContractConstantCallOptions,
+  Decimal,
+  Integer,
+  LiquidationCandidate,
+  LiquidationScanAccount,
+  LiquidationScanOptions,
+  Values,
+} from '../types';
+import { Getters } from './Getters';
+import { MultiCall } from './MultiCall';
+
+const DEFAULT_BATCH_SIZE = 50;
+
+interface ScannedAccount {
+  account: LiquidationScanAccount;
+  adjustedValues: Values;
+  isLiquidatable: boolean;
+  balances: Balance[];
+  expiries: { [marketId: string]: Integer };
+}
+
+/**
+ * Finds the accounts that can be liquidated or that have expired borrows, using batched health checks. Each candidate
+ * contains the arguments needed to call `LiquidatorProxyV4WithGenericTrader#liquidate`, other than the trade path.
+ */
+export class LiquidationScanner {
+  private getters: Getters;
+  private multiCall: MultiCall;
+
+  constructor(getters: Getters, multiCall: MultiCall) {
+    this.getters = getters;
+    this.multiCall = multiCall;
+  }
+
+  /**
+   * Checks the health of the given accounts, which are typically sourced from the event history or the subgraph.
+   *
+   * @return The candidates, sorted by expected profit and then by shortfall (both descending). Accounts that have no
+   *         debt, no collateral, or are neither under-collateralized nor expired are omitted.
+   */
+  public async scan(
+    accounts: LiquidationScanAccount[],
+    scanOptions: LiquidationScanOptions = {},
+    options?: ContractConstantCallOptions,
+  ): Promise<LiquidationCandidate[]> {
+    const batchSize = scanOptions.batchSize || DEFAULT_BATCH_SIZE;
+
+    const candidates: LiquidationCandidate[] = [];
+    for (let i = 0; i < accounts.length; i += batchSize) {
+      const batchCandidates = await this.scanBatch(accounts.slice(i, i + batchSize), scanOptions.timestamp, options);
+      candidates.push(...batchCandidates);
+    }
+
+    return candidates.sort((a, b) => {
+      return b.expectedProfit.comparedTo(a.expectedProfit) || b.shortfall.comparedTo(a.shortfall);
+    });
+  }
+
+  // ============ Private Helper Functions ============
+
+  private async scanBatch(
+    accounts: LiquidationScanAccount[],
+    scanTimestamp: Integer | undefined,
+    options?: ContractConstantCallOptions,
+  ): Promise<LiquidationCandidate[]> {
+    const healthBatch = this.getters.batch().getMarginRatio();
+    accounts.forEach((account) => {
+      healthBatch
+        .getAccountStatus(account.owner, account.number)
+        .getAdjustedAccountValues(account.owner, account.number)
+        .getAccountBalances(account.owner, account.number);
+    });
+    const { blockNumber, results: healthResults } = await healthBatch.execute(options);
+    const blockOptions = { ...options, blockNumber };
+
+    const marginRatio: Decimal = healthResults[0];
+    const scannedAccounts: ScannedAccount[] = accounts
+      .map((account, i) => {
+        const accountStatus: AccountStatus = healthResults[(3 * i) + 1];
+        const adjustedValues: Values = healthResults[(3 * i) + 2];
+        return {
+          account,
+          adjustedValues,
+          isLiquidatable: Getters.isLiquidatable(accountStatus, marginRatio, adjustedValues),
+          balances: healthResults[(3 * i) + 3] as Balance[],
+          expiries: {},
+        };
+      })
+      .filter(({ balances }) => balances.some(b => b.wei.gt(0)) && balances.some(b => b.wei.lt(0)));
+    if (scannedAccounts.length === 0) {
+      return [];
+    }
+
+    // Read the prices of every market used by these accounts, and the expiry of every borrow that can't be liquidated
+    // along with the ramp time of the expiry spread
+    const marketIds: Integer[] = [];
+    scannedAccounts.forEach(({ balances }) => {
+      balances.forEach(({ marketId, wei }) => {
+        if (!wei.isZero() && !marketIds.some(id => id.eq(marketId))) {
+          marketIds.push(marketId);
+        }
+      });
+    });
+    const marketBatch = this.getters.batch();
+    marketIds.forEach(marketId => marketBatch.getMarketPrice(marketId));
+    const expiryKeys: { scannedAccount: ScannedAccount; marketId: Integer }[] = [];
+    scannedAccounts
+      .filter(({ isLiquidatable }) => !isLiquidatable)
+      .forEach((scannedAccount) => {
+        scannedAccount.balances
+          .filter(({ wei }) => wei.lt(0))
+          .forEach(({ marketId }) => {
+            marketBatch.getExpiry(scannedAccount.account.owner, scannedAccount.account.number, marketId);
+            expiryKeys.push({ scannedAccount, marketId });
+          });
+      });
+    if (expiryKeys.length > 0) {
+      marketBatch.getExpiryRampTime();
+    }
+    const [{ results: marketResults }, timestamp] = await Promise.all([
+      marketBatch.execute(blockOptions),
+      scanTimestamp || this.multiCall.getCurrentBlockTimestamp(blockOptions),
+    ]);
+
+    const prices: { [marketId: string]: Integer } = {};
+    marketIds.forEach((marketId, i) => {
+      prices[marketId.toFixed()] = marketResults[i];
+    });
+    expiryKeys.forEach(({ scannedAccount, marketId }, i) => {
+      scannedAccount.expiries[marketId.toFixed()] = marketResults[marketIds.length + i];
+    });
+    const expiryRampTime: Integer | undefined = marketResults[marketIds.length + expiryKeys.length];
+
+    const getValue = (balance: Balance) => balance.wei.abs().times(prices[balance.marketId.toFixed()]);
+    const getLargest = (balances: Balance[]) => balances.reduce((largest, balance) => {
+      return !largest || getValue(balance).gt(getValue(largest)) ? balance : largest;
+    }, null);
+
+    const partialCandidates = scannedAccounts
+      .map(({ account, adjustedValues, isLiquidatable, balances, expiries }) => {
+        let owedBalances = balances.filter(({ wei }) => wei.lt(0));
+        if (!isLiquidatable) {
+          owedBalances = owedBalances.filter(({ marketId }) => {
+            const expiry = expiries[marketId.toFixed()];
+            return !expiry.isZero() && expiry.lte(timestamp);
+          });
+        }
+        if (owedBalances.length === 0) {
+          return null;
+        }
+
+        const held = getLargest(balances.filter(({ wei }) => wei.gt(0)));
+        const owed = getLargest(owedBalances);
+        const shortfall = isLiquidatable
+          ? BigNumber.max(
+            adjustedValues.borrow
+              .times(marginRatio.plus(1))
+              .minus(adjustedValues.supply)
+              .integerValue(BigNumber.ROUND_UP),
+            0,
+          )
+          : new BigNumber(0);
+        return {
+          adjustedValues,
+          isLiquidatable,
+          shortfall,
+          blockNumber,
+          liquidOwner: account.owner,
+          liquidNumber: account.number,
+          heldMarketId: held.marketId,
+          owedMarketId: owed.marketId,
+          heldWei: held.wei,
+          owedWei: owed.wei.negated(),
+          expiry: isLiquidatable ? null : expiries[owed.marketId.toFixed()],
+          heldValue: getValue(held),
+          owedValue: getValue(owed),
+        };
+      })
+      .filter(candidate => candidate !== null);
+    if (partialCandidates.length === 0) {
+      return [];
+    }
+
+    const spreadBatch = this.getters.batch();
+    partialCandidates.forEach(({ heldMarketId, owedMarketId }) => {
+      spreadBatch.getLiquidationSpreadForPair(heldMarketId, owedMarketId);
+    });
+    const { results: spreads } = await spreadBatch.execute(blockOptions);
+
+    return partialCandidates.map(({ heldValue, owedValue, ...candidate }, i) => {
+      const liquidationSpread: Decimal = spreads[i];
+      // The Expiry contract ramps the spread up from zero over `expiryRampTime` after the borrow expires
+      const appliedSpread = candidate.expiry === null
+        ? liquidationSpread
+        : liquidationSpread.times(BigNumber.min(timestamp.minus(candidate.expiry).div(expiryRampTime), INTEGERS.ONE));
+      // The liquidator receives (1 + spread) of held value for each unit of owed value that they repay
+      const repaidValue = BigNumber.min(owedValue, heldValue.div(appliedSpread.plus(1)));
+      return {
+        ...candidate,
+        liquidationSpread,
+        expectedProfit: repaidValue.times(appliedSpread).integerValue(BigNumber.ROUND_DOWN),
+      };
+    });
+  }
+}
@@ -0,0 +1,204 @@
+import Web3 from 'web3';
+import Contract from 'web3/eth/contract';
+import { Contracts } from '../lib/Contracts';
+import {
+  DolomiteMarginLog,
+  DolomiteMarginLogName,
+  LogStreamBatch,
+  LogStreamCheckpoint,
+  LogStreamOptions,
+} from '../types';
+import { Logs } from './Logs';
+
+const DEFAULT_CHUNK_SIZE = 2000;
+export const DEFAULT_REORG_DEPTH = 64;
+
+const DOLOMITE_MARGIN_EVENT_NAMES: DolomiteMarginLogName[] = [
+  'LogIndexUpdate',
+  'LogOraclePrice',
+  'LogOperation',
+  'LogDeposit',
+  'LogWithdraw',
+  'LogTransfer',
+  'LogBuy',
+  'LogSell',
+  'LogTrade',
+  'LogCall',
+  'LogLiquidate',
+  'LogVaporize',
+  'LogAddMarket',
+];
+const EXPIRY_EVENT_NAMES: DolomiteMarginLogName[] = ['ExpirySet'];
+
+/**
+ * Reads the logs of DolomiteMargin and Expiry over ranges of blocks, so account state can be rebuilt locally. Reading
+ * resumes from a checkpoint, and a checkpoint that was reorganized out of the chain causes the stream to rewind.
+ */
+export class LogStream {
+  private contracts: Contracts;
+  private logs: Logs;
+  private web3: Web3;
+
+  constructor(contracts: Contracts, logs: Logs, web3: Web3) {
+    this.contracts = contracts;
+    this.logs = logs;
+    this.web3 = web3;
+  }
+
+  /**
+   * Reads the logs between the two blocks (both inclusive), using one `getPastLogs` call per chunk of blocks.
+   */
+  public async getLogs(
+    fromBlock: number,
+    toBlock: number,
+    streamOptions: LogStreamOptions = {},
+  ): Promise<DolomiteMarginLog[]> {
+    const chunkSize = streamOptions.chunkSize || DEFAULT_CHUNK_SIZE;
+    const logs: DolomiteMarginLog[] = [];
+    for (let start = fromBlock; start <= toBlock; start += chunkSize) {
+      const end = Math.min(start + chunkSize - 1, toBlock);
+      const chunkLogs = await this.getLogsForRange(start, end, streamOptions.eventNames);
+      logs.push(...chunkLogs);
+    }
+    return logs;
+  }
+
+  /**
+   * @return The number of the latest block that has at least the given number of confirmations
+   */
+  public async getLatestBlockNumber(confirmations: number = 0): Promise<number> {
+    return await this.web3.eth.getBlockNumber() - confirmations;
+  }
+
+  /**
+   * Reads the chunk of blocks that follows the checkpoint.
+   *
+   * @return The batch, or null if there are no new blocks after the checkpoint
+   */
+  public async getNextBatch(
+    checkpoint: LogStreamCheckpoint,
+    streamOptions: LogStreamOptions = {},
+  ): Promise<LogStreamBatch | null> {
+    const chunkSize = streamOptions.chunkSize || DEFAULT_CHUNK_SIZE;
+    const confirmations = streamOptions.confirmations || 0;
+    const reorgDepth = streamOptions.reorgDepth ?? DEFAULT_REORG_DEPTH;
+
+    let fromBlock = checkpoint.blockNumber + 1;
+    let reorgFromBlock: number | null = null;
+    if (checkpoint.blockHash) {
+      const block = await this.web3.eth.getBlock(checkpoint.blockNumber);
+      if (!block || block.hash !== checkpoint.blockHash) {
+        reorgFromBlock = Math.max(checkpoint.blockNumber - reorgDepth + 1, 0);
+        fromBlock = reorgFromBlock;
+      }
+    }
+
+    const headBlock = await this.getLatestBlockNumber(confirmations);
+    const lastBlock = streamOptions.toBlock === undefined ? headBlock : Math.min(streamOptions.toBlock, headBlock);
+    const toBlock = Math.min(fromBlock + chunkSize - 1, lastBlock);
+    if (toBlock < fromBlock && reorgFromBlock === null) {
+      return null;
+    }
+    if (toBlock < fromBlock) {
+      // The chain was reorganized to below the checkpoint, so there is nothing to read yet
+      return {
+        fromBlock,
+        reorgFromBlock,
+        toBlock: fromBlock - 1,
+        logs: [],
+        checkpoint: await this.getCheckpoint(fromBlock - 1),
+      };
+    }
+
+    // The checkpoint is read first, so a reorg that happens while the logs are read is caught by the next batch
+    const nextCheckpoint = await this.getCheckpoint(toBlock);
+    const logs = await this.getLogsForRange(fromBlock, toBlock, streamOptions.eventNames);
+    return {
+      fromBlock,
+      toBlock,
+      logs,
+      reorgFromBlock,
+      checkpoint: nextCheckpoint,
+    };
+  }
+
+  /**
+   * Reads batches until the last block is reached. Batches are read one at a time and the next batch is only read
+   * once `onBatch` resolves, so the callback can persist each checkpoint and the replay can be resumed from it later.
+   *
+   * @param from    The first block to read, or the checkpoint of the last block that was already processed
+   * @param onBatch Called with each batch, in order
+   * @return The checkpoint of the last block that was read
+   */
+  public async replay(
+    from: number | LogStreamCheckpoint,
+    onBatch: (batch: LogStreamBatch) => void | Promise<void>,
+    streamOptions: LogStreamOptions = {},
+  ): Promise<LogStreamCheckpoint> {
+    let checkpoint: LogStreamCheckpoint = typeof from === 'number'
+      ? { blockNumber: from - 1, blockHash: null }
+      : from;
+    let batch = await this.getNextBatch(checkpoint, streamOptions);
+    while (batch) {
+      await onBatch(batch);
+      checkpoint = batch.checkpoint;
+      batch = await this.getNextBatch(checkpoint, streamOptions);
+    }
+    return checkpoint;
+  }
+
+  // ============ Private Helper Functions ============
+
+  private async getCheckpoint(blockNumber: number): Promise<LogStreamCheckpoint> {
+    const block = await this.web3.eth.getBlock(blockNumber);
+    return {
+      blockNumber,
+      blockHash: block ? block.hash : null,
+    };
+  }
+
+  private async getLogsForRange(
+    fromBlock: number,
+    toBlock: number,
+    eventNames?: DolomiteMarginLogName[],
+  ): Promise<DolomiteMarginLog[]> {
+    const sources = [
+      { contract: this.contracts.dolomiteMargin, names: DOLOMITE_MARGIN_EVENT_NAMES },
+      { contract: this.contracts.expiry, names: EXPIRY_EVENT_NAMES },
+    ];
+    const results = await Promise.all(sources.map(({ contract, names }) => {
+      return this.getContractLogs(
+        contract,
+        names.filter(name => !eventNames || eventNames.includes(name)),
+        fromBlock,
+        toBlock,
+      );
+    }));
+
+    return results
+      .reduce((allLogs, logs) => allLogs.concat(logs), [])
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  }
+
+  private async getContractLogs(
+    contract: Contract,
+    names: DolomiteMarginLogName[],
+    fromBlock: number,
+    toBlock: number,
+  ): Promise<DolomiteMarginLog[]> {
+    const signatures = contract.options.jsonInterface
+      .filter((e: any) => e.type === 'event' && names.includes(e.name))
+      .map((e: any) => e.signature);
+    if (!contract.options.address || signatures.length === 0) {
+      return [];
+    }
+
+    const logs = await this.web3.eth.getPastLogs({
+      fromBlock,
+      toBlock,
+      address: contract.options.address,
+      topics: [signatures],
+    });
+    return logs.map(log => this.logs.parseLogWithContract(contract, log) as DolomiteMarginLog);
+  }
+}
@@ -0,0 +1,430 @@
+import BigNumber from 'bignumber.js';
+import { INTEGERS } from '../lib/Constants';
+import {
+  AccountInfo,
+  AccountStatus,
+  address,
+  Balance,
+  BalanceCheckFlag,
+  ContractCallOptions,
+  ContractConstantCallOptions,
+  Decimal,
+  Integer,
+  TxResult,
+  Values,
+} from '../types';
+import { AccountRiskCalculator } from './AccountRiskCalculator';
+import { BorrowPositionManager } from './BorrowPositionManager';
+import {
+  GenericEventEmissionType,
+  GenericTraderParam,
+  GenericTraderProxyV1,
+  GenericTransferCollateralAmounts,
+} from './GenericTraderProxyV1';
+import { Getters } from './Getters';
+import { SwapRouteOptions, SwapRouteQuoter } from './SwapRouteQuoter';
+
+export interface MarginPositionQuoteParams {
+  /**
+   * The account the position is opened in. Defaults to the owner's first unused account number.
+   */
+  positionAccountNumber?: Integer;
+  collateralMarketId: Integer;
+  collateralAmountWei: Integer;
+  /**
+   * The size of the position divided by the value of the collateral. Must be greater than one.
+   */
+  leverage: Decimal;
+  /**
+   * The market that's borrowed and sold for `longMarketId`. It can't be the collateral market, because
+   * `GenericTraderProxyV1` only trades the transferred amount when the input market is the one being transferred in.
+   */
+  borrowMarketId: Integer;
+  longMarketId: Integer;
+  /**
+   * The least amount of `longMarketId` the trade can return. Defaults to the borrowed value at oracle prices when
+   * quoting, and to the route's minimum output when opening.
+   */
+  minOutputAmountWei?: Integer;
+}
+
+export interface MarginPositionQuote {
+  positionAccountNumber: Integer;
+  /**
+   * The value of the collateral times `leverage - 1`, in units of `borrowMarketId`
+   */
+  borrowAmountWei: Integer;
+  /**
+   * The amount of `longMarketId` the position is assumed to receive
+   */
+  outputAmountWei: Integer;
+  /**
+   * The values of the position once it's opened, adjusted by the margin premiums
+   */
+  adjustedValues: Values;
+  /**
+   * The price of `longMarketId` at which the opened position can be liquidated if no other price changes, or null if
+   * no price of it can make the position liquidatable
+   */
+  liquidationPrice: Integer | null;
+  isLiquidatable: boolean;
+}
+
+export interface OpenMarginPositionParams extends MarginPositionQuoteParams {
+  /**
+   * The account the collateral is transferred from. Defaults to 0.
+   */
+  fromAccountNumber?: Integer;
+  /**
+   * The amount that's borrowed and sold, usually `MarginPositionQuote#borrowAmountWei`. Defaults to the amount
+   * computed from the current prices.
+   */
+  borrowAmountWei?: Integer;
+  /**
+   * The options for the route `SwapRouteQuoter` builds from `borrowMarketId` to `longMarketId`
+   */
+  routeOptions?: SwapRouteOptions;
+  /**
+   * The markets traded through between `borrowMarketId` and `longMarketId`, if any. Only used with `traderParams`.
+   */
+  intermediateMarketIds?: Integer[];
+  /**
+   * Overrides the route that's otherwise built by `SwapRouteQuoter`. `minOutputAmountWei` must be given with it.
+   */
+  traderParams?: GenericTraderParam[];
+  makerAccounts?: AccountInfo[];
+  /**
+   * The seconds after which the debt expires. The debt doesn't expire if this is 0 or not given.
+   */
+  expiryTimeDelta?: Integer;
+  deadline: number | string;
+  balanceCheckFlag?: BalanceCheckFlag;
+}
+
+export interface CloseMarginPositionParams {
+  positionAccountNumber: Integer;
+  /**
+   * The account the remaining balances are transferred to. Defaults to 0.
+   */
+  toAccountNumber?: Integer;
+  borrowMarketId: Integer;
+  longMarketId: Integer;
+  /**
+   * The amount of `longMarketId` that's sold. Defaults to all of it.
+   */
+  inputAmountWei?: Integer;
+  /**
+   * The least amount of `borrowMarketId` the trade can return. Defaults to the route's minimum output.
+   */
+  minOutputAmountWei?: Integer;
+  /**
+   * The options for the route `SwapRouteQuoter` builds from `longMarketId` to `borrowMarketId`
+   */
+  routeOptions?: SwapRouteOptions;
+  /**
+   * The markets traded through between `longMarketId` and `borrowMarketId`, if any. Only used with `traderParams`.
+   */
+  intermediateMarketIds?: Integer[];
+  /**
+   * Overrides the route that's otherwise built by `SwapRouteQuoter`. `minOutputAmountWei` must be given with it.
+   */
+  traderParams?: GenericTraderParam[];
+  makerAccounts?: AccountInfo[];
+  deadline: number | string;
+  balanceCheckFlag?: BalanceCheckFlag;
+}
+
+interface MarginPositionTradeParams {
+  minOutputAmountWei?: Integer;
+  routeOptions?: SwapRouteOptions;
+  intermediateMarketIds?: Integer[];
+  traderParams?: GenericTraderParam[];
+  makerAccounts?: AccountInfo[];
+}
+
+interface MarginPositionTrade {
+  marketIdsPath: Integer[];
+  minOutputAmountWei: Integer;
+  traderParams: GenericTraderParam[];
+  makerAccounts: AccountInfo[];
+}
+
+/**
+ * Builds leveraged (margin) positions on top of `GenericTraderProxyV1`. A position is opened by moving collateral into
+ * an isolated account and selling a borrowed market for the long market in the same transaction, and is closed by
+ * selling the long market back and moving everything that's left to the owner's account. The trades are routed with
+ * `SwapRouteQuoter`, unless the caller passes its own trader params.
+ */
+export class MarginPositionManager {
+  private genericTraderProxyV1: GenericTraderProxyV1;
+  private getters: Getters;
+  private borrowPositionManager: BorrowPositionManager;
+  private swapRouteQuoter: SwapRouteQuoter;
+
+  constructor(
+    genericTraderProxyV1: GenericTraderProxyV1,
+    getters: Getters,
+    borrowPositionManager: BorrowPositionManager,
+    swapRouteQuoter: SwapRouteQuoter,
+  ) {
+    this.genericTraderProxyV1 = genericTraderProxyV1;
+    this.getters = getters;
+    this.borrowPositionManager = borrowPositionManager;
+    this.swapRouteQuoter = swapRouteQuoter;
+  }
+
+  // ============ Getters ============
+
+  /**
+   * Computes how much is borrowed for the position and where it would be liquidated, using the oracle prices and the
+   * balances the position account already has.
+   */
+  public async getOpenMarginPositionQuote(
+    owner: address,
+    params: MarginPositionQuoteParams,
+    options?: ContractConstantCallOptions,
+  ): Promise<MarginPositionQuote> {
+    return this.getQuote(owner, params, undefined, options);
+  }
+
+  // ============ Setters ============
+
+  /**
+   * Opens the position in one transaction. Throws before sending if the position would be liquidatable once opened,
+   * assuming the trade only returns its minimum output.
+   */
+  public async openMarginPosition(
+    owner: address,
+    params: OpenMarginPositionParams,
+    options: ContractCallOptions = {},
+  ): Promise<{ quote: MarginPositionQuote; result: TxResult }> {
+    MarginPositionManager.validateTradeParams(params);
+    let quote = await this.getQuote(owner, params, params.borrowAmountWei);
+    const trade = await this.getTrade(params.borrowMarketId, params.longMarketId, quote.borrowAmountWei, params);
+    if (!trade.minOutputAmountWei.eq(quote.outputAmountWei)) {
+      quote = await this.getQuote(
+        owner,
+        { ...params, positionAccountNumber: quote.positionAccountNumber, minOutputAmountWei: trade.minOutputAmountWei },
+        quote.borrowAmountWei,
+      );
+    }
+    if (quote.isLiquidatable) {
+      throw new Error('The margin position would be liquidatable once opened');
+    }
+
+    const expiryTimeDelta = params.expiryTimeDelta || INTEGERS.ZERO;
+    const result = await this.genericTraderProxyV1.swapExactInputForOutputAndModifyPosition(
+      quote.positionAccountNumber,
+      trade.marketIdsPath,
+      quote.borrowAmountWei,
+      trade.minOutputAmountWei,
+      trade.traderParams,
+      trade.makerAccounts,
+      {
+        fromAccountNumber: params.fromAccountNumber || INTEGERS.ZERO,
+        toAccountNumber: quote.positionAccountNumber,
+        transferAmounts: [{ marketId: params.collateralMarketId, amountWei: params.collateralAmountWei }],
+      },
+      {
+        expiryTimeDelta,
+        marketId: params.borrowMarketId,
+      },
+      {
+        deadline: params.deadline,
+        balanceCheckFlag: params.balanceCheckFlag === undefined ? BalanceCheckFlag.Both : params.balanceCheckFlag,
+        eventType: GenericEventEmissionType.MarginPosition,
+      },
+      { ...options, from: owner },
+    );
+    return { quote, result };
+  }
+
+  /**
+   * Sells the long market for the borrowed market and then moves all of each balance of the position to
+   * `toAccountNumber`. Any debt the trade doesn't repay is repaid from `toAccountNumber`.
+   */
+  public async closeMarginPosition(
+    owner: address,
+    params: CloseMarginPositionParams,
+    options: ContractCallOptions = {},
+  ): Promise<TxResult> {
+    MarginPositionManager.validateTradeParams(params);
+    const marketIds = await this.getters.getAccountMarketsWithBalances(owner, params.positionAccountNumber);
+    if (marketIds.length === 0) {
+      throw new Error(`Account ${params.positionAccountNumber.toFixed(0)} of ${owner} has no position to close`);
+    }
+
+    // The route is quoted for the whole long balance when all of it is sold
+    let routeInputAmountWei = params.inputAmountWei;
+    if (!params.traderParams && !routeInputAmountWei) {
+      routeInputAmountWei = await this.getters.getAccountWei(owner, params.positionAccountNumber, params.longMarketId);
+    }
+    const trade = await this.getTrade(params.longMarketId, params.borrowMarketId, routeInputAmountWei, params);
+
+    // The long market is left empty when all of it is sold, so it's only swept when part of it is sold
+    const transferMarketIds = [params.borrowMarketId, ...marketIds].filter(
+      (marketId, i, all) => all.findIndex(other => other.eq(marketId)) === i
+        && (params.inputAmountWei !== undefined || !marketId.eq(params.longMarketId)),
+    );
+    const transferAmounts: GenericTransferCollateralAmounts[] = transferMarketIds.map(marketId => ({
+      marketId,
+      amountWei: INTEGERS.MAX_UINT,
+    }));
+
+    return this.genericTraderProxyV1.swapExactInputForOutputAndModifyPosition(
+      params.positionAccountNumber,
+      trade.marketIdsPath,
+      params.inputAmountWei || INTEGERS.MAX_UINT,
+      trade.minOutputAmountWei,
+      trade.traderParams,
+      trade.makerAccounts,
+      {
+        transferAmounts,
+        fromAccountNumber: params.positionAccountNumber,
+        toAccountNumber: params.toAccountNumber || INTEGERS.ZERO,
+      },
+      {
+        marketId: params.borrowMarketId,
+        expiryTimeDelta: INTEGERS.ZERO,
+      },
+      {
+        deadline: params.deadline,
+        balanceCheckFlag: params.balanceCheckFlag === undefined ? BalanceCheckFlag.Both : params.balanceCheckFlag,
+        eventType: GenericEventEmissionType.MarginPosition,
+      },
+      { ...options, from: owner },
+    );
+  }
+
+  // ============ Private Helper Functions ============
+
+  private async getQuote(
+    owner: address,
+    params: MarginPositionQuoteParams,
+    borrowAmountWei?: Integer,
+    options?: ContractConstantCallOptions,
+  ): Promise<MarginPositionQuote> {
+    if (!params.leverage.gt(1)) {
+      throw new Error('Leverage must be greater than 1');
+    }
+    if (params.borrowMarketId.eq(params.collateralMarketId)) {
+      throw new Error('The borrowed market cannot be the collateral market');
+    }
+    if (params.borrowMarketId.eq(params.longMarketId)) {
+      throw new Error('The borrowed market cannot be the long market');
+    }
+
+    const positionAccountNumber = params.positionAccountNumber
+      || (await this.borrowPositionManager.getUnusedAccountNumbers(owner, 1, INTEGERS.ONE, options))[0];
+    const { blockNumber, results: accountResults } = await this.getters
+      .batch()
+      .getMarginRatio()
+      .getAccountBalances(owner, positionAccountNumber)
+      .execute(options);
+    const marginRatio: Decimal = accountResults[0];
+    const balances = (accountResults[1] as Balance[])
+      .filter(({ wei }) => !wei.isZero())
+      .map(({ marketId, wei }) => ({ marketId, wei }));
+
+    const marketIds = [params.collateralMarketId, params.borrowMarketId, params.longMarketId];
+    balances
+      .filter(({ marketId }) => !marketIds.some(id => id.eq(marketId)))
+      .forEach(({ marketId }) => marketIds.push(marketId));
+    const marketBatch = this.getters.batch();
+    marketIds.forEach(marketId => marketBatch.getMarketPrice(marketId).getMarketMarginPremium(marketId));
+    const { results: marketResults } = await marketBatch.execute({ ...options, blockNumber });
+    const prices: { [marketId: string]: Integer } = {};
+    const marginPremiums: { [marketId: string]: Decimal } = {};
+    marketIds.forEach((marketId, i) => {
+      prices[marketId.toFixed()] = marketResults[2 * i];
+      marginPremiums[marketId.toFixed()] = marketResults[(2 * i) + 1];
+    });
+
+    const collateralPrice = prices[params.collateralMarketId.toFixed()];
+    const borrowPrice = prices[params.borrowMarketId.toFixed()];
+    const longPrice = prices[params.longMarketId.toFixed()];
+    const actualBorrowAmountWei = borrowAmountWei || params.collateralAmountWei
+      .times(collateralPrice)
+      .times(params.leverage.minus(1))
+      .div(borrowPrice)
+      .integerValue(BigNumber.ROUND_DOWN);
+    const outputAmountWei = params.minOutputAmountWei || actualBorrowAmountWei
+      .times(borrowPrice)
+      .div(longPrice)
+      .integerValue(BigNumber.ROUND_DOWN);
+
+    const addToBalance = (marketId: Integer, deltaWei: Integer) => {
+      const balance = balances.find(other => other.marketId.eq(marketId));
+      if (balance) {
+        balance.wei = balance.wei.plus(deltaWei);
+      } else {
+        balances.push({ marketId, wei: deltaWei });
+      }
+    };
+    addToBalance(params.collateralMarketId, params.collateralAmountWei);
+    addToBalance(params.borrowMarketId, actualBorrowAmountWei.negated());
+    addToBalance(params.longMarketId, outputAmountWei);
+
+    const adjustedValues = AccountRiskCalculator.getAdjustedAccountValues(balances, prices, marginPremiums);
+    const longWei = balances.find(({ marketId }) => marketId.eq(params.longMarketId)).wei;
+    return {
+      adjustedValues,
+      positionAccountNumber,
+      outputAmountWei,
+      borrowAmountWei: actualBorrowAmountWei,
+      liquidationPrice: AccountRiskCalculator.getLiquidationPrice(
+        longWei,
+        longPrice,
+        marginPremiums[params.longMarketId.toFixed()],
+        adjustedValues,
+        marginRatio,
+      ),
+      isLiquidatable: Getters.isLiquidatable(AccountStatus.Normal, marginRatio, adjustedValues),
+    };
+  }
+
+  /**
+   * Uses the given trader params if there are any, and otherwise the best route of `SwapRouteQuoter`
+   */
+  private async getTrade(
+    inputMarketId: Integer,
+    outputMarketId: Integer,
+    inputAmountWei: Integer,
+    params: MarginPositionTradeParams,
+  ): Promise<MarginPositionTrade> {
+    if (params.traderParams) {
+      return {
+        marketIdsPath: [inputMarketId, ...(params.intermediateMarketIds || []), outputMarketId],
+        minOutputAmountWei: params.minOutputAmountWei,
+        traderParams: params.traderParams,
+        makerAccounts: params.makerAccounts || [],
+      };
+    }
+
+    const route = await this.swapRouteQuoter.getBestRoute(
+      inputMarketId,
+      outputMarketId,
+      inputAmountWei,
+      params.routeOptions,
+    );
+    return {
+      marketIdsPath: route.marketIdsPath,
+      minOutputAmountWei: params.minOutputAmountWei || route.minOutputAmountWei,
+      traderParams: route.tradersPath,
+      makerAccounts: route.makerAccounts,
+    };
+  }
+
+  private static validateTradeParams(params: MarginPositionTradeParams) {
+    if (!params.traderParams) {
+      return;
+    }
+    if (!params.minOutputAmountWei) {
+      throw new Error('The minimum output amount must be given with trader params');
+    }
+    const numTrades = (params.intermediateMarketIds || []).length + 1;
+    if (params.traderParams.length !== numTrades) {
+      throw new Error(`Expected ${numTrades} trader params for the market path`);
+    }
+  }
+}
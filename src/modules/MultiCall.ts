@@ -12,12 +12,12 @@ export class MultiCall {
     this.contracts = contracts;
   }
 
-  public async getCurrentBlockTimestamp(): Promise<Integer> {
+  public async getCurrentBlockTimestamp(options?: ContractConstantCallOptions): Promise<Integer> {
     const transaction = !this.contracts.multiCall.options.address
       ? this.contracts.arbitrumMultiCall.methods.getCurrentBlockTimestamp()
       : this.contracts.multiCall.methods.getCurrentBlockTimestamp();
 
-    const result = await this.contracts.callConstantContractFunction(transaction);
+    const result = await this.contracts.callConstantContractFunction(transaction, options);
     return new BigNumber(result);
   }
 
@@ -0,0 +1,219 @@
+import { BigNumber } from 'bignumber.js';
+import Web3 from 'web3';
+import { stripHexPrefix } from '../lib/BytesHelper';
+import { INTEGERS } from '../lib/Constants';
+import { AccountOperation } from './operate/AccountOperation';
+import { Operation } from './operate/Operation';
+import { SignedOperations } from './SignedOperations';
+import {
+  address,
+  AmountDenomination,
+  AmountReference,
+  Integer,
+  SignedActionOptions,
+  SignedOperation,
+} from '../types';
+
+/**
+ * Builds and signs operations for common actions, so the account owner only needs to sign them and anyone (or only
+ * `options.sender`) can send them through the SignedOperationProxy, paying the gas. Send the result using
+ * `AccountOperation.addSignedOperation` with `ProxyType.Signed`.
+ */
+export class SignedActions {
+  private operation: Operation;
+  private signedOperations: SignedOperations;
+
+  constructor(operation: Operation, signedOperations: SignedOperations) {
+    this.operation = operation;
+    this.signedOperations = signedOperations;
+  }
+
+  /**
+   * Withdraws `amount` of the market's token from the account. Withdraws the whole balance if `amount` is not given.
+   */
+  public async signWithdraw(
+    {
+      accountOwner,
+      accountNumber,
+      marketId,
+      amount,
+      to,
+    }: {
+      accountOwner: address;
+      accountNumber: Integer;
+      marketId: Integer;
+      amount?: Integer;
+      to?: address;
+    },
+    options: SignedActionOptions,
+  ): Promise<SignedOperation> {
+    const accountOperation = this.operation.initiate().withdraw({
+      marketId,
+      primaryAccountOwner: accountOwner,
+      primaryAccountId: accountNumber,
+      amount: amount
+        ? { value: amount.negated(), denomination: AmountDenomination.Actual, reference: AmountReference.Delta }
+        : { value: INTEGERS.ZERO, denomination: AmountDenomination.Par, reference: AmountReference.Target },
+      to: to || accountOwner,
+    });
+    return this.sign(accountOperation, accountOwner, options);
+  }
+
+  /**
+   * Moves `amount` of the market's token between two account numbers of the same owner.
+   */
+  public async signTransfer(
+    {
+      accountOwner,
+      fromAccountNumber,
+      toAccountNumber,
+      marketId,
+      amount,
+    }: {
+      accountOwner: address;
+      fromAccountNumber: Integer;
+      toAccountNumber: Integer;
+      marketId: Integer;
+      amount: Integer;
+    },
+    options: SignedActionOptions,
+  ): Promise<SignedOperation> {
+    const accountOperation = this.operation.initiate().transfer({
+      marketId,
+      primaryAccountOwner: accountOwner,
+      primaryAccountId: fromAccountNumber,
+      toAccountOwner: accountOwner,
+      toAccountId: toAccountNumber,
+      amount: {
+        value: amount.negated(),
+        denomination: AmountDenomination.Actual,
+        reference: AmountReference.Delta,
+      },
+    });
+    return this.sign(accountOperation, accountOwner, options);
+  }
+
+  /**
+   * Opens a borrow position by moving collateral from `fromAccountNumber` into `borrowAccountNumber`, the same way
+   * `BorrowPositionProxyV2.openBorrowPosition` does.
+   */
+  public async signOpenBorrowPosition(
+    {
+      accountOwner,
+      fromAccountNumber,
+      borrowAccountNumber,
+      collateralMarketId,
+      amount,
+    }: {
+      accountOwner: address;
+      fromAccountNumber: Integer;
+      borrowAccountNumber: Integer;
+      collateralMarketId: Integer;
+      amount: Integer;
+    },
+    options: SignedActionOptions,
+  ): Promise<SignedOperation> {
+    return this.signTransfer(
+      {
+        accountOwner,
+        fromAccountNumber,
+        amount,
+        toAccountNumber: borrowAccountNumber,
+        marketId: collateralMarketId,
+      },
+      options,
+    );
+  }
+
+  /**
+   * Closes a borrow position by moving the whole balance of each collateral market from `borrowAccountNumber` to
+   * `toAccountNumber`, the same way `BorrowPositionProxyV2.closeBorrowPosition` does. The debt of the position must be
+   * repaid by the time the operation is sent.
+   */
+  public async signCloseBorrowPosition(
+    {
+      accountOwner,
+      borrowAccountNumber,
+      toAccountNumber,
+      collateralMarketIds,
+    }: {
+      accountOwner: address;
+      borrowAccountNumber: Integer;
+      toAccountNumber: Integer;
+      collateralMarketIds: Integer[];
+    },
+    options: SignedActionOptions,
+  ): Promise<SignedOperation> {
+    const accountOperation = this.operation.initiate();
+    collateralMarketIds.forEach((marketId) => {
+      accountOperation.transfer({
+        marketId,
+        primaryAccountOwner: accountOwner,
+        primaryAccountId: borrowAccountNumber,
+        toAccountOwner: accountOwner,
+        toAccountId: toAccountNumber,
+        amount: {
+          value: INTEGERS.ZERO,
+          denomination: AmountDenomination.Par,
+          reference: AmountReference.Target,
+        },
+      });
+    });
+    return this.sign(accountOperation, accountOwner, options);
+  }
+
+  /**
+   * Sets the expiry of the account's borrow in `marketId` to `timeDelta` seconds after the operation is sent.
+   */
+  public async signSetExpiry(
+    {
+      accountOwner,
+      accountNumber,
+      marketId,
+      timeDelta,
+      forceUpdate = true,
+    }: {
+      accountOwner: address;
+      accountNumber: Integer;
+      marketId: Integer;
+      timeDelta: Integer;
+      forceUpdate?: boolean;
+    },
+    options: SignedActionOptions,
+  ): Promise<SignedOperation> {
+    const accountOperation = this.operation.initiate().setExpiry({
+      primaryAccountOwner: accountOwner,
+      primaryAccountId: accountNumber,
+      expiryArgs: [
+        {
+          marketId,
+          timeDelta,
+          forceUpdate,
+          accountOwner,
+          accountId: accountNumber,
+        },
+      ],
+    });
+    return this.sign(accountOperation, accountOwner, options);
+  }
+
+  // ============ Private Helper Functions ============
+
+  private async sign(
+    accountOperation: AccountOperation,
+    accountOwner: address,
+    options: SignedActionOptions,
+  ): Promise<SignedOperation> {
+    const operation = accountOperation.createSignableOperation({
+      expiration: options.expiration,
+      salt: options.salt || new BigNumber(stripHexPrefix(Web3.utils.randomHex(32)), 16),
+      sender: options.sender,
+      signer: options.signer || accountOwner,
+    });
+    const typedSignature = await this.signedOperations.signOperation(operation, options.signingMethod);
+    return {
+      ...operation,
+      typedSignature,
+    };
+  }
+}
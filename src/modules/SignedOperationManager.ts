@@ -0,0 +1,252 @@
+import { BigNumber } from 'bignumber.js';
+import { ethers } from 'ethers';
+import Web3 from 'web3';
+import { stripHexPrefix } from '../lib/BytesHelper';
+import { Contracts } from '../lib/Contracts';
+import { MultiCall } from './MultiCall';
+import { SignedOperations } from './SignedOperations';
+import {
+  address,
+  CancelOperationsResult,
+  ContractCallOptions,
+  Integer,
+  Operation,
+  SignedOperationStatus,
+  SignedOperationStatusOptions,
+  TxResult,
+} from '../types';
+
+const DEFAULT_EVENT_LOOKBACK_BLOCKS = 100000;
+
+/**
+ * Manages the salts and the lifecycle of the operations signed by one or more signers. Salts are derived from a
+ * per-signer nonce, so a signer that persists its nonce (see `getNonce` and `setNonce`) never reuses a salt.
+ */
+export class SignedOperationManager {
+  private contracts: Contracts;
+  private signedOperations: SignedOperations;
+  private multiCall: MultiCall;
+  private nonces: Map<string, number>;
+  private outstandingOperations: Map<string, Operation>;
+
+  constructor(contracts: Contracts, signedOperations: SignedOperations, multiCall: MultiCall) {
+    this.contracts = contracts;
+    this.signedOperations = signedOperations;
+    this.multiCall = multiCall;
+    this.nonces = new Map<string, number>();
+    this.outstandingOperations = new Map<string, Operation>();
+  }
+
+  // ============ Salts ============
+
+  /**
+   * @return The salt for the signer's current nonce. The nonce is incremented, so the next call returns a new salt.
+   */
+  public getNextSalt(signer: address): Integer {
+    const nonce = this.getNonce(signer);
+    this.nonces.set(signer.toLowerCase(), nonce + 1);
+    return SignedOperationManager.deriveSalt(signer, nonce);
+  }
+
+  public getNonce(signer: address): number {
+    return this.nonces.get(signer.toLowerCase()) || 0;
+  }
+
+  /**
+   * Sets the nonce of the signer, such as one persisted by a previous process.
+   */
+  public setNonce(signer: address, nonce: number): void {
+    this.nonces.set(signer.toLowerCase(), nonce);
+  }
+
+  public static deriveSalt(signer: address, nonce: number): Integer {
+    const hash = Web3.utils.soliditySha3({ t: 'address', v: signer }, { t: 'uint256', v: nonce.toString() });
+    return new BigNumber(stripHexPrefix(hash), 16);
+  }
+
+  // ============ Tracking ============
+
+  /**
+   * Starts tracking a signed operation until it is executed, canceled or expired.
+   *
+   * @return The hash of the operation
+   */
+  public track(operation: Operation): string {
+    const operationHash = this.signedOperations.getOperationHash(operation);
+    this.outstandingOperations.set(operationHash, operation);
+    return operationHash;
+  }
+
+  /**
+   * @return True if the operation was tracked
+   */
+  public untrack(operationHash: string): boolean {
+    return this.outstandingOperations.delete(operationHash);
+  }
+
+  /**
+   * @return The tracked operations, optionally only those of one signer, in the order they were tracked
+   */
+  public getOutstandingOperations(signer?: address): Operation[] {
+    return Array.from(this.outstandingOperations.values()).filter(
+      operation => !signer || operation.signer.toLowerCase() === signer.toLowerCase(),
+    );
+  }
+
+  /**
+   * Stops tracking the operations that are no longer valid.
+   *
+   * @return The hashes and statuses of the operations that are no longer tracked
+   */
+  public async pruneOperations(
+    options?: SignedOperationStatusOptions,
+  ): Promise<{ operationHash: string; status: SignedOperationStatus }[]> {
+    const operations = this.getOutstandingOperations();
+    const statuses = await this.getOperationStatuses(operations, options);
+    const prunedOperations = operations
+      .map((operation, i) => ({
+        operationHash: this.signedOperations.getOperationHash(operation),
+        status: statuses[i],
+      }))
+      .filter(({ status }) => status !== SignedOperationStatus.Valid);
+    prunedOperations.forEach(({ operationHash }) => this.untrack(operationHash));
+    return prunedOperations;
+  }
+
+  // ============ Status ============
+
+  public async getOperationStatus(
+    operation: Operation,
+    options?: SignedOperationStatusOptions,
+  ): Promise<SignedOperationStatus> {
+    const [status] = await this.getOperationStatuses([operation], options);
+    return status;
+  }
+
+  /**
+   * Reads the statuses at `options.blockNumber`, or at the latest block. An operation that was executed or canceled is
+   * reported as such even if it has also expired since. Executions and cancellations are only searched for from
+   * `options.fromBlock`, so an operation that became invalid before it is reported as `Unknown`.
+   */
+  public async getOperationStatuses(
+    operations: Operation[],
+    options: SignedOperationStatusOptions = {},
+  ): Promise<SignedOperationStatus[]> {
+    if (operations.length === 0) {
+      return [];
+    }
+
+    const { fromBlock, ...callOptions } = options;
+    const operationHashes = operations.map(operation => this.signedOperations.getOperationHash(operation));
+    // The validity is read in a MultiCall to learn its block, so the timestamp and the events are read at the same one
+    const { blockNumber, results } = await this.multiCall.aggregate(
+      [
+        {
+          target: this.contracts.signedOperationProxy.options.address,
+          callData: this.contracts.signedOperationProxy.methods.getOperationsAreInvalid(operationHashes).encodeABI(),
+        },
+      ],
+      callOptions,
+    );
+    const areInvalid: boolean[] = ethers.utils.defaultAbiCoder.decode(['bool[]'], results[0])[0];
+    const invalidHashes = operationHashes.filter((_, i) => areInvalid[i]);
+    const searchFromBlock = fromBlock === undefined
+      ? Math.max(blockNumber - DEFAULT_EVENT_LOOKBACK_BLOCKS, 0)
+      : fromBlock;
+    const [timestamp, executedHashes, canceledHashes] = await Promise.all([
+      this.multiCall.getCurrentBlockTimestamp({ ...callOptions, blockNumber }),
+      this.getEventOperationHashes(
+        'LogOperationExecuted',
+        invalidHashes,
+        searchFromBlock,
+        blockNumber,
+      ),
+      this.getEventOperationHashes(
+        'LogOperationCanceled',
+        invalidHashes,
+        searchFromBlock,
+        blockNumber,
+      ),
+    ]);
+
+    return operations.map((operation, i) => {
+      if (areInvalid[i]) {
+        if (executedHashes.has(operationHashes[i])) {
+          return SignedOperationStatus.Executed;
+        }
+        return canceledHashes.has(operationHashes[i])
+          ? SignedOperationStatus.Canceled
+          : SignedOperationStatus.Unknown;
+      }
+      if (!operation.expiration.isZero() && operation.expiration.lt(timestamp)) {
+        return SignedOperationStatus.Expired;
+      }
+      return SignedOperationStatus.Valid;
+    });
+  }
+
+  // ============ Canceling ============
+
+  /**
+   * Cancels every operation that is still valid. The cancels can't be batched into one transaction, since
+   * `SignedOperationProxy#cancel` takes one operation and requires the signer to send it, which also rules out
+   * batching them through a contract. So one transaction is sent for each operation, in order. Operations that are not
+   * valid anymore are skipped.
+   *
+   * @return The results of the cancel transactions that were sent. If one of them throws, the ones after it aren't
+   *         sent, and the error and the operations that are still valid are returned along with the results.
+   */
+  public async cancelOperations(
+    operations: Operation[],
+    options?: ContractCallOptions,
+  ): Promise<CancelOperationsResult> {
+    const statuses = await this.getOperationStatuses(operations);
+    const validOperations = operations.filter((_, i) => statuses[i] === SignedOperationStatus.Valid);
+
+    const txResults: TxResult[] = [];
+    for (let i = 0; i < validOperations.length; i += 1) {
+      try {
+        txResults.push(await this.signedOperations.cancelOperation(validOperations[i], options));
+      } catch (error) {
+        return {
+          txResults,
+          error,
+          remainingOperations: validOperations.slice(i),
+        };
+      }
+      this.untrack(this.signedOperations.getOperationHash(validOperations[i]));
+    }
+    return { txResults, remainingOperations: [], error: null };
+  }
+
+  /**
+   * Cancels every tracked operation of the signer that is still valid.
+   */
+  public async cancelOutstandingOperations(
+    signer: address,
+    options?: ContractCallOptions,
+  ): Promise<CancelOperationsResult> {
+    return this.cancelOperations(this.getOutstandingOperations(signer), options);
+  }
+
+  // ============ Private Helper Functions ============
+
+  private async getEventOperationHashes(
+    eventName: string,
+    operationHashes: string[],
+    fromBlock: number,
+    toBlock: number,
+  ): Promise<Set<string>> {
+    if (operationHashes.length === 0) {
+      return new Set<string>();
+    }
+
+    // The operation hash is indexed, so the node only returns the events of these operations
+    const events = await this.contracts.signedOperationProxy.getPastEvents(eventName, {
+      fromBlock,
+      toBlock,
+      filter: { operationHash: operationHashes },
+    });
+    return new Set<string>(events.map(event => event.returnValues.operationHash));
+  }
+}
@@ -0,0 +1,243 @@
+import { ADDRESSES } from '../lib/Constants';
+import { addressesAreEqual } from '../lib/BytesHelper';
+import {
+  ActionType,
+  address,
+  ConfirmationType,
+  ContractCallOptions,
+  ProxyType,
+  SignedOperation,
+  TxResult,
+} from '../types';
+import { MultiCall } from './MultiCall';
+import { AccountOperation } from './operate/AccountOperation';
+import { Operation } from './operate/Operation';
+import { SignedOperations } from './SignedOperations';
+
+const DEFAULT_MAX_OPERATIONS_PER_RELAY = 10;
+
+function invalidOperationError(message: string): Error {
+  const error: any = new Error(message);
+  error.isInvalidOperation = true;
+  return error;
+}
+
+export interface RelayOptions {
+  /**
+   * The maximum number of signed operations to commit in one transaction. Defaults to 10.
+   */
+  maxOperations?: number;
+}
+
+export interface RelayResult {
+  operationHashes: string[];
+  txResult: TxResult;
+}
+
+export interface QuarantinedOperation {
+  operationHash: string;
+  signedOperation: SignedOperation;
+  /**
+   * The message of the error with which the operation failed when it was simulated on its own
+   */
+  error: string;
+}
+
+/**
+ * Collects signed operations and relays them to the SignedOperationProxy. Operations are validated when they are
+ * submitted and again before they are relayed, since they can expire or be canceled while they are pending. Before
+ * they're relayed, they're also simulated, so operations that fail on their own are quarantined instead of making
+ * every relay fail.
+ */
+export class SignedOperationRelayer {
+  private signedOperations: SignedOperations;
+  private operation: Operation;
+  private multiCall: MultiCall;
+  private sender: address;
+  private pendingOperations: Map<string, SignedOperation>;
+  private quarantinedOperations: Map<string, QuarantinedOperation>;
+
+  /**
+   * @param sender  The address that sends the relay transactions. Only operations whose sender is this address or the
+   *                zero address are accepted.
+   */
+  constructor(signedOperations: SignedOperations, operation: Operation, multiCall: MultiCall, sender: address) {
+    this.signedOperations = signedOperations;
+    this.operation = operation;
+    this.multiCall = multiCall;
+    this.sender = sender;
+    this.pendingOperations = new Map<string, SignedOperation>();
+    this.quarantinedOperations = new Map<string, QuarantinedOperation>();
+  }
+
+  // ============ Submitting ============
+
+  /**
+   * Validates the signed operation and adds it to the pending operations. Submitting an operation that is already
+   * pending has no effect, while submitting a quarantined operation makes it pending again. Operations that fail
+   * validation are rejected with an error whose `isInvalidOperation` is true, unlike errors of the node.
+   *
+   * @return The hash of the operation
+   */
+  public async submit(signedOperation: SignedOperation): Promise<string> {
+    const operationHash = this.signedOperations.getOperationHash(signedOperation);
+    if (this.pendingOperations.has(operationHash)) {
+      return operationHash;
+    }
+
+    if (signedOperation.actions.length === 0) {
+      throw invalidOperationError('Signed operation has no actions');
+    }
+    if (signedOperation.actions.some(action => action.actionType === ActionType.Liquidate)) {
+      throw invalidOperationError('Cannot relay liquidations');
+    }
+    if (!addressesAreEqual(signedOperation.sender, ADDRESSES.ZERO)
+      && !addressesAreEqual(signedOperation.sender, this.sender)) {
+      throw invalidOperationError(`Signed operation sender must be the zero address or ${this.sender}`);
+    }
+    if (!(await this.signedOperations.verifyOperationSignature(signedOperation))) {
+      throw invalidOperationError('Signed operation has an invalid signature');
+    }
+
+    const [isValid] = await this.getAreValid([signedOperation]);
+    if (!isValid) {
+      throw invalidOperationError('Signed operation is expired, already used or canceled');
+    }
+
+    this.quarantinedOperations.delete(operationHash);
+    this.pendingOperations.set(operationHash, signedOperation);
+    return operationHash;
+  }
+
+  /**
+   * @return True if the operation was pending or quarantined
+   */
+  public remove(operationHash: string): boolean {
+    const wasQuarantined = this.quarantinedOperations.delete(operationHash);
+    return this.pendingOperations.delete(operationHash) || wasQuarantined;
+  }
+
+  // ============ Getters ============
+
+  public getOperation(operationHash: string): SignedOperation | null {
+    return this.pendingOperations.get(operationHash) || null;
+  }
+
+  /**
+   * @return The pending operations, in the order they were submitted
+   */
+  public getPendingOperations(): { operationHash: string; signedOperation: SignedOperation }[] {
+    return Array.from(this.pendingOperations.entries()).map(([operationHash, signedOperation]) => ({
+      operationHash,
+      signedOperation,
+    }));
+  }
+
+  /**
+   * @return The operations that failed when they were simulated, in the order they were quarantined
+   */
+  public getQuarantinedOperations(): QuarantinedOperation[] {
+    return Array.from(this.quarantinedOperations.values());
+  }
+
+  // ============ Relaying ============
+
+  /**
+   * Drops the pending operations that are no longer valid and commits the oldest remaining ones in a single
+   * transaction through the SignedOperationProxy. The committed operations are removed once the transaction succeeds.
+   *
+   * Each operation is simulated along with the ones already in the batch. Since operations on the same accounts can
+   * depend on each other, an operation that only fails alongside the batch is left pending for a later relay, while
+   * one that also fails on its own is quarantined. Every operation has a sender of the zero address or the relayer's
+   * sender, which is checked when it's submitted, so they can all be sent together.
+   *
+   * @return The hashes of the committed operations and the result of the transaction, or null if nothing can be
+   *         committed
+   */
+  public async relay(
+    relayOptions: RelayOptions = {},
+    options: ContractCallOptions = {},
+  ): Promise<RelayResult | null> {
+    await this.removeInvalidOperations();
+
+    const maxOperations = relayOptions.maxOperations || DEFAULT_MAX_OPERATIONS_PER_RELAY;
+    const pendingOperations = this.getPendingOperations();
+    const operations: { operationHash: string; signedOperation: SignedOperation }[] = [];
+    for (let i = 0; i < pendingOperations.length && operations.length < maxOperations; i += 1) {
+      const { operationHash, signedOperation } = pendingOperations[i];
+      const batchError = await this.simulate(
+        [...operations.map(o => o.signedOperation), signedOperation],
+        options,
+      );
+      if (!batchError) {
+        operations.push(pendingOperations[i]);
+      } else {
+        const error = operations.length === 0 ? batchError : await this.simulate([signedOperation], options);
+        if (error) {
+          this.pendingOperations.delete(operationHash);
+          this.quarantinedOperations.set(operationHash, { operationHash, signedOperation, error: error.message });
+        }
+      }
+    }
+
+    if (operations.length === 0) {
+      return null;
+    }
+
+    const txResult = await this.initiateAccountOperation(operations.map(o => o.signedOperation))
+      .commit({ ...options, from: this.sender });
+
+    const operationHashes = operations.map(({ operationHash }) => operationHash);
+    operationHashes.forEach(operationHash => this.pendingOperations.delete(operationHash));
+    return { operationHashes, txResult };
+  }
+
+  // ============ Private Helper Functions ============
+
+  private initiateAccountOperation(signedOperations: SignedOperation[]): AccountOperation {
+    const accountOperation = this.operation.initiate({ proxy: ProxyType.Signed });
+    signedOperations.forEach(signedOperation => accountOperation.addSignedOperation(signedOperation));
+    return accountOperation;
+  }
+
+  /**
+   * @return The error with which the operations fail when they're sent together, or null if they succeed
+   */
+  private async simulate(signedOperations: SignedOperation[], options: ContractCallOptions): Promise<Error | null> {
+    try {
+      await this.initiateAccountOperation(signedOperations).commit({
+        ...options,
+        from: this.sender,
+        confirmationType: ConfirmationType.Simulate,
+      });
+      return null;
+    } catch (error) {
+      return error;
+    }
+  }
+
+  private async removeInvalidOperations(): Promise<void> {
+    const operations = this.getPendingOperations();
+    if (operations.length === 0) {
+      return;
+    }
+
+    const areValid = await this.getAreValid(operations.map(({ signedOperation }) => signedOperation));
+    operations.forEach(({ operationHash }, i) => {
+      if (!areValid[i]) {
+        this.pendingOperations.delete(operationHash);
+      }
+    });
+  }
+
+  private async getAreValid(signedOperations: SignedOperation[]): Promise<boolean[]> {
+    const [areInvalid, timestamp] = await Promise.all([
+      this.signedOperations.getOperationsAreInvalid(signedOperations),
+      this.multiCall.getCurrentBlockTimestamp(),
+    ]);
+    return signedOperations.map((signedOperation, i) => {
+      const isExpired = !signedOperation.expiration.isZero() && signedOperation.expiration.lt(timestamp);
+      return !areInvalid[i] && !isExpired;
+    });
+  }
+}
@@ -0,0 +1,159 @@
+import BigNumber from 'bignumber.js';
+import http from 'http';
+import { Action, SignedOperation } from '../types';
+import { SignedOperationRelayer } from './SignedOperationRelayer';
+
+const OPERATIONS_PATH = '/signed-operations';
+const MAX_BODY_BYTES = 1024 * 1024;
+
+function httpError(status: number, message: string): Error {
+  const error: any = new Error(message);
+  error.status = status;
+  return error;
+}
+
+/**
+ * Exposes a `SignedOperationRelayer` over HTTP, using JSON bodies in which every number is a decimal string:
+ *
+ *   POST /signed-operations          submits a signed operation and responds with `{ operationHash }`
+ *   GET  /signed-operations          responds with `{ operations: [{ operationHash, signedOperation }] }`
+ *   GET  /signed-operations/:hash    responds with `{ operationHash, signedOperation }`
+ *
+ * Relaying is not exposed, since it spends the gas of the relayer. `handleRequest` can be mounted on any Node HTTP
+ * server or framework that passes through the raw request and response.
+ */
+export class SignedOperationRelayerServer {
+  private relayer: SignedOperationRelayer;
+
+  constructor(relayer: SignedOperationRelayer) {
+    this.relayer = relayer;
+  }
+
+  /**
+   * Starts a server that only handles relayer requests. Use a port of 0 to pick any free port.
+   */
+  public async listen(port: number, hostname: string = '127.0.0.1'): Promise<http.Server> {
+    const server = http.createServer((request, response) => this.handleRequest(request, response));
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, hostname, () => resolve(server));
+    });
+  }
+
+  public async handleRequest(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    try {
+      const path = (request.url || '').split('?')[0].replace(/\/+$/, '');
+      if (path === OPERATIONS_PATH && request.method === 'POST') {
+        const body = await SignedOperationRelayerServer.readBody(request);
+        const operationHash = await this.relayer.submit(SignedOperationRelayerServer.parseSignedOperation(body));
+        SignedOperationRelayerServer.respond(response, 201, { operationHash });
+      } else if (path === OPERATIONS_PATH && request.method === 'GET') {
+        SignedOperationRelayerServer.respond(response, 200, { operations: this.relayer.getPendingOperations() });
+      } else if (path.startsWith(`${OPERATIONS_PATH}/`) && request.method === 'GET') {
+        const operationHash = path.substring(OPERATIONS_PATH.length + 1);
+        const signedOperation = this.relayer.getOperation(operationHash);
+        if (!signedOperation) {
+          throw httpError(404, `Signed operation not found: ${operationHash}`);
+        }
+        SignedOperationRelayerServer.respond(response, 200, { operationHash, signedOperation });
+      } else {
+        throw httpError(404, `Route not found: ${request.method} ${path}`);
+      }
+    } catch (error) {
+      if (error.status) {
+        SignedOperationRelayerServer.respond(response, error.status, { error: error.message });
+      } else if (error.isInvalidOperation) {
+        SignedOperationRelayerServer.respond(response, 400, { error: error.message });
+      } else {
+        // Failures of the node aren't the client's fault, and their messages may reveal the node's configuration
+        SignedOperationRelayerServer.respond(response, 500, { error: 'Internal server error' });
+      }
+    }
+  }
+
+  // ============ Parsing Functions ============
+
+  public static parseSignedOperation(json: any): SignedOperation {
+    if (!json || !Array.isArray(json.actions)) {
+      throw httpError(400, 'Invalid signed operation');
+    }
+    return {
+      actions: json.actions.map(action => SignedOperationRelayerServer.parseAction(action)),
+      expiration: new BigNumber(json.expiration),
+      salt: new BigNumber(json.salt),
+      sender: json.sender,
+      signer: json.signer,
+      typedSignature: json.typedSignature,
+    };
+  }
+
+  private static parseAction(json: any): Action {
+    if (!json || !json.amount) {
+      throw httpError(400, 'Invalid action');
+    }
+    return {
+      actionType: Number(json.actionType),
+      primaryAccountOwner: json.primaryAccountOwner,
+      primaryAccountNumber: new BigNumber(json.primaryAccountNumber),
+      secondaryAccountOwner: json.secondaryAccountOwner,
+      secondaryAccountNumber: new BigNumber(json.secondaryAccountNumber),
+      primaryMarketId: new BigNumber(json.primaryMarketId),
+      secondaryMarketId: new BigNumber(json.secondaryMarketId),
+      amount: {
+        sign: json.amount.sign,
+        denomination: Number(json.amount.denomination),
+        ref: Number(json.amount.ref),
+        value: new BigNumber(json.amount.value),
+      },
+      otherAddress: json.otherAddress,
+      data: json.data,
+    };
+  }
+
+  // ============ Private Helper Functions ============
+
+  /**
+   * Reads the JSON body of the request, rejecting bodies larger than 1 MB without buffering the rest of them
+   */
+  private static readBody(request: http.IncomingMessage): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const tooLargeError = httpError(413, `Request body must be at most ${MAX_BODY_BYTES} bytes`);
+      if (Number(request.headers['content-length']) > MAX_BODY_BYTES) {
+        request.resume();
+        reject(tooLargeError);
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      let length = 0;
+      const onData = (chunk: Buffer) => {
+        length += chunk.length;
+        if (length > MAX_BODY_BYTES) {
+          // The rest of the body is discarded, so the response can still be sent on this connection
+          request.removeListener('data', onData);
+          request.resume();
+          reject(tooLargeError);
+          return;
+        }
+        chunks.push(chunk);
+      };
+      request.on('data', onData);
+      request.on('end', () => {
+        if (length > MAX_BODY_BYTES) {
+          return;
+        }
+        try {
+          resolve(JSON.parse(Buffer.concat(chunks).toString()));
+        } catch (error) {
+          reject(httpError(400, 'Request body must be JSON'));
+        }
+      });
+      request.on('error', reject);
+    });
+  }
+
+  private static respond(response: http.ServerResponse, status: number, body: object): void {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+  }
+}
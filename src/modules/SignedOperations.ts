@@ -29,6 +29,7 @@ import {
   Operation,
   SignedOperation,
   SigningMethod,
+  SigningProvider,
 } from '../types';
 
 const EIP712_OPERATION_STRUCT = [
@@ -106,8 +107,8 @@ export class SignedOperations extends Signer {
 
   // ============ Constructor ============
 
-  constructor(contracts: Contracts, web3: Web3, networkId: number) {
-    super(web3);
+  constructor(contracts: Contracts, web3: Web3, networkId: number, signingProvider?: SigningProvider) {
+    super(web3, signingProvider);
     this.contracts = contracts;
     this.networkId = networkId;
   }
@@ -233,7 +234,7 @@ export class SignedOperations extends Signer {
       case SigningMethod.UnsafeHash:
       case SigningMethod.Compatibility:
         const hash = this.getOperationHash(operation);
-        const rawSignature = await this.web3.eth.sign(hash, operation.signer);
+        const rawSignature = await this.ethSignInternal(hash, operation.signer);
         const hashSig = createTypedSignature(
           rawSignature,
           SIGNATURE_TYPES.DECIMAL,
@@ -301,7 +302,7 @@ export class SignedOperations extends Signer {
         const cancelHash = this.operationHashToCancelOperationHash(
           operationHash,
         );
-        const rawSignature = await this.web3.eth.sign(cancelHash, signer);
+        const rawSignature = await this.ethSignInternal(cancelHash, signer);
         const hashSig = createTypedSignature(
           rawSignature,
           SIGNATURE_TYPES.DECIMAL,
@@ -346,7 +347,7 @@ export class SignedOperations extends Signer {
 
   // noinspection JSUnusedGlobalSymbols
   /**
-   * Uses web3.eth.sign to sign a cancel message for an operation. This signature is not used
+   * Uses eth_sign to sign a cancel message for an operation. This signature is not used
    * on-chain,but allows backend services to verify that the cancel operation api call is from
    * the original maker of the operation.
    */
@@ -358,7 +359,7 @@ export class SignedOperations extends Signer {
   }
 
   /**
-   * Uses web3.eth.sign to sign a cancel message for an operation hash. This signature is not used
+   * Uses eth_sign to sign a cancel message for an operation hash. This signature is not used
    * on-chain, but allows dYdX backend services to verify that the cancel operation api call is from
    * the original maker of the operation.
    */
@@ -367,7 +368,7 @@ export class SignedOperations extends Signer {
     signer: address,
   ): Promise<string> {
     const cancelHash = this.operationHashToCancelOperationHash(operationHash);
-    const signature = await this.web3.eth.sign(cancelHash, signer);
+    const signature = await this.ethSignInternal(cancelHash, signer);
     return createTypedSignature(signature, SIGNATURE_TYPES.DECIMAL);
   }
 
@@ -397,6 +398,18 @@ export class SignedOperations extends Signer {
     return addressesAreEqual(signer, expectedSigner);
   }
 
+  /**
+   * Returns true if the operation has a valid signature from its signer, which may also be a smart contract wallet
+   * that implements EIP-1271.
+   */
+  public async verifyOperationSignature(signedOperation: SignedOperation): Promise<boolean> {
+    return this.typedSignatureIsValid(
+      this.getOperationHash(signedOperation),
+      signedOperation.typedSignature,
+      signedOperation.signer,
+    );
+  }
+
   /**
    * Returns true if the cancel operation message has a valid signature.
    */
@@ -424,6 +437,18 @@ export class SignedOperations extends Signer {
     return addressesAreEqual(signer, expectedSigner);
   }
 
+  /**
+   * Returns true if the cancel operation message has a valid signature from the signer of the operation, which may
+   * also be a smart contract wallet that implements EIP-1271.
+   */
+  public async verifyCancelOperationSignature(operation: Operation, typedSignature: string): Promise<boolean> {
+    return this.typedSignatureIsValid(
+      this.operationHashToCancelOperationHash(this.getOperationHash(operation)),
+      typedSignature,
+      operation.signer,
+    );
+  }
+
   // ============ Hashing Functions ============
 
   /**
@@ -585,7 +610,12 @@ export class SignedOperations extends Signer {
       primaryType: 'Operation',
       message: operationData,
     };
-    return this.ethSignTypedDataInternal(operation.signer, data, signingMethod);
+    return this.ethSignTypedDataInternal(
+      operation.signer,
+      data,
+      this.getOperationHash(operation),
+      signingMethod,
+    );
   }
 
   private async ethSignTypedCancelOperationInternal(
@@ -605,6 +635,11 @@ export class SignedOperations extends Signer {
         operationHashes: [operationHash],
       },
     };
-    return this.ethSignTypedDataInternal(signer, data, signingMethod);
+    return this.ethSignTypedDataInternal(
+      signer,
+      data,
+      this.operationHashToCancelOperationHash(operationHash),
+      signingMethod,
+    );
   }
 }
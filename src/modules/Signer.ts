@@ -1,16 +1,25 @@
 import Web3 from 'web3';
-import { promisify } from 'es6-promisify';
-import { stripHexPrefix } from '../lib/BytesHelper';
-import { SIGNATURE_TYPES } from '../lib/SignatureHelper';
-import { SigningMethod } from '../../src/types';
+import { addressesAreEqual, stripHexPrefix } from '../lib/BytesHelper';
+import {
+  ecRecoverTypedSignature,
+  EIP1271_IS_VALID_SIGNATURE_ABI,
+  EIP1271_MAGIC_VALUE,
+  getTypedSignatureType,
+  getTypedSignatureWithoutType,
+  SIGNATURE_TYPES,
+} from '../lib/SignatureHelper';
+import { Web3SigningProvider } from '../lib/SigningProviders';
+import { address, SigningMethod, SigningProvider } from '../../src/types';
 
 export abstract class Signer {
   protected web3: Web3;
+  protected signingProvider: SigningProvider;
 
   // ============ Constructor ============
 
-  constructor(web3: Web3) {
+  constructor(web3: Web3, signingProvider: SigningProvider = new Web3SigningProvider(web3)) {
     this.web3 = web3;
+    this.signingProvider = signingProvider;
   }
 
   // ============ Functions ============
@@ -31,51 +40,78 @@ export abstract class Signer {
    */
   public abstract getDomainHash(): string;
 
+  /**
+   * Returns true if the typed signature of the hash is from the expected signer. If the signer is a smart contract
+   * wallet, such as a Gnosis Safe, the signature is checked by calling `isValidSignature` on it (EIP-1271), with the
+   * type byte removed.
+   */
+  public async typedSignatureIsValid(
+    hash: string,
+    typedSignature: string,
+    expectedSigner: address,
+  ): Promise<boolean> {
+    if (getTypedSignatureType(typedSignature) !== SIGNATURE_TYPES.CONTRACT) {
+      try {
+        if (addressesAreEqual(ecRecoverTypedSignature(hash, typedSignature), expectedSigner)) {
+          return true;
+        }
+      } catch (e) {
+        // the signature may still be valid for a contract wallet
+      }
+    }
+    return this.contractSignatureIsValid(hash, getTypedSignatureWithoutType(typedSignature), expectedSigner);
+  }
+
+  /**
+   * Returns true if `contractWallet` has code and accepts the signature of the hash, following EIP-1271.
+   */
+  public async contractSignatureIsValid(
+    hash: string,
+    signature: string,
+    contractWallet: address,
+  ): Promise<boolean> {
+    const code = await this.web3.eth.getCode(contractWallet);
+    if (stripHexPrefix(code).replace(/0/g, '').length === 0) {
+      return false;
+    }
+
+    try {
+      const result = await this.web3.eth.call({
+        to: contractWallet,
+        data: this.web3.eth.abi.encodeFunctionCall(EIP1271_IS_VALID_SIGNATURE_ABI, [hash, signature]),
+      });
+      return result.slice(0, 10).toLowerCase() === EIP1271_MAGIC_VALUE;
+    } catch (e) {
+      // the contract does not implement EIP-1271 or reverted
+      return false;
+    }
+  }
+
+  public setSigningProvider(signingProvider: SigningProvider): void {
+    this.signingProvider = signingProvider;
+  }
+
+  /**
+   * Returns the raw signature of the hash, signed the same way `eth_sign` does.
+   */
+  protected async ethSignInternal(hash: string, signer: string): Promise<string> {
+    return this.signingProvider.signHash(hash, signer);
+  }
+
+  /**
+   * Returns the raw signature of the UTF-8 message, signed the same way `personal_sign` does.
+   */
+  protected async personalSignInternal(message: string, signer: string): Promise<string> {
+    return this.signingProvider.signMessage(message, signer);
+  }
+
   protected async ethSignTypedDataInternal(
     signer: string,
     data: any,
+    hash: string,
     signingMethod: SigningMethod,
   ): Promise<string> {
-    let sendMethod: string;
-    let rpcMethod: string;
-    let rpcData: any;
-
-    switch (signingMethod) {
-      case SigningMethod.TypedData:
-        sendMethod = 'send';
-        rpcMethod = 'eth_signTypedData';
-        rpcData = data;
-        break;
-      case SigningMethod.MetaMask:
-        sendMethod = 'sendAsync';
-        rpcMethod = 'eth_signTypedData_v3';
-        rpcData = JSON.stringify(data);
-        break;
-      case SigningMethod.MetaMaskLatest:
-        sendMethod = 'sendAsync';
-        rpcMethod = 'eth_signTypedData_v4';
-        rpcData = JSON.stringify(data);
-        break;
-      case SigningMethod.CoinbaseWallet:
-        sendMethod = 'sendAsync';
-        rpcMethod = 'eth_signTypedData';
-        rpcData = data;
-        break;
-      default:
-        throw new Error(`Invalid signing method ${signingMethod}`);
-    }
-
-    const provider = this.web3.currentProvider;
-    const sendAsync = promisify(provider[sendMethod]).bind(provider);
-    const response = await sendAsync({
-      method: rpcMethod,
-      params: [signer, rpcData],
-      jsonrpc: '2.0',
-      id: new Date().getTime(),
-    });
-    if (response.error) {
-      throw new Error(response.error.message);
-    }
-    return `0x${stripHexPrefix(response.result)}0${SIGNATURE_TYPES.NO_PREPEND}`;
+    const signature = await this.signingProvider.signTypedData(signer, data, hash, signingMethod);
+    return `0x${stripHexPrefix(signature)}0${SIGNATURE_TYPES.NO_PREPEND}`;
   }
 }
@@ -1,9 +1,86 @@
 import { default as axios } from 'axios';
+import BigNumber from 'bignumber.js';
+import { INTEGERS } from '../lib/Constants';
+import {
+  address,
+  Balance,
+  Index,
+  Integer,
+  SubgraphAmmPair,
+  SubgraphBorrowPosition,
+  SubgraphBorrowPositionStatus,
+  SubgraphExpiration,
+  SubgraphInterestRate,
+  SubgraphLiquidation,
+  SubgraphMarginAccount,
+  SubgraphMarket,
+  SubgraphPage,
+  SubgraphPageOptions,
+} from '../types';
+import DolomiteMarginMath from './DolomiteMarginMath';
 
 const DEFAULT_API_ENDPOINT = 'https://api.thegraph.com/subgraphs/name/dolomite-exchange/dolomite-v2-mumbai';
 const DEFAULT_API_TIMEOUT = 10000;
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
 const defaultMethod = 'POST';
 
+const TOKEN_FIELDS = `
+  id
+  marketId
+  decimals
+  interestIndex {
+    borrowIndex
+    supplyIndex
+    lastUpdate
+  }
+`;
+
+const MARGIN_ACCOUNT_FIELDS = `
+  user {
+    id
+  }
+  accountNumber
+`;
+
+interface RawToken {
+  id: string;
+  marketId: string;
+  decimals: string;
+  interestIndex: {
+    borrowIndex: string;
+    supplyIndex: string;
+    lastUpdate: string;
+  };
+}
+
+interface RawMarginAccount {
+  user: { id: string };
+  accountNumber: string;
+}
+
+interface RawTokenValue {
+  token: RawToken;
+  valuePar: string;
+}
+
+interface RawInterestRateSnapshot {
+  id: string;
+  token: RawToken;
+  timestamp: string;
+  borrowIndex: string;
+  supplyIndex: string;
+  borrowInterestRate: string;
+  supplyInterestRate: string;
+}
+
+/**
+ * The `where` argument of a query, which maps fields (with suffixes like `_gt`) to values or nested filters
+ */
+interface RawFilter {
+  [field: string]: string | null | RawFilter;
+}
+
 export class SubgraphAPI {
   private endpoint: string;
   private timeout: number;
@@ -16,12 +93,444 @@ export class SubgraphAPI {
     this.timeout = timeout;
   }
 
-  // TODO
-  async foo(): Promise<string> {
-    return axios.request({
+  // ============ Accounts ============
+
+  /**
+   * Gets margin accounts and their balances, optionally filtered by owner
+   */
+  public async getMarginAccounts(
+    owner?: address,
+    options: SubgraphPageOptions = {},
+  ): Promise<SubgraphPage<SubgraphMarginAccount>> {
+    const where: RawFilter = {};
+    if (owner) {
+      where.user = owner.toLowerCase();
+    }
+
+    return this.queryPage(
+      'marginAccounts',
+      'MarginAccount_filter',
+      `
+        id
+        ${MARGIN_ACCOUNT_FIELDS}
+        tokenValues {
+          token {
+            ${TOKEN_FIELDS}
+          }
+          valuePar
+        }
+      `,
+      where,
+      options,
+      account => ({
+        ...SubgraphAPI.parseMarginAccount(account),
+        balances: account.tokenValues.map(SubgraphAPI.parseTokenValue),
+      }),
+    );
+  }
+
+  public async getBorrowPositions(
+    owner?: address,
+    status?: SubgraphBorrowPositionStatus,
+    options: SubgraphPageOptions = {},
+  ): Promise<SubgraphPage<SubgraphBorrowPosition>> {
+    const where: RawFilter = {};
+    if (owner) {
+      where.effectiveUser = owner.toLowerCase();
+    }
+    if (status) {
+      where.status = status;
+    }
+
+    return this.queryPage(
+      'borrowPositions',
+      'BorrowPosition_filter',
+      `
+        id
+        marginAccount {
+          ${MARGIN_ACCOUNT_FIELDS}
+        }
+        status
+        openTimestamp
+        closeTimestamp
+        amounts {
+          token {
+            ${TOKEN_FIELDS}
+          }
+          amountPar
+        }
+      `,
+      where,
+      options,
+      position => ({
+        ...SubgraphAPI.parseMarginAccount(position.marginAccount),
+        status: position.status,
+        openTimestamp: new BigNumber(position.openTimestamp),
+        closeTimestamp: position.closeTimestamp ? new BigNumber(position.closeTimestamp) : null,
+        balances: position.amounts.map(amount => SubgraphAPI.parseTokenValue({
+          token: amount.token,
+          valuePar: amount.amountPar,
+        })),
+      }),
+    );
+  }
+
+  // ============ Liquidations & Expirations ============
+
+  /**
+   * Gets liquidations, optionally filtered by the owner of the liquidated account
+   */
+  public async getLiquidations(
+    liquidAccountOwner?: address,
+    options: SubgraphPageOptions = {},
+  ): Promise<SubgraphPage<SubgraphLiquidation>> {
+    const where: RawFilter = {};
+    if (liquidAccountOwner) {
+      where.liquidEffectiveUser = liquidAccountOwner.toLowerCase();
+    }
+
+    return this.queryPage(
+      'liquidations',
+      'Liquidation_filter',
+      `
+        id
+        transaction {
+          id
+          timestamp
+        }
+        solidMarginAccount {
+          ${MARGIN_ACCOUNT_FIELDS}
+        }
+        liquidMarginAccount {
+          ${MARGIN_ACCOUNT_FIELDS}
+        }
+        heldToken {
+          ${TOKEN_FIELDS}
+        }
+        borrowedToken {
+          ${TOKEN_FIELDS}
+        }
+        heldTokenAmountDeltaWei
+        borrowedTokenAmountDeltaWei
+      `,
+      where,
+      options,
+      (liquidation) => {
+        const solidAccount = SubgraphAPI.parseMarginAccount(liquidation.solidMarginAccount);
+        const liquidAccount = SubgraphAPI.parseMarginAccount(liquidation.liquidMarginAccount);
+        return {
+          transactionHash: liquidation.transaction.id,
+          timestamp: new BigNumber(liquidation.transaction.timestamp),
+          solidAccountOwner: solidAccount.owner,
+          solidAccountNumber: solidAccount.number,
+          liquidAccountOwner: liquidAccount.owner,
+          liquidAccountNumber: liquidAccount.number,
+          heldMarketId: new BigNumber(liquidation.heldToken.marketId),
+          owedMarketId: new BigNumber(liquidation.borrowedToken.marketId),
+          heldWei: SubgraphAPI.parseTokenAmount(liquidation.heldTokenAmountDeltaWei, liquidation.heldToken),
+          owedWei: SubgraphAPI.parseTokenAmount(liquidation.borrowedTokenAmountDeltaWei, liquidation.borrowedToken),
+        };
+      },
+    );
+  }
+
+  /**
+   * Gets the balances that have an expiry set, optionally only those that expire at or before `expiringBefore`
+   */
+  public async getExpirations(
+    expiringBefore?: Integer,
+    options: SubgraphPageOptions = {},
+  ): Promise<SubgraphPage<SubgraphExpiration>> {
+    const where: RawFilter = { expirationTimestamp_not: null };
+    if (expiringBefore) {
+      where.expirationTimestamp_lte = expiringBefore.toFixed(0);
+    }
+
+    return this.queryPage(
+      'marginAccountTokenValues',
+      'MarginAccountTokenValue_filter',
+      `
+        id
+        marginAccount {
+          ${MARGIN_ACCOUNT_FIELDS}
+        }
+        token {
+          ${TOKEN_FIELDS}
+        }
+        valuePar
+        expirationTimestamp
+      `,
+      where,
+      options,
+      tokenValue => ({
+        ...SubgraphAPI.parseMarginAccount(tokenValue.marginAccount),
+        marketId: new BigNumber(tokenValue.token.marketId),
+        expiry: new BigNumber(tokenValue.expirationTimestamp),
+        balance: SubgraphAPI.parseTokenValue(tokenValue),
+      }),
+    );
+  }
+
+  // ============ Markets ============
+
+  public async getMarkets(
+    options: SubgraphPageOptions = {},
+  ): Promise<SubgraphPage<SubgraphMarket>> {
+    return this.queryPage(
+      'marketRiskInfos',
+      'MarketRiskInfo_filter',
+      `
+        id
+        token {
+          ${TOKEN_FIELDS}
+        }
+        totalPar {
+          borrowPar
+          supplyPar
+        }
+        oracle
+        interestSetter
+        marginPremium
+        liquidationRewardPremium
+        supplyMaxWei
+        isBorrowingDisabled
+      `,
+      {},
+      options,
+      info => ({
+        marketId: new BigNumber(info.token.marketId),
+        market: {
+          token: info.token.id,
+          totalPar: {
+            borrow: SubgraphAPI.parseTokenAmount(info.totalPar.borrowPar, info.token),
+            supply: SubgraphAPI.parseTokenAmount(info.totalPar.supplyPar, info.token),
+          },
+          index: SubgraphAPI.parseIndex(info.token.interestIndex),
+          priceOracle: info.oracle,
+          interestSetter: info.interestSetter,
+          marginPremium: new BigNumber(info.marginPremium),
+          spreadPremium: new BigNumber(info.liquidationRewardPremium),
+          maxWei: info.supplyMaxWei ? SubgraphAPI.parseTokenAmount(info.supplyMaxWei, info.token) : INTEGERS.ZERO,
+          isClosing: info.isBorrowingDisabled,
+        },
+      }),
+    );
+  }
+
+  public async getAmmPairs(
+    options: SubgraphPageOptions = {},
+  ): Promise<SubgraphPage<SubgraphAmmPair>> {
+    return this.queryPage(
+      'ammPairs',
+      'AmmPair_filter',
+      `
+        id
+        token0 {
+          ${TOKEN_FIELDS}
+        }
+        token1 {
+          ${TOKEN_FIELDS}
+        }
+        reserve0
+        reserve1
+        totalSupply
+      `,
+      {},
+      options,
+      pair => ({
+        address: pair.id,
+        token0: pair.token0.id,
+        token1: pair.token1.id,
+        marketId0: new BigNumber(pair.token0.marketId),
+        marketId1: new BigNumber(pair.token1.marketId),
+        reserve0: SubgraphAPI.parseTokenAmount(pair.reserve0, pair.token0),
+        reserve1: SubgraphAPI.parseTokenAmount(pair.reserve1, pair.token1),
+        // LP tokens always have 18 decimals
+        totalSupply: new BigNumber(pair.totalSupply).times(INTEGERS.INTEREST_RATE_BASE).integerValue(),
+      }),
+    );
+  }
+
+  /**
+   * Gets the interest rates and indices of a market over time, in ascending order of timestamp. Several snapshots can
+   * share a timestamp, so the cursor of this query is the timestamp and ID of the last item, and the next page starts
+   * at that timestamp and skips the snapshots up to that ID.
+   */
+  public async getInterestRateHistory(
+    marketId: Integer,
+    options: SubgraphPageOptions = {},
+  ): Promise<SubgraphPage<SubgraphInterestRate>> {
+    const first = SubgraphAPI.getPageSize(options);
+    const where: RawFilter = { token_: { marketId: marketId.toFixed(0) } };
+    let cursorTimestamp: string;
+    let cursorId: string;
+    if (options.cursor) {
+      [cursorTimestamp, cursorId] = SubgraphAPI.parseInterestRateCursor(options.cursor);
+      where.timestamp_gte = cursorTimestamp;
+    }
+
+    // The subgraph orders snapshots with the same timestamp by ID
+    const result = await this.query<{ interestRateSnapshots: RawInterestRateSnapshot[] }>(
+      `
+        query getInterestRateHistory($first: Int!, $where: InterestRateSnapshot_filter!) {
+          interestRateSnapshots(
+            first: $first,
+            where: $where,
+            orderBy: timestamp,
+            orderDirection: asc${SubgraphAPI.getBlockArgument(options)}
+          ) {
+            id
+            token {
+              ${TOKEN_FIELDS}
+            }
+            timestamp
+            borrowIndex
+            supplyIndex
+            borrowInterestRate
+            supplyInterestRate
+          }
+        }
+      `,
+      { first, where },
+    );
+
+    const snapshots = result.interestRateSnapshots;
+    const newSnapshots = snapshots.filter(
+      snapshot => snapshot.timestamp !== cursorTimestamp || snapshot.id > cursorId,
+    );
+    if (snapshots.length === first && newSnapshots.length === 0) {
+      throw new Error(`More than ${first} interest rate snapshots have timestamp ${cursorTimestamp}`);
+    }
+
+    const items: SubgraphInterestRate[] = newSnapshots.map(snapshot => ({
+      marketId: new BigNumber(snapshot.token.marketId),
+      timestamp: new BigNumber(snapshot.timestamp),
+      index: SubgraphAPI.parseIndex({
+        borrowIndex: snapshot.borrowIndex,
+        supplyIndex: snapshot.supplyIndex,
+        lastUpdate: snapshot.timestamp,
+      }),
+      borrowInterestRate: new BigNumber(snapshot.borrowInterestRate),
+      supplyInterestRate: new BigNumber(snapshot.supplyInterestRate),
+    }));
+
+    const lastSnapshot = snapshots[snapshots.length - 1];
+    return {
+      items,
+      cursor: snapshots.length < first ? null : `${lastSnapshot.timestamp}:${lastSnapshot.id}`,
+    };
+  }
+
+  // ============ Helper Functions ============
+
+  private static getPageSize(options: SubgraphPageOptions): number {
+    const first = options.first || DEFAULT_PAGE_SIZE;
+    if (first > MAX_PAGE_SIZE) {
+      throw new Error(`Page size cannot exceed ${MAX_PAGE_SIZE}`);
+    }
+    return first;
+  }
+
+  private static getBlockArgument(options: SubgraphPageOptions): string {
+    return options.blockNumber ? `, block: { number: ${options.blockNumber} }` : '';
+  }
+
+  private static parseInterestRateCursor(cursor: string): [string, string] {
+    const separatorIndex = cursor.indexOf(':');
+    if (separatorIndex === -1) {
+      throw new Error(`Invalid interest rate history cursor ${cursor}`);
+    }
+    return [cursor.substring(0, separatorIndex), cursor.substring(separatorIndex + 1)];
+  }
+
+  private static parseMarginAccount(account: RawMarginAccount): { owner: address, number: Integer } {
+    return {
+      owner: account.user.id,
+      number: new BigNumber(account.accountNumber),
+    };
+  }
+
+  private static parseIndex(
+    index: { borrowIndex: string, supplyIndex: string, lastUpdate: string },
+  ): Index {
+    return {
+      borrow: new BigNumber(index.borrowIndex),
+      supply: new BigNumber(index.supplyIndex),
+      lastUpdate: new BigNumber(index.lastUpdate),
+    };
+  }
+
+  /**
+   * The subgraph stores amounts in units of the token (IE 1.5 WETH), whereas the protocol uses the token's smallest
+   * denomination
+   */
+  private static parseTokenAmount(amount: string, token: RawToken): Integer {
+    return new BigNumber(amount).shiftedBy(Number(token.decimals)).integerValue();
+  }
+
+  private static parseTokenValue(tokenValue: RawTokenValue): Balance {
+    const par = SubgraphAPI.parseTokenAmount(tokenValue.valuePar, tokenValue.token);
+    return {
+      par,
+      marketId: new BigNumber(tokenValue.token.marketId),
+      tokenAddress: tokenValue.token.id,
+      wei: DolomiteMarginMath.parToWei(par, SubgraphAPI.parseIndex(tokenValue.token.interestIndex)),
+    };
+  }
+
+  /**
+   * Queries one page of `entity`, ordered by ID. The cursor of these queries is the ID of the last item.
+   */
+  private async queryPage<T>(
+    entity: string,
+    filterType: string,
+    fields: string,
+    where: RawFilter,
+    options: SubgraphPageOptions,
+    parse: (item: any) => T,
+  ): Promise<SubgraphPage<T>> {
+    const first = SubgraphAPI.getPageSize(options);
+    const whereWithCursor: RawFilter = { ...where };
+    if (options.cursor) {
+      whereWithCursor.id_gt = options.cursor;
+    }
+
+    const result = await this.query<{ [entity: string]: any[] }>(
+      `
+        query ${entity}($first: Int!, $where: ${filterType}!) {
+          ${entity}(
+            first: $first,
+            where: $where,
+            orderBy: id,
+            orderDirection: asc${SubgraphAPI.getBlockArgument(options)}
+          ) {
+            ${fields}
+          }
+        }
+      `,
+      { first, where: whereWithCursor },
+    );
+
+    const rawItems = result[entity];
+    return {
+      items: rawItems.map(parse),
+      cursor: rawItems.length < first ? null : rawItems[rawItems.length - 1].id,
+    };
+  }
+
+  private async query<T>(query: string, variables: object): Promise<T> {
+    const response = await axios.request({
       url: this.endpoint,
       timeout: this.timeout,
       method: defaultMethod,
+      data: { query, variables },
     });
+
+    const errors: { message: string }[] = response.data.errors;
+    if (errors && errors.length > 0) {
+      throw new Error(`Subgraph query failed: ${errors.map(e => e.message).join(', ')}`);
+    }
+
+    return response.data.data;
   }
 }
@@ -0,0 +1,478 @@
+import BigNumber from 'bignumber.js';
+import { ethers } from 'ethers';
+import { Contracts } from '../lib/Contracts';
+import { AccountInfo, address, ContractConstantCallOptions, Decimal, Integer } from '../types';
+import { DolomiteAmmFactory } from './DolomiteAmmFactory';
+import { Reserves } from './DolomiteAmmPair';
+import { DolomiteAmmRouterProxy } from './DolomiteAmmRouterProxy';
+import { GenericTraderParam, GenericTraderType } from './GenericTraderProxyV1';
+import { Getters } from './Getters';
+import { IsolationModeUnwrapper } from './IsolationModeUnwrapper';
+import { IsolationModeWrapper } from './IsolationModeWrapper';
+import { IsolationModeConverter } from './LiquidationRoutePlanner';
+
+const DEFAULT_SLIPPAGE_TOLERANCE = new BigNumber('0.005');
+const DEFAULT_MAX_HOPS = 3;
+const DEFAULT_MAX_ROUTES = 3;
+const DEFAULT_MAX_CACHE_AGE_MS = 15000;
+
+export interface ExternalLiquidityQuote {
+  outputAmountWei: Integer;
+  /**
+   * The `tradeData` of the trader param, encoded the way the trader expects it. For `ParaswapTrader` this is the
+   * minimum output amount and the calldata for the Augustus router.
+   */
+  tradeData: string;
+}
+
+export interface ExternalLiquiditySource {
+  /**
+   * The address of the `ExternalLiquidity` trader that executes the quotes of this source
+   */
+  trader: address;
+  /**
+   * Quotes selling `inputAmountWei` of `inputToken` for `outputToken`, or returns null if the pair can't be traded. The
+   * quotes are fetched off-chain, since traders like `ParaswapTrader` don't implement `getExchangeCost`.
+   */
+  getQuote(inputToken: address, outputToken: address, inputAmountWei: Integer): Promise<ExternalLiquidityQuote | null>;
+}
+
+export interface SwapRouteOptions {
+  /**
+   * The fraction by which the output of each hop may fall short of its quote. Each hop is quoted from the output of the
+   * previous hop after slippage, since Dolomite AMM pairs revert if their reserves can't pay the encoded output.
+   * Defaults to 0.5%.
+   */
+  slippageTolerance?: Decimal;
+  /**
+   * The converters for any isolation mode markets that may appear on either end of the route
+   */
+  isolationModeConverters?: IsolationModeConverter[];
+  externalLiquiditySources?: ExternalLiquiditySource[];
+  /**
+   * The most Dolomite AMM pairs a route may trade through. Defaults to 3.
+   */
+  maxHops?: number;
+  /**
+   * The most routes that are returned. Defaults to 3.
+   */
+  maxRoutes?: number;
+  /**
+   * How old the cached Dolomite AMM reserves may be before they're reloaded. Defaults to 15 seconds.
+   */
+  maxCacheAgeMs?: number;
+}
+
+export interface SwapRoute {
+  marketIdsPath: Integer[];
+  /**
+   * The quoted amount of each market in `marketIdsPath`, before the slippage of its own hop
+   */
+  amountWeisPath: Integer[];
+  inputAmountWei: Integer;
+  outputAmountWei: Integer;
+  minOutputAmountWei: Integer;
+  tradersPath: GenericTraderParam[];
+  makerAccounts: AccountInfo[];
+}
+
+interface AmmPair {
+  address: address;
+  marketId0: Integer;
+  marketId1: Integer;
+  reserves: Reserves;
+}
+
+interface AmmPairsCache {
+  timestamp: number;
+  marketTokens: address[];
+  pairs: AmmPair[];
+}
+
+interface RouteStep {
+  outputMarketId: Integer;
+  outputAmountWei: Integer;
+  traderParam: GenericTraderParam;
+  /**
+   * The Dolomite AMM pair that is the maker account of an `InternalLiquidity` step
+   */
+  maker?: address;
+}
+
+/**
+ * Finds the best routes for swapping one market for another with `GenericTraderProxyV1`. Every path through the pairs
+ * of `DolomiteAmmFactory#allPairs` is quoted off-chain from cached reserves and compared with the quotes of the given
+ * external liquidity sources. Isolation mode markets are unwrapped or wrapped on either end using the provided
+ * converters, which are quoted on-chain with `getExchangeCost`.
+ */
+export class SwapRouteQuoter {
+  private contracts: Contracts;
+  private getters: Getters;
+  private dolomiteAmmFactory: DolomiteAmmFactory;
+  private dolomiteAmmRouterProxy: DolomiteAmmRouterProxy;
+  private ammPairsCache: AmmPairsCache | null;
+
+  constructor(
+    contracts: Contracts,
+    getters: Getters,
+    dolomiteAmmFactory: DolomiteAmmFactory,
+    dolomiteAmmRouterProxy: DolomiteAmmRouterProxy,
+  ) {
+    this.contracts = contracts;
+    this.getters = getters;
+    this.dolomiteAmmFactory = dolomiteAmmFactory;
+    this.dolomiteAmmRouterProxy = dolomiteAmmRouterProxy;
+    this.ammPairsCache = null;
+  }
+
+  // ============ Getters ============
+
+  public async getBestRoute(
+    inputMarketId: Integer,
+    outputMarketId: Integer,
+    inputAmountWei: Integer,
+    routeOptions: SwapRouteOptions = {},
+    options?: ContractConstantCallOptions,
+  ): Promise<SwapRoute> {
+    const [route] = await this.getBestRoutes(inputMarketId, outputMarketId, inputAmountWei, routeOptions, options);
+    return route;
+  }
+
+  /**
+   * @return The routes for selling `inputAmountWei` of the input market for the output market, ordered from the largest
+   *         output to the smallest
+   */
+  public async getBestRoutes(
+    inputMarketId: Integer,
+    outputMarketId: Integer,
+    inputAmountWei: Integer,
+    routeOptions: SwapRouteOptions = {},
+    options?: ContractConstantCallOptions,
+  ): Promise<SwapRoute[]> {
+    if (inputMarketId.eq(outputMarketId)) {
+      throw new Error('Input market and output market cannot be the same');
+    }
+    const slippageTolerance = routeOptions.slippageTolerance || DEFAULT_SLIPPAGE_TOLERANCE;
+    if (slippageTolerance.lt(0) || slippageTolerance.gte(1)) {
+      throw new Error(`Invalid slippage tolerance: ${slippageTolerance.toFixed()}`);
+    }
+
+    const cache = await this.getAmmPairs(routeOptions.maxCacheAgeMs, options);
+    const converters = routeOptions.isolationModeConverters || [];
+    const inputConverter = converters.find(converter => converter.marketId.eq(inputMarketId));
+    const outputConverter = converters.find(converter => converter.marketId.eq(outputMarketId));
+
+    const firstSteps: RouteStep[] = [];
+    let fromMarketId = inputMarketId;
+    let fromAmountWei = inputAmountWei;
+    if (inputConverter) {
+      fromMarketId = inputConverter.underlyingMarketId;
+      const unwrappedAmountWei = await this.quoteConverter(
+        cache,
+        inputMarketId,
+        fromMarketId,
+        inputAmountWei,
+        this.getUnwrapper(inputConverter.unwrapper),
+        options,
+      );
+      firstSteps.push({
+        outputMarketId: fromMarketId,
+        outputAmountWei: unwrappedAmountWei,
+        traderParam: SwapRouteQuoter.getConverterTraderParam(
+          GenericTraderType.IsolationModeUnwrapper,
+          inputConverter.unwrapper,
+        ),
+      });
+      fromAmountWei = SwapRouteQuoter.applySlippage(unwrappedAmountWei, slippageTolerance);
+    }
+    const toMarketId = outputConverter ? outputConverter.underlyingMarketId : outputMarketId;
+
+    let middleRoutes: RouteStep[][];
+    if (fromMarketId.eq(toMarketId)) {
+      middleRoutes = [[]];
+    } else {
+      const ammRoutes = this.getAmmRoutes(
+        cache,
+        fromMarketId,
+        toMarketId,
+        fromAmountWei,
+        routeOptions.maxHops || DEFAULT_MAX_HOPS,
+        slippageTolerance,
+      );
+      const externalRoutes = await this.getExternalRoutes(
+        cache,
+        fromMarketId,
+        toMarketId,
+        fromAmountWei,
+        routeOptions.externalLiquiditySources || [],
+      );
+      middleRoutes = ammRoutes.concat(externalRoutes);
+    }
+    middleRoutes = middleRoutes
+      .sort((a, b) => SwapRouteQuoter.getOutputAmountWei(b, fromAmountWei)
+        .comparedTo(SwapRouteQuoter.getOutputAmountWei(a, fromAmountWei)))
+      .slice(0, routeOptions.maxRoutes || DEFAULT_MAX_ROUTES);
+    if (middleRoutes.length === 0) {
+      throw new Error(`No route found from market ${fromMarketId.toFixed()} to market ${toMarketId.toFixed()}`);
+    }
+
+    const routes = await Promise.all(middleRoutes.map(async (middleRoute) => {
+      const steps = firstSteps.concat(middleRoute);
+      if (outputConverter) {
+        const wrapperInputAmountWei = steps.length === 0
+          ? inputAmountWei
+          : SwapRouteQuoter.applySlippage(steps[steps.length - 1].outputAmountWei, slippageTolerance);
+        const outputAmountWei = await this.quoteConverter(
+          cache,
+          toMarketId,
+          outputMarketId,
+          wrapperInputAmountWei,
+          this.getWrapper(outputConverter.wrapper),
+          options,
+        );
+        steps.push({
+          outputAmountWei,
+          outputMarketId,
+          traderParam: SwapRouteQuoter.getConverterTraderParam(
+            GenericTraderType.IsolationModeWrapper,
+            outputConverter.wrapper,
+          ),
+        });
+      }
+      return SwapRouteQuoter.toSwapRoute(inputMarketId, inputAmountWei, steps, slippageTolerance);
+    }));
+    return routes.sort((a, b) => b.outputAmountWei.comparedTo(a.outputAmountWei));
+  }
+
+  // ============ Setters ============
+
+  /**
+   * Reloads every Dolomite AMM pair and its reserves in one MultiCall
+   */
+  public async refreshAmmPairs(options?: ContractConstantCallOptions): Promise<void> {
+    const [numMarkets, numPairs] = await Promise.all([
+      this.getters.getNumMarkets(options),
+      this.dolomiteAmmFactory.allPairsLength(options),
+    ]);
+    if (numMarkets.isZero()) {
+      this.ammPairsCache = { timestamp: Date.now(), marketTokens: [], pairs: [] };
+      return;
+    }
+
+    const addressBatch = this.getters.batch();
+    for (let i = 0; i < numMarkets.toNumber(); i += 1) {
+      addressBatch.getMarketTokenAddress(new BigNumber(i));
+    }
+    for (let i = 0; i < numPairs.toNumber(); i += 1) {
+      addressBatch.getDolomiteAmmPair(i);
+    }
+    const { blockNumber, results: addressResults } = await addressBatch.execute(options);
+    const marketTokens: address[] = addressResults.slice(0, numMarkets.toNumber());
+    const pairAddresses: address[] = addressResults.slice(numMarkets.toNumber());
+
+    let pairResults = [];
+    if (pairAddresses.length > 0) {
+      const pairBatch = this.getters.batch();
+      pairAddresses.forEach((pair) => {
+        pairBatch.getDolomiteAmmPairToken0(pair).getDolomiteAmmPairToken1(pair).getDolomiteAmmPairReservesWei(pair);
+      });
+      pairResults = (await pairBatch.execute({ ...options, blockNumber })).results;
+    }
+
+    const pairs: AmmPair[] = [];
+    pairAddresses.forEach((pair, i) => {
+      const marketId0 = SwapRouteQuoter.findMarketId(marketTokens, pairResults[3 * i]);
+      const marketId1 = SwapRouteQuoter.findMarketId(marketTokens, pairResults[(3 * i) + 1]);
+      // Pairs of tokens that aren't listed on DolomiteMargin can't be traded with the generic trader
+      if (marketId0 && marketId1) {
+        pairs.push({ marketId0, marketId1, address: pair, reserves: pairResults[(3 * i) + 2] });
+      }
+    });
+    this.ammPairsCache = { marketTokens, pairs, timestamp: Date.now() };
+  }
+
+  // ============ Private Helper Functions ============
+
+  private async getAmmPairs(
+    maxCacheAgeMs: number = DEFAULT_MAX_CACHE_AGE_MS,
+    options?: ContractConstantCallOptions,
+  ): Promise<AmmPairsCache> {
+    // Quotes for a specific block can't use the cache, which holds the latest reserves
+    if (options && options.blockNumber) {
+      await this.refreshAmmPairs(options);
+    } else if (!this.ammPairsCache || Date.now() - this.ammPairsCache.timestamp > maxCacheAgeMs) {
+      await this.refreshAmmPairs(options);
+    }
+    return this.ammPairsCache;
+  }
+
+  /**
+   * Quotes every path through the Dolomite AMM pairs that doesn't visit a market twice and has at most `maxHops` pairs.
+   * Each pair is asked for its quote less the slippage tolerance, which is also the input of the next pair.
+   */
+  private getAmmRoutes(
+    cache: AmmPairsCache,
+    fromMarketId: Integer,
+    toMarketId: Integer,
+    amountIn: Integer,
+    maxHops: number,
+    slippageTolerance: Decimal,
+  ): RouteStep[][] {
+    const routes: RouteStep[][] = [];
+    const search = (marketId: Integer, amountWei: Integer, steps: RouteStep[], visited: Integer[]) => {
+      if (marketId.eq(toMarketId)) {
+        routes.push(steps);
+        return;
+      }
+      if (steps.length === maxHops) {
+        return;
+      }
+
+      cache.pairs.forEach((pair) => {
+        const isToken0 = pair.marketId0.eq(marketId);
+        if (!isToken0 && !pair.marketId1.eq(marketId)) {
+          return;
+        }
+        const nextMarketId = isToken0 ? pair.marketId1 : pair.marketId0;
+        if (visited.some(visitedMarketId => visitedMarketId.eq(nextMarketId))) {
+          return;
+        }
+        const outputAmountWei = this.dolomiteAmmRouterProxy.getDolomiteAmmAmountOutWithReserves(
+          amountWei,
+          isToken0 ? pair.reserves.reserve0 : pair.reserves.reserve1,
+          isToken0 ? pair.reserves.reserve1 : pair.reserves.reserve0,
+        );
+        const minOutputAmountWei = SwapRouteQuoter.applySlippage(outputAmountWei, slippageTolerance);
+        if (minOutputAmountWei.lte(0)) {
+          return;
+        }
+
+        const step: RouteStep = {
+          outputAmountWei,
+          outputMarketId: nextMarketId,
+          maker: pair.address,
+          traderParam: {
+            traderType: GenericTraderType.InternalLiquidity,
+            makerAccountIndex: 0,
+            trader: pair.address,
+            tradeData: ethers.utils.defaultAbiCoder.encode(
+              ['uint256', 'bytes'],
+              [
+                amountWei.toFixed(0),
+                ethers.utils.defaultAbiCoder.encode(['uint256'], [minOutputAmountWei.toFixed(0)]),
+              ],
+            ),
+          },
+        };
+        search(nextMarketId, minOutputAmountWei, steps.concat(step), visited.concat(nextMarketId));
+      });
+    };
+
+    search(fromMarketId, amountIn, [], [fromMarketId]);
+    return routes;
+  }
+
+  /**
+   * Quotes the direct trade with each source. Sources that throw are skipped, so one unavailable API doesn't fail the
+   * whole quote.
+   */
+  private async getExternalRoutes(
+    cache: AmmPairsCache,
+    fromMarketId: Integer,
+    toMarketId: Integer,
+    amountIn: Integer,
+    sources: ExternalLiquiditySource[],
+  ): Promise<RouteStep[][]> {
+    const inputToken = cache.marketTokens[fromMarketId.toNumber()];
+    const outputToken = cache.marketTokens[toMarketId.toNumber()];
+    const quotes = await Promise.all(
+      sources.map(source => source.getQuote(inputToken, outputToken, amountIn).catch(() => null)),
+    );
+    return quotes
+      .map((quote, i) => ({ quote, source: sources[i] }))
+      .filter(({ quote }) => quote && quote.outputAmountWei.gt(0))
+      .map(({ quote, source }) => [{
+        outputMarketId: toMarketId,
+        outputAmountWei: quote.outputAmountWei,
+        traderParam: {
+          traderType: GenericTraderType.ExternalLiquidity,
+          makerAccountIndex: 0,
+          trader: source.trader,
+          tradeData: quote.tradeData,
+        },
+      }]);
+  }
+
+  private async quoteConverter(
+    cache: AmmPairsCache,
+    inputMarketId: Integer,
+    outputMarketId: Integer,
+    inputAmountWei: Integer,
+    converter: IsolationModeUnwrapper | IsolationModeWrapper,
+    options?: ContractConstantCallOptions,
+  ): Promise<Integer> {
+    const inputToken = cache.marketTokens[inputMarketId.toNumber()]
+      || await this.getters.getMarketTokenAddress(inputMarketId, options);
+    const outputToken = cache.marketTokens[outputMarketId.toNumber()]
+      || await this.getters.getMarketTokenAddress(outputMarketId, options);
+    // The converters quote the output amount for the given input amount
+    return converter.getExchangeCost(inputToken, outputToken, inputAmountWei, '0x', options);
+  }
+
+  private getUnwrapper(unwrapper: address): IsolationModeUnwrapper {
+    return new IsolationModeUnwrapper(this.contracts, this.contracts.getIsolationModeUnwrapper(unwrapper));
+  }
+
+  private getWrapper(wrapper: address): IsolationModeWrapper {
+    return new IsolationModeWrapper(this.contracts, this.contracts.getIsolationModeWrapper(wrapper));
+  }
+
+  private static toSwapRoute(
+    inputMarketId: Integer,
+    inputAmountWei: Integer,
+    steps: RouteStep[],
+    slippageTolerance: Decimal,
+  ): SwapRoute {
+    const makerAccounts: AccountInfo[] = [];
+    const tradersPath = steps.map((step) => {
+      if (!step.maker) {
+        return step.traderParam;
+      }
+      makerAccounts.push({ owner: step.maker, number: '0' });
+      return { ...step.traderParam, makerAccountIndex: makerAccounts.length - 1 };
+    });
+
+    const outputAmountWei = SwapRouteQuoter.getOutputAmountWei(steps, inputAmountWei);
+    return {
+      inputAmountWei,
+      outputAmountWei,
+      tradersPath,
+      makerAccounts,
+      marketIdsPath: [inputMarketId, ...steps.map(step => step.outputMarketId)],
+      amountWeisPath: [inputAmountWei, ...steps.map(step => step.outputAmountWei)],
+      minOutputAmountWei: SwapRouteQuoter.applySlippage(outputAmountWei, slippageTolerance),
+    };
+  }
+
+  private static applySlippage(amountWei: Integer, slippageTolerance: Decimal): Integer {
+    return amountWei.times(new BigNumber(1).minus(slippageTolerance)).integerValue(BigNumber.ROUND_DOWN);
+  }
+
+  private static getConverterTraderParam(traderType: GenericTraderType, trader: address): GenericTraderParam {
+    return {
+      traderType,
+      trader,
+      makerAccountIndex: 0,
+      tradeData: ethers.utils.defaultAbiCoder.encode(['bytes'], ['0x']),
+    };
+  }
+
+  private static getOutputAmountWei(steps: RouteStep[], inputAmountWei: Integer): Integer {
+    return steps.length === 0 ? inputAmountWei : steps[steps.length - 1].outputAmountWei;
+  }
+
+  private static findMarketId(marketTokens: address[], token: address): Integer | null {
+    const marketId = marketTokens.findIndex(marketToken => marketToken.toLowerCase() === token.toLowerCase());
+    return marketId === -1 ? null : new BigNumber(marketId);
+  }
+}
@@ -1,6 +1,13 @@
 import Web3 from 'web3';
 import { Signer } from './Signer';
-import { address, SigningMethod } from '../../src/types';
+import { ethers } from 'ethers';
+import {
+  address,
+  SigningMethod,
+  SigningProvider,
+  SiweMessage,
+  SiweVerificationOptions,
+} from '../../src/types';
 import { toString } from '../lib/Helpers';
 import { addressesAreEqual, hashString } from '../lib/BytesHelper';
 import {
@@ -8,8 +15,13 @@ import {
   ecRecoverTypedSignature,
   EIP712_DOMAIN_STRING_NO_CONTRACT,
   EIP712_DOMAIN_STRUCT_NO_CONTRACT,
+  fixRawSignature,
   SIGNATURE_TYPES,
 } from '../lib/SignatureHelper';
+import { formatSiweMessage, generateSiweNonce, parseSiweMessage } from '../lib/Siwe';
+
+const SIWE_VERSION = '1';
+const DEFAULT_MAX_CLOCK_SKEW_SECONDS = 60;
 
 const EIP712_WALLET_LOGIN_STRUCT = [
   { type: 'string', name: 'action' },
@@ -28,12 +40,14 @@ export class WalletLogin extends Signer {
     {
       domain = 'Dolomite',
       version = '1.0',
+      signingProvider,
     }: {
       domain?: string;
       version?: string;
+      signingProvider?: SigningProvider;
     } = {},
   ) {
-    super(web3);
+    super(web3, signingProvider);
     this.domain = domain;
     this.networkId = networkId;
     this.version = version;
@@ -51,7 +65,7 @@ export class WalletLogin extends Signer {
       case SigningMethod.UnsafeHash:
       case SigningMethod.Compatibility: {
         const hash = this.getWalletLoginHash(expiration);
-        const rawSignature = await this.web3.eth.sign(hash, signer);
+        const rawSignature = await this.ethSignInternal(hash, signer);
         const hashSig = createTypedSignature(
           rawSignature,
           SIGNATURE_TYPES.DECIMAL,
@@ -88,7 +102,12 @@ export class WalletLogin extends Signer {
             expiration: expiration.toUTCString(),
           },
         };
-        return this.ethSignTypedDataInternal(signer, data, signingMethod);
+        return this.ethSignTypedDataInternal(
+          signer,
+          data,
+          this.getWalletLoginHash(expiration),
+          signingMethod,
+        );
       }
 
       default:
@@ -106,6 +125,110 @@ export class WalletLogin extends Signer {
     return addressesAreEqual(signer, expectedSigner) && expiration > new Date();
   }
 
+  /**
+   * Returns true if the login is not expired and has a valid signature from the expected signer, which may also be a
+   * smart contract wallet that implements EIP-1271.
+   */
+  public async verifyWalletLogin(
+    expiration: Date,
+    typedSignature: string,
+    expectedSigner: address,
+  ): Promise<boolean> {
+    return expiration > new Date()
+      && this.typedSignatureIsValid(this.getWalletLoginHash(expiration), typedSignature, expectedSigner);
+  }
+
+  /**
+   * Creates a Sign-In with Ethereum message for this network. The nonce defaults to a random one, but servers that
+   * check nonce reuse should issue it instead.
+   */
+  public createSiweMessage(
+    fields: {
+      domain: string;
+      address: address;
+      uri: string;
+      statement?: string;
+      nonce?: string;
+      issuedAt?: Date;
+      expirationTime?: Date;
+      notBefore?: Date;
+      requestId?: string;
+      resources?: string[];
+    },
+  ): SiweMessage {
+    return {
+      ...fields,
+      version: SIWE_VERSION,
+      chainId: this.networkId,
+      nonce: fields.nonce || generateSiweNonce(),
+      issuedAt: fields.issuedAt || new Date(),
+    };
+  }
+
+  /**
+   * Signs the text of the message with `personal_sign`, which is what wallets show for Sign-In with Ethereum.
+   *
+   * @return The raw signature, without the signature type byte used by `signLogin`
+   */
+  public async signSiweLogin(message: SiweMessage): Promise<string> {
+    const rawSignature = await this.personalSignInternal(formatSiweMessage(message), message.address);
+    return fixRawSignature(rawSignature);
+  }
+
+  /**
+   * Returns true if the message was signed by its address and the current time is between its not-before and
+   * expiration times.
+   */
+  public siweLoginIsValid(message: SiweMessage, signature: string): boolean {
+    const now = new Date();
+    return this.siweSignatureIsValid(formatSiweMessage(message), signature, message.address)
+      && (!message.expirationTime || message.expirationTime > now)
+      && (!message.notBefore || message.notBefore <= now);
+  }
+
+  /**
+   * Verifies a login on the server, from the text of the message and its signature as sent by the client. Signatures of
+   * smart contract wallets are checked with EIP-1271. The nonce is only marked as used once everything else is valid.
+   *
+   * @return The parsed message, whose address is the logged in account
+   */
+  public async verifySiweLogin(
+    text: string,
+    signature: string,
+    options: SiweVerificationOptions = {},
+  ): Promise<SiweMessage> {
+    const message = parseSiweMessage(text);
+    if (
+      !this.siweSignatureIsValid(text, signature, message.address)
+      && !(await this.contractSignatureIsValid(ethers.utils.hashMessage(text), signature, message.address))
+    ) {
+      throw new Error('Invalid Sign-In with Ethereum signature');
+    }
+    if (options.domain !== undefined && message.domain !== options.domain) {
+      throw new Error(`Sign-In with Ethereum message is for ${message.domain} instead of ${options.domain}`);
+    }
+    if (message.chainId !== this.networkId) {
+      throw new Error(`Sign-In with Ethereum message is for chain ${message.chainId} instead of ${this.networkId}`);
+    }
+
+    const now = (options.now || new Date()).getTime();
+    const maxClockSkew = (options.maxClockSkewSeconds ?? DEFAULT_MAX_CLOCK_SKEW_SECONDS) * 1000;
+    if (message.issuedAt.getTime() > now + maxClockSkew) {
+      throw new Error('Sign-In with Ethereum message is issued in the future');
+    }
+    if (message.expirationTime && message.expirationTime.getTime() <= now - maxClockSkew) {
+      throw new Error('Sign-In with Ethereum message is expired');
+    }
+    if (message.notBefore && message.notBefore.getTime() > now + maxClockSkew) {
+      throw new Error('Sign-In with Ethereum message is not valid yet');
+    }
+
+    if (options.nonceStore && !(await options.nonceStore.useNonce(message.nonce))) {
+      throw new Error('Sign-In with Ethereum nonce was already used or was not issued');
+    }
+    return message;
+  }
+
   public getDomainHash(): string {
     return Web3.utils.soliditySha3(
       { t: 'bytes32', v: hashString(EIP712_DOMAIN_STRING_NO_CONTRACT) },
@@ -124,6 +247,14 @@ export class WalletLogin extends Signer {
     return this.getEIP712Hash(structHash);
   }
 
+  private siweSignatureIsValid(text: string, signature: string, expectedSigner: address): boolean {
+    try {
+      return addressesAreEqual(ethers.utils.verifyMessage(text, signature), expectedSigner);
+    } catch (e) {
+      return false;
+    }
+  }
+
   private getDomainData() {
     return {
       name: this.domain,
@@ -28,6 +28,8 @@ import {
   Call,
   ConfirmationType,
   ContractCallOptions,
+  ContractConstantCallOptions,
+  Decimal,
   Deposit,
   Exchange,
   ExpiryCallFunctionType,
@@ -35,6 +37,7 @@ import {
   Liquidate,
   Operation,
   OperationAuthorization,
+  OperationSimulation,
   ProxyType,
   Sell,
   SetApprovalForExpiry,
@@ -46,7 +49,10 @@ import {
   Vaporize,
   Withdraw,
 } from '../../types';
+import { Getters } from '../Getters';
 import { OrderMapper } from '../OrderMapper';
+import { DecodedOperation, RawExchange } from './OperationDecoder';
+import { OperationSimulator } from './OperationSimulator';
 
 interface OptionalActionArgs {
   actionType: number | string;
@@ -256,6 +262,8 @@ export class AccountOperation {
     prices: { [marketId: string]: Integer },
     spreadPremiums: { [marketId: string]: Integer },
     collateralPreferences: Integer[],
+    expiryRampTime?: Integer,
+    liquidationSpread?: Decimal,
   ): AccountOperation {
     return this.fullyLiquidateExpiredAccountInternal(
       primaryAccountOwner,
@@ -270,6 +278,8 @@ export class AccountOperation {
       spreadPremiums,
       collateralPreferences,
       this.contracts.expiry.options.address,
+      expiryRampTime,
+      liquidationSpread,
     );
   }
 
@@ -412,41 +422,115 @@ export class AccountOperation {
     }
 
     try {
-      let method: TransactionObject<void>;
+      const method = this.createTransactionObject(options);
+      return this.contracts.callContractFunction(method, options);
+    } catch (error) {
+      this.committed = false;
+      throw error;
+    }
+  }
 
-      switch (this.proxy) {
-        case ProxyType.None:
-          method = this.contracts.dolomiteMargin.methods.operate(
-            this.accounts,
-            this.actions,
-          );
+  /**
+   * Returns the calldata that `commit` would send to DolomiteMargin or the proxy, without sending a transaction.
+   */
+  public encode(options?: ContractCallOptions): string {
+    if (this.actions.length === 0) {
+      throw new Error('No actions have been added to operation');
+    }
+
+    return this.createTransactionObject(options).encodeABI();
+  }
+
+  /**
+   * Returns the address that `commit` sends the calldata of `encode` to, which is DolomiteMargin or the proxy.
+   */
+  public getTarget(): address {
+    switch (this.proxy) {
+      case ProxyType.None:
+        return this.contracts.dolomiteMargin.options.address;
+      case ProxyType.Payable:
+        return this.contracts.payableProxy.options.address;
+      case ProxyType.Signed:
+        return this.contracts.signedOperationProxy.options.address;
+      default:
+        throw new Error(`Invalid proxy type: ${this.proxy}`);
+    }
+  }
+
+  /**
+   * Adds all accounts, actions and authorizations of an operation that was decoded with `Operation#decode`. The
+   * accounts are added in their original order, so an operation that only contains the decoded operation encodes to
+   * the calldata it was decoded from.
+   */
+  public addDecodedOperation(decoded: DecodedOperation): AccountOperation {
+    if (decoded.proxy !== this.proxy) {
+      throw new Error(`Cannot add decoded operation for proxy ${decoded.proxy} to operation for proxy ${this.proxy}`);
+    }
+    if (decoded.auths && decoded.auths.length && this.proxy !== ProxyType.Signed) {
+      throw new Error('Cannot add signed operation if not using signed operation proxy');
+    }
+
+    if (decoded.sendEthTo) {
+      this.sendEthTo = decoded.sendEthTo;
+    }
+
+    const startIndex = this.actions.length;
+    (decoded.auths || []).forEach((auth) => {
+      this.auths.push({
+        ...auth,
+        startIndex: auth.startIndex.plus(startIndex),
+      });
+    });
+
+    decoded.accounts.forEach((account) => {
+      this.getAccountId(account.owner, new BigNumber(account.number));
+    });
+
+    decoded.actions.forEach((decodedAction) => {
+      switch (decodedAction.actionType) {
+        case ActionType.Deposit:
+          this.deposit(decodedAction.action);
           break;
-        case ProxyType.Payable:
-          method = this.contracts.payableProxy.methods.operate(
-            this.accounts,
-            this.actions,
-            this.sendEthTo ||
-            (options && options.from) ||
-            this.contracts.payableProxy.options.from,
-          );
+        case ActionType.Withdraw:
+          this.withdraw(decodedAction.action);
           break;
-        case ProxyType.Signed:
-          method = this.contracts.signedOperationProxy.methods.operate(
-            this.accounts,
-            this.actions,
-            this.generateAuthData(),
-          );
+        case ActionType.Transfer:
+          this.transfer(decodedAction.action);
+          break;
+        case ActionType.Buy:
+        case ActionType.Sell:
+          this.rawExchange(decodedAction.action, decodedAction.actionType);
+          break;
+        case ActionType.Trade:
+          this.trade(decodedAction.action);
+          break;
+        case ActionType.Liquidate:
+          this.liquidate(decodedAction.action);
+          break;
+        case ActionType.Vaporize:
+          this.vaporize(decodedAction.action);
+          break;
+        case ActionType.Call:
+          this.call(decodedAction.action);
           break;
-        default:
-          // noinspection ExceptionCaughtLocallyJS
-          throw new Error(`Invalid proxy type: ${this.proxy}`);
       }
+    });
 
-      return this.contracts.callContractFunction(method, options);
-    } catch (error) {
-      this.committed = false;
-      throw error;
+    return this;
+  }
+
+  /**
+   * Replays the current actions off-chain against the market state at `options.blockNumber` (or the latest block)
+   * and returns the projected balances and collateralization of every account in the operation, as well as the
+   * first action that would cause the operation to revert. Does not send a transaction.
+   */
+  public async simulate(options?: ContractConstantCallOptions): Promise<OperationSimulation> {
+    if (this.actions.length === 0) {
+      throw new Error('No actions have been added to operation');
     }
+
+    const simulator = new OperationSimulator(new Getters(this.contracts));
+    return simulator.simulate(this.accounts, this.actions, options);
   }
 
   private liquidateExpiredAccountInternal(
@@ -482,11 +566,13 @@ export class AccountOperation {
     spreadPremiums: { [marketId: string]: Integer },
     collateralPreferences: Integer[],
     contractAddress: address,
+    expiryRampTimeOverride?: Integer,
+    liquidationSpreadOverride?: Decimal,
   ): AccountOperation {
-    // hardcoded values
+    // hardcoded values, unless they were read from the chain by the caller
     const networkExpiryConstants = expiryConstants[this.networkId];
-    const defaultSpread = new BigNumber(networkExpiryConstants.spread);
-    const expiryRampTime = new BigNumber(networkExpiryConstants.expiryRampTime);
+    const defaultSpread = liquidationSpreadOverride || new BigNumber(networkExpiryConstants.spread);
+    const expiryRampTime = expiryRampTimeOverride || new BigNumber(networkExpiryConstants.expiryRampTime);
 
     // get info about the expired market
     let owedWei = weis[expiredMarket.toNumber()];
@@ -524,12 +610,12 @@ export class AccountOperation {
       const spread = defaultSpread
         .times(heldSpreadMultiplier)
         .times(owedSpreadMultiplier)
+        .times(rampAdjustment)
         .plus(1);
       const heldValue = heldWei.times(heldPrice)
         .abs();
       const owedValue = owedWei
         .times(owedPrice)
-        .times(rampAdjustment)
         .times(spread)
         .abs();
 
@@ -616,6 +702,27 @@ export class AccountOperation {
     return this;
   }
 
+  private rawExchange(
+    exchange: RawExchange,
+    actionType: ActionType,
+  ): AccountOperation {
+    const [primaryMarketId, secondaryMarketId] =
+      actionType === ActionType.Buy
+        ? [exchange.makerMarketId, exchange.takerMarketId]
+        : [exchange.takerMarketId, exchange.makerMarketId];
+
+    this.addActionArgs(exchange, {
+      actionType,
+      amount: exchange.amount,
+      otherAddress: exchange.exchangeWrapperAddress,
+      data: exchange.data,
+      primaryMarketId: primaryMarketId.toFixed(0),
+      secondaryMarketId: secondaryMarketId.toFixed(0),
+    });
+
+    return this;
+  }
+
   private addActionArgs(action: AccountAction, args: OptionalActionArgs): void {
     if (this.committed) {
       throw new Error('Operation already committed');
@@ -677,6 +784,32 @@ export class AccountOperation {
     return this.accounts.length - 1;
   }
 
+  private createTransactionObject(options?: ContractCallOptions): TransactionObject<void> {
+    switch (this.proxy) {
+      case ProxyType.None:
+        return this.contracts.dolomiteMargin.methods.operate(
+          this.accounts,
+          this.actions,
+        );
+      case ProxyType.Payable:
+        return this.contracts.payableProxy.methods.operate(
+          this.accounts,
+          this.actions,
+          this.sendEthTo ||
+          (options && options.from) ||
+          this.contracts.payableProxy.options.from,
+        );
+      case ProxyType.Signed:
+        return this.contracts.signedOperationProxy.methods.operate(
+          this.accounts,
+          this.actions,
+          this.generateAuthData(),
+        );
+      default:
+        throw new Error(`Invalid proxy type: ${this.proxy}`);
+    }
+  }
+
   private generateAuthData(): {
     numActions: string;
     header: {
@@ -2,11 +2,13 @@ import { Contracts } from '../../lib/Contracts';
 import { AccountOperationOptions } from '../../types';
 import { OrderMapper } from '../OrderMapper';
 import { AccountOperation } from './AccountOperation';
+import { DecodedOperation, OperationDecoder } from './OperationDecoder';
 
 export class Operation {
   private contracts: Contracts;
   private orderMapper: OrderMapper;
   private networkId: number;
+  private decoder: OperationDecoder;
 
   constructor(
     contracts: Contracts,
@@ -16,6 +18,7 @@ export class Operation {
     this.contracts = contracts;
     this.orderMapper = orderMapper;
     this.networkId = networkId;
+    this.decoder = new OperationDecoder(contracts);
   }
 
   public initiate(options?: AccountOperationOptions): AccountOperation {
@@ -26,4 +29,13 @@ export class Operation {
       options || {},
     );
   }
+
+  /**
+   * Decodes the calldata of a call to `operate` on DolomiteMargin, the PayableProxy or the SignedOperationProxy. The
+   * result can be turned back into an operation with
+   * `initiate({ proxy: decoded.proxy }).addDecodedOperation(decoded)`.
+   */
+  public decode(calldata: string): DecodedOperation {
+    return this.decoder.decode(calldata);
+  }
 }
@@ -0,0 +1,449 @@
+import BigNumber from 'bignumber.js';
+import { ethers } from 'ethers';
+import Contract from 'web3/eth/contract';
+import {
+  addressesAreEqual,
+  hexStringToBytes,
+  stripHexPrefix,
+} from '../../lib/BytesHelper';
+import { Contracts } from '../../lib/Contracts';
+import {
+  AccountAction,
+  AccountInfo,
+  ActionArgs,
+  ActionType,
+  address,
+  Amount,
+  AmountDenomination,
+  AmountReference,
+  Call,
+  Deposit,
+  ExpiryCallFunctionType,
+  Integer,
+  Liquidate,
+  OperationAuthorization,
+  ProxyType,
+  SetApprovalForExpiry,
+  SetExpiry,
+  Trade,
+  Transfer,
+  Vaporize,
+  Withdraw,
+} from '../../types';
+import { GenericTraderParam, GenericTraderType } from '../GenericTraderProxyV1';
+
+const SELECTOR_HEX_LENGTH = 10;
+
+/**
+ * A Buy or Sell action. The order data cannot be mapped back to an `Order` without knowing the exchange wrapper, so
+ * it is kept as the raw bytes that are passed to the wrapper.
+ */
+export interface RawExchange extends AccountAction {
+  takerMarketId: Integer;
+  makerMarketId: Integer;
+  exchangeWrapperAddress: address;
+  amount: Amount;
+  data: (string | number[])[];
+}
+
+/**
+ * The trade data that `Expiry` expects when an expired account is liquidated via a Trade action
+ */
+export interface ExpiryTradeData {
+  owedMarketId: Integer;
+  maxExpiry: Integer;
+}
+
+/**
+ * The ABI coder decodes bytes as a hex string instead of the byte array that `AccountOperation` encodes
+ */
+interface DecodedActionArgs extends Omit<ActionArgs, 'data'> {
+  data: string;
+}
+
+interface DecodedAuthArgs {
+  numActions: string;
+  header: {
+    expiration: string;
+    salt: string;
+    sender: address;
+    signer: address;
+  };
+  signature: string;
+}
+
+/**
+ * The arguments of `operate`, which only has a third argument on the PayableProxy and SignedOperationProxy
+ */
+interface DecodedOperateArgs {
+  accounts: AccountInfo[];
+  actions: DecodedActionArgs[];
+  sendEthTo?: address;
+  auths?: DecodedAuthArgs[];
+}
+
+export type DecodedAction =
+  { actionType: ActionType.Deposit; action: Deposit }
+  | { actionType: ActionType.Withdraw; action: Withdraw }
+  | { actionType: ActionType.Transfer; action: Transfer }
+  | { actionType: ActionType.Buy; action: RawExchange }
+  | {
+    actionType: ActionType.Sell;
+    action: RawExchange;
+    genericTraderParam?: GenericTraderParam;
+    minOutputAmountWei?: Integer;
+  }
+  | {
+    actionType: ActionType.Trade;
+    action: Trade;
+    expiry?: ExpiryTradeData;
+    genericTraderParam?: GenericTraderParam;
+  }
+  | { actionType: ActionType.Liquidate; action: Liquidate }
+  | { actionType: ActionType.Vaporize; action: Vaporize }
+  | {
+    actionType: ActionType.Call;
+    action: Call;
+    setExpiry?: SetExpiry;
+    setApprovalForExpiry?: SetApprovalForExpiry;
+  };
+
+export interface DecodedOperation {
+  proxy: ProxyType;
+  accounts: AccountInfo[];
+  actions: DecodedAction[];
+  /**
+   * Only set for operations sent through the PayableProxy
+   */
+  sendEthTo?: address;
+  /**
+   * The signed authorizations of an operation sent through the SignedOperationProxy. Actions that are not covered by
+   * one of these are executed on behalf of the sender.
+   */
+  auths?: OperationAuthorization[];
+}
+
+export class OperationDecoder {
+  private contracts: Contracts;
+
+  constructor(contracts: Contracts) {
+    this.contracts = contracts;
+  }
+
+  /**
+   * Decodes the calldata of `operate` on DolomiteMargin, the PayableProxy or the SignedOperationProxy into the
+   * typed actions that `AccountOperation` accepts.
+   */
+  public decode(calldata: string): DecodedOperation {
+    const selector = calldata.slice(0, SELECTOR_HEX_LENGTH).toLowerCase();
+    const candidates: [ProxyType, Contract][] = [
+      [ProxyType.None, this.contracts.dolomiteMargin],
+      [ProxyType.Payable, this.contracts.payableProxy],
+      [ProxyType.Signed, this.contracts.signedOperationProxy],
+    ];
+
+    for (let i = 0; i < candidates.length; i += 1) {
+      const [proxy, contract] = candidates[i];
+      const method = contract.options.jsonInterface.find(
+        (e: any) => e.type === 'function' && e.name === 'operate' && e.signature.toLowerCase() === selector,
+      );
+      if (method) {
+        const params = ethers.utils.defaultAbiCoder.decode(
+          method.inputs,
+          `0x${calldata.slice(SELECTOR_HEX_LENGTH)}`,
+        );
+        return this.decodeParams(proxy, {
+          accounts: params[0],
+          actions: params[1],
+          sendEthTo: proxy === ProxyType.Payable ? params[2] : undefined,
+          auths: proxy === ProxyType.Signed ? params[2] : undefined,
+        });
+      }
+    }
+
+    throw new Error(`Calldata is not a call to operate: ${selector}`);
+  }
+
+  // ============ Private Helper Functions ============
+
+  private decodeParams(proxy: ProxyType, args: DecodedOperateArgs): DecodedOperation {
+    const accounts: AccountInfo[] = args.accounts.map(account => ({
+      owner: account.owner,
+      number: account.number.toString(),
+    }));
+
+    const result: DecodedOperation = {
+      proxy,
+      accounts,
+      actions: args.actions.map(action => this.decodeAction(accounts, action)),
+    };
+
+    if (proxy === ProxyType.Payable) {
+      result.sendEthTo = args.sendEthTo;
+    } else if (proxy === ProxyType.Signed) {
+      result.auths = [];
+      let startIndex = new BigNumber(0);
+      args.auths.forEach((auth) => {
+        const numActions = new BigNumber(auth.numActions.toString());
+        if (stripHexPrefix(auth.signature).length !== 0) {
+          result.auths.push({
+            startIndex,
+            numActions,
+            expiration: new BigNumber(auth.header.expiration.toString()),
+            salt: new BigNumber(auth.header.salt.toString()),
+            sender: auth.header.sender,
+            signer: auth.header.signer,
+            typedSignature: auth.signature,
+          });
+        }
+        startIndex = startIndex.plus(numActions);
+      });
+    }
+
+    return result;
+  }
+
+  private decodeAction(accounts: AccountInfo[], args: DecodedActionArgs): DecodedAction {
+    const actionType: ActionType = Number(args.actionType);
+    const primaryAccount = this.getAccount(accounts, args.accountId);
+    const base: AccountAction = {
+      primaryAccountOwner: primaryAccount.owner,
+      primaryAccountId: new BigNumber(primaryAccount.number),
+    };
+    const amount: Amount = {
+      value: args.amount.sign
+        ? new BigNumber(args.amount.value.toString())
+        : new BigNumber(args.amount.value.toString()).negated(),
+      denomination: Number(args.amount.denomination),
+      reference: Number(args.amount.ref),
+    };
+    const primaryMarketId = new BigNumber(args.primaryMarketId.toString());
+    const secondaryMarketId = new BigNumber(args.secondaryMarketId.toString());
+    const data = hexStringToBytes(args.data);
+
+    switch (actionType) {
+      case ActionType.Deposit:
+        return {
+          actionType,
+          action: { ...base, amount, marketId: primaryMarketId, from: args.otherAddress },
+        };
+      case ActionType.Withdraw:
+        return {
+          actionType,
+          action: { ...base, amount, marketId: primaryMarketId, to: args.otherAddress },
+        };
+      case ActionType.Transfer: {
+        const toAccount = this.getAccount(accounts, args.otherAccountId);
+        return {
+          actionType,
+          action: {
+            ...base,
+            amount,
+            marketId: primaryMarketId,
+            toAccountOwner: toAccount.owner,
+            toAccountId: new BigNumber(toAccount.number),
+          },
+        };
+      }
+      case ActionType.Buy:
+      case ActionType.Sell: {
+        // see AccountOperation#exchange for the ordering of the markets
+        const action: RawExchange = {
+          ...base,
+          amount,
+          data,
+          takerMarketId: actionType === ActionType.Buy ? secondaryMarketId : primaryMarketId,
+          makerMarketId: actionType === ActionType.Buy ? primaryMarketId : secondaryMarketId,
+          exchangeWrapperAddress: args.otherAddress,
+        };
+        if (actionType === ActionType.Buy) {
+          return { actionType, action };
+        }
+        return { actionType, action, ...this.decodeExternalSell(action, args.data) };
+      }
+      case ActionType.Trade: {
+        const otherAccount = this.getAccount(accounts, args.otherAccountId);
+        const action: Trade = {
+          ...base,
+          amount,
+          data,
+          autoTrader: args.otherAddress,
+          inputMarketId: primaryMarketId,
+          outputMarketId: secondaryMarketId,
+          otherAccountOwner: otherAccount.owner,
+          otherAccountId: new BigNumber(otherAccount.number),
+        };
+        if (addressesAreEqual(action.autoTrader, this.contracts.expiry.options.address)) {
+          return { actionType, action, expiry: this.decodeExpiryTradeData(args.data) };
+        }
+        return { actionType, action, ...this.decodeInternalTrade(action, Number(args.otherAccountId), args.data) };
+      }
+      case ActionType.Liquidate: {
+        const liquidAccount = this.getAccount(accounts, args.otherAccountId);
+        return {
+          actionType,
+          action: {
+            ...base,
+            amount,
+            liquidMarketId: primaryMarketId,
+            payoutMarketId: secondaryMarketId,
+            liquidAccountOwner: liquidAccount.owner,
+            liquidAccountId: new BigNumber(liquidAccount.number),
+          },
+        };
+      }
+      case ActionType.Vaporize: {
+        const vaporAccount = this.getAccount(accounts, args.otherAccountId);
+        return {
+          actionType,
+          action: {
+            ...base,
+            amount,
+            vaporMarketId: primaryMarketId,
+            payoutMarketId: secondaryMarketId,
+            vaporAccountOwner: vaporAccount.owner,
+            vaporAccountId: new BigNumber(vaporAccount.number),
+          },
+        };
+      }
+      case ActionType.Call: {
+        const action: Call = { ...base, data, callee: args.otherAddress };
+        if (addressesAreEqual(action.callee, this.contracts.expiry.options.address)) {
+          return { actionType, action, ...this.decodeExpiryCallData(base, args.data) };
+        }
+        return { actionType, action };
+      }
+      default:
+        throw new Error(`Invalid action type: ${args.actionType}`);
+    }
+  }
+
+  private getAccount(accounts: AccountInfo[], accountId: number | string): AccountInfo {
+    const account = accounts[Number(accountId)];
+    if (!account) {
+      throw new Error(`Invalid account ID: ${accountId}`);
+    }
+    return account;
+  }
+
+  /**
+   * Sells created by the GenericTraderProxyV1 and LiquidatorProxyV4WithGenericTrader encode their data as
+   * `abi.encode(minOutputAmountWei, orderData)`
+   */
+  private decodeExternalSell(
+    action: RawExchange,
+    dataHex: string,
+  ): { genericTraderParam?: GenericTraderParam, minOutputAmountWei?: Integer } {
+    if (action.amount.value.gt(0) || action.amount.denomination !== AmountDenomination.Wei) {
+      return {};
+    }
+
+    const decoded = this.tryDecodeExactly(['uint256', 'bytes'], dataHex);
+    if (!decoded) {
+      return {};
+    }
+
+    return {
+      genericTraderParam: {
+        traderType: GenericTraderType.ExternalLiquidity,
+        makerAccountIndex: 0,
+        trader: action.exchangeWrapperAddress,
+        tradeData: decoded[1],
+      },
+      minOutputAmountWei: new BigNumber(decoded[0].toString()),
+    };
+  }
+
+  /**
+   * Internal trades created by the GenericTraderProxyV1 are a positive wei delta against the maker account. The
+   * `makerAccountIndex` of the returned param is the index of the maker within the operation's accounts.
+   */
+  private decodeInternalTrade(
+    action: Trade,
+    otherAccountIndex: number,
+    dataHex: string,
+  ): { genericTraderParam?: GenericTraderParam } {
+    if (
+      action.amount.value.lte(0)
+      || action.amount.denomination !== AmountDenomination.Wei
+      || action.amount.reference !== AmountReference.Delta
+    ) {
+      return {};
+    }
+
+    return {
+      genericTraderParam: {
+        traderType: GenericTraderType.InternalLiquidity,
+        makerAccountIndex: otherAccountIndex,
+        trader: action.autoTrader,
+        tradeData: ethers.utils.defaultAbiCoder.encode(
+          ['uint256', 'bytes'],
+          [action.amount.value.toFixed(0), dataHex],
+        ),
+      },
+    };
+  }
+
+  private decodeExpiryTradeData(dataHex: string): ExpiryTradeData | undefined {
+    const decoded = this.tryDecodeExactly(['uint256', 'uint32'], dataHex);
+    if (!decoded) {
+      return undefined;
+    }
+
+    return {
+      owedMarketId: new BigNumber(decoded[0].toString()),
+      maxExpiry: new BigNumber(decoded[1].toString()),
+    };
+  }
+
+  /**
+   * Mirrors the encoding of AccountOperation#setExpiry and AccountOperation#setApprovalForExpiry
+   */
+  private decodeExpiryCallData(
+    base: AccountAction,
+    dataHex: string,
+  ): { setExpiry?: SetExpiry, setApprovalForExpiry?: SetApprovalForExpiry } {
+    const approval = this.tryDecodeExactly(['uint256', 'address', 'uint32'], dataHex);
+    if (approval && new BigNumber(approval[0].toString()).eq(ExpiryCallFunctionType.SetApproval)) {
+      return {
+        setApprovalForExpiry: {
+          ...base,
+          sender: approval[1],
+          minTimeDelta: new BigNumber(approval[2].toString()),
+        },
+      };
+    }
+
+    const expiry = this.tryDecodeExactly(['uint256', 'tuple(address,uint256,uint256,uint32,bool)[]'], dataHex);
+    if (expiry && new BigNumber(expiry[0].toString()).eq(ExpiryCallFunctionType.SetExpiry)) {
+      return {
+        setExpiry: {
+          ...base,
+          expiryArgs: expiry[1].map((arg: any) => ({
+            accountOwner: arg[0],
+            accountId: new BigNumber(arg[1].toString()),
+            marketId: new BigNumber(arg[2].toString()),
+            timeDelta: new BigNumber(arg[3].toString()),
+            forceUpdate: arg[4],
+          })),
+        },
+      };
+    }
+
+    return {};
+  }
+
+  /**
+   * Decodes `dataHex` as `types`, returning null if the data is malformed or is not exactly the canonical encoding of
+   * the decoded values.
+   */
+  private tryDecodeExactly(types: string[], dataHex: string): any[] | null {
+    try {
+      const decoded = ethers.utils.defaultAbiCoder.decode(types, dataHex);
+      const reEncoded = ethers.utils.defaultAbiCoder.encode(types, decoded);
+      return reEncoded.toLowerCase() === dataHex.toLowerCase() ? decoded : null;
+    } catch (e) {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,667 @@
+import BigNumber from 'bignumber.js';
+import { INTEGERS } from '../../lib/Constants';
+import {
+  AccountInfo,
+  AccountStatus,
+  ActionArgs,
+  ActionType,
+  AmountDenomination,
+  AmountReference,
+  Balance,
+  ContractConstantCallOptions,
+  Decimal,
+  Index,
+  Integer,
+  OperationSimulation,
+  RiskParams,
+  SimulatedAccount,
+  SimulationViolation,
+  TotalPar,
+  Values,
+} from '../../types';
+import DolomiteMarginMath from '../DolomiteMarginMath';
+import { Getters } from '../Getters';
+
+interface SimulatedMarket {
+  marketId: Integer;
+  token: string;
+  index: Index;
+  price: Integer;
+  marginPremium: Decimal;
+  spreadPremium: Decimal;
+  maxWei: Integer;
+  isClosing: boolean;
+  totalPar: TotalPar;
+  cachedTotalPar: TotalPar;
+  cachedNumExcessTokens: Integer | null;
+  tokenBalanceDelta: Integer;
+}
+
+interface SimulatedAccountState {
+  info: AccountInfo;
+  pars: { [marketId: string]: Integer };
+  status: AccountStatus;
+  isPrimary: boolean;
+  cachedNumberOfMarketsWithBalances: number;
+  lastActionIndex: number;
+}
+
+/**
+ * Thrown internally when a simulated action would cause the protocol to revert
+ */
+class SimulationRevert extends Error {
+  public violation: SimulationViolation;
+
+  constructor(violation: SimulationViolation) {
+    super(violation.reason);
+    this.violation = violation;
+  }
+}
+
+const BASE = INTEGERS.INTEREST_RATE_BASE;
+
+/**
+ * Replays the actions of an operation off-chain, mirroring the accounting that `OperationImpl` performs on-chain.
+ * All market and account state is read through `Getters` at the block given by the call options.
+ */
+export class OperationSimulator {
+  private getters: Getters;
+
+  private riskParams: RiskParams;
+  private markets: { [marketId: string]: SimulatedMarket };
+  private accounts: SimulatedAccountState[];
+  private lastActionIndexForMarket: { [marketId: string]: number };
+
+  constructor(getters: Getters) {
+    this.getters = getters;
+  }
+
+  public async simulate(
+    accounts: AccountInfo[],
+    actions: ActionArgs[],
+    options?: ContractConstantCallOptions,
+  ): Promise<OperationSimulation> {
+    await this.initialize(accounts, actions, options);
+
+    const unsimulatedActionIndices: number[] = [];
+    let violation: SimulationViolation = null;
+    try {
+      for (let i = 0; i < actions.length; i += 1) {
+        this.runPreprocessing(actions[i], i);
+      }
+      for (let i = 0; i < actions.length; i += 1) {
+        const isFullySimulated = this.runAction(actions[i], i);
+        if (!isFullySimulated) {
+          unsimulatedActionIndices.push(i);
+        }
+      }
+      this.verifyFinalState(actions.length - 1);
+    } catch (error) {
+      if (!(error instanceof SimulationRevert)) {
+        throw error;
+      }
+      violation = error.violation;
+    }
+
+    return {
+      violation,
+      unsimulatedActionIndices,
+      accounts: this.accounts.map((_, i) => this.getSimulatedAccount(i)),
+    };
+  }
+
+  // ============ Initialization ============
+
+  private async initialize(
+    accounts: AccountInfo[],
+    actions: ActionArgs[],
+    options?: ContractConstantCallOptions,
+  ): Promise<void> {
+    const [riskParams, accountBalances, accountStatuses] = await Promise.all([
+      this.getters.getRiskParams(options),
+      Promise.all(accounts.map(account => this.getters.getAccountBalances(
+        account.owner,
+        new BigNumber(account.number),
+        options,
+      ))),
+      Promise.all(accounts.map(account => this.getters.getAccountStatus(
+        account.owner,
+        new BigNumber(account.number),
+        options,
+      ))),
+    ]);
+
+    const marketIds: { [marketId: string]: boolean } = {};
+    actions.forEach((action) => {
+      getActionMarketIds(action).forEach(marketId => marketIds[marketId] = true);
+    });
+    accountBalances.forEach(balances => balances.forEach(balance => marketIds[balance.marketId.toFixed(0)] = true));
+
+    const vaporizeMarketIds: { [marketId: string]: boolean } = {};
+    actions
+      .filter(action => Number(action.actionType) === ActionType.Vaporize)
+      .forEach((action) => {
+        vaporizeMarketIds[new BigNumber(action.primaryMarketId).toFixed(0)] = true;
+        vaporizeMarketIds[new BigNumber(action.secondaryMarketId).toFixed(0)] = true;
+      });
+
+    const markets = await Promise.all(Object.keys(marketIds).map(async (marketIdString) => {
+      const marketId = new BigNumber(marketIdString);
+      const [marketWithInfo, numExcessTokens] = await Promise.all([
+        this.getters.getMarketWithInfo(marketId, options),
+        vaporizeMarketIds[marketIdString] ? this.getters.getNumExcessTokens(marketId, options) : null,
+      ]);
+      const market: SimulatedMarket = {
+        marketId,
+        token: marketWithInfo.market.token,
+        index: marketWithInfo.currentIndex,
+        price: marketWithInfo.currentPrice,
+        marginPremium: marketWithInfo.market.marginPremium,
+        spreadPremium: marketWithInfo.market.spreadPremium,
+        maxWei: marketWithInfo.market.maxWei,
+        isClosing: marketWithInfo.market.isClosing,
+        totalPar: { ...marketWithInfo.market.totalPar },
+        cachedTotalPar: { ...marketWithInfo.market.totalPar },
+        cachedNumExcessTokens: numExcessTokens,
+        tokenBalanceDelta: INTEGERS.ZERO,
+      };
+      return market;
+    }));
+
+    this.riskParams = riskParams;
+    this.markets = {};
+    this.lastActionIndexForMarket = {};
+    markets.forEach(market => this.markets[market.marketId.toFixed(0)] = market);
+    this.accounts = accounts.map((info, i) => {
+      const pars = {};
+      accountBalances[i].forEach(balance => pars[balance.marketId.toFixed(0)] = balance.par);
+      return {
+        info,
+        pars,
+        status: accountStatuses[i],
+        isPrimary: false,
+        cachedNumberOfMarketsWithBalances: accountBalances[i].filter(balance => !balance.par.isZero()).length,
+        lastActionIndex: 0,
+      };
+    });
+  }
+
+  private runPreprocessing(action: ActionArgs, actionIndex: number): void {
+    const actionType = Number(action.actionType);
+    const accountId = Number(action.accountId);
+    const otherAccountId = Number(action.otherAccountId);
+
+    if (actionType === ActionType.Transfer || isPrimaryAndSecondaryLayout(actionType)) {
+      if (accountId === otherAccountId) {
+        this.revert(actionIndex, 'Duplicate accounts in action');
+      }
+      if (actionType === ActionType.Transfer) {
+        this.accounts[otherAccountId].isPrimary = true;
+      } else if (this.accounts[otherAccountId].isPrimary) {
+        this.revert(actionIndex, 'Requires non-primary account', otherAccountId);
+      }
+    }
+    this.accounts[accountId].isPrimary = true;
+
+    if (isTwoMarketsLayout(actionType) && new BigNumber(action.primaryMarketId).eq(action.secondaryMarketId)) {
+      this.revert(actionIndex, 'Duplicate markets in action');
+    }
+  }
+
+  // ============ Actions ============
+
+  /**
+   * Applies the action to the simulated state. Returns false if the action could only be partially simulated.
+   */
+  private runAction(action: ActionArgs, actionIndex: number): boolean {
+    const actionType = Number(action.actionType);
+    const accountId = Number(action.accountId);
+    const otherAccountId = Number(action.otherAccountId);
+    const primaryMarketId = new BigNumber(action.primaryMarketId);
+    const secondaryMarketId = new BigNumber(action.secondaryMarketId);
+
+    this.touchAccount(accountId, actionIndex);
+    switch (actionType) {
+      case ActionType.Deposit: {
+        const { newPar, deltaWei } = this.getNewParAndDeltaWei(accountId, primaryMarketId, action.amount);
+        if (deltaWei.lt(INTEGERS.ZERO)) {
+          this.revert(actionIndex, 'Cannot transferIn negative', accountId, primaryMarketId);
+        }
+        this.setPar(accountId, primaryMarketId, newPar, actionIndex);
+        this.getMarket(primaryMarketId).tokenBalanceDelta = this.getMarket(primaryMarketId).tokenBalanceDelta
+          .plus(deltaWei);
+        return true;
+      }
+      case ActionType.Withdraw: {
+        const { newPar, deltaWei } = this.getNewParAndDeltaWei(accountId, primaryMarketId, action.amount);
+        if (deltaWei.gt(INTEGERS.ZERO)) {
+          this.revert(actionIndex, 'Cannot transferOut positive', accountId, primaryMarketId);
+        }
+        this.setPar(accountId, primaryMarketId, newPar, actionIndex);
+        this.getMarket(primaryMarketId).tokenBalanceDelta = this.getMarket(primaryMarketId).tokenBalanceDelta
+          .plus(deltaWei);
+        return true;
+      }
+      case ActionType.Transfer: {
+        this.touchAccount(otherAccountId, actionIndex);
+        const { newPar, deltaWei } = this.getNewParAndDeltaWei(accountId, primaryMarketId, action.amount);
+        this.setPar(accountId, primaryMarketId, newPar, actionIndex);
+        this.setParFromDeltaWei(otherAccountId, primaryMarketId, deltaWei.negated(), actionIndex);
+        return true;
+      }
+      case ActionType.Buy:
+      case ActionType.Sell: {
+        // the other leg of the exchange is determined by the exchange wrapper
+        const { newPar } = this.getNewParAndDeltaWei(accountId, primaryMarketId, action.amount);
+        this.setPar(accountId, primaryMarketId, newPar, actionIndex);
+        return false;
+      }
+      case ActionType.Trade: {
+        // the output leg of the trade is determined by the auto trader
+        this.touchAccount(otherAccountId, actionIndex);
+        const { newPar, deltaWei } = this.getNewParAndDeltaWei(accountId, primaryMarketId, action.amount);
+        this.setPar(accountId, primaryMarketId, newPar, actionIndex);
+        this.setParFromDeltaWei(otherAccountId, primaryMarketId, deltaWei.negated(), actionIndex);
+        return false;
+      }
+      case ActionType.Liquidate:
+        this.touchAccount(otherAccountId, actionIndex);
+        this.liquidate(accountId, otherAccountId, primaryMarketId, secondaryMarketId, action.amount, actionIndex);
+        return true;
+      case ActionType.Vaporize:
+        this.touchAccount(otherAccountId, actionIndex);
+        this.vaporize(accountId, otherAccountId, primaryMarketId, secondaryMarketId, action.amount, actionIndex);
+        return true;
+      case ActionType.Call:
+        return false;
+      default:
+        throw new Error(`Invalid action type: ${action.actionType}`);
+    }
+  }
+
+  private liquidate(
+    solidAccountId: number,
+    liquidAccountId: number,
+    owedMarketId: Integer,
+    heldMarketId: Integer,
+    amount: ActionArgs['amount'],
+    actionIndex: number,
+  ): void {
+    const liquidAccount = this.accounts[liquidAccountId];
+    if (liquidAccount.status !== AccountStatus.Liquidating) {
+      if (this.isCollateralized(liquidAccountId, false, actionIndex)) {
+        this.revert(actionIndex, 'Unliquidatable account', liquidAccountId);
+      }
+      liquidAccount.status = AccountStatus.Liquidating;
+    }
+
+    const maxHeldWei = this.getWei(liquidAccountId, heldMarketId);
+    if (maxHeldWei.lt(INTEGERS.ZERO)) {
+      this.revert(actionIndex, 'Collateral cannot be negative', undefined, heldMarketId);
+    }
+
+    const owedResult = this.getNewParAndDeltaWeiForLiquidation(liquidAccountId, owedMarketId, amount, actionIndex);
+    let owedWei = owedResult.deltaWei;
+    const { heldPrice, owedPriceAdj } = this.getLiquidationPrices(heldMarketId, owedMarketId);
+    let heldWei = DolomiteMarginMath.getPartial(owedWei, owedPriceAdj, heldPrice).negated();
+
+    if (heldWei.abs().gt(maxHeldWei)) {
+      heldWei = maxHeldWei.negated();
+      owedWei = DolomiteMarginMath.getPartialRoundUp(maxHeldWei, heldPrice, owedPriceAdj);
+      this.setPar(liquidAccountId, heldMarketId, INTEGERS.ZERO, actionIndex);
+      this.setParFromDeltaWei(liquidAccountId, owedMarketId, owedWei, actionIndex);
+    } else {
+      this.setPar(liquidAccountId, owedMarketId, owedResult.newPar, actionIndex);
+      this.setParFromDeltaWei(liquidAccountId, heldMarketId, heldWei, actionIndex);
+    }
+
+    this.setParFromDeltaWei(solidAccountId, owedMarketId, owedWei.negated(), actionIndex);
+    this.setParFromDeltaWei(solidAccountId, heldMarketId, heldWei.negated(), actionIndex);
+  }
+
+  private vaporize(
+    solidAccountId: number,
+    vaporAccountId: number,
+    owedMarketId: Integer,
+    heldMarketId: Integer,
+    amount: ActionArgs['amount'],
+    actionIndex: number,
+  ): void {
+    const vaporAccount = this.accounts[vaporAccountId];
+    if (vaporAccount.status !== AccountStatus.Vaporizing) {
+      if (!this.isVaporizable(vaporAccountId)) {
+        this.revert(actionIndex, 'Unvaporizable account', vaporAccountId);
+      }
+      vaporAccount.status = AccountStatus.Vaporizing;
+    }
+
+    // first, attempt to refund using the excess tokens of the owed market
+    const owedExcessWei = this.getNumExcessTokens(owedMarketId);
+    if (owedExcessWei.gt(INTEGERS.ZERO)) {
+      const maxRefundWei = this.getWei(vaporAccountId, owedMarketId).abs();
+      if (owedExcessWei.gte(maxRefundWei)) {
+        this.setPar(vaporAccountId, owedMarketId, INTEGERS.ZERO, actionIndex);
+        return;
+      }
+      this.setParFromDeltaWei(vaporAccountId, owedMarketId, owedExcessWei, actionIndex);
+    }
+
+    const maxHeldWei = this.getNumExcessTokens(heldMarketId);
+    if (maxHeldWei.lt(INTEGERS.ZERO)) {
+      this.revert(actionIndex, 'Excess cannot be negative', undefined, heldMarketId);
+    }
+
+    const owedResult = this.getNewParAndDeltaWeiForLiquidation(vaporAccountId, owedMarketId, amount, actionIndex);
+    let owedWei = owedResult.deltaWei;
+    const { heldPrice, owedPriceAdj } = this.getLiquidationPrices(heldMarketId, owedMarketId);
+    let heldWei = DolomiteMarginMath.getPartial(owedWei, owedPriceAdj, heldPrice).negated();
+
+    if (heldWei.abs().gt(maxHeldWei)) {
+      heldWei = maxHeldWei.negated();
+      owedWei = DolomiteMarginMath.getPartialRoundUp(maxHeldWei, heldPrice, owedPriceAdj);
+      this.setParFromDeltaWei(vaporAccountId, owedMarketId, owedWei, actionIndex);
+    } else {
+      this.setPar(vaporAccountId, owedMarketId, owedResult.newPar, actionIndex);
+    }
+
+    this.setParFromDeltaWei(solidAccountId, owedMarketId, owedWei.negated(), actionIndex);
+    this.setParFromDeltaWei(solidAccountId, heldMarketId, heldWei.negated(), actionIndex);
+  }
+
+  // ============ Final State ============
+
+  private verifyFinalState(lastActionIndex: number): void {
+    Object.keys(this.markets).forEach((marketIdString) => {
+      const market = this.markets[marketIdString];
+      const actionIndex = this.lastActionIndexForMarket[marketIdString] !== undefined
+        ? this.lastActionIndexForMarket[marketIdString]
+        : lastActionIndex;
+
+      if (market.isClosing && market.totalPar.borrow.gt(market.cachedTotalPar.borrow)) {
+        this.revert(actionIndex, 'Market is closing', undefined, market.marketId);
+      }
+
+      if (!market.maxWei.isZero()) {
+        const totalSupplyWei = DolomiteMarginMath.parToWei(market.totalPar.supply, market.index);
+        const cachedSupplyWei = DolomiteMarginMath.parToWei(market.cachedTotalPar.supply, market.index);
+        if (totalSupplyWei.gt(market.maxWei) && totalSupplyWei.gt(cachedSupplyWei)) {
+          this.revert(actionIndex, 'Total supply exceeds max supply', undefined, market.marketId);
+        }
+      }
+    });
+
+    this.accounts.forEach((account, accountId) => {
+      const numberOfMarketsWithBalances = this.getMarketIdsWithBalances(accountId).length;
+      if (
+        numberOfMarketsWithBalances > account.cachedNumberOfMarketsWithBalances
+        && this.riskParams.accountMaxNumberOfMarketsWithBalances.lt(numberOfMarketsWithBalances)
+      ) {
+        this.revert(account.lastActionIndex, 'Too many non-zero balances', accountId);
+      }
+
+      if (account.isPrimary && !this.isCollateralized(accountId, true, account.lastActionIndex)) {
+        this.revert(account.lastActionIndex, 'Undercollateralized account', accountId);
+      }
+    });
+  }
+
+  // ============ Math Helper Functions ============
+
+  private getNewParAndDeltaWei(
+    accountId: number,
+    marketId: Integer,
+    amount: ActionArgs['amount'],
+  ): { newPar: Integer, deltaWei: Integer } {
+    const oldPar = this.getPar(accountId, marketId);
+    const value = new BigNumber(amount.value);
+    const signedValue = amount.sign ? value : value.negated();
+    const ref = Number(amount.ref);
+
+    if (value.isZero() && ref === AmountReference.Delta) {
+      return { newPar: oldPar, deltaWei: INTEGERS.ZERO };
+    }
+
+    const index = this.getMarket(marketId).index;
+    const oldWei = DolomiteMarginMath.parToWei(oldPar, index);
+    if (Number(amount.denomination) === AmountDenomination.Wei) {
+      let deltaWei = signedValue;
+      if (ref === AmountReference.Target) {
+        deltaWei = deltaWei.minus(oldWei);
+      }
+      return {
+        deltaWei,
+        newPar: DolomiteMarginMath.weiToPar(oldWei.plus(deltaWei), index),
+      };
+    }
+
+    let newPar = signedValue;
+    if (ref === AmountReference.Delta) {
+      newPar = oldPar.plus(newPar);
+    }
+    return {
+      newPar,
+      deltaWei: DolomiteMarginMath.parToWei(newPar, index).minus(oldWei),
+    };
+  }
+
+  private getNewParAndDeltaWeiForLiquidation(
+    accountId: number,
+    marketId: Integer,
+    amount: ActionArgs['amount'],
+    actionIndex: number,
+  ): { newPar: Integer, deltaWei: Integer } {
+    const oldPar = this.getPar(accountId, marketId);
+    if (oldPar.gt(INTEGERS.ZERO)) {
+      this.revert(actionIndex, 'Owed balance cannot be positive', accountId);
+    }
+
+    let { newPar, deltaWei } = this.getNewParAndDeltaWei(accountId, marketId, amount);
+
+    // if attempting to over-repay the owed asset, bound it by the maximum
+    if (newPar.gt(INTEGERS.ZERO)) {
+      newPar = INTEGERS.ZERO;
+      deltaWei = this.getWei(accountId, marketId).negated();
+    }
+
+    if (deltaWei.lt(INTEGERS.ZERO) || oldPar.abs().lt(newPar.abs())) {
+      this.revert(actionIndex, 'Owed balance cannot increase', accountId);
+    }
+
+    // if not paying back enough wei to repay any par, then bound wei to zero
+    if (oldPar.eq(newPar)) {
+      deltaWei = INTEGERS.ZERO;
+    }
+
+    return { newPar, deltaWei };
+  }
+
+  private getLiquidationPrices(
+    heldMarketId: Integer,
+    owedMarketId: Integer,
+  ): { heldPrice: Integer, owedPriceAdj: Integer } {
+    const heldMarket = this.getMarket(heldMarketId);
+    const owedMarket = this.getMarket(owedMarketId);
+
+    let spread = this.riskParams.liquidationSpread.times(BASE);
+    spread = decimalMul(spread, onePlus(heldMarket.spreadPremium));
+    spread = decimalMul(spread, onePlus(owedMarket.spreadPremium));
+
+    return {
+      heldPrice: heldMarket.price,
+      owedPriceAdj: owedMarket.price.plus(decimalMul(owedMarket.price, spread)),
+    };
+  }
+
+  private getAdjustedAccountValues(accountId: number): Values {
+    let supply = INTEGERS.ZERO;
+    let borrow = INTEGERS.ZERO;
+    this.getMarketIdsWithBalances(accountId).forEach((marketId) => {
+      const market = this.getMarket(marketId);
+      const wei = this.getWei(accountId, marketId);
+      const assetValue = wei.abs().times(market.price);
+      const adjust = onePlus(market.marginPremium);
+      if (wei.gt(INTEGERS.ZERO)) {
+        supply = supply.plus(decimalDiv(assetValue, adjust));
+      } else {
+        borrow = borrow.plus(decimalMul(assetValue, adjust));
+      }
+    });
+    return { supply, borrow };
+  }
+
+  private isCollateralized(accountId: number, requireMinBorrow: boolean, actionIndex: number): boolean {
+    const hasDebt = this.getMarketIdsWithBalances(accountId).some(marketId => this.getPar(accountId, marketId).lt(0));
+    if (!hasDebt) {
+      return true;
+    }
+
+    const { supply, borrow } = this.getAdjustedAccountValues(accountId);
+    if (requireMinBorrow && borrow.lt(this.riskParams.minBorrowedValue)) {
+      this.revert(actionIndex, 'Borrow value too low', accountId);
+    }
+
+    const requiredMargin = decimalMul(borrow, this.riskParams.marginRatio.times(BASE));
+    return supply.gte(borrow.plus(requiredMargin));
+  }
+
+  private isVaporizable(accountId: number): boolean {
+    const pars = this.getMarketIdsWithBalances(accountId).map(marketId => this.getPar(accountId, marketId));
+    return pars.length > 0 && pars.every(par => par.lt(INTEGERS.ZERO));
+  }
+
+  private getNumExcessTokens(marketId: Integer): Integer {
+    const market = this.getMarket(marketId);
+    const supplyWei = DolomiteMarginMath.parToWei(market.totalPar.supply, market.index);
+    const borrowWei = DolomiteMarginMath.parToWei(market.totalPar.borrow.negated(), market.index).abs();
+    const cachedSupplyWei = DolomiteMarginMath.parToWei(market.cachedTotalPar.supply, market.index);
+    const cachedBorrowWei = DolomiteMarginMath.parToWei(market.cachedTotalPar.borrow.negated(), market.index).abs();
+
+    // excess = tokenBalance + borrowWei - supplyWei, so only the changes since the start need to be applied
+    return market.cachedNumExcessTokens
+      .plus(market.tokenBalanceDelta)
+      .plus(borrowWei.minus(cachedBorrowWei))
+      .minus(supplyWei.minus(cachedSupplyWei));
+  }
+
+  // ============ State Helper Functions ============
+
+  private getMarket(marketId: Integer): SimulatedMarket {
+    return this.markets[marketId.toFixed(0)];
+  }
+
+  private getPar(accountId: number, marketId: Integer): Integer {
+    return this.accounts[accountId].pars[marketId.toFixed(0)] || INTEGERS.ZERO;
+  }
+
+  private getWei(accountId: number, marketId: Integer): Integer {
+    return DolomiteMarginMath.parToWei(this.getPar(accountId, marketId), this.getMarket(marketId).index);
+  }
+
+  private getMarketIdsWithBalances(accountId: number): Integer[] {
+    const pars = this.accounts[accountId].pars;
+    return Object.keys(pars)
+      .filter(marketId => !pars[marketId].isZero())
+      .map(marketId => new BigNumber(marketId));
+  }
+
+  private setPar(accountId: number, marketId: Integer, newPar: Integer, actionIndex: number): void {
+    const market = this.getMarket(marketId);
+    const oldPar = this.getPar(accountId, marketId);
+
+    // remove the old par from the totals and then add the new one
+    const totalPar = { ...market.totalPar };
+    if (oldPar.gt(INTEGERS.ZERO)) {
+      totalPar.supply = totalPar.supply.minus(oldPar);
+    } else {
+      totalPar.borrow = totalPar.borrow.minus(oldPar.abs());
+    }
+    if (newPar.gt(INTEGERS.ZERO)) {
+      totalPar.supply = totalPar.supply.plus(newPar);
+    } else {
+      totalPar.borrow = totalPar.borrow.plus(newPar.abs());
+    }
+
+    market.totalPar = totalPar;
+    this.accounts[accountId].pars[marketId.toFixed(0)] = newPar;
+    this.lastActionIndexForMarket[marketId.toFixed(0)] = actionIndex;
+  }
+
+  private setParFromDeltaWei(accountId: number, marketId: Integer, deltaWei: Integer, actionIndex: number): void {
+    if (deltaWei.isZero()) {
+      return;
+    }
+    const newWei = this.getWei(accountId, marketId).plus(deltaWei);
+    this.setPar(accountId, marketId, DolomiteMarginMath.weiToPar(newWei, this.getMarket(marketId).index), actionIndex);
+  }
+
+  private touchAccount(accountId: number, actionIndex: number): void {
+    this.accounts[accountId].lastActionIndex = actionIndex;
+  }
+
+  private revert(actionIndex: number, reason: string, accountId?: number, marketId?: Integer): never {
+    const violation: SimulationViolation = { actionIndex, reason };
+    if (accountId !== undefined) {
+      violation.accountOwner = this.accounts[accountId].info.owner;
+      violation.accountNumber = new BigNumber(this.accounts[accountId].info.number);
+    }
+    if (marketId !== undefined) {
+      violation.marketId = marketId;
+    }
+    throw new SimulationRevert(violation);
+  }
+
+  private getSimulatedAccount(accountId: number): SimulatedAccount {
+    const account = this.accounts[accountId];
+    const balances: Balance[] = this.getMarketIdsWithBalances(accountId).map(marketId => ({
+      marketId,
+      tokenAddress: this.getMarket(marketId).token,
+      par: this.getPar(accountId, marketId),
+      wei: this.getWei(accountId, marketId),
+    }));
+    const adjustedValues = this.getAdjustedAccountValues(accountId);
+    const requiredMargin = decimalMul(adjustedValues.borrow, this.riskParams.marginRatio.times(BASE));
+
+    return {
+      balances,
+      adjustedValues,
+      owner: account.info.owner,
+      number: new BigNumber(account.info.number),
+      collateralization: adjustedValues.borrow.isZero() ? null : adjustedValues.supply.div(adjustedValues.borrow),
+      isCollateralized: adjustedValues.supply.gte(adjustedValues.borrow.plus(requiredMargin)),
+    };
+  }
+}
+
+// ============ Private Functions ============
+
+function isPrimaryAndSecondaryLayout(actionType: number): boolean {
+  return actionType === ActionType.Trade || actionType === ActionType.Liquidate || actionType === ActionType.Vaporize;
+}
+
+function isTwoMarketsLayout(actionType: number): boolean {
+  return actionType === ActionType.Buy || actionType === ActionType.Sell || isPrimaryAndSecondaryLayout(actionType);
+}
+
+function getActionMarketIds(action: ActionArgs): string[] {
+  const actionType = Number(action.actionType);
+  if (actionType === ActionType.Call) {
+    return [];
+  }
+  const primaryMarketId = new BigNumber(action.primaryMarketId).toFixed(0);
+  if (isTwoMarketsLayout(actionType)) {
+    return [primaryMarketId, new BigNumber(action.secondaryMarketId).toFixed(0)];
+  }
+  return [primaryMarketId];
+}
+
+function onePlus(decimal: Decimal): Integer {
+  return BASE.plus(decimal.times(BASE).integerValue(BigNumber.ROUND_DOWN));
+}
+
+function decimalMul(target: Integer, decimalValue: Integer): Integer {
+  return DolomiteMarginMath.getPartial(target, decimalValue, BASE);
+}
+
+function decimalDiv(target: Integer, decimalValue: Integer): Integer {
+  return DolomiteMarginMath.getPartial(target, BASE, decimalValue);
+}
@@ -78,6 +78,93 @@ export enum SigningMethod {
   CoinbaseWallet = 'CoinbaseWallet', // ... according to latest version of EIP-712 (CoinbaseWallet)
 }
 
+/**
+ * Produces the signatures used by `SignedOperations` and `WalletLogin`. Both functions return a raw 65-byte `r, s, v`
+ * signature as a hex string.
+ */
+export interface SigningProvider {
+  /**
+   * Signs a 32-byte hash the same way `eth_sign` does, by prepending "\x19Ethereum Signed Message:\n32" first.
+   */
+  signHash(hash: string, signer: address): Promise<string>;
+
+  /**
+   * Signs a UTF-8 message the same way `personal_sign` does, by prepending "\x19Ethereum Signed Message:\n" and the
+   * length of the message first.
+   */
+  signMessage(message: string, signer: address): Promise<string>;
+
+  /**
+   * Signs EIP-712 typed data. `hash` is the EIP-712 hash of `data`, for providers that sign the hash directly.
+   */
+  signTypedData(signer: address, data: object, hash: string, signingMethod: SigningMethod): Promise<string>;
+}
+
+/**
+ * The request function of an EIP-1193 provider, such as `window.ethereum`.
+ */
+export interface Eip1193Provider {
+  request(args: { method: string; params?: any[] }): Promise<any>;
+}
+
+/**
+ * Sends the transactions built by `Contracts#callContractFunction`, in place of web3's `send`.
+ */
+export interface TransactionSender {
+  /**
+   * @param tx  The transaction, with `from`, `to`, `data`, `value`, `gas` and (optionally) either `gasPrice` or the
+   *            EIP-1559 fees already set
+   */
+  sendTransaction(
+    tx: Tx & Eip1559FeeOptions,
+    options: { confirmationType: ConfirmationType; confirmations?: number },
+  ): Promise<TxResult>;
+}
+
+export enum TransactionLifecycleEventType {
+  Signed = 0,
+  Broadcast = 1,
+  Replaced = 2,
+  Mined = 3,
+  Dropped = 4,
+  TimedOut = 5,
+}
+
+export interface TransactionLifecycleEvent {
+  type: TransactionLifecycleEventType;
+  from: address;
+  nonce: number;
+  transactionHash: string;
+  /**
+   * The gas price of the transaction, or its `maxFeePerGas` for EIP-1559 transactions
+   */
+  gasPrice: string;
+  /**
+   * The hash of the transaction that replaced this one, for `Replaced` events
+   */
+  replacedBy?: string;
+}
+
+/**
+ * The fees of an EIP-1559 (type 2) transaction, in wei per gas
+ */
+export interface Eip1559FeeOptions {
+  maxFeePerGas?: number | string;
+  maxPriorityFeePerGas?: number | string;
+}
+
+export interface FeeEstimate {
+  maxFeePerGas: Integer;
+  maxPriorityFeePerGas: Integer;
+}
+
+/**
+ * Estimates the EIP-1559 fees of transactions sent by `Contracts#callContractFunction`.
+ */
+export interface FeeEstimator {
+  estimateFees(): Promise<FeeEstimate>;
+}
+
 export interface DolomiteMarginOptions {
   defaultAccount?: address;
   confirmationType?: ConfirmationType;
@@ -86,6 +173,22 @@ export interface DolomiteMarginOptions {
   testing?: boolean;
   defaultGas?: number | string;
   defaultGasPrice?: number | string;
+  /**
+   * Used along with `defaultMaxPriorityFeePerGas` instead of estimating the fees of EIP-1559 transactions
+   */
+  defaultMaxFeePerGas?: number | string;
+  defaultMaxPriorityFeePerGas?: number | string;
+  /**
+   * Estimates the fees of EIP-1559 transactions, such as `ArbitrumFeeEstimator` on Arbitrum. Transactions sent without
+   * fees or a gas price use EIP-1559 on chains that support it, and are sent as legacy transactions elsewhere. Defaults
+   * to a `FeeHistoryFeeEstimator`.
+   */
+  feeEstimator?: FeeEstimator;
+  /**
+   * The number of milliseconds to wait for an EIP-1559 transaction to be mined before failing. Defaults to 750000, like
+   * web3's timeout for the transactions it sends.
+   */
+  receiptTimeout?: number;
   blockGasLimit?: number;
   accounts?: EthereumAccount[];
   apiEndpoint?: string;
@@ -94,6 +197,14 @@ export interface DolomiteMarginOptions {
   wsOrigin?: string;
   wsEndpoint?: string;
   wsTimeout?: number;
+  /**
+   * Signs operations and wallet logins. Defaults to signing with the accounts of the web3 provider.
+   */
+  signingProvider?: SigningProvider;
+  /**
+   * Sends transactions, such as a `TransactionManager`. Defaults to sending them with web3.
+   */
+  transactionSender?: TransactionSender;
 }
 
 export interface EthereumAccount {
@@ -101,7 +212,7 @@ export interface EthereumAccount {
   privateKey: string;
 }
 
-export interface ContractCallOptions extends Tx {
+export interface ContractCallOptions extends Tx, Eip1559FeeOptions {
   confirmations?: number;
   confirmationType?: ConfirmationType;
   autoGasMultiplier?: number;
@@ -143,6 +254,11 @@ export interface TxResult {
   confirmation?: Promise<TransactionReceipt>;
   gasEstimate?: number;
   gas?: number;
+  /**
+   * The events of the transaction so far, when it was sent by a `TransactionManager`. Events that happen after the
+   * result is returned, such as `Mined` for `ConfirmationType.Hash`, are appended to the same array.
+   */
+  lifecycleEvents?: TransactionLifecycleEvent[];
 }
 
 export enum AmountDenomination {
@@ -355,6 +471,478 @@ export interface BalanceUpdate {
   newPar: Integer;
 }
 
+// ============ Operation Simulation ============
+
+export interface SimulatedAccount {
+  owner: address;
+  number: Integer;
+  balances: Balance[];
+  adjustedValues: Values;
+  /**
+   * The adjusted supply value divided by the adjusted borrow value, or null if the account has no debt
+   */
+  collateralization: Decimal | null;
+  isCollateralized: boolean;
+}
+
+export interface SimulationViolation {
+  actionIndex: number;
+  reason: string;
+  accountOwner?: address;
+  accountNumber?: Integer;
+  marketId?: Integer;
+}
+
+export interface OperationSimulation {
+  accounts: SimulatedAccount[];
+  /**
+   * The first protocol invariant that the operation would break, or null if the simulation succeeded
+   */
+  violation: SimulationViolation | null;
+  /**
+   * The indices of actions whose effects depend on external contracts (exchange wrappers, auto traders
+   * and callees). Only the leg that is known ahead of time is applied for these actions.
+   */
+  unsimulatedActionIndices: number[];
+}
+
+// ============ Subgraph API ============
+
+export interface SubgraphPageOptions {
+  /**
+   * The maximum number of items to return. Defaults to 100 and may not exceed 1000.
+   */
+  first?: number;
+  /**
+   * The `cursor` of the previous page, or undefined to fetch the first page
+   */
+  cursor?: string;
+  /**
+   * Queries the subgraph's state as of this block number instead of the latest indexed block
+   */
+  blockNumber?: number;
+}
+
+export interface SubgraphPage<T> {
+  items: T[];
+  /**
+   * Pass this to the next query to fetch the next page, or null if there are no more pages
+   */
+  cursor: string | null;
+}
+
+export interface SubgraphMarginAccount {
+  owner: address;
+  number: Integer;
+  balances: Balance[];
+}
+
+export enum SubgraphBorrowPositionStatus {
+  Open = 'OPEN',
+  Closed = 'CLOSED',
+  Liquidated = 'LIQUIDATED',
+}
+
+export interface SubgraphBorrowPosition {
+  owner: address;
+  number: Integer;
+  status: SubgraphBorrowPositionStatus;
+  openTimestamp: Integer;
+  closeTimestamp: Integer | null;
+  balances: Balance[];
+}
+
+export interface SubgraphLiquidation {
+  transactionHash: string;
+  timestamp: Integer;
+  solidAccountOwner: address;
+  solidAccountNumber: Integer;
+  liquidAccountOwner: address;
+  liquidAccountNumber: Integer;
+  heldMarketId: Integer;
+  owedMarketId: Integer;
+  heldWei: Integer;
+  owedWei: Integer;
+}
+
+export interface SubgraphExpiration {
+  owner: address;
+  number: Integer;
+  marketId: Integer;
+  expiry: Integer;
+  balance: Balance;
+}
+
+export interface SubgraphAmmPair {
+  address: address;
+  token0: address;
+  token1: address;
+  marketId0: Integer;
+  marketId1: Integer;
+  reserve0: Integer;
+  reserve1: Integer;
+  totalSupply: Integer;
+}
+
+export interface SubgraphMarket {
+  marketId: Integer;
+  market: Market;
+}
+
+export interface SubgraphInterestRate {
+  marketId: Integer;
+  timestamp: Integer;
+  index: Index;
+  /**
+   * Annualized, where 0.05 is 5% APR
+   */
+  borrowInterestRate: Decimal;
+  /**
+   * Annualized, where 0.05 is 5% APR
+   */
+  supplyInterestRate: Decimal;
+}
+
+// ============ Liquidation Scanner ============
+
+export interface LiquidationScanAccount {
+  owner: address;
+  number: Integer;
+}
+
+export interface LiquidationScanOptions {
+  /**
+   * The number of accounts whose health checks are sent in each MultiCall. Defaults to 50.
+   */
+  batchSize?: number;
+  /**
+   * The timestamp against which expiries are compared. Defaults to the timestamp of the block at which the balances
+   * are read.
+   */
+  timestamp?: Integer;
+}
+
+export interface LiquidationCandidate {
+  liquidOwner: address;
+  liquidNumber: Integer;
+  /**
+   * The market with the largest supply value, which is seized by the liquidator
+   */
+  heldMarketId: Integer;
+  /**
+   * The market with the largest borrow value, or the largest expired borrow for expired candidates
+   */
+  owedMarketId: Integer;
+  /**
+   * The held balance of the liquid account, which is the most that can be passed as `inputAmountWei`
+   */
+  heldWei: Integer;
+  /**
+   * The (positive) amount owed by the liquid account in the owed market
+   */
+  owedWei: Integer;
+  /**
+   * The expiry of the owed market, to be passed to `liquidate` when closing an expired borrow. Null when the account
+   * is under-collateralized.
+   */
+  expiry: Integer | null;
+  isLiquidatable: boolean;
+  adjustedValues: Values;
+  /**
+   * The value by which the account's adjusted supply falls short of its margin requirement. Zero for accounts that
+   * are only expired.
+   */
+  shortfall: Integer;
+  liquidationSpread: Decimal;
+  /**
+   * The value of the reward earned by repaying as much of the owed market as the held balance allows, in the same
+   * units as `Values`. For expired candidates the spread is scaled by how far the expiry ramp has progressed at the
+   * scanned timestamp.
+   */
+  expectedProfit: Integer;
+  blockNumber: number;
+}
+
+// ============ Log Stream ============
+
+export interface LogIndexUpdate extends Log {
+  name: 'LogIndexUpdate';
+  args: {
+    market: Integer;
+    index: Index;
+  };
+}
+
+export interface LogOraclePrice extends Log {
+  name: 'LogOraclePrice';
+  args: {
+    market: Integer;
+    price: Integer;
+  };
+}
+
+export interface LogOperation extends Log {
+  name: 'LogOperation';
+  args: {
+    sender: address;
+  };
+}
+
+export interface LogDeposit extends Log {
+  name: 'LogDeposit';
+  args: {
+    accountOwner: address;
+    accountNumber: Integer;
+    market: Integer;
+    update: BalanceUpdate;
+    from: address;
+  };
+}
+
+export interface LogWithdraw extends Log {
+  name: 'LogWithdraw';
+  args: {
+    accountOwner: address;
+    accountNumber: Integer;
+    market: Integer;
+    update: BalanceUpdate;
+    to: address;
+  };
+}
+
+export interface LogTransfer extends Log {
+  name: 'LogTransfer';
+  args: {
+    accountOneOwner: address;
+    accountOneNumber: Integer;
+    accountTwoOwner: address;
+    accountTwoNumber: Integer;
+    market: Integer;
+    updateOne: BalanceUpdate;
+    updateTwo: BalanceUpdate;
+  };
+}
+
+interface LogExchange extends Log {
+  args: {
+    accountOwner: address;
+    accountNumber: Integer;
+    takerMarket: Integer;
+    makerMarket: Integer;
+    takerUpdate: BalanceUpdate;
+    makerUpdate: BalanceUpdate;
+    exchangeWrapper: address;
+  };
+}
+
+export interface LogBuy extends LogExchange {
+  name: 'LogBuy';
+}
+
+export interface LogSell extends LogExchange {
+  name: 'LogSell';
+}
+
+export interface LogTrade extends Log {
+  name: 'LogTrade';
+  args: {
+    takerAccountOwner: address;
+    takerAccountNumber: Integer;
+    makerAccountOwner: address;
+    makerAccountNumber: Integer;
+    inputMarket: Integer;
+    outputMarket: Integer;
+    takerInputUpdate: BalanceUpdate;
+    takerOutputUpdate: BalanceUpdate;
+    makerInputUpdate: BalanceUpdate;
+    makerOutputUpdate: BalanceUpdate;
+    autoTrader: address;
+  };
+}
+
+export interface LogCall extends Log {
+  name: 'LogCall';
+  args: {
+    accountOwner: address;
+    accountNumber: Integer;
+    callee: address;
+  };
+}
+
+export interface LogLiquidate extends Log {
+  name: 'LogLiquidate';
+  args: {
+    solidAccountOwner: address;
+    solidAccountNumber: Integer;
+    liquidAccountOwner: address;
+    liquidAccountNumber: Integer;
+    heldMarket: Integer;
+    owedMarket: Integer;
+    solidHeldUpdate: BalanceUpdate;
+    solidOwedUpdate: BalanceUpdate;
+    liquidHeldUpdate: BalanceUpdate;
+    liquidOwedUpdate: BalanceUpdate;
+  };
+}
+
+export interface LogVaporize extends Log {
+  name: 'LogVaporize';
+  args: {
+    solidAccountOwner: address;
+    solidAccountNumber: Integer;
+    vaporAccountOwner: address;
+    vaporAccountNumber: Integer;
+    heldMarket: Integer;
+    owedMarket: Integer;
+    solidHeldUpdate: BalanceUpdate;
+    solidOwedUpdate: BalanceUpdate;
+    vaporOwedUpdate: BalanceUpdate;
+  };
+}
+
+export interface LogAddMarket extends Log {
+  name: 'LogAddMarket';
+  args: {
+    marketId: Integer;
+    token: address;
+  };
+}
+
+export interface ExpirySet extends Log {
+  name: 'ExpirySet';
+  args: {
+    owner: address;
+    number: Integer;
+    marketId: Integer;
+    time: Integer;
+  };
+}
+
+export type DolomiteMarginLog =
+  LogIndexUpdate
+  | LogOraclePrice
+  | LogOperation
+  | LogDeposit
+  | LogWithdraw
+  | LogTransfer
+  | LogBuy
+  | LogSell
+  | LogTrade
+  | LogCall
+  | LogLiquidate
+  | LogVaporize
+  | LogAddMarket
+  | ExpirySet;
+
+export type DolomiteMarginLogName = DolomiteMarginLog['name'];
+
+/**
+ * The last block that was fully processed. The hash is used to detect whether the block was reorganized out of the
+ * chain before the next batch is read.
+ */
+export interface LogStreamCheckpoint {
+  blockNumber: number;
+  blockHash: string | null;
+}
+
+export interface LogStreamOptions {
+  /**
+   * The maximum number of blocks to read with each call to `getPastLogs`. Defaults to 2,000.
+   */
+  chunkSize?: number;
+  /**
+   * The number of blocks behind the head of the chain to stop at. Defaults to 0.
+   */
+  confirmations?: number;
+  /**
+   * The number of blocks to rewind when the checkpoint is no longer part of the chain. Defaults to 64.
+   */
+  reorgDepth?: number;
+  /**
+   * The last block to read. Defaults to the head of the chain, less the confirmations.
+   */
+  toBlock?: number;
+  /**
+   * Only read these events. Defaults to every event in `DolomiteMarginLog`.
+   */
+  eventNames?: DolomiteMarginLogName[];
+}
+
+export interface LogStreamBatch {
+  fromBlock: number;
+  toBlock: number;
+  /**
+   * Sorted by block number and then by log index
+   */
+  logs: DolomiteMarginLog[];
+  /**
+   * If the previous checkpoint was reorganized out of the chain, this is the first block that was re-read. Any state
+   * that was derived from this block onwards must be discarded before the logs of this batch are applied.
+   */
+  reorgFromBlock: number | null;
+  /**
+   * The checkpoint to persist once the logs of this batch have been applied
+   */
+  checkpoint: LogStreamCheckpoint;
+}
+
+// ============ Account Indexer ============
+
+export interface AccountIndexerChanges {
+  /**
+   * The token address is null for changes that undo the addition of the market
+   */
+  marketTokenAddresses: { marketId: Integer; tokenAddress: address | null }[];
+  /**
+   * The index is null for changes that undo the first `LogIndexUpdate` of the market
+   */
+  marketIndexes: { marketId: Integer; index: Index | null }[];
+  /**
+   * The new par balance of each account that changed, in the order that the changes happened
+   */
+  accountPars: { owner: address; number: Integer; marketId: Integer; par: Integer }[];
+  expiries: { owner: address; number: Integer; marketId: Integer; expiry: Integer }[];
+}
+
+export interface AccountIndexerUndoLog {
+  /**
+   * The first block whose changes can be undone. The state can't be reverted to an earlier block.
+   */
+  fromBlock: number;
+  /**
+   * Sorted by block number. The changes of each entry restore the state from before its block.
+   */
+  entries: { blockNumber: number; changes: AccountIndexerChanges }[];
+}
+
+/**
+ * The storage backend of `AccountIndexer`. Implementations must apply the changes, the checkpoint and the undo log of a
+ * commit atomically, so that an interrupted sync can always be resumed from the stored checkpoint.
+ */
+export interface AccountIndexerStore {
+  getCheckpoint(): Promise<LogStreamCheckpoint | null>;
+  /**
+   * The undo log of the last commit, or null if nothing has been committed yet
+   */
+  getUndoLog(): Promise<AccountIndexerUndoLog | null>;
+  getMarketTokenAddress(marketId: Integer): Promise<address | null>;
+  getMarketIndex(marketId: Integer): Promise<Index | null>;
+  getAccountPar(accountOwner: address, accountNumber: Integer, marketId: Integer): Promise<Integer>;
+  /**
+   * The markets in which the account has a non-zero par balance, sorted by market ID
+   */
+  getAccountMarketIds(accountOwner: address, accountNumber: Integer): Promise<Integer[]>;
+  getExpiry(accountOwner: address, accountNumber: Integer, marketId: Integer): Promise<Integer>;
+  /**
+   * Applies the changes in order and replaces the checkpoint and the undo log
+   */
+  commit(
+    changes: AccountIndexerChanges,
+    checkpoint: LogStreamCheckpoint,
+    undoLog: AccountIndexerUndoLog,
+  ): Promise<void>;
+}
+
 // ============ Expiry ============
 
 export interface SetApprovalForExpiry extends AccountAction {
@@ -367,6 +955,102 @@ export enum ExpiryCallFunctionType {
   SetApproval = 1,
 }
 
+export interface ExpiryPosition {
+  owner: address;
+  number: Integer;
+  marketId: Integer;
+  expiry: Integer;
+}
+
+export interface ExpiryArgValidation {
+  expiryArg: ExpiryArg;
+  /**
+   * The reason for which the Expiry contract would ignore or unset the expiry, or null if the arg is valid
+   */
+  error: string | null;
+  /**
+   * Issues that don't stop the arg from being submitted, such as an expiry that is kept and is already past its ramp
+   */
+  warnings: string[];
+  /**
+   * The expiry after the arg is processed, assuming it's mined at the timestamp of the latest block
+   */
+  newExpiry: Integer;
+}
+
+// ============ Account Risk ============
+
+export interface MarketRisk {
+  marketId: Integer;
+  wei: Integer;
+  price: Integer;
+  marginPremium: Decimal;
+  /**
+   * The price at which the account can be liquidated if no other price changes, which is lower than `price` for
+   * collateral and higher for debt. Null if no price of this market alone can make the account liquidatable.
+   */
+  liquidationPrice: Integer | null;
+  /**
+   * The most that can be withdrawn from a positive balance while the account stays collateralized
+   */
+  maxWithdrawWei: Integer;
+  /**
+   * The most that can be borrowed in this market once its positive balance has been fully withdrawn, while the
+   * account stays collateralized. The market's own limits and the minimum borrowed value are not checked.
+   */
+  maxBorrowWei: Integer;
+}
+
+export interface AccountRisk {
+  owner: address;
+  number: Integer;
+  marginRatio: Decimal;
+  /**
+   * The values of the account adjusted by the margin premiums, the same way as `Getters#getAdjustedAccountValues`
+   */
+  adjustedValues: Values;
+  /**
+   * The adjusted supply value divided by the adjusted borrow value plus the required margin, or null if the account
+   * has no debt. The account can be liquidated once this falls below one.
+   */
+  healthFactor: Decimal | null;
+  isLiquidatable: boolean;
+  markets: MarketRisk[];
+}
+
+// ============ Borrow Positions ============
+
+export interface BorrowPositionCollateral {
+  marketId: Integer;
+  amountWei: Integer;
+}
+
+export interface BorrowPosition {
+  owner: address;
+  number: Integer;
+  /**
+   * The positive balances of the account
+   */
+  collateral: Balance[];
+  /**
+   * The negative balances of the account
+   */
+  debt: Balance[];
+  adjustedValues: Values;
+  /**
+   * The adjusted supply value divided by the adjusted borrow value, or null if the account has no debt. The account
+   * can be liquidated once this falls below one plus the margin ratio.
+   */
+  collateralization: Decimal | null;
+  isLiquidatable: boolean;
+  /**
+   * For each market of the account, the price at which the account can be liquidated if no other price changes. This
+   * is a lower price for collateral markets and a higher price for debt markets, in the same units as
+   * `Getters#getMarketPrice`. Null if no price of the market alone can make the account liquidatable.
+   */
+  liquidationPrices: { [marketId: string]: Integer | null };
+}
+
 // ============ Sender Proxy ============
 
 export interface OperationAuthorization {
@@ -410,3 +1094,112 @@ export interface Operation {
 export interface SignedOperation extends Operation {
   typedSignature: string;
 }
+
+export interface SignedActionOptions {
+  signingMethod: SigningMethod;
+  /**
+   * The timestamp after which the operation can no longer be used. Defaults to 0, which never expires.
+   */
+  expiration?: Integer;
+  /**
+   * Defaults to a random salt, so signing the same actions twice produces two distinct operations.
+   */
+  salt?: Integer;
+  /**
+   * The only address allowed to send the operation. Defaults to the zero address, which allows anyone.
+   */
+  sender?: address;
+  /**
+   * Defaults to the owner of the account. Set it when the signer is an operator of the account instead.
+   */
+  signer?: address;
+}
+
+export enum SignedOperationStatus {
+  Valid = 'Valid',
+  Expired = 'Expired',
+  Canceled = 'Canceled',
+  Executed = 'Executed',
+  /**
+   * The operation is no longer valid, but it wasn't executed or canceled within the searched blocks
+   */
+  Unknown = 'Unknown',
+}
+
+export interface SignedOperationStatusOptions extends ContractConstantCallOptions {
+  /**
+   * The first block searched for the executions and cancellations of operations that are no longer valid. Defaults to
+   * 100,000 blocks before the block the statuses are read at.
+   */
+  fromBlock?: number;
+}
+
+export interface CancelOperationsResult {
+  /**
+   * The results of the cancel transactions that were sent, in order
+   */
+  txResults: TxResult[];
+  /**
+   * The valid operations that weren't canceled, because a cancel threw before reaching them. Includes the one that
+   * threw.
+   */
+  remainingOperations: Operation[];
+  error: Error | null;
+}
+
+// ============ Wallet Login ============
+
+/**
+ * The fields of an EIP-4361 (Sign-In with Ethereum) message.
+ */
+export interface SiweMessage {
+  /**
+   * The host (and optionally the port) of the site requesting the login, such as `app.dolomite.io`
+   */
+  domain: string;
+  address: address;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: number;
+  /**
+   * At least 8 alphanumeric characters, chosen by the server to prevent replays
+   */
+  nonce: string;
+  issuedAt: Date;
+  expirationTime?: Date;
+  notBefore?: Date;
+  requestId?: string;
+  resources?: string[];
+}
+
+/**
+ * Tracks the nonces of Sign-In with Ethereum messages, so each one can only be used to log in once.
+ */
+export interface SiweNonceStore {
+  /**
+   * Marks the nonce as used.
+   *
+   * @return False if the nonce was already used or was never issued
+   */
+  useNonce(nonce: string): Promise<boolean>;
+}
+
+export interface SiweVerificationOptions {
+  /**
+   * The domain the message must be for. Not checked if omitted.
+   */
+  domain?: string;
+  /**
+   * Rejects messages whose nonce was already used. Nonces are not checked if omitted.
+   */
+  nonceStore?: SiweNonceStore;
+  /**
+   * How far apart the clocks of the client and the server may be. Defaults to 60 seconds.
+   */
+  maxClockSkewSeconds?: number;
+  /**
+   * Defaults to the current time.
+   */
+  now?: Date;
+}
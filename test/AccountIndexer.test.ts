@@ -0,0 +1,197 @@
+import BigNumber from 'bignumber.js';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { address, AmountDenomination, AmountReference, Integer, INTEGERS } from '../src';
+import { AccountIndexer } from '../src/modules/AccountIndexer';
+import { JsonFileAccountIndexerStore } from '../src/modules/JsonFileAccountIndexerStore';
+import { getDolomiteMargin } from './helpers/DolomiteMargin';
+import { setupMarkets } from './helpers/DolomiteMarginHelpers';
+import { resetEVM, snapshot } from './helpers/EVM';
+import { expectRejection } from './helpers/Expect';
+import { TestDolomiteMargin } from './modules/TestDolomiteMargin';
+
+let dolomiteMargin: TestDolomiteMargin;
+let who: address;
+let snapshotId: string;
+
+const accountNumber1 = INTEGERS.ZERO;
+const accountNumber2 = INTEGERS.ONE;
+const market1 = INTEGERS.ZERO;
+const market2 = INTEGERS.ONE;
+const wei = new BigNumber(1000);
+
+describe('AccountIndexer', () => {
+  before(async () => {
+    const r = await getDolomiteMargin();
+    dolomiteMargin = r.dolomiteMargin;
+    who = dolomiteMargin.getDefaultAccount();
+
+    await resetEVM();
+    await setupMarkets(dolomiteMargin, r.accounts);
+    await Promise.all([
+      dolomiteMargin.testing.tokenA.issueTo(wei, who),
+      dolomiteMargin.testing.tokenA.setMaximumDolomiteMarginAllowance(who),
+    ]);
+    await dolomiteMargin.operation
+      .initiate()
+      .deposit({
+        primaryAccountOwner: who,
+        primaryAccountId: accountNumber1,
+        marketId: market1,
+        from: who,
+        amount: {
+          value: wei,
+          denomination: AmountDenomination.Actual,
+          reference: AmountReference.Delta,
+        },
+      })
+      .commit({ from: who });
+    await transfer(accountNumber1, accountNumber2, market1, wei.times('0.3'));
+    // borrows market2 from account 2
+    await transfer(accountNumber2, accountNumber1, market2, wei.times('0.1'));
+    await dolomiteMargin.operation
+      .initiate()
+      .setExpiry({
+        primaryAccountOwner: who,
+        primaryAccountId: accountNumber2,
+        expiryArgs: [
+          {
+            accountOwner: who,
+            accountId: accountNumber2,
+            marketId: market2,
+            timeDelta: new BigNumber(3600),
+            forceUpdate: true,
+          },
+        ],
+      })
+      .commit({ from: who });
+
+    snapshotId = await snapshot();
+  });
+
+  beforeEach(async () => {
+    await resetEVM(snapshotId);
+  });
+
+  describe('#sync', () => {
+    it('Succeeds for matching the balances on chain', async () => {
+      const indexer = new AccountIndexer(dolomiteMargin.logStream);
+      const checkpoint = await indexer.sync(0);
+      expect(checkpoint.blockNumber).to.eql(await dolomiteMargin.web3.eth.getBlockNumber());
+      expect(await indexer.getCheckpoint()).to.eql(checkpoint);
+
+      await expectBalancesToMatch(indexer, accountNumber1);
+      await expectBalancesToMatch(indexer, accountNumber2);
+      expect(await indexer.getAccountPar(who, accountNumber2, market2)).to.eql(
+        await dolomiteMargin.getters.getAccountPar(who, accountNumber2, market2),
+      );
+      expect(await indexer.getAccountWei(who, accountNumber2, market2)).to.eql(wei.times('-0.1'));
+      expect(await indexer.getAccountPar(who, new BigNumber(2), market1)).to.eql(INTEGERS.ZERO);
+    });
+
+    it('Succeeds for indexing expiries', async () => {
+      const indexer = new AccountIndexer(dolomiteMargin.logStream);
+      await indexer.sync(0);
+      expect(await indexer.getExpiry(who, accountNumber2, market2)).to.eql(
+        await dolomiteMargin.expiry.getExpiry(who, accountNumber2, market2),
+      );
+      expect(await indexer.getExpiry(who, accountNumber1, market2)).to.eql(INTEGERS.ZERO);
+    });
+
+    it('Succeeds for resuming from a JSON file', async () => {
+      const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'account-indexer-')), 'state.json');
+      const endBlock = await dolomiteMargin.web3.eth.getBlockNumber();
+      const checkpoint = await new AccountIndexer(
+        dolomiteMargin.logStream,
+        new JsonFileAccountIndexerStore(filePath),
+      ).sync(0, { toBlock: endBlock - 1 });
+      expect(checkpoint.blockNumber).to.eql(endBlock - 1);
+
+      const indexer = new AccountIndexer(dolomiteMargin.logStream, new JsonFileAccountIndexerStore(filePath));
+      expect(await indexer.getCheckpoint()).to.eql(checkpoint);
+      expect(await indexer.getExpiry(who, accountNumber2, market2)).to.eql(INTEGERS.ZERO);
+
+      const newCheckpoint = await indexer.sync(0);
+      expect(newCheckpoint.blockNumber).to.eql(endBlock);
+      expect(await indexer.getExpiry(who, accountNumber2, market2)).to.not.eql(INTEGERS.ZERO);
+      await expectBalancesToMatch(indexer, accountNumber1);
+      await expectBalancesToMatch(indexer, accountNumber2);
+    });
+
+    it('Succeeds for rolling back reorganized blocks', async () => {
+      const indexer = new AccountIndexer(dolomiteMargin.logStream);
+      const checkpoint = await indexer.sync(0);
+
+      // The borrow of market2 and its expiry are in the last two blocks
+      const reorgFromBlock = checkpoint.blockNumber - 1;
+      await indexer.applyBatch({
+        reorgFromBlock,
+        fromBlock: reorgFromBlock,
+        toBlock: reorgFromBlock - 1,
+        logs: [],
+        checkpoint: { blockNumber: reorgFromBlock - 1, blockHash: null },
+      });
+      expect(await indexer.getExpiry(who, accountNumber2, market2)).to.eql(INTEGERS.ZERO);
+      expect(await indexer.getAccountPar(who, accountNumber1, market2)).to.eql(INTEGERS.ZERO);
+      expect(await indexer.getAccountPar(who, accountNumber2, market2)).to.eql(INTEGERS.ZERO);
+      expect(await indexer.getAccountPar(who, accountNumber2, market1)).to.eql(
+        await dolomiteMargin.getters.getAccountPar(who, accountNumber2, market1),
+      );
+
+      expect(await indexer.sync(0)).to.eql(checkpoint);
+      await expectBalancesToMatch(indexer, accountNumber1);
+      await expectBalancesToMatch(indexer, accountNumber2);
+      expect(await indexer.getExpiry(who, accountNumber2, market2)).to.eql(
+        await dolomiteMargin.expiry.getExpiry(who, accountNumber2, market2),
+      );
+    });
+
+    it('Fails to roll back blocks that are no longer in the undo log', async () => {
+      const indexer = new AccountIndexer(dolomiteMargin.logStream);
+      const checkpoint = await indexer.sync(0, { reorgDepth: 2 });
+
+      const reorgFromBlock = checkpoint.blockNumber - 2;
+      await expectRejection(
+        indexer.applyBatch(
+          {
+            reorgFromBlock,
+            fromBlock: reorgFromBlock,
+            toBlock: reorgFromBlock,
+            logs: [],
+            checkpoint: { blockNumber: reorgFromBlock, blockHash: null },
+          },
+          2,
+        ),
+        `Cannot revert the indexed state to block ${reorgFromBlock}, since changes are only kept from block `
+        + `${checkpoint.blockNumber - 1}. Reindex from scratch, or sync with more confirmations`,
+      );
+    });
+  });
+});
+
+async function transfer(fromAccountNumber: Integer, toAccountNumber: Integer, marketId: Integer, amount: Integer) {
+  await dolomiteMargin.operation
+    .initiate()
+    .transfer({
+      marketId,
+      primaryAccountOwner: who,
+      primaryAccountId: fromAccountNumber,
+      toAccountOwner: who,
+      toAccountId: toAccountNumber,
+      amount: {
+        value: amount.negated(),
+        denomination: AmountDenomination.Actual,
+        reference: AmountReference.Delta,
+      },
+    })
+    .commit({ from: who });
+}
+
+async function expectBalancesToMatch(indexer: AccountIndexer, accountNumber: Integer) {
+  const [localBalances, balances] = await Promise.all([
+    indexer.getAccountBalances(who, accountNumber),
+    dolomiteMargin.getters.getAccountBalances(who, accountNumber),
+  ]);
+  expect(localBalances).to.eql(balances.sort((a, b) => a.marketId.comparedTo(b.marketId)));
+}
@@ -0,0 +1,94 @@
+import BigNumber from 'bignumber.js';
+import { address, Integer, INTEGERS } from '../src';
+import { getDolomiteMargin } from './helpers/DolomiteMargin';
+import { setupMarkets } from './helpers/DolomiteMarginHelpers';
+import { resetEVM, snapshot } from './helpers/EVM';
+import { TestDolomiteMargin } from './modules/TestDolomiteMargin';
+
+let dolomiteMargin: TestDolomiteMargin;
+let owner: address;
+let snapshotId: string;
+
+const accountNumber = INTEGERS.ZERO;
+const owedMarket = INTEGERS.ZERO;
+const heldMarket = INTEGERS.ONE;
+const otherMarket = new BigNumber(2);
+const heldWei = new BigNumber(1000);
+const owedWei = new BigNumber(-500);
+
+describe('AccountRiskCalculator', () => {
+  before(async () => {
+    const r = await getDolomiteMargin();
+    dolomiteMargin = r.dolomiteMargin;
+    owner = r.accounts[2];
+
+    await resetEVM();
+    await setupMarkets(dolomiteMargin, r.accounts);
+    await Promise.all([
+      dolomiteMargin.admin.setMarginPremium(heldMarket, new BigNumber('0.1'), { from: r.accounts[0] }),
+      dolomiteMargin.admin.setMarginPremium(owedMarket, new BigNumber('0.05'), { from: r.accounts[0] }),
+      dolomiteMargin.testing.setAccountBalance(owner, accountNumber, heldMarket, heldWei),
+      dolomiteMargin.testing.setAccountBalance(owner, accountNumber, owedMarket, owedWei),
+    ]);
+
+    snapshotId = await snapshot();
+  });
+
+  beforeEach(async () => {
+    await resetEVM(snapshotId);
+  });
+
+  describe('#getAccountRisk', () => {
+    it('Succeeds for reproducing the adjusted account values', async () => {
+      const [risk, adjustedValues] = await Promise.all([
+        dolomiteMargin.accountRiskCalculator.getAccountRisk(owner, accountNumber),
+        dolomiteMargin.getters.getAdjustedAccountValues(owner, accountNumber),
+      ]);
+      expect(risk.adjustedValues).to.eql(adjustedValues);
+      expect(risk.healthFactor.gt(1)).to.eql(true);
+      expect(risk.isLiquidatable).to.eql(false);
+      expect(risk.markets.map(({ marketId }) => marketId)).to.eql([owedMarket, heldMarket]);
+    });
+
+    it('Succeeds for finding the liquidation price of the collateral', async () => {
+      const risk = await dolomiteMargin.accountRiskCalculator.getAccountRisk(owner, accountNumber);
+      const { liquidationPrice } = risk.markets.find(({ marketId }) => marketId.eq(heldMarket));
+
+      await setHeldPrice(liquidationPrice.plus('1e30'));
+      expect(await dolomiteMargin.getters.isAccountLiquidatable(owner, accountNumber)).to.eql(false);
+      await setHeldPrice(liquidationPrice.minus('1e30'));
+      expect(await dolomiteMargin.getters.isAccountLiquidatable(owner, accountNumber)).to.eql(true);
+    });
+
+    it('Succeeds for finding the most that can be withdrawn', async () => {
+      const risk = await dolomiteMargin.accountRiskCalculator.getAccountRisk(owner, accountNumber);
+      const { maxWithdrawWei, maxBorrowWei } = risk.markets.find(({ marketId }) => marketId.eq(heldMarket));
+      expect(maxWithdrawWei.gt(0)).to.eql(true);
+      expect(maxWithdrawWei.lt(heldWei)).to.eql(true);
+      expect(maxBorrowWei).to.eql(INTEGERS.ZERO);
+
+      await expectLiquidatableAfter(heldMarket, heldWei.minus(maxWithdrawWei), false);
+      await expectLiquidatableAfter(heldMarket, heldWei.minus(maxWithdrawWei).minus(1), true);
+    });
+
+    it('Succeeds for finding the most that can be borrowed', async () => {
+      const risk = await dolomiteMargin.accountRiskCalculator.getAccountRisk(owner, accountNumber, [otherMarket]);
+      const { wei, maxBorrowWei, liquidationPrice } = risk.markets.find(({ marketId }) => marketId.eq(otherMarket));
+      expect(wei).to.eql(INTEGERS.ZERO);
+      expect(liquidationPrice).to.eql(null);
+      expect(maxBorrowWei.gt(0)).to.eql(true);
+
+      await expectLiquidatableAfter(otherMarket, maxBorrowWei.negated(), false);
+      await expectLiquidatableAfter(otherMarket, maxBorrowWei.plus(1).negated(), true);
+    });
+  });
+});
+
+async function setHeldPrice(price: Integer) {
+  await dolomiteMargin.testing.priceOracle.setPrice(dolomiteMargin.testing.tokenB.address, price);
+}
+
+async function expectLiquidatableAfter(marketId: Integer, wei: Integer, isLiquidatable: boolean) {
+  await dolomiteMargin.testing.setAccountBalance(owner, accountNumber, marketId, wei);
+  expect(await dolomiteMargin.getters.isAccountLiquidatable(owner, accountNumber)).to.eql(isLiquidatable);
+}
@@ -0,0 +1,129 @@
+import BigNumber from 'bignumber.js';
+import { ethers } from 'ethers';
+import { Provider } from 'web3/providers';
+import { address, AmountDenomination, AmountReference, INTEGERS } from '../src';
+import { TransactionCost } from '../src/modules/ArbitrumCostEstimator';
+import { getDolomiteMargin } from './helpers/DolomiteMargin';
+import { resetEVM, snapshot } from './helpers/EVM';
+import { provider } from './helpers/Provider';
+import { TestDolomiteMargin } from './modules/TestDolomiteMargin';
+
+let dolomiteMargin: TestDolomiteMargin;
+let owner: address;
+let snapshotId: string;
+let nodeInterfaceCalls: { from: address, to: address, data: string }[];
+
+const NODE_INTERFACE_ADDRESS = '0x00000000000000000000000000000000000000C8';
+const gasEstimate = new BigNumber(500000);
+const gasEstimateForL1 = new BigNumber(200000);
+const baseFee = new BigNumber('1e8');
+const l1BaseFeeEstimate = new BigNumber('3e10');
+const ethPrice = new BigNumber('1e40');
+
+describe('ArbitrumCostEstimator', () => {
+  before(async () => {
+    const r = await getDolomiteMargin();
+    dolomiteMargin = r.dolomiteMargin;
+    owner = r.accounts[2];
+
+    await resetEVM();
+    await dolomiteMargin.testing.priceOracle.setPrice(dolomiteMargin.weth.address, ethPrice);
+    await dolomiteMargin.admin.addMarket(
+      dolomiteMargin.weth.address,
+      dolomiteMargin.testing.priceOracle.address,
+      dolomiteMargin.testing.interestSetter.address,
+      INTEGERS.ZERO,
+      INTEGERS.ZERO,
+      INTEGERS.ZERO,
+      false,
+      false,
+      { from: r.accounts[0] },
+    );
+
+    const nodeInterface = dolomiteMargin.contracts.arbitrumNodeInterface;
+    nodeInterface.setProvider(createNodeInterfaceProvider());
+    nodeInterface.options.address = NODE_INTERFACE_ADDRESS;
+
+    snapshotId = await snapshot();
+  });
+
+  beforeEach(async () => {
+    await resetEVM(snapshotId);
+    nodeInterfaceCalls = [];
+  });
+
+  after(async () => {
+    const nodeInterface = dolomiteMargin.contracts.arbitrumNodeInterface;
+    nodeInterface.setProvider(provider);
+    nodeInterface.options.address = undefined;
+  });
+
+  describe('#estimateTransactionCost', () => {
+    it('Succeeds for splitting the gas estimate into its L1 and L2 components', async () => {
+      const method = dolomiteMargin.contracts.weth.methods.approve(owner, '1');
+      const cost = await dolomiteMargin.arbitrumCostEstimator.estimateTransactionCost(method, { from: owner });
+
+      expectNodeInterfaceCall(dolomiteMargin.contracts.weth.options.address, method.encodeABI());
+      expectCost(cost);
+    });
+  });
+
+  describe('#estimateOperationCost', () => {
+    it('Succeeds for estimating the cost of an operation that is not committed', async () => {
+      const operation = dolomiteMargin.operation.initiate().deposit({
+        primaryAccountOwner: owner,
+        primaryAccountId: INTEGERS.ZERO,
+        marketId: INTEGERS.ZERO,
+        from: owner,
+        amount: {
+          value: new BigNumber(100),
+          denomination: AmountDenomination.Wei,
+          reference: AmountReference.Delta,
+        },
+      });
+      const cost = await dolomiteMargin.arbitrumCostEstimator.estimateOperationCost(operation, { from: owner });
+
+      expectNodeInterfaceCall(dolomiteMargin.contracts.dolomiteMargin.options.address, operation.encode());
+      expectCost(cost);
+    });
+  });
+});
+
+function expectNodeInterfaceCall(to: address, calldata: string) {
+  expect(nodeInterfaceCalls.length).to.eql(1);
+  const [call] = nodeInterfaceCalls;
+  expect(call.from.toLowerCase()).to.eql(owner.toLowerCase());
+  expect(call.to.toLowerCase()).to.eql(NODE_INTERFACE_ADDRESS.toLowerCase());
+
+  const args = ethers.utils.defaultAbiCoder.decode(['address', 'bool', 'bytes'], `0x${call.data.slice(10)}`);
+  expect([args[0].toLowerCase(), args[1], args[2]]).to.eql([to.toLowerCase(), false, calldata]);
+}
+
+function expectCost(cost: TransactionCost) {
+  const l2Gas = gasEstimate.minus(gasEstimateForL1);
+  // The L1 component is part of the gas estimate, so it's only paid for once
+  const totalCost = gasEstimate.times(baseFee);
+  expect(cost).to.eql({
+    l2Gas,
+    totalCost,
+    l2GasPrice: baseFee,
+    l2Cost: l2Gas.times(baseFee),
+    l1Gas: gasEstimateForL1,
+    l1GasPrice: l1BaseFeeEstimate,
+    l1Cost: gasEstimateForL1.times(baseFee),
+    totalCostUsd: totalCost.times(ethPrice),
+  });
+}
+
+function createNodeInterfaceProvider(): Provider {
+  return {
+    send: (payload: any, callback: (error: Error, response: object) => void) => {
+      nodeInterfaceCalls.push(payload.params[0]);
+      const result = ethers.utils.defaultAbiCoder.encode(
+        ['uint64', 'uint64', 'uint256', 'uint256'],
+        [gasEstimate.toFixed(), gasEstimateForL1.toFixed(), baseFee.toFixed(), l1BaseFeeEstimate.toFixed()],
+      );
+      callback(null, { result, id: payload.id, jsonrpc: '2.0' });
+    },
+  } as any;
+}
@@ -0,0 +1,126 @@
+import testContractWalletJson from '../build/contracts/TestContractWallet.json';
+import { TestContractWallet } from '../build/testing_wrappers/TestContractWallet';
+import {
+  address,
+  ADDRESSES,
+  INTEGERS,
+  Operation,
+  PrivateKeySigningProvider,
+  SignedOperation,
+  SigningMethod,
+} from '../src';
+import { createContractTypedSignature } from '../src/lib/SignatureHelper';
+import { deployContract } from './helpers/Deploy';
+import { getDolomiteMargin } from './helpers/DolomiteMargin';
+import { TestDolomiteMargin } from './modules/TestDolomiteMargin';
+
+let dolomiteMargin: TestDolomiteMargin;
+let accounts: address[];
+let wallet: TestContractWallet;
+
+const owner = new PrivateKeySigningProvider(`0x${'11'.repeat(32)}`);
+const notOwner = new PrivateKeySigningProvider(`0x${'22'.repeat(32)}`);
+const expiration = new Date('December 30, 2500 11:20:25');
+
+describe('ContractWalletSignatures', () => {
+  before(async () => {
+    const r = await getDolomiteMargin();
+    dolomiteMargin = r.dolomiteMargin;
+    accounts = r.accounts;
+    wallet = await deployContract<TestContractWallet>(dolomiteMargin, testContractWalletJson, [owner.address]);
+  });
+
+  describe('#verifyOperationSignature', () => {
+    it('Succeeds for a signature of the contract wallet', async () => {
+      const operation = createOperation(wallet.options.address);
+      const typedSignature = await signContractSignature(
+        owner,
+        dolomiteMargin.signedOperations.getOperationHash(operation),
+      );
+      expect(await dolomiteMargin.signedOperations.verifyOperationSignature({ ...operation, typedSignature })).to.eql(
+        true,
+      );
+    });
+
+    it('Succeeds for a signature of an externally owned account', async () => {
+      const operation = createOperation(accounts[0]);
+      const signedOperation: SignedOperation = {
+        ...operation,
+        typedSignature: await dolomiteMargin.signedOperations.signOperation(operation, SigningMethod.Hash),
+      };
+      expect(await dolomiteMargin.signedOperations.verifyOperationSignature(signedOperation)).to.eql(true);
+    });
+
+    it('Fails for a signature that the contract wallet rejects', async () => {
+      const operation = createOperation(wallet.options.address);
+      const typedSignature = await signContractSignature(
+        notOwner,
+        dolomiteMargin.signedOperations.getOperationHash(operation),
+      );
+      expect(await dolomiteMargin.signedOperations.verifyOperationSignature({ ...operation, typedSignature })).to.eql(
+        false,
+      );
+    });
+
+    it('Fails for a contract signature of an externally owned account', async () => {
+      const operation = createOperation(owner.address);
+      const typedSignature = await signContractSignature(
+        owner,
+        dolomiteMargin.signedOperations.getOperationHash(operation),
+      );
+      expect(await dolomiteMargin.signedOperations.verifyOperationSignature({ ...operation, typedSignature })).to.eql(
+        false,
+      );
+    });
+  });
+
+  describe('#verifyCancelOperationSignature', () => {
+    it('Succeeds for a signature of the contract wallet', async () => {
+      const operation = createOperation(wallet.options.address);
+      const cancelHash = dolomiteMargin.signedOperations.operationHashToCancelOperationHash(
+        dolomiteMargin.signedOperations.getOperationHash(operation),
+      );
+      const typedSignature = await signContractSignature(owner, cancelHash);
+      expect(await dolomiteMargin.signedOperations.verifyCancelOperationSignature(operation, typedSignature)).to.eql(
+        true,
+      );
+    });
+  });
+
+  describe('#verifyWalletLogin', () => {
+    it('Succeeds for a signature of the contract wallet', async () => {
+      const typedSignature = await signContractSignature(
+        owner,
+        dolomiteMargin.walletLogin.getWalletLoginHash(expiration),
+      );
+      expect(
+        await dolomiteMargin.walletLogin.verifyWalletLogin(expiration, typedSignature, wallet.options.address),
+      ).to.eql(true);
+      expect(
+        await dolomiteMargin.walletLogin.verifyWalletLogin(
+          new Date('December 30, 2017 11:20:25'),
+          typedSignature,
+          wallet.options.address,
+        ),
+      ).to.eql(false);
+    });
+  });
+});
+
+function createOperation(signer: address): Operation {
+  return {
+    signer,
+    actions: [],
+    expiration: INTEGERS.ZERO,
+    salt: INTEGERS.ONE,
+    sender: ADDRESSES.ZERO,
+  };
+}
+
+/**
+ * Signs the hash without a prefix, which is what `TestContractWallet` checks
+ */
+async function signContractSignature(signer: PrivateKeySigningProvider, hash: string): Promise<string> {
+  const signature = await signer.signTypedData(signer.address, {}, hash, SigningMethod.TypedData);
+  return createContractTypedSignature(signature);
+}
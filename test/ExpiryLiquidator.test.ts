@@ -0,0 +1,125 @@
+import BigNumber from 'bignumber.js';
+import { address, INTEGERS } from '../src';
+import { getDolomiteMargin } from './helpers/DolomiteMargin';
+import { setupMarkets } from './helpers/DolomiteMarginHelpers';
+import { fastForward, resetEVM, snapshot } from './helpers/EVM';
+import { expectRejection } from './helpers/Expect';
+import { TestDolomiteMargin } from './modules/TestDolomiteMargin';
+
+let dolomiteMargin: TestDolomiteMargin;
+let admin: address;
+let liquidator: address;
+let expiredOwner: address;
+let snapshotId: string;
+
+const accountNumber = INTEGERS.ZERO;
+const owedMarket = INTEGERS.ZERO;
+const heldMarket = INTEGERS.ONE;
+const otherMarket = new BigNumber(2);
+const par = new BigNumber(10000);
+const price = new BigNumber('1e40');
+const spread = new BigNumber('0.05');
+
+describe('ExpiryLiquidator', () => {
+  before(async () => {
+    const r = await getDolomiteMargin();
+    dolomiteMargin = r.dolomiteMargin;
+    admin = r.accounts[0];
+    liquidator = r.accounts[2];
+    expiredOwner = r.accounts[3];
+
+    await resetEVM();
+    await setupMarkets(dolomiteMargin, r.accounts);
+    await Promise.all([
+      dolomiteMargin.testing.setAccountBalance(liquidator, accountNumber, owedMarket, par),
+      dolomiteMargin.testing.setAccountBalance(expiredOwner, accountNumber, owedMarket, par.div(-2)),
+      dolomiteMargin.testing.setAccountBalance(expiredOwner, accountNumber, heldMarket, par),
+      dolomiteMargin.testing.setAccountBalance(expiredOwner, accountNumber, otherMarket, par.times(2)),
+      dolomiteMargin.admin.setGlobalOperator(liquidator, true, { from: admin }),
+    ]);
+    await dolomiteMargin.operation
+      .initiate()
+      .setExpiry({
+        primaryAccountOwner: expiredOwner,
+        primaryAccountId: accountNumber,
+        expiryArgs: [
+          {
+            accountOwner: expiredOwner,
+            accountId: accountNumber,
+            marketId: owedMarket,
+            timeDelta: INTEGERS.ONE,
+            forceUpdate: true,
+          },
+        ],
+      })
+      .commit({ from: expiredOwner });
+    await fastForward(INTEGERS.ONE_DAY_IN_SECONDS.toNumber());
+
+    snapshotId = await snapshot();
+  });
+
+  beforeEach(async () => {
+    await resetEVM(snapshotId);
+  });
+
+  describe('#getLiquidation', () => {
+    it('Succeeds for seizing the most valuable collateral first', async () => {
+      const [liquidation, expiry] = await Promise.all([
+        getLiquidation(owedMarket),
+        dolomiteMargin.expiry.getExpiry(expiredOwner, accountNumber, owedMarket),
+      ]);
+      expect(liquidation.expiry).to.eql(expiry);
+      expect(liquidation.owedWei).to.eql(par.div(2));
+      expect(liquidation.collateralPreferences).to.eql([otherMarket, heldMarket]);
+      expect(liquidation.expectedProfit).to.eql(par.div(2).times(spread).times(price));
+
+      await liquidation.operation.commit({ from: liquidator });
+
+      const balances = await Promise.all([
+        dolomiteMargin.getters.getAccountPar(expiredOwner, accountNumber, owedMarket),
+        dolomiteMargin.getters.getAccountPar(expiredOwner, accountNumber, heldMarket),
+        dolomiteMargin.getters.getAccountPar(expiredOwner, accountNumber, otherMarket),
+      ]);
+      expect(balances).to.eql([
+        INTEGERS.ZERO,
+        par,
+        par.times(2).minus(par.div(2).times(spread.plus(1))),
+      ]);
+    });
+
+    it('Succeeds for reading the ramp time from the chain', async () => {
+      await dolomiteMargin.expiry.setRampTime(INTEGERS.ONE_YEAR_IN_SECONDS, { from: admin });
+      const liquidation = await getLiquidation(owedMarket);
+      const fullProfit = par.div(2).times(spread).times(price);
+      expect(liquidation.expectedProfit.gt(INTEGERS.ZERO)).to.eql(true);
+      expect(liquidation.expectedProfit.lt(fullProfit.div(100))).to.eql(true);
+
+      await liquidation.operation.commit({ from: liquidator });
+      const owedPar = await dolomiteMargin.getters.getAccountPar(expiredOwner, accountNumber, owedMarket);
+      expect(owedPar).to.eql(INTEGERS.ZERO);
+    });
+
+    it('Succeeds for reading the block timestamp at the given block', async () => {
+      const block = await dolomiteMargin.web3.eth.getBlock('latest');
+      await fastForward(INTEGERS.ONE_DAY_IN_SECONDS.toNumber());
+
+      const liquidation = await getLiquidation(owedMarket, block.number);
+      expect(liquidation.blockTimestamp).to.eql(new BigNumber(block.timestamp));
+    });
+
+    it('Fails for a market without an expiry', async () => {
+      await expectRejection(getLiquidation(heldMarket), 'Market 1 of the expired account has no expiry');
+    });
+  });
+});
+
+async function getLiquidation(expiredMarket: BigNumber, blockNumber?: number) {
+  return dolomiteMargin.expiryLiquidator.getLiquidation(
+    liquidator,
+    accountNumber,
+    expiredOwner,
+    accountNumber,
+    expiredMarket,
+    { blockNumber },
+  );
+}
@@ -0,0 +1,327 @@
+import BigNumber from 'bignumber.js';
+import { ethers } from 'ethers';
+import { Tx } from 'web3/eth/types';
+import { Provider } from 'web3/providers';
+import {
+  address,
+  DolomiteMarginOptions,
+  Eip1559FeeOptions,
+  FeeHistoryFeeEstimator,
+  TransactionSender,
+  Web3,
+} from '../src';
+import { getDolomiteMargin } from './helpers/DolomiteMargin';
+import { resetEVM, snapshot } from './helpers/EVM';
+import { expectRejection } from './helpers/Expect';
+import { TestDolomiteMargin } from './modules/TestDolomiteMargin';
+
+let dolomiteMargin: TestDolomiteMargin;
+let snapshotId: string;
+let recipient: address;
+
+const amount = new BigNumber(100);
+const transactionHash = `0x${'ab'.repeat(32)}`;
+const gas = 100000;
+
+describe('FeeEstimators', () => {
+  before(async () => {
+    const r = await getDolomiteMargin();
+    dolomiteMargin = r.dolomiteMargin;
+    recipient = r.accounts[2];
+
+    await resetEVM();
+    snapshotId = await snapshot();
+  });
+
+  beforeEach(async () => {
+    await resetEVM(snapshotId);
+  });
+
+  describe('FeeHistoryFeeEstimator', () => {
+    it('Succeeds for estimating fees from the fee history', async () => {
+      const estimator = new FeeHistoryFeeEstimator(createFeeHistoryWeb3({
+        baseFeePerGas: ['0x64', '0x6e', '0x78'],
+        reward: [['0x3'], ['0x1'], ['0x2']],
+      }));
+      const { maxFeePerGas, maxPriorityFeePerGas } = await estimator.estimateFees();
+      expect(maxPriorityFeePerGas).to.eql(new BigNumber(2));
+      expect(maxFeePerGas).to.eql(new BigNumber(242));
+    });
+
+    it('Succeeds for using the base fee multiplier', async () => {
+      const estimator = new FeeHistoryFeeEstimator(
+        createFeeHistoryWeb3({ baseFeePerGas: ['0x64'], reward: [] }),
+        { baseFeeMultiplier: 3 },
+      );
+      const { maxFeePerGas, maxPriorityFeePerGas } = await estimator.estimateFees();
+      expect(maxPriorityFeePerGas).to.eql(new BigNumber(0));
+      expect(maxFeePerGas).to.eql(new BigNumber(300));
+    });
+
+    it('Fails for nodes that do not support eth_feeHistory', async () => {
+      const estimator = new FeeHistoryFeeEstimator(dolomiteMargin.web3);
+      let error: Error;
+      try {
+        await estimator.estimateFees();
+      } catch (e) {
+        error = e;
+      }
+      expect(error).to.not.eql(undefined);
+    });
+  });
+
+  describe('#callContractFunction', () => {
+    it('Succeeds for sending legacy transactions on chains without a base fee', async () => {
+      const result = await dolomiteMargin.testing.tokenA.issueTo(amount, recipient);
+      const tx = await dolomiteMargin.web3.eth.getTransaction(result.transactionHash);
+      expect(new BigNumber(tx.gasPrice).gt(0)).to.eql(true);
+      expect(await dolomiteMargin.testing.tokenA.getBalance(recipient)).to.eql(amount);
+    });
+
+    it('Succeeds for estimating the fees from the fee history by default on chains with a base fee', async () => {
+      const sentTransactions: (Tx & Eip1559FeeOptions)[] = [];
+      const stub = createStubDolomiteMargin(
+        { eth_feeHistory: () => ({ baseFeePerGas: ['0x64', '0x64'], reward: [['0x2']] }) },
+        { transactionSender: createTransactionSender(sentTransactions) },
+      );
+      await stub.contracts.callContractFunction(issueTo(stub), { gas, from: recipient });
+
+      expect(sentTransactions.length).to.eql(1);
+      expect(sentTransactions[0].maxFeePerGas).to.eql('202');
+      expect(sentTransactions[0].maxPriorityFeePerGas).to.eql('2');
+    });
+
+    it('Succeeds for estimating the fees with a fee estimator on chains with a base fee', async () => {
+      const sentTransactions: (Tx & Eip1559FeeOptions)[] = [];
+      const stub = createStubDolomiteMargin({}, { transactionSender: createTransactionSender(sentTransactions) });
+      stub.setFeeEstimator({
+        estimateFees: async () => ({ maxFeePerGas: new BigNumber(200), maxPriorityFeePerGas: new BigNumber(2) }),
+      });
+      await stub.contracts.callContractFunction(issueTo(stub), { gas, from: recipient });
+
+      expect(sentTransactions.length).to.eql(1);
+      expect(sentTransactions[0].maxFeePerGas).to.eql('200');
+      expect(sentTransactions[0].maxPriorityFeePerGas).to.eql('2');
+    });
+
+    it('Succeeds for sending EIP-1559 transactions and decoding their events', async () => {
+      const payloads: any[] = [];
+      const stub = createStubDolomiteMargin(
+        {
+          eth_sendTransaction: () => transactionHash,
+          eth_getTransactionReceipt: createReceipt,
+        },
+        {},
+        payloads,
+      );
+      const result = await stub.contracts.callContractFunction(
+        issueTo(stub),
+        { gas, from: recipient, maxFeePerGas: 200, maxPriorityFeePerGas: 2 },
+      );
+
+      const [sent] = payloads.filter(payload => payload.method === 'eth_sendTransaction');
+      expect(sent.params[0].type).to.eql('0x2');
+      expect(sent.params[0].maxFeePerGas).to.eql('0xc8');
+      expect(sent.params[0].maxPriorityFeePerGas).to.eql('0x2');
+      expect(sent.params[0].gasPrice).to.eql(undefined);
+
+      expect(result.transactionHash).to.eql(transactionHash);
+      expect(result.logs).to.eql(undefined);
+      expect(result.events.Issue.returnValues.owner.toLowerCase()).to.eql(recipient.toLowerCase());
+      expect(result.events.Issue.returnValues.value).to.eql(amount.toFixed());
+    });
+
+    it('Succeeds for signing EIP-1559 transactions for accounts of the web3 wallet', async () => {
+      const payloads: any[] = [];
+      const stub = createStubDolomiteMargin(
+        {
+          eth_chainId: () => '0x539',
+          eth_getTransactionCount: () => '0x5',
+          eth_sendRawTransaction: () => transactionHash,
+          eth_getTransactionReceipt: createReceipt,
+        },
+        {},
+        payloads,
+      );
+      const account = stub.web3.eth.accounts.wallet.add(`0x${'11'.repeat(32)}`);
+      const result = await stub.contracts.callContractFunction(
+        issueTo(stub),
+        { gas, from: account.address, maxFeePerGas: 200, maxPriorityFeePerGas: 2 },
+      );
+      expect(result.transactionHash).to.eql(transactionHash);
+
+      const [sent] = payloads.filter(payload => payload.method === 'eth_sendRawTransaction');
+      const rawTransaction: string = sent.params[0];
+      expect(rawTransaction.slice(0, 4)).to.eql('0x02');
+      const fields = ethers.utils.RLP.decode(`0x${rawTransaction.slice(4)}`);
+      expect(fields.slice(0, 5)).to.eql(['0x0539', '0x05', '0x02', '0xc8', ethers.utils.hexlify(gas)]);
+      expect(fields[5]).to.eql(dolomiteMargin.testing.tokenA.address.toLowerCase());
+      expect(fields[7]).to.eql(issueTo(stub).encodeABI());
+
+      const digest = ethers.utils.keccak256(
+        ethers.utils.concat(['0x02', ethers.utils.RLP.encode(fields.slice(0, 9))]),
+      );
+      const signer = ethers.utils.recoverAddress(digest, {
+        r: ethers.utils.hexZeroPad(fields[10], 32),
+        s: ethers.utils.hexZeroPad(fields[11], 32),
+        recoveryParam: fields[9] === '0x' ? 0 : 1,
+      });
+      expect(signer).to.eql(account.address);
+    });
+
+    it('Fails for specifying both gasPrice and the EIP-1559 fees', async () => {
+      const stub = createStubDolomiteMargin({});
+      await expectRejection(
+        stub.contracts.callContractFunction(issueTo(stub), { gas, from: recipient, gasPrice: 1, maxFeePerGas: 200 }),
+        'Cannot specify both gasPrice and the EIP-1559 fees',
+      );
+    });
+
+    it('Fails for EIP-1559 transactions whose nonce is used by another transaction', async () => {
+      const stub = createStubDolomiteMargin({
+        eth_sendTransaction: () => transactionHash,
+        eth_getTransactionReceipt: () => null,
+        eth_getTransactionByHash: () => createPendingTransaction(),
+        eth_getTransactionCount: () => '0x6',
+      });
+      await expectRejection(
+        stub.contracts.callContractFunction(
+          issueTo(stub),
+          { gas, from: recipient, maxFeePerGas: 200, maxPriorityFeePerGas: 2 },
+        ),
+        `Transaction ${transactionHash} was dropped, since its nonce was used by another transaction`,
+      );
+    });
+
+    it('Fails for EIP-1559 transactions that are not mined before the receipt timeout', async () => {
+      const stub = createStubDolomiteMargin(
+        {
+          eth_sendTransaction: () => transactionHash,
+          eth_getTransactionReceipt: () => null,
+          eth_getTransactionByHash: () => createPendingTransaction(),
+          eth_getTransactionCount: () => '0x5',
+        },
+        { receiptTimeout: 1 },
+      );
+      await expectRejection(
+        stub.contracts.callContractFunction(
+          issueTo(stub),
+          { gas, from: recipient, maxFeePerGas: 200, maxPriorityFeePerGas: 2 },
+        ),
+        `Transaction ${transactionHash} was not mined within 1ms`,
+      );
+    });
+  });
+});
+
+function issueTo(stub: TestDolomiteMargin) {
+  return stub.contracts.tokenA.methods.issueTo(recipient, amount.toFixed());
+}
+
+/**
+ * Creates a DolomiteMargin whose provider answers the given JSON-RPC methods, and returns a block with a base fee for
+ * `eth_getBlockByNumber`
+ */
+function createStubDolomiteMargin(
+  handlers: { [method: string]: (params: any[]) => any },
+  options: DolomiteMarginOptions = {},
+  payloads: any[] = [],
+): TestDolomiteMargin {
+  const provider: Provider = {
+    send: (payload: any, callback: (error: Error, response: object) => void) => {
+      payloads.push(payload);
+      const handler = handlers[payload.method] || (payload.method === 'eth_getBlockByNumber' ? createBlock : null);
+      if (!handler) {
+        callback(null, { id: payload.id, jsonrpc: '2.0', error: { message: `Unexpected ${payload.method}` } });
+        return;
+      }
+      callback(null, { id: payload.id, jsonrpc: '2.0', result: handler(payload.params) });
+    },
+  } as any;
+  const stub = new TestDolomiteMargin(
+    provider,
+    Number(process.env.NETWORK_ID),
+    { blockGasLimit: 10000000, ...options },
+  );
+  stub.contracts.tokenA.options.address = dolomiteMargin.testing.tokenA.address;
+  return stub;
+}
+
+function createTransactionSender(sentTransactions: (Tx & Eip1559FeeOptions)[]): TransactionSender {
+  return {
+    sendTransaction: async (tx) => {
+      sentTransactions.push(tx);
+      return { transactionHash };
+    },
+  };
+}
+
+function createBlock() {
+  return {
+    number: '0x10',
+    hash: `0x${'01'.repeat(32)}`,
+    parentHash: `0x${'02'.repeat(32)}`,
+    gasLimit: '0x1c9c380',
+    gasUsed: '0x0',
+    size: '0x3e8',
+    timestamp: '0x5f5e100',
+    baseFeePerGas: '0x64',
+    transactions: [],
+  };
+}
+
+function createPendingTransaction() {
+  return {
+    hash: transactionHash,
+    nonce: '0x5',
+    blockHash: null,
+    blockNumber: null,
+    transactionIndex: null,
+    from: recipient,
+    to: dolomiteMargin.testing.tokenA.address,
+    value: '0x0',
+    gas: Web3.utils.toHex(gas),
+    gasPrice: '0xc8',
+    input: '0x',
+  };
+}
+
+function createReceipt() {
+  const tokenAddress = dolomiteMargin.testing.tokenA.address;
+  return {
+    transactionHash,
+    transactionIndex: '0x0',
+    blockHash: `0x${'01'.repeat(32)}`,
+    blockNumber: '0x10',
+    from: recipient,
+    to: tokenAddress,
+    cumulativeGasUsed: '0xc350',
+    gasUsed: '0xc350',
+    contractAddress: null,
+    status: '0x1',
+    logs: [
+      {
+        transactionHash,
+        address: tokenAddress,
+        blockHash: `0x${'01'.repeat(32)}`,
+        blockNumber: '0x10',
+        transactionIndex: '0x0',
+        logIndex: '0x0',
+        topics: [
+          ethers.utils.id('Issue(address,address,uint256)'),
+          ethers.utils.hexZeroPad(tokenAddress, 32),
+          ethers.utils.hexZeroPad(recipient, 32),
+        ],
+        data: ethers.utils.defaultAbiCoder.encode(['uint256'], [amount.toFixed()]),
+      },
+    ],
+  };
+}
+
+function createFeeHistoryWeb3(result: object): Web3 {
+  return new Web3({
+    send: (payload: any, callback: (error: Error, response: object) => void) => {
+      callback(null, { result, id: payload.id, jsonrpc: '2.0' });
+    },
+  } as any);
+}
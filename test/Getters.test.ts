@@ -993,4 +993,69 @@ describe('Getters', () => {
       });
     });
   });
+
+  // ============ Batched Getters ============
+
+  describe('Batch', () => {
+    it('Succeeds for markets and accounts', async () => {
+      await Promise.all([
+        dolomiteMargin.testing.setAccountBalance(owner1, account1, market1, par),
+        dolomiteMargin.testing.setAccountBalance(owner1, account1, market2, par.div(-2)),
+      ]);
+      const blockNumber = await dolomiteMargin.web3.eth.getBlockNumber();
+
+      const { blockNumber: batchBlockNumber, results } = await dolomiteMargin.getters
+        .batch()
+        .getMarketWithInfo(market1)
+        .getMarketPrice(market2)
+        .getAccountBalances(owner1, account1)
+        .getAccountValues(owner1, account1)
+        .getAccountStatus(owner1, account1)
+        .getAccountPar(owner1, account1, market2)
+        .execute({ blockNumber });
+
+      expect(batchBlockNumber).to.eql(blockNumber);
+      const expected = await Promise.all([
+        dolomiteMargin.getters.getMarketWithInfo(market1, { blockNumber }),
+        dolomiteMargin.getters.getMarketPrice(market2, { blockNumber }),
+        dolomiteMargin.getters.getAccountBalances(owner1, account1, { blockNumber }),
+        dolomiteMargin.getters.getAccountValues(owner1, account1, { blockNumber }),
+        dolomiteMargin.getters.getAccountStatus(owner1, account1, { blockNumber }),
+        dolomiteMargin.getters.getAccountPar(owner1, account1, market2, { blockNumber }),
+      ]);
+      expect(results.length).to.eql(expected.length);
+      results.forEach((result, i) => {
+        expect(JSON.stringify(result)).to.eql(JSON.stringify(expected[i]));
+      });
+      expect(results[5]).to.eql(par.div(-2));
+      expect(results[4]).to.eql(AccountStatus.Normal);
+    });
+
+    it('Succeeds for risk params and expiries', async () => {
+      const { results } = await dolomiteMargin.getters
+        .batch()
+        .getMarginRatio()
+        .getLiquidationSpreadForPair(market1, market2)
+        .getExpiry(owner1, account1, market2)
+        .execute();
+
+      const expected = await Promise.all([
+        dolomiteMargin.getters.getMarginRatio(),
+        dolomiteMargin.getters.getLiquidationSpreadForPair(market1, market2),
+        dolomiteMargin.expiry.getExpiry(owner1, account1, market2),
+      ]);
+      expect(results).to.eql(expected);
+      expect(results[2]).to.eql(INTEGERS.ZERO);
+    });
+
+    it('Fails when no calls were added', async () => {
+      let error: Error;
+      try {
+        await dolomiteMargin.getters.batch().execute();
+      } catch (e) {
+        error = e;
+      }
+      expect(error.message).to.eql('No calls have been added to batch');
+    });
+  });
 });
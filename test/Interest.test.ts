@@ -0,0 +1,240 @@
+import BigNumber from 'bignumber.js';
+import { address, INTEGERS, Networks } from '../src';
+import { getInterestPerSecondForPolynomial } from '../src/lib/Helpers';
+import { DoubleExponentData, Interest, InterestProjectionParams, PolynomialData } from '../src/lib/Interest';
+import { getDolomiteMargin } from './helpers/DolomiteMargin';
+import { resetEVM, snapshot } from './helpers/EVM';
+import { TestDolomiteMargin } from './modules/TestDolomiteMargin';
+
+const marketId = INTEGERS.ZERO;
+const startTimestamp = new BigNumber(1600000000);
+const oneDay = new BigNumber(86400);
+const doubleExponent: DoubleExponentData = {
+  interestRateModel: 'DoubleExponent',
+  maxAPR: new BigNumber('1.00'),
+  coefficients: [0, 10, 10, 0, 0, 80],
+};
+const defaultParams: InterestProjectionParams = {
+  startTimestamp,
+  duration: oneDay.times(2),
+  step: oneDay,
+  index: {
+    borrow: new BigNumber('1.1'),
+    supply: new BigNumber('1.05'),
+    lastUpdate: INTEGERS.ZERO,
+  },
+  totalBorrowed: new BigNumber('5e18'),
+  totalSupply: new BigNumber('10e18'),
+};
+
+let interest: Interest;
+
+describe('Interest', () => {
+  before(async () => {
+    interest = new Interest(Networks.ARBITRUM_ONE);
+  });
+
+  describe('#projectInterest', () => {
+    it('Succeeds for constant totals', async () => {
+      const points = interest.projectInterest(marketId, defaultParams, doubleExponent);
+      expect(points.map(point => point.timestamp)).to.eql([
+        startTimestamp,
+        startTimestamp.plus(oneDay),
+        startTimestamp.plus(oneDay.times(2)),
+      ]);
+
+      const first = points[0];
+      const rates = interest.getInterestPerSecondByMarket(
+        marketId,
+        { totalBorrowed: first.totalBorrowed, totalSupply: first.totalSupply },
+        doubleExponent,
+      );
+      expect(first.utilization.toFixed(2)).to.eql('0.50');
+      expect(first.borrowInterestRate).to.eql(rates.borrowInterestRate);
+      expect(first.supplyInterestRate).to.eql(rates.supplyInterestRate);
+      expect(first.borrowAPR).to.eql(rates.borrowInterestRate.times(INTEGERS.ONE_YEAR_IN_SECONDS));
+      expect(first.borrowAPY.gt(first.borrowAPR)).to.eql(true);
+      expect(first.index).to.eql({ ...defaultParams.index, lastUpdate: startTimestamp });
+
+      // the index compounds the same way as the protocol
+      const base = INTEGERS.INTEREST_RATE_BASE;
+      const borrowInterest = first.borrowInterestRate.times(base).times(oneDay);
+      const expectedBorrowIndex = first.index.borrow
+        .times(base)
+        .times(borrowInterest)
+        .dividedToIntegerBy(base)
+        .plus(first.index.borrow.times(base))
+        .div(base);
+      expect(points[1].index.borrow).to.eql(expectedBorrowIndex);
+      expect(points[1].index.supply.gt(first.index.supply)).to.eql(true);
+      expect(points[1].index.lastUpdate).to.eql(startTimestamp.plus(oneDay));
+
+      // balances grow with the index
+      expect(points[1].totalBorrowed.gt(first.totalBorrowed)).to.eql(true);
+      expect(points[1].totalSupply.gt(first.totalSupply)).to.eql(true);
+    });
+
+    it('Succeeds for scheduled changes', async () => {
+      const points = interest.projectInterest(
+        marketId,
+        {
+          ...defaultParams,
+          changes: [
+            { timestamp: startTimestamp.plus(oneDay), supplyDelta: new BigNumber('10e18') },
+            { timestamp: startTimestamp.plus(oneDay.times(2)), borrowDelta: new BigNumber('-100e18') },
+          ],
+        },
+        doubleExponent,
+      );
+      expect(points[1].totalSupply.gt(new BigNumber('20e18'))).to.eql(true);
+      expect(points[1].utilization.lt(points[0].utilization)).to.eql(true);
+      expect(points[2].totalBorrowed).to.eql(INTEGERS.ZERO);
+      expect(points[2].borrowInterestRate).to.eql(INTEGERS.ZERO);
+    });
+
+    it('Succeeds for a utilization curve', async () => {
+      const points = interest.projectInterest(
+        marketId,
+        {
+          ...defaultParams,
+          utilizationCurve: [
+            { timestamp: startTimestamp.plus(oneDay), utilization: new BigNumber('0.9') },
+          ],
+        },
+        doubleExponent,
+      );
+      expect(points[0].utilization.toFixed(2)).to.eql('0.50');
+      expect(points[1].utilization.toFixed(4)).to.eql('0.9000');
+      expect(points[2].utilization.toFixed(4)).to.eql('0.9000');
+      expect(points[1].borrowInterestRate.gt(points[0].borrowInterestRate)).to.eql(true);
+    });
+
+    it('Succeeds for an earnings rate override', async () => {
+      const points = interest.projectInterest(
+        marketId,
+        { ...defaultParams, earningsRate: new BigNumber('0.5') },
+        doubleExponent,
+      );
+      const { borrowInterestRate, supplyInterestRate, totalBorrowed, totalSupply } = points[0];
+      expect(supplyInterestRate).to.eql(borrowInterestRate.times('0.5').times(totalBorrowed).div(totalSupply));
+    });
+
+    it('Succeeds for the polynomial model', async () => {
+      const polynomial: PolynomialData = {
+        interestRateModel: 'Polynomial',
+        maxAPR: new BigNumber('0.5'),
+        coefficients: [0, 20, 80],
+      };
+      const [point] = interest.projectInterest(marketId, defaultParams, polynomial);
+      expect(point.borrowInterestRate).to.eql(
+        getInterestPerSecondForPolynomial(
+          polynomial.maxAPR,
+          polynomial.coefficients,
+          { totalBorrowed: point.totalBorrowed, totalSupply: point.totalSupply },
+        ),
+      );
+    });
+
+    it('Fails for a non-positive step', async () => {
+      expect(() => interest.projectInterest(marketId, { ...defaultParams, step: INTEGERS.ZERO }))
+        .to.throw('Projection step must be positive');
+    });
+  });
+
+  describe('#getInterestRateModelByMarket', () => {
+    let dolomiteMargin: TestDolomiteMargin;
+    let snapshotId: string;
+
+    const doubleExponentMarket = INTEGERS.ZERO;
+    const aaveCopyCatMarket = INTEGERS.ONE;
+    const unknownMarket = new BigNumber(2);
+    const testPolynomialMarket = new BigNumber(3);
+
+    before(async () => {
+      const r = await getDolomiteMargin();
+      dolomiteMargin = r.dolomiteMargin;
+      await resetEVM();
+
+      const { testing } = dolomiteMargin;
+      const addMarket = async (token: address, interestSetter: address) => {
+        await testing.priceOracle.setPrice(token, new BigNumber('1e40'));
+        await dolomiteMargin.admin.addMarket(
+          token,
+          testing.priceOracle.address,
+          interestSetter,
+          INTEGERS.ZERO,
+          INTEGERS.ZERO,
+          INTEGERS.ZERO,
+          false,
+          false,
+          { from: r.accounts[0] },
+        );
+      };
+      await addMarket(testing.tokenA.address, dolomiteMargin.contracts.doubleExponentInterestSetter.options.address);
+      await addMarket(
+        testing.tokenB.address,
+        dolomiteMargin.contracts.aaveCopyCatStableCoinInterestSetter.options.address,
+      );
+      await addMarket(testing.tokenC.address, testing.interestSetter.address);
+      await addMarket(testing.tokenD.address, testing.polynomialInterestSetter.address);
+      await testing.interestSetter.setInterestRate(testing.tokenC.address, new BigNumber('1e-9'));
+
+      snapshotId = await snapshot();
+    });
+
+    beforeEach(async () => {
+      await resetEVM(snapshotId);
+    });
+
+    it('Succeeds for the double exponent interest setter', async () => {
+      const [maxAPR, coefficients] = await Promise.all([
+        dolomiteMargin.contracts.doubleExponentInterestSetter.methods.getMaxAPR().call(),
+        dolomiteMargin.contracts.doubleExponentInterestSetter.methods.getCoefficients().call(),
+      ]);
+      const constants = await dolomiteMargin.interest.getInterestRateModelByMarket(doubleExponentMarket);
+      expect(constants).to.eql({
+        interestRateModel: 'DoubleExponent',
+        maxAPR: new BigNumber(maxAPR).div('1e18'),
+        coefficients: coefficients.map(Number),
+      });
+    });
+
+    it('Succeeds for the AAVE copy cat interest setter', async () => {
+      const constants = await dolomiteMargin.interest.getInterestRateModelByMarket(aaveCopyCatMarket);
+      expect(constants).to.eql({ interestRateModel: 'AAVECopyCat', isStableCoin: true });
+    });
+
+    it('Succeeds for a polynomial interest setter that is not one of the published contracts', async () => {
+      const setter = dolomiteMargin.contracts.testPolynomialInterestSetter;
+      const [maxAPR, coefficients] = await Promise.all([
+        setter.methods.getMaxAPR().call(),
+        setter.methods.getCoefficients().call(),
+      ]);
+      const constants = await dolomiteMargin.interest.getInterestRateModelByMarket(testPolynomialMarket);
+      expect(constants).to.eql({
+        interestRateModel: 'Polynomial',
+        maxAPR: new BigNumber(maxAPR).div('1e18'),
+        coefficients: coefficients.map(Number),
+      });
+    });
+
+    it('Falls back to the static constants for an unknown interest setter', async () => {
+      const constants = await dolomiteMargin.interest.getInterestRateModelByMarket(unknownMarket);
+      expect(constants.interestRateModel).to.eql('DoubleExponent');
+    });
+
+    it('Succeeds for calculating the interest rates from chain', async () => {
+      const totals = { totalBorrowed: new BigNumber('5e18'), totalSupply: new BigNumber('10e18') };
+      const [constants, earningsRate, rates] = await Promise.all([
+        dolomiteMargin.interest.getInterestRateModelByMarket(aaveCopyCatMarket),
+        dolomiteMargin.getters.getEarningsRate(),
+        dolomiteMargin.interest.getInterestPerSecondByMarketFromChain(aaveCopyCatMarket, totals),
+      ]);
+      const expected = dolomiteMargin.interest.getInterestPerSecondByMarket(aaveCopyCatMarket, totals, constants);
+      expect(rates.borrowInterestRate).to.eql(expected.borrowInterestRate);
+      expect(rates.supplyInterestRate).to.eql(
+        expected.borrowInterestRate.times(earningsRate).times(totals.totalBorrowed).div(totals.totalSupply),
+      );
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import BigNumber from 'bignumber.js';
+import { address, INTEGERS } from '../src';
+import { getDolomiteMargin } from './helpers/DolomiteMargin';
+import { setupMarkets } from './helpers/DolomiteMarginHelpers';
+import { fastForward, resetEVM, snapshot } from './helpers/EVM';
+import { TestDolomiteMargin } from './modules/TestDolomiteMargin';
+
+let dolomiteMargin: TestDolomiteMargin;
+let accounts: address[];
+let liquidOwner: address;
+let expiredOwner: address;
+let healthyOwner: address;
+let snapshotId: string;
+
+const accountNumber = INTEGERS.ZERO;
+const owedMarket = INTEGERS.ZERO;
+const heldMarket = INTEGERS.ONE;
+const otherMarket = new BigNumber(2);
+const par = new BigNumber(10000);
+const price = new BigNumber('1e40');
+const spread = new BigNumber('0.05');
+
+describe('LiquidationScanner', () => {
+  before(async () => {
+    const r = await getDolomiteMargin();
+    dolomiteMargin = r.dolomiteMargin;
+    accounts = r.accounts;
+    liquidOwner = accounts[2];
+    expiredOwner = accounts[3];
+    healthyOwner = accounts[4];
+
+    await resetEVM();
+    await setupMarkets(dolomiteMargin, accounts);
+    await Promise.all([
+      dolomiteMargin.testing.setAccountBalance(liquidOwner, accountNumber, owedMarket, par.times(-1)),
+      dolomiteMargin.testing.setAccountBalance(liquidOwner, accountNumber, heldMarket, par.times('1.1')),
+      dolomiteMargin.testing.setAccountBalance(expiredOwner, accountNumber, owedMarket, par.div(-2)),
+      dolomiteMargin.testing.setAccountBalance(expiredOwner, accountNumber, heldMarket, par.times(2)),
+      dolomiteMargin.testing.setAccountBalance(expiredOwner, accountNumber, otherMarket, par),
+      dolomiteMargin.testing.setAccountBalance(healthyOwner, accountNumber, owedMarket, par.times(-1)),
+      dolomiteMargin.testing.setAccountBalance(healthyOwner, accountNumber, heldMarket, par.times(2)),
+    ]);
+    await dolomiteMargin.operation
+      .initiate()
+      .setExpiry({
+        primaryAccountOwner: expiredOwner,
+        primaryAccountId: accountNumber,
+        expiryArgs: [
+          {
+            accountOwner: expiredOwner,
+            accountId: accountNumber,
+            marketId: owedMarket,
+            timeDelta: INTEGERS.ONE,
+            forceUpdate: true,
+          },
+        ],
+      })
+      .commit({ from: expiredOwner });
+    await fastForward(60);
+
+    snapshotId = await snapshot();
+  });
+
+  beforeEach(async () => {
+    await resetEVM(snapshotId);
+  });
+
+  describe('#scan', () => {
+    it('Succeeds for under-collateralized and expired accounts', async () => {
+      const scanAccounts = [healthyOwner, expiredOwner, liquidOwner, accounts[5]].map(owner => ({
+        owner,
+        number: accountNumber,
+      }));
+      const [candidates, expiry, rampTime, blockNumber] = await Promise.all([
+        dolomiteMargin.liquidationScanner.scan(scanAccounts),
+        dolomiteMargin.expiry.getExpiry(expiredOwner, accountNumber, owedMarket),
+        dolomiteMargin.expiry.getRampTime(),
+        dolomiteMargin.web3.eth.getBlockNumber(),
+      ]);
+      // The expired borrow only earns the part of the spread that has ramped up since it expired
+      const { timestamp } = await dolomiteMargin.web3.eth.getBlock(blockNumber);
+      const expirySpread = spread.times(new BigNumber(timestamp).minus(expiry).div(rampTime));
+
+      expect(candidates).to.eql([
+        {
+          blockNumber,
+          liquidOwner,
+          liquidNumber: accountNumber,
+          heldMarketId: heldMarket,
+          owedMarketId: owedMarket,
+          heldWei: par.times('1.1'),
+          owedWei: par,
+          expiry: null,
+          isLiquidatable: true,
+          adjustedValues: {
+            supply: par.times('1.1').times(price),
+            borrow: par.times(price),
+          },
+          shortfall: par.times('0.05').times(price),
+          liquidationSpread: spread,
+          expectedProfit: par.times(spread).times(price),
+        },
+        {
+          blockNumber,
+          expiry,
+          liquidOwner: expiredOwner,
+          liquidNumber: accountNumber,
+          heldMarketId: heldMarket,
+          owedMarketId: owedMarket,
+          heldWei: par.times(2),
+          owedWei: par.div(2),
+          isLiquidatable: false,
+          adjustedValues: {
+            supply: par.times(3).times(price),
+            borrow: par.div(2).times(price),
+          },
+          shortfall: INTEGERS.ZERO,
+          liquidationSpread: spread,
+          expectedProfit: par.div(2).times(price).times(expirySpread).integerValue(BigNumber.ROUND_DOWN),
+        },
+      ]);
+    });
+
+    it('Succeeds for multiple batches', async () => {
+      const scanAccounts = [healthyOwner, expiredOwner, liquidOwner].map(owner => ({
+        owner,
+        number: accountNumber,
+      }));
+      const candidates = await dolomiteMargin.liquidationScanner.scan(scanAccounts, { batchSize: 1 });
+      expect(candidates.map(candidate => candidate.liquidOwner)).to.eql([liquidOwner, expiredOwner]);
+    });
+
+    it('Does not flag borrows that have not expired yet', async () => {
+      const expiry = await dolomiteMargin.expiry.getExpiry(expiredOwner, accountNumber, owedMarket);
+      const candidates = await dolomiteMargin.liquidationScanner.scan(
+        [{ owner: expiredOwner, number: accountNumber }],
+        { timestamp: expiry.minus(1) },
+      );
+      expect(candidates).to.eql([]);
+    });
+
+    it('Succeeds for comparing expiries against the timestamp of the given block', async () => {
+      const txResult = await dolomiteMargin.operation
+        .initiate()
+        .setExpiry({
+          primaryAccountOwner: healthyOwner,
+          primaryAccountId: accountNumber,
+          expiryArgs: [
+            {
+              accountOwner: healthyOwner,
+              accountId: accountNumber,
+              marketId: owedMarket,
+              timeDelta: new BigNumber(60),
+              forceUpdate: true,
+            },
+          ],
+        })
+        .commit({ from: healthyOwner });
+      await fastForward(120);
+
+      const scanAccounts = [{ owner: healthyOwner, number: accountNumber }];
+      const [pastCandidates, latestCandidates] = await Promise.all([
+        dolomiteMargin.liquidationScanner.scan(scanAccounts, {}, { blockNumber: txResult.blockNumber }),
+        dolomiteMargin.liquidationScanner.scan(scanAccounts),
+      ]);
+      expect(pastCandidates).to.eql([]);
+      expect(latestCandidates.map(candidate => candidate.liquidOwner)).to.eql([healthyOwner]);
+    });
+
+    it('Succeeds for no accounts', async () => {
+      const candidates = await dolomiteMargin.liquidationScanner.scan([]);
+      expect(candidates).to.eql([]);
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import BigNumber from 'bignumber.js';
+import {
+  address,
+  AmountDenomination,
+  AmountReference,
+  ExpirySet,
+  INTEGERS,
+  LogDeposit,
+  LogStreamBatch,
+} from '../src';
+import { getDolomiteMargin } from './helpers/DolomiteMargin';
+import { setupMarkets } from './helpers/DolomiteMarginHelpers';
+import { resetEVM, snapshot } from './helpers/EVM';
+import { TestDolomiteMargin } from './modules/TestDolomiteMargin';
+
+let dolomiteMargin: TestDolomiteMargin;
+let who: address;
+let startBlock: number;
+let snapshotId: string;
+
+const accountNumber = INTEGERS.ZERO;
+const market = INTEGERS.ZERO;
+const wei = new BigNumber(150);
+
+describe('LogStream', () => {
+  before(async () => {
+    const r = await getDolomiteMargin();
+    dolomiteMargin = r.dolomiteMargin;
+    who = dolomiteMargin.getDefaultAccount();
+
+    await resetEVM();
+    await setupMarkets(dolomiteMargin, r.accounts);
+    await Promise.all([
+      dolomiteMargin.testing.tokenA.issueTo(wei.times(2), who),
+      dolomiteMargin.testing.tokenA.setMaximumDolomiteMarginAllowance(who),
+    ]);
+    startBlock = await dolomiteMargin.web3.eth.getBlockNumber() + 1;
+    await deposit();
+    await dolomiteMargin.operation
+      .initiate()
+      .setExpiry({
+        primaryAccountOwner: who,
+        primaryAccountId: accountNumber,
+        expiryArgs: [
+          {
+            accountOwner: who,
+            accountId: accountNumber,
+            marketId: market,
+            timeDelta: new BigNumber(3600),
+            forceUpdate: true,
+          },
+        ],
+      })
+      .commit({ from: who });
+
+    snapshotId = await snapshot();
+  });
+
+  beforeEach(async () => {
+    await resetEVM(snapshotId);
+  });
+
+  describe('#getLogs', () => {
+    it('Succeeds for parsing the logs into typed events', async () => {
+      const endBlock = await dolomiteMargin.web3.eth.getBlockNumber();
+      const logs = await dolomiteMargin.logStream.getLogs(startBlock, endBlock);
+
+      expect(logs[0].name).to.eql('LogOperation');
+      expect(logs.map(log => log.blockNumber)).to.eql(logs.map(log => log.blockNumber).sort((a, b) => a - b));
+      expect(logs.filter(log => log.name === 'LogOperation').length).to.eql(2);
+
+      const depositLog = logs.find(log => log.name === 'LogDeposit') as LogDeposit;
+      expect(depositLog.blockNumber).to.eql(startBlock);
+      expect(depositLog.args.accountOwner).to.eql(who);
+      expect(depositLog.args.accountNumber).to.eql(accountNumber);
+      expect(depositLog.args.market).to.eql(market);
+      expect(depositLog.args.update.deltaWei).to.eql(wei);
+      expect(depositLog.args.from).to.eql(who);
+
+      const expirySetLog = logs.find(log => log.name === 'ExpirySet') as ExpirySet;
+      expect(expirySetLog.blockNumber).to.eql(startBlock + 1);
+      const expiry = await dolomiteMargin.expiry.getExpiry(who, accountNumber, market);
+      expect(expirySetLog.args.owner).to.eql(who);
+      expect(expirySetLog.args.marketId).to.eql(market);
+      expect(expirySetLog.args.time).to.eql(expiry);
+    });
+
+    it('Succeeds for filtering by event name', async () => {
+      const endBlock = await dolomiteMargin.web3.eth.getBlockNumber();
+      const logs = await dolomiteMargin.logStream.getLogs(
+        startBlock,
+        endBlock,
+        { chunkSize: 1, eventNames: ['LogDeposit', 'ExpirySet'] },
+      );
+      expect(logs.map(log => log.name)).to.eql(['LogDeposit', 'ExpirySet']);
+    });
+  });
+
+  describe('#replay', () => {
+    it('Succeeds for reading and resuming in chunks', async () => {
+      const endBlock = await dolomiteMargin.web3.eth.getBlockNumber();
+      const batches: LogStreamBatch[] = [];
+      const checkpoint = await dolomiteMargin.logStream.replay(
+        startBlock,
+        (batch) => {
+          batches.push(batch);
+        },
+        { chunkSize: 1 },
+      );
+
+      const endBlockHash = (await dolomiteMargin.web3.eth.getBlock(endBlock)).hash;
+      expect(checkpoint).to.eql({ blockNumber: endBlock, blockHash: endBlockHash });
+      expect(batches.map(batch => batch.fromBlock)).to.eql([startBlock, startBlock + 1]);
+      expect(batches.map(batch => batch.reorgFromBlock)).to.eql([null, null]);
+      expect(batches[0].logs.map(log => log.name)).to.include('LogDeposit');
+      expect(batches[1].logs.map(log => log.name)).to.include('ExpirySet');
+
+      // resuming picks up the new blocks only
+      await deposit();
+      const resumedBatches: LogStreamBatch[] = [];
+      const resumedCheckpoint = await dolomiteMargin.logStream.replay(checkpoint, (batch) => {
+        resumedBatches.push(batch);
+      });
+      expect(resumedBatches.length).to.eql(1);
+      expect(resumedBatches[0].fromBlock).to.eql(endBlock + 1);
+      expect(resumedBatches[0].logs.map(log => log.name)).to.include('LogDeposit');
+      expect(resumedBatches[0].logs.map(log => log.blockNumber)).to.not.include(endBlock);
+      expect(resumedCheckpoint.blockNumber).to.eql(endBlock + 1);
+    });
+
+    it('Succeeds for rewinding after a reorg', async () => {
+      const endBlock = await dolomiteMargin.web3.eth.getBlockNumber();
+      const batch = await dolomiteMargin.logStream.getNextBatch(
+        { blockNumber: endBlock, blockHash: `0x${'0'.repeat(64)}` },
+        { reorgDepth: 1 },
+      );
+      expect(batch.reorgFromBlock).to.eql(endBlock);
+      expect(batch.fromBlock).to.eql(endBlock);
+      expect(batch.toBlock).to.eql(endBlock);
+      expect(batch.logs.map(log => log.name)).to.include('ExpirySet');
+      expect(batch.logs.map(log => log.name)).to.not.include('LogDeposit');
+    });
+
+    it('Succeeds for no new blocks', async () => {
+      const endBlock = await dolomiteMargin.web3.eth.getBlockNumber();
+      const batch = await dolomiteMargin.logStream.getNextBatch({ blockNumber: endBlock, blockHash: null });
+      expect(batch).to.eql(null);
+    });
+  });
+});
+
+async function deposit() {
+  await dolomiteMargin.operation
+    .initiate()
+    .deposit({
+      primaryAccountOwner: who,
+      primaryAccountId: accountNumber,
+      marketId: market,
+      from: who,
+      amount: {
+        value: wei,
+        denomination: AmountDenomination.Actual,
+        reference: AmountReference.Delta,
+      },
+    })
+    .commit({ from: who });
+}
@@ -0,0 +1,105 @@
+import { promisify } from 'es6-promisify';
+import {
+  address,
+  ADDRESSES,
+  Eip1193SigningProvider,
+  INTEGERS,
+  Operation,
+  PrivateKeySigningProvider,
+  SigningMethod,
+} from '../src';
+import { SignedOperations } from '../src/modules/SignedOperations';
+import { WalletLogin } from '../src/modules/WalletLogin';
+import { getDolomiteMargin } from './helpers/DolomiteMargin';
+import { expectRejection } from './helpers/Expect';
+import { TestDolomiteMargin } from './modules/TestDolomiteMargin';
+
+let dolomiteMargin: TestDolomiteMargin;
+let accounts: address[];
+
+const privateKey = `0x${'11'.repeat(32)}`;
+const expiration = new Date('December 30, 2500 11:20:25');
+
+describe('SigningProviders', () => {
+  before(async () => {
+    const r = await getDolomiteMargin();
+    dolomiteMargin = r.dolomiteMargin;
+    accounts = r.accounts;
+  });
+
+  describe('PrivateKeySigningProvider', () => {
+    const signingProvider = new PrivateKeySigningProvider(privateKey);
+
+    it('Succeeds for signing wallet logins', async () => {
+      const walletLogin = new WalletLogin(dolomiteMargin.web3, Number(process.env.NETWORK_ID), { signingProvider });
+      const signingMethods = [
+        SigningMethod.Hash,
+        SigningMethod.UnsafeHash,
+        SigningMethod.Compatibility,
+        SigningMethod.TypedData,
+        SigningMethod.MetaMask,
+        SigningMethod.MetaMaskLatest,
+        SigningMethod.CoinbaseWallet,
+      ];
+      for (let i = 0; i < signingMethods.length; i += 1) {
+        const signature = await walletLogin.signLogin(expiration, signingProvider.address, signingMethods[i]);
+        expect(walletLogin.walletLoginIsValid(expiration, signature, signingProvider.address)).to.eql(true);
+      }
+    });
+
+    it('Succeeds for signing operations', async () => {
+      const signedOperations = new SignedOperations(
+        dolomiteMargin.contracts,
+        dolomiteMargin.web3,
+        Number(process.env.NETWORK_ID),
+        signingProvider,
+      );
+      const operation = createOperation(signingProvider.address);
+
+      const hashSignature = await signedOperations.signOperation(operation, SigningMethod.Hash);
+      const typedSignature = await signedOperations.signOperation(operation, SigningMethod.TypedData);
+      expect(signedOperations.operationHasValidSignature({ ...operation, typedSignature: hashSignature })).to.eql(true);
+      expect(signedOperations.operationHasValidSignature({ ...operation, typedSignature })).to.eql(true);
+
+      const cancelSignature = await signedOperations.signCancelOperation(operation, SigningMethod.TypedData);
+      expect(signedOperations.cancelOperationHasValidSignature(operation, cancelSignature)).to.eql(true);
+    });
+
+    it('Fails for signing for another address', async () => {
+      const walletLogin = new WalletLogin(dolomiteMargin.web3, Number(process.env.NETWORK_ID), { signingProvider });
+      await expectRejection(
+        walletLogin.signLogin(expiration, accounts[0], SigningMethod.Hash),
+        `Cannot sign for ${accounts[0]} with the private key of ${signingProvider.address}`,
+      );
+    });
+  });
+
+  describe('Eip1193SigningProvider', () => {
+    it('Succeeds for signing through an EIP-1193 provider', async () => {
+      const provider: any = dolomiteMargin.web3.currentProvider;
+      const send = promisify(provider.send).bind(provider);
+      const signingProvider = new Eip1193SigningProvider({
+        request: async ({ method, params }) => {
+          const response = await send({ method, params, jsonrpc: '2.0', id: new Date().getTime() });
+          return response.result;
+        },
+      });
+      const walletLogin = new WalletLogin(dolomiteMargin.web3, Number(process.env.NETWORK_ID), { signingProvider });
+
+      const hashSignature = await walletLogin.signLogin(expiration, accounts[0], SigningMethod.Hash);
+      const typedSignature = await walletLogin.signLogin(expiration, accounts[0], SigningMethod.TypedData);
+      expect(walletLogin.walletLoginIsValid(expiration, hashSignature, accounts[0])).to.eql(true);
+      expect(walletLogin.walletLoginIsValid(expiration, typedSignature, accounts[0])).to.eql(true);
+    });
+  });
+});
+
+function createOperation(signer: address): Operation {
+  return {
+    signer,
+    actions: [],
+    expiration: INTEGERS.ZERO,
+    salt: INTEGERS.ONE,
+    sender: ADDRESSES.ZERO,
+  };
+}
@@ -0,0 +1,338 @@
+import BigNumber from 'bignumber.js';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { SubgraphAPI } from '../src/modules/SubgraphAPI';
+import { INTEGERS, SubgraphBorrowPositionStatus } from '../src';
+import { expectRejection } from './helpers/Expect';
+
+const owner = '0x06012c8cf97bead5deae237070f9587f8e7a266d';
+const weth = {
+  id: '0x82af49447d8a07e3bd95bd0d56f35241523fbab1',
+  marketId: '0',
+  decimals: '18',
+  interestIndex: {
+    borrowIndex: '1.5',
+    supplyIndex: '1.25',
+    lastUpdate: '1600000000',
+  },
+};
+const usdc = {
+  id: '0xff970a61a04b1ca14834a43f5de4533ebddb5cc8',
+  marketId: '2',
+  decimals: '6',
+  interestIndex: {
+    borrowIndex: '1',
+    supplyIndex: '1',
+    lastUpdate: '1600000000',
+  },
+};
+
+interface GraphQLRequest {
+  query: string;
+  variables: any;
+}
+
+let server: http.Server;
+let api: SubgraphAPI;
+let requests: GraphQLRequest[];
+let responses: object[];
+
+describe('SubgraphAPI', () => {
+  before(async () => {
+    server = http.createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk) => {
+        body += chunk;
+      });
+      request.on('end', () => {
+        requests.push(JSON.parse(body));
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(responses.shift()));
+      });
+    });
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    api = new SubgraphAPI(`http://127.0.0.1:${(server.address() as AddressInfo).port}`, 5000);
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    requests = [];
+    responses = [];
+  });
+
+  describe('#getMarginAccounts', () => {
+    it('Succeeds', async () => {
+      responses.push({
+        data: {
+          marginAccounts: [{
+            id: `${owner}-123`,
+            user: { id: owner },
+            accountNumber: '123',
+            tokenValues: [
+              { token: weth, valuePar: '2' },
+              { token: usdc, valuePar: '-10.5' },
+            ],
+          }],
+        },
+      });
+
+      const page = await api.getMarginAccounts(owner.toUpperCase().replace('0X', '0x'));
+      expect(requests[0].query).to.contain('marginAccounts(');
+      expect(requests[0].query).to.contain('$where: MarginAccount_filter!');
+      expect(requests[0].variables).to.eql({ first: 100, where: { user: owner } });
+      expect(page.cursor).to.eql(null);
+      expect(page.items).to.eql([{
+        owner,
+        number: new BigNumber(123),
+        balances: [
+          {
+            marketId: INTEGERS.ZERO,
+            tokenAddress: weth.id,
+            par: new BigNumber('2e18'),
+            wei: new BigNumber('2.5e18'),
+          },
+          {
+            marketId: new BigNumber(2),
+            tokenAddress: usdc.id,
+            par: new BigNumber('-10500000'),
+            wei: new BigNumber('-10500000'),
+          },
+        ],
+      }]);
+    });
+
+    it('Paginates using the ID of the last item', async () => {
+      const account = (accountNumber: string) => ({
+        accountNumber,
+        id: `${owner}-${accountNumber}`,
+        user: { id: owner },
+        tokenValues: [],
+      });
+      responses.push({ data: { marginAccounts: [account('1'), account('2')] } });
+      responses.push({ data: { marginAccounts: [account('3')] } });
+
+      const firstPage = await api.getMarginAccounts(undefined, { first: 2 });
+      expect(firstPage.cursor).to.eql(`${owner}-2`);
+      const secondPage = await api.getMarginAccounts(undefined, { first: 2, cursor: firstPage.cursor });
+      expect(secondPage.cursor).to.eql(null);
+      expect(secondPage.items.map(item => item.number)).to.eql([new BigNumber(3)]);
+      expect(requests[1].variables).to.eql({ first: 2, where: { id_gt: `${owner}-2` } });
+    });
+
+    it('Queries historical blocks', async () => {
+      responses.push({ data: { marginAccounts: [] } });
+      await api.getMarginAccounts(owner, { blockNumber: 123456 });
+      expect(requests[0].query).to.contain('block: { number: 123456 }');
+    });
+
+    it('Fails when the subgraph returns errors', async () => {
+      responses.push({ errors: [{ message: 'Store error' }, { message: 'Timeout' }] });
+      await expectRejection(api.getMarginAccounts(), 'Subgraph query failed: Store error, Timeout');
+    });
+
+    it('Fails when the page size is too large', async () => {
+      await expectRejection(api.getMarginAccounts(owner, { first: 1001 }), 'Page size cannot exceed 1000');
+    });
+  });
+
+  describe('#getBorrowPositions', () => {
+    it('Succeeds', async () => {
+      responses.push({
+        data: {
+          borrowPositions: [{
+            id: `${owner}-456`,
+            marginAccount: { user: { id: owner }, accountNumber: '456' },
+            status: 'OPEN',
+            openTimestamp: '1600000000',
+            closeTimestamp: null,
+            amounts: [{ token: usdc, amountPar: '-1' }],
+          }],
+        },
+      });
+
+      const page = await api.getBorrowPositions(owner, SubgraphBorrowPositionStatus.Open);
+      expect(requests[0].variables.where).to.eql({ effectiveUser: owner, status: 'OPEN' });
+      expect(page.items[0].status).to.eql(SubgraphBorrowPositionStatus.Open);
+      expect(page.items[0].closeTimestamp).to.eql(null);
+      expect(page.items[0].balances[0].par).to.eql(new BigNumber('-1000000'));
+    });
+  });
+
+  describe('#getLiquidations', () => {
+    it('Succeeds', async () => {
+      responses.push({
+        data: {
+          liquidations: [{
+            id: '0xabc-1',
+            transaction: { id: '0xabc', timestamp: '1600000001' },
+            solidMarginAccount: { user: { id: owner }, accountNumber: '0' },
+            liquidMarginAccount: { user: { id: usdc.id }, accountNumber: '1' },
+            heldToken: weth,
+            borrowedToken: usdc,
+            heldTokenAmountDeltaWei: '0.1',
+            borrowedTokenAmountDeltaWei: '150',
+          }],
+        },
+      });
+
+      const page = await api.getLiquidations(usdc.id);
+      expect(requests[0].variables.where).to.eql({ liquidEffectiveUser: usdc.id });
+      expect(page.items).to.eql([{
+        transactionHash: '0xabc',
+        timestamp: new BigNumber(1600000001),
+        solidAccountOwner: owner,
+        solidAccountNumber: INTEGERS.ZERO,
+        liquidAccountOwner: usdc.id,
+        liquidAccountNumber: INTEGERS.ONE,
+        heldMarketId: INTEGERS.ZERO,
+        owedMarketId: new BigNumber(2),
+        heldWei: new BigNumber('1e17'),
+        owedWei: new BigNumber('150000000'),
+      }]);
+    });
+  });
+
+  describe('#getExpirations', () => {
+    it('Succeeds', async () => {
+      responses.push({
+        data: {
+          marginAccountTokenValues: [{
+            id: `${owner}-1-2`,
+            marginAccount: { user: { id: owner }, accountNumber: '1' },
+            token: usdc,
+            valuePar: '-5',
+            expirationTimestamp: '1700000000',
+          }],
+        },
+      });
+
+      const page = await api.getExpirations(new BigNumber(1700000000));
+      expect(requests[0].variables.where).to.eql({
+        expirationTimestamp_not: null,
+        expirationTimestamp_lte: '1700000000',
+      });
+      expect(page.items[0].expiry).to.eql(new BigNumber(1700000000));
+      expect(page.items[0].marketId).to.eql(new BigNumber(2));
+      expect(page.items[0].balance.wei).to.eql(new BigNumber('-5000000'));
+    });
+  });
+
+  describe('#getMarkets', () => {
+    it('Succeeds', async () => {
+      responses.push({
+        data: {
+          marketRiskInfos: [{
+            id: weth.id,
+            token: weth,
+            totalPar: { borrowPar: '10', supplyPar: '100' },
+            oracle: owner,
+            interestSetter: usdc.id,
+            marginPremium: '0.1',
+            liquidationRewardPremium: '0.2',
+            supplyMaxWei: null,
+            isBorrowingDisabled: false,
+          }],
+        },
+      });
+
+      const page = await api.getMarkets();
+      expect(page.items).to.eql([{
+        marketId: INTEGERS.ZERO,
+        market: {
+          token: weth.id,
+          totalPar: { borrow: new BigNumber('10e18'), supply: new BigNumber('100e18') },
+          index: {
+            borrow: new BigNumber('1.5'),
+            supply: new BigNumber('1.25'),
+            lastUpdate: new BigNumber(1600000000),
+          },
+          priceOracle: owner,
+          interestSetter: usdc.id,
+          marginPremium: new BigNumber('0.1'),
+          spreadPremium: new BigNumber('0.2'),
+          maxWei: INTEGERS.ZERO,
+          isClosing: false,
+        },
+      }]);
+    });
+  });
+
+  describe('#getAmmPairs', () => {
+    it('Succeeds', async () => {
+      responses.push({
+        data: {
+          ammPairs: [{
+            id: owner,
+            token0: weth,
+            token1: usdc,
+            reserve0: '1.5',
+            reserve1: '3000',
+            totalSupply: '0.002',
+          }],
+        },
+      });
+
+      const page = await api.getAmmPairs();
+      expect(page.items).to.eql([{
+        address: owner,
+        token0: weth.id,
+        token1: usdc.id,
+        marketId0: INTEGERS.ZERO,
+        marketId1: new BigNumber(2),
+        reserve0: new BigNumber('1.5e18'),
+        reserve1: new BigNumber('3000e6'),
+        totalSupply: new BigNumber('2e15'),
+      }]);
+    });
+  });
+
+  describe('#getInterestRateHistory', () => {
+    const snapshot = (id: string, timestamp: string) => ({
+      id,
+      timestamp,
+      token: weth,
+      borrowIndex: '1.1',
+      supplyIndex: '1.05',
+      borrowInterestRate: '0.08',
+      supplyInterestRate: '0.04',
+    });
+
+    it('Paginates using the timestamp and ID of the last item', async () => {
+      responses.push({
+        data: { interestRateSnapshots: [snapshot('0x01', '50'), snapshot('0x02', '50'), snapshot('0x03', '200')] },
+      });
+
+      const page = await api.getInterestRateHistory(INTEGERS.ZERO, { first: 3, cursor: '50:0x01' });
+      expect(requests[0].query).to.contain('orderBy: timestamp');
+      expect(requests[0].variables).to.eql({
+        first: 3,
+        where: { token_: { marketId: '0' }, timestamp_gte: '50' },
+      });
+      expect(page.cursor).to.eql('200:0x03');
+      expect(page.items.map(item => item.timestamp)).to.eql([new BigNumber(50), new BigNumber(200)]);
+      expect(page.items[1]).to.eql({
+        marketId: INTEGERS.ZERO,
+        timestamp: new BigNumber(200),
+        index: {
+          borrow: new BigNumber('1.1'),
+          supply: new BigNumber('1.05'),
+          lastUpdate: new BigNumber(200),
+        },
+        borrowInterestRate: new BigNumber('0.08'),
+        supplyInterestRate: new BigNumber('0.04'),
+      });
+    });
+
+    it('Fails when a whole page has the timestamp of the cursor', async () => {
+      responses.push({ data: { interestRateSnapshots: [snapshot('0x01', '50')] } });
+
+      await expectRejection(
+        api.getInterestRateHistory(INTEGERS.ZERO, { first: 1, cursor: '50:0x01' }),
+        'More than 1 interest rate snapshots have timestamp 50',
+      );
+    });
+  });
+});
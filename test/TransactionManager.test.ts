@@ -0,0 +1,140 @@
+import BigNumber from 'bignumber.js';
+import {
+  address,
+  ConfirmationType,
+  TransactionLifecycleEvent,
+  TransactionLifecycleEventType,
+  TransactionManager,
+} from '../src';
+import { getDolomiteMargin } from './helpers/DolomiteMargin';
+import { provider } from './helpers/Provider';
+import { resetEVM, snapshot } from './helpers/EVM';
+import { expectRejection } from './helpers/Expect';
+import { TestDolomiteMargin } from './modules/TestDolomiteMargin';
+
+let dolomiteMargin: TestDolomiteMargin;
+let manager: TransactionManager;
+let snapshotId: string;
+let sender: address;
+let recipient: address;
+
+const amount = new BigNumber(100);
+
+describe('TransactionManager', () => {
+  before(async () => {
+    const r = await getDolomiteMargin();
+    sender = r.accounts[1];
+    recipient = r.accounts[2];
+
+    dolomiteMargin = new TestDolomiteMargin(provider, Number(process.env.NETWORK_ID), {
+      confirmationType: ConfirmationType.Confirmed,
+      defaultGas: '6000000',
+    });
+    dolomiteMargin.setDefaultAccount(sender);
+
+    await resetEVM();
+    snapshotId = await snapshot();
+  });
+
+  beforeEach(async () => {
+    await resetEVM(snapshotId);
+    manager = new TransactionManager(dolomiteMargin.web3, { pollingInterval: 100 });
+    dolomiteMargin.setTransactionSender(manager);
+  });
+
+  describe('#sendTransaction', () => {
+    it('Succeeds for sending several transactions from the same sender in one block', async () => {
+      await dolomiteMargin.testing.evm.stopMining();
+      const results = await Promise.all([issue(), issue(), issue()]);
+      expect(manager.getPendingTransactionHashes(sender)).to.eql(results.map(result => result.transactionHash));
+      await dolomiteMargin.testing.evm.startMining();
+
+      await Promise.all(results.map(result => result.confirmation));
+      const nonces = results.map(result => result.lifecycleEvents[0].nonce).sort((a, b) => a - b);
+      expect(nonces).to.eql([nonces[0], nonces[0] + 1, nonces[0] + 2]);
+      results.forEach(({ lifecycleEvents }) => {
+        expect(lifecycleEvents.map(event => event.type)).to.eql([
+          TransactionLifecycleEventType.Signed,
+          TransactionLifecycleEventType.Broadcast,
+          TransactionLifecycleEventType.Mined,
+        ]);
+      });
+      expect(await dolomiteMargin.testing.tokenA.getBalance(recipient)).to.eql(amount.times(3));
+      expect(manager.getPendingTransactionHashes(sender)).to.eql([]);
+    });
+
+    it('Succeeds for reporting events to the listener', async () => {
+      const events: TransactionLifecycleEvent[] = [];
+      manager = new TransactionManager(dolomiteMargin.web3, {
+        pollingInterval: 100,
+        onLifecycleEvent: event => events.push(event),
+      });
+      dolomiteMargin.setTransactionSender(manager);
+
+      const result = await dolomiteMargin.testing.tokenA.issueTo(amount, recipient);
+      expect(result.status).to.eql(true);
+      expect(events).to.eql(result.lifecycleEvents);
+      expect(events[events.length - 1].transactionHash).to.eql(result.transactionHash);
+    });
+
+    it('Fails for transactions that are not mined within the receipt timeout', async () => {
+      manager = new TransactionManager(dolomiteMargin.web3, { pollingInterval: 100, receiptTimeout: 500 });
+      dolomiteMargin.setTransactionSender(manager);
+
+      await dolomiteMargin.testing.evm.stopMining();
+      const result = await issue();
+      await expectRejection(result.confirmation, `Transaction ${result.transactionHash} was not mined within 500ms`);
+      const lastEvent = result.lifecycleEvents[result.lifecycleEvents.length - 1];
+      expect(lastEvent.type).to.eql(TransactionLifecycleEventType.TimedOut);
+      expect(manager.getPendingTransactionHashes(sender)).to.eql([]);
+      await dolomiteMargin.testing.evm.startMining();
+    });
+  });
+
+  describe('#speedUp', () => {
+    it('Succeeds for re-broadcasting with a higher gas price', async () => {
+      await dolomiteMargin.testing.evm.stopMining();
+      const result = await issue();
+      const replacementHash = await manager.speedUp(result.transactionHash);
+      expect(manager.getPendingTransactionHashes(sender)).to.eql([replacementHash]);
+
+      const replaced = result.lifecycleEvents.find(event => event.type === TransactionLifecycleEventType.Replaced);
+      expect(replaced.transactionHash).to.eql(result.transactionHash);
+      expect(replaced.replacedBy).to.eql(replacementHash);
+      const broadcasts = result.lifecycleEvents.filter(event => event.type === TransactionLifecycleEventType.Broadcast);
+      expect(new BigNumber(broadcasts[1].gasPrice).gt(broadcasts[0].gasPrice)).to.eql(true);
+
+      await dolomiteMargin.testing.evm.startMining();
+      await result.confirmation;
+      const lastEvent = result.lifecycleEvents[result.lifecycleEvents.length - 1];
+      expect(lastEvent.type).to.eql(TransactionLifecycleEventType.Mined);
+    });
+
+    it('Fails for a gas price that is not higher', async () => {
+      await dolomiteMargin.testing.evm.stopMining();
+      const result = await issue();
+      const { gasPrice } = result.lifecycleEvents[0];
+      await expectRejection(
+        manager.speedUp(result.transactionHash, new BigNumber(gasPrice)),
+        `Gas price must be higher than the last gas price of ${gasPrice}`,
+      );
+
+      await dolomiteMargin.testing.evm.startMining();
+      await result.confirmation;
+    });
+  });
+
+  describe('#cancel', () => {
+    it('Fails for transactions that are not pending', async () => {
+      const result = await dolomiteMargin.testing.tokenA.issueTo(amount, recipient);
+      await expectRejection(
+        manager.cancel(result.transactionHash),
+        `Transaction ${result.transactionHash} is not pending`,
+      );
+    });
+  });
+});
+
+async function issue() {
+  return dolomiteMargin.testing.tokenA.issueTo(amount, recipient, { confirmationType: ConfirmationType.Both });
+}
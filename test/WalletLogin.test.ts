@@ -1,5 +1,7 @@
-import { address, SigningMethod } from '../src';
+import { address, InMemorySiweNonceStore, SigningMethod, SiweMessage } from '../src';
+import { formatSiweMessage } from '../src/lib/Siwe';
 import { getDolomiteMargin } from './helpers/DolomiteMargin';
+import { expectRejection } from './helpers/Expect';
 import { TestDolomiteMargin } from './modules/TestDolomiteMargin';
 
 let dolomiteMargin: TestDolomiteMargin;
@@ -57,4 +59,88 @@ describe('WalletLogin', () => {
       dolomiteMargin.walletLogin.walletLoginIsValid(expiration, signature, signer),
     ).to.eql(false);
   });
+
+  describe('Sign-In with Ethereum', () => {
+    const domain = 'app.dolomite.io';
+
+    it('Succeeds for signing and verifying a login', async () => {
+      const message = createSiweMessage();
+      const signature = await dolomiteMargin.walletLogin.signSiweLogin(message);
+      expect(dolomiteMargin.walletLogin.siweLoginIsValid(message, signature)).to.eql(true);
+
+      const verifiedMessage = await dolomiteMargin.walletLogin.verifySiweLogin(
+        formatSiweMessage(message),
+        signature,
+        { domain },
+      );
+      expect(verifiedMessage.address.toLowerCase()).to.eql(signer.toLowerCase());
+      expect(verifiedMessage.resources).to.eql(message.resources);
+    });
+
+    it('Recognizes an invalid or expired login', async () => {
+      const message = createSiweMessage({ expirationTime: new Date('December 30, 2017 11:20:25') });
+      const signature = await dolomiteMargin.walletLogin.signSiweLogin(message);
+      expect(dolomiteMargin.walletLogin.siweLoginIsValid(message, signature)).to.eql(false);
+      expect(
+        dolomiteMargin.walletLogin.siweLoginIsValid({ ...message, expirationTime: undefined }, signature),
+      ).to.eql(false);
+      await expectRejection(
+        dolomiteMargin.walletLogin.verifySiweLogin(formatSiweMessage(message), signature),
+        'Sign-In with Ethereum message is expired',
+      );
+    });
+
+    it('Fails for reusing a nonce', async () => {
+      const nonceStore = new InMemorySiweNonceStore();
+      const message = createSiweMessage({ nonce: nonceStore.issueNonce() });
+      const signature = await dolomiteMargin.walletLogin.signSiweLogin(message);
+
+      await dolomiteMargin.walletLogin.verifySiweLogin(formatSiweMessage(message), signature, { nonceStore });
+      await expectRejection(
+        dolomiteMargin.walletLogin.verifySiweLogin(formatSiweMessage(message), signature, { nonceStore }),
+        'Sign-In with Ethereum nonce was already used or was not issued',
+      );
+    });
+
+    it('Fails for a message issued too far in the future', async () => {
+      const issuedAt = new Date(Date.now() + 120 * 1000);
+      const message = createSiweMessage({ issuedAt });
+      const signature = await dolomiteMargin.walletLogin.signSiweLogin(message);
+
+      await expectRejection(
+        dolomiteMargin.walletLogin.verifySiweLogin(formatSiweMessage(message), signature),
+        'Sign-In with Ethereum message is issued in the future',
+      );
+      await dolomiteMargin.walletLogin.verifySiweLogin(
+        formatSiweMessage(message),
+        signature,
+        { maxClockSkewSeconds: 180 },
+      );
+    });
+
+    it('Fails for another domain or signer', async () => {
+      const message = createSiweMessage();
+      const signature = await dolomiteMargin.walletLogin.signSiweLogin(message);
+
+      await expectRejection(
+        dolomiteMargin.walletLogin.verifySiweLogin(formatSiweMessage(message), signature, { domain: 'evil.io' }),
+        `Sign-In with Ethereum message is for ${domain} instead of evil.io`,
+      );
+      await expectRejection(
+        dolomiteMargin.walletLogin.verifySiweLogin(formatSiweMessage({ ...message, address: accounts[1] }), signature),
+        'Invalid Sign-In with Ethereum signature',
+      );
+    });
+
+    function createSiweMessage(fields: Partial<SiweMessage> = {}): SiweMessage {
+      return dolomiteMargin.walletLogin.createSiweMessage({
+        domain,
+        address: signer,
+        uri: `https://${domain}/login`,
+        statement: 'Log in to Dolomite',
+        resources: ['https://docs.dolomite.io'],
+        ...fields,
+      });
+    }
+  });
 });
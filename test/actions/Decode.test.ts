@@ -0,0 +1,264 @@
+import BigNumber from 'bignumber.js';
+import { ethers } from 'ethers';
+import { getDolomiteMargin } from '../helpers/DolomiteMargin';
+import { TestDolomiteMargin } from '../modules/TestDolomiteMargin';
+import {
+  ActionType,
+  address,
+  AmountDenomination,
+  AmountReference,
+  INTEGERS,
+  ProxyType,
+  SigningMethod,
+} from '../../src';
+import { toBytesNoPadding } from '../../src/lib/BytesHelper';
+import { GenericTraderType } from '../../src/modules/GenericTraderProxyV1';
+import { AccountOperation } from '../../src/modules/operate/AccountOperation';
+
+let dolomiteMargin: TestDolomiteMargin;
+let accounts: address[];
+let owner: address;
+let otherOwner: address;
+const accountNumber = new BigNumber(111);
+const otherAccountNumber = new BigNumber(222);
+const market1 = new BigNumber(1);
+const market2 = new BigNumber(2);
+const amount = {
+  value: new BigNumber('1e18'),
+  denomination: AmountDenomination.Wei,
+  reference: AmountReference.Delta,
+};
+
+describe('Decode', () => {
+  before(async () => {
+    const r = await getDolomiteMargin();
+    dolomiteMargin = r.dolomiteMargin;
+    accounts = r.accounts;
+    owner = accounts[5];
+    otherOwner = accounts[6];
+  });
+
+  function addActions(operation: AccountOperation): AccountOperation {
+    return operation
+      .deposit({
+        amount,
+        primaryAccountOwner: owner,
+        primaryAccountId: accountNumber,
+        marketId: market1,
+        from: owner,
+      })
+      .transfer({
+        primaryAccountOwner: owner,
+        primaryAccountId: accountNumber,
+        toAccountOwner: otherOwner,
+        toAccountId: otherAccountNumber,
+        marketId: market1,
+        amount: { ...amount, value: amount.value.negated() },
+      })
+      .liquidate({
+        primaryAccountOwner: otherOwner,
+        primaryAccountId: otherAccountNumber,
+        liquidAccountOwner: owner,
+        liquidAccountId: accountNumber,
+        liquidMarketId: market1,
+        payoutMarketId: market2,
+        amount: {
+          value: INTEGERS.ZERO,
+          denomination: AmountDenomination.Principal,
+          reference: AmountReference.Target,
+        },
+      })
+      .withdraw({
+        amount: { ...amount, value: amount.value.negated() },
+        primaryAccountOwner: otherOwner,
+        primaryAccountId: otherAccountNumber,
+        marketId: market2,
+        to: otherOwner,
+      });
+  }
+
+  describe('#decode', () => {
+    it('Succeeds for typed actions', async () => {
+      const calldata = addActions(dolomiteMargin.operation.initiate()).encode();
+      const decoded = dolomiteMargin.operation.decode(calldata);
+
+      expect(decoded.proxy).to.eql(ProxyType.None);
+      expect(decoded.actions.map(a => a.actionType)).to.eql([
+        ActionType.Deposit,
+        ActionType.Transfer,
+        ActionType.Liquidate,
+        ActionType.Withdraw,
+      ]);
+      const transfer = decoded.actions[1];
+      if (transfer.actionType !== ActionType.Transfer) {
+        throw new Error('Expected a transfer');
+      }
+      expect(transfer.action.primaryAccountOwner).to.eql(owner);
+      expect(transfer.action.primaryAccountId).to.eql(accountNumber);
+      expect(transfer.action.toAccountOwner).to.eql(otherOwner);
+      expect(transfer.action.toAccountId).to.eql(otherAccountNumber);
+      expect(transfer.action.amount.value).to.eql(amount.value.negated());
+    });
+
+    it('Succeeds for expiry liquidations and expiry calls', async () => {
+      const maxExpiry = new BigNumber(1234567);
+      const calldata = dolomiteMargin.operation
+        .initiate()
+        .liquidateExpiredAccount(
+          {
+            primaryAccountOwner: owner,
+            primaryAccountId: accountNumber,
+            liquidAccountOwner: otherOwner,
+            liquidAccountId: otherAccountNumber,
+            liquidMarketId: market1,
+            payoutMarketId: market2,
+            amount: {
+              value: INTEGERS.ZERO,
+              denomination: AmountDenomination.Principal,
+              reference: AmountReference.Target,
+            },
+          },
+          maxExpiry,
+        )
+        .setExpiry({
+          primaryAccountOwner: owner,
+          primaryAccountId: accountNumber,
+          expiryArgs: [{
+            accountOwner: owner,
+            accountId: accountNumber,
+            marketId: market2,
+            timeDelta: new BigNumber(3600),
+            forceUpdate: true,
+          }],
+        })
+        .encode();
+
+      const [trade, call] = dolomiteMargin.operation.decode(calldata).actions;
+      if (trade.actionType !== ActionType.Trade || call.actionType !== ActionType.Call) {
+        throw new Error('Expected a trade and a call');
+      }
+      expect(trade.expiry).to.eql({ maxExpiry, owedMarketId: market1 });
+      expect(call.setExpiry.expiryArgs).to.eql([{
+        accountOwner: owner,
+        accountId: accountNumber,
+        marketId: market2,
+        timeDelta: new BigNumber(3600),
+        forceUpdate: true,
+      }]);
+    });
+
+    it('Succeeds for generic trader sells', async () => {
+      const trader = accounts[7];
+      const minOutputAmountWei = new BigNumber(420);
+      const orderData = ethers.utils.defaultAbiCoder.encode(['uint256'], ['1']);
+      const calldata = dolomiteMargin.operation
+        .initiate()
+        .addDecodedOperation({
+          proxy: ProxyType.None,
+          accounts: [{ owner, number: accountNumber.toFixed() }],
+          actions: [{
+            actionType: ActionType.Sell,
+            action: {
+              primaryAccountOwner: owner,
+              primaryAccountId: accountNumber,
+              takerMarketId: market1,
+              makerMarketId: market2,
+              exchangeWrapperAddress: trader,
+              amount: { ...amount, value: amount.value.negated() },
+              data: toBytesNoPadding(
+                ethers.utils.defaultAbiCoder.encode(
+                  ['uint256', 'bytes'],
+                  [minOutputAmountWei.toFixed(), orderData],
+                ),
+              ),
+            },
+          }],
+        })
+        .encode();
+
+      const [sell] = dolomiteMargin.operation.decode(calldata).actions;
+      if (sell.actionType !== ActionType.Sell) {
+        throw new Error('Expected a sell');
+      }
+      expect(sell.minOutputAmountWei).to.eql(minOutputAmountWei);
+      expect(sell.genericTraderParam).to.eql({
+        trader,
+        traderType: GenericTraderType.ExternalLiquidity,
+        makerAccountIndex: 0,
+        tradeData: orderData,
+      });
+    });
+
+    it('Fails for calldata that does not call operate', async () => {
+      expect(() => dolomiteMargin.operation.decode('0x12345678')).to.throw(
+        'Calldata is not a call to operate: 0x12345678',
+      );
+    });
+  });
+
+  describe('#addDecodedOperation', () => {
+    it('Round-trips calldata without a proxy', async () => {
+      const calldata = addActions(dolomiteMargin.operation.initiate()).encode();
+      const decoded = dolomiteMargin.operation.decode(calldata);
+      const reEncoded = dolomiteMargin.operation
+        .initiate({ proxy: decoded.proxy })
+        .addDecodedOperation(decoded)
+        .encode();
+      expect(reEncoded).to.eql(calldata);
+    });
+
+    it('Round-trips calldata for the PayableProxy', async () => {
+      const calldata = addActions(dolomiteMargin.operation.initiate({ proxy: ProxyType.Payable }))
+        .encode({ from: otherOwner });
+      const decoded = dolomiteMargin.operation.decode(calldata);
+      expect(decoded.proxy).to.eql(ProxyType.Payable);
+      expect(decoded.sendEthTo).to.eql(otherOwner);
+
+      const reEncoded = dolomiteMargin.operation
+        .initiate({ proxy: decoded.proxy })
+        .addDecodedOperation(decoded)
+        .encode();
+      expect(reEncoded).to.eql(calldata);
+    });
+
+    it('Round-trips calldata for the SignedOperationProxy', async () => {
+      const operation = addActions(dolomiteMargin.operation.initiate())
+        .createSignableOperation({ signer: owner, salt: new BigNumber(425) });
+      const signedOperation = {
+        ...operation,
+        typedSignature: await dolomiteMargin.signedOperations.signOperation(operation, SigningMethod.Hash),
+      };
+      const calldata = dolomiteMargin.operation
+        .initiate({ proxy: ProxyType.Signed })
+        .deposit({
+          amount,
+          primaryAccountOwner: otherOwner,
+          primaryAccountId: otherAccountNumber,
+          marketId: market1,
+          from: otherOwner,
+        })
+        .addSignedOperation(signedOperation)
+        .encode();
+
+      const decoded = dolomiteMargin.operation.decode(calldata);
+      expect(decoded.proxy).to.eql(ProxyType.Signed);
+      expect(decoded.auths.length).to.eql(1);
+      expect(decoded.auths[0].startIndex).to.eql(INTEGERS.ONE);
+      expect(decoded.auths[0].numActions).to.eql(new BigNumber(4));
+      expect(decoded.auths[0].signer).to.eql(owner);
+      expect(decoded.auths[0].typedSignature).to.eql(signedOperation.typedSignature);
+
+      const reEncoded = dolomiteMargin.operation
+        .initiate({ proxy: decoded.proxy })
+        .addDecodedOperation(decoded)
+        .encode();
+      expect(reEncoded).to.eql(calldata);
+    });
+
+    it('Fails when the proxy does not match', async () => {
+      const decoded = dolomiteMargin.operation.decode(addActions(dolomiteMargin.operation.initiate()).encode());
+      expect(() => dolomiteMargin.operation.initiate({ proxy: ProxyType.Payable }).addDecodedOperation(decoded))
+        .to.throw(`Cannot add decoded operation for proxy ${ProxyType.None} to operation for proxy ${ProxyType.Payable}`);
+    });
+  });
+});
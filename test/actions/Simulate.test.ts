@@ -0,0 +1,162 @@
+import BigNumber from 'bignumber.js';
+import { getDolomiteMargin } from '../helpers/DolomiteMargin';
+import { TestDolomiteMargin } from '../modules/TestDolomiteMargin';
+import { resetEVM, snapshot } from '../helpers/EVM';
+import { setGlobalOperator, setupMarkets } from '../helpers/DolomiteMarginHelpers';
+import { address, AmountDenomination, AmountReference, INTEGERS } from '../../src';
+
+let dolomiteMargin: TestDolomiteMargin;
+let accounts: address[];
+let owner: address;
+let liquidOwner: address;
+const accountNumber = INTEGERS.ZERO;
+const solidAccountNumber = INTEGERS.ONE;
+const owedMarket = INTEGERS.ZERO;
+const heldMarket = INTEGERS.ONE;
+const zero = new BigNumber(0);
+const par = new BigNumber(10000);
+const wei = new BigNumber(15000);
+
+describe('Simulate', () => {
+  let snapshotId: string;
+
+  before(async () => {
+    const r = await getDolomiteMargin();
+    dolomiteMargin = r.dolomiteMargin;
+    accounts = r.accounts;
+    owner = dolomiteMargin.getDefaultAccount();
+    liquidOwner = accounts[6];
+
+    await resetEVM();
+    await setGlobalOperator(dolomiteMargin, accounts, owner);
+    await setupMarkets(dolomiteMargin, accounts);
+    const defaultIndex = {
+      lastUpdate: INTEGERS.ZERO,
+      borrow: wei.div(par),
+      supply: wei.div(par),
+    };
+    await Promise.all([
+      dolomiteMargin.testing.setMarketIndex(owedMarket, defaultIndex),
+      dolomiteMargin.testing.setMarketIndex(heldMarket, defaultIndex),
+    ]);
+    snapshotId = await snapshot();
+  });
+
+  beforeEach(async () => {
+    await resetEVM(snapshotId);
+  });
+
+  it('Projects balances for a transfer', async () => {
+    await dolomiteMargin.testing.setAccountBalance(owner, accountNumber, owedMarket, par);
+
+    const simulation = await dolomiteMargin.operation
+      .initiate()
+      .transfer({
+        primaryAccountOwner: owner,
+        primaryAccountId: accountNumber,
+        toAccountOwner: owner,
+        toAccountId: solidAccountNumber,
+        marketId: owedMarket,
+        amount: {
+          value: wei.div(3).negated(),
+          denomination: AmountDenomination.Wei,
+          reference: AmountReference.Delta,
+        },
+      })
+      .simulate();
+
+    expect(simulation.violation).to.eql(null);
+    expect(simulation.unsimulatedActionIndices).to.eql([]);
+    expect(simulation.accounts.length).to.eql(2);
+    expect(simulation.accounts[0].balances[0].par).to.eql(par.times(2).div(3).integerValue());
+    expect(simulation.accounts[1].balances[0].par).to.eql(par.div(3).integerValue());
+    expect(simulation.accounts[1].collateralization).to.eql(null);
+  });
+
+  it('Projects balances for a liquidation', async () => {
+    await Promise.all([
+      dolomiteMargin.testing.setAccountBalance(liquidOwner, accountNumber, owedMarket, par.negated()),
+      dolomiteMargin.testing.setAccountBalance(liquidOwner, accountNumber, heldMarket, par.times('1.1')),
+      dolomiteMargin.testing.setAccountBalance(owner, solidAccountNumber, owedMarket, par),
+    ]);
+
+    const operation = dolomiteMargin.operation.initiate().liquidate({
+      primaryAccountOwner: owner,
+      primaryAccountId: solidAccountNumber,
+      liquidAccountOwner: liquidOwner,
+      liquidAccountId: accountNumber,
+      liquidMarketId: owedMarket,
+      payoutMarketId: heldMarket,
+      amount: {
+        value: zero,
+        denomination: AmountDenomination.Principal,
+        reference: AmountReference.Target,
+      },
+    });
+    const simulation = await operation.simulate();
+    expect(simulation.violation).to.eql(null);
+
+    await operation.commit({ from: owner });
+    const [solidBalances, liquidBalances] = await Promise.all([
+      dolomiteMargin.getters.getAccountBalances(owner, solidAccountNumber),
+      dolomiteMargin.getters.getAccountBalances(liquidOwner, accountNumber),
+    ]);
+    const toParsByMarket = balances => balances
+      .filter(balance => !balance.par.isZero())
+      .map(balance => ({ marketId: balance.marketId, par: balance.par }));
+    expect(toParsByMarket(simulation.accounts[0].balances)).to.eql(toParsByMarket(solidBalances));
+    expect(toParsByMarket(simulation.accounts[1].balances)).to.eql(toParsByMarket(liquidBalances));
+  });
+
+  it('Returns the first action that leaves an account undercollateralized', async () => {
+    await dolomiteMargin.testing.setAccountBalance(owner, accountNumber, heldMarket, par);
+
+    const simulation = await dolomiteMargin.operation
+      .initiate()
+      .withdraw({
+        primaryAccountOwner: owner,
+        primaryAccountId: accountNumber,
+        marketId: heldMarket,
+        to: owner,
+        amount: {
+          value: wei.div(2).negated(),
+          denomination: AmountDenomination.Wei,
+          reference: AmountReference.Delta,
+        },
+      })
+      .withdraw({
+        primaryAccountOwner: owner,
+        primaryAccountId: accountNumber,
+        marketId: owedMarket,
+        to: owner,
+        amount: {
+          value: wei.negated(),
+          denomination: AmountDenomination.Wei,
+          reference: AmountReference.Delta,
+        },
+      })
+      .simulate();
+
+    expect(simulation.violation.actionIndex).to.eql(1);
+    expect(simulation.violation.reason).to.eql('Undercollateralized account');
+    expect(simulation.violation.accountOwner).to.eql(owner);
+    expect(simulation.violation.accountNumber).to.eql(accountNumber);
+    expect(simulation.accounts[0].isCollateralized).to.eql(false);
+    expect(simulation.accounts[0].collateralization).to.eql(new BigNumber('0.5'));
+  });
+
+  it('Flags actions that cannot be simulated', async () => {
+    const simulation = await dolomiteMargin.operation
+      .initiate()
+      .call({
+        primaryAccountOwner: owner,
+        primaryAccountId: accountNumber,
+        callee: dolomiteMargin.testing.simpleCallee.address,
+        data: [],
+      })
+      .simulate();
+
+    expect(simulation.violation).to.eql(null);
+    expect(simulation.unsimulatedActionIndices).to.eql([0]);
+  });
+});
@@ -75,6 +75,17 @@ export async function expectOutOfGasFailure(promise: Promise<any>) {
   }
 }
 
+// For errors thrown off-chain by the library, which don't come from a revert
+export async function expectRejection(promise: Promise<any>, message: string) {
+  let error: Error;
+  try {
+    await promise;
+  } catch (e) {
+    error = e;
+  }
+  expect(error && error.message).to.eql(message);
+}
+
 // Helper function
 function assertCertainError(error: Error, expected_error_msg?: string) {
   // This complication is so that the actual error will appear in truffle test output
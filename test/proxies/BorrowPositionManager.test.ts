@@ -0,0 +1,146 @@
+import BigNumber from 'bignumber.js';
+import { address, Integer, INTEGERS } from '../../src';
+import { getDolomiteMargin } from '../helpers/DolomiteMargin';
+import { setupMarkets } from '../helpers/DolomiteMarginHelpers';
+import { resetEVM, snapshot } from '../helpers/EVM';
+import { expectRejection } from '../helpers/Expect';
+import { TestDolomiteMargin } from '../modules/TestDolomiteMargin';
+
+let dolomiteMargin: TestDolomiteMargin;
+let snapshotId: string;
+let owner: address;
+let otherOwner: address;
+let caller: address;
+
+const mainAccountNumber = INTEGERS.ZERO;
+const market1 = INTEGERS.ZERO;
+const market2 = INTEGERS.ONE;
+const market3 = new BigNumber(2);
+const mainWei = new BigNumber(1000);
+const collateralWei = new BigNumber(500);
+const borrowWei = new BigNumber(400);
+const price = new BigNumber('1e40');
+
+describe('BorrowPositionManager', () => {
+  before(async () => {
+    const r = await getDolomiteMargin();
+    dolomiteMargin = r.dolomiteMargin;
+    owner = r.accounts[2];
+    otherOwner = r.accounts[3];
+    caller = r.accounts[4];
+
+    await resetEVM();
+    await setupMarkets(dolomiteMargin, r.accounts);
+    await Promise.all([
+      dolomiteMargin.testing.setAccountBalance(owner, mainAccountNumber, market1, mainWei),
+      dolomiteMargin.testing.setAccountBalance(owner, mainAccountNumber, market2, mainWei),
+      dolomiteMargin.testing.setAccountBalance(owner, mainAccountNumber, market3, mainWei),
+      dolomiteMargin.borrowPositionProxyV2.setIsCallerAuthorized(caller, true, { from: r.accounts[0] }),
+    ]);
+
+    snapshotId = await snapshot();
+  });
+
+  beforeEach(async () => {
+    await resetEVM(snapshotId);
+  });
+
+  describe('#getUnusedAccountNumbers', () => {
+    it('Succeeds for skipping accounts with balances', async () => {
+      await dolomiteMargin.testing.setAccountBalance(owner, INTEGERS.ONE, market1, mainWei);
+      const accountNumbers = await dolomiteMargin.borrowPositionManager.getUnusedAccountNumbers(owner, 2);
+      expect(accountNumbers).to.eql([new BigNumber(2), new BigNumber(3)]);
+    });
+  });
+
+  describe('#openBorrowPosition', () => {
+    it('Succeeds for opening a position with several collateral markets', async () => {
+      const { borrowAccountNumber, results } = await dolomiteMargin.borrowPositionManager.openBorrowPosition(
+        owner,
+        mainAccountNumber,
+        [{ marketId: market1, amountWei: collateralWei }, { marketId: market2, amountWei: collateralWei }],
+      );
+      expect(borrowAccountNumber).to.eql(INTEGERS.ONE);
+      expect(results.length).to.eql(2);
+      await expectWei(owner, borrowAccountNumber, market1, collateralWei);
+      await expectWei(owner, borrowAccountNumber, market2, collateralWei);
+      await expectWei(owner, mainAccountNumber, market1, mainWei.minus(collateralWei));
+    });
+
+    it('Succeeds for opening a position for another owner', async () => {
+      const manager = dolomiteMargin.borrowPositionManager;
+      const { borrowAccountNumber } = await manager.openBorrowPositionWithDifferentAccounts(
+        owner,
+        mainAccountNumber,
+        otherOwner,
+        [{ marketId: market1, amountWei: collateralWei }],
+        undefined,
+        undefined,
+        { from: caller },
+      );
+      expect(borrowAccountNumber).to.eql(INTEGERS.ONE);
+      await expectWei(otherOwner, borrowAccountNumber, market1, collateralWei);
+    });
+  });
+
+  describe('#getBorrowPosition', () => {
+    it('Succeeds for reporting the health of a position', async () => {
+      const { borrowAccountNumber } = await openPositionWithDebt();
+      const [position, marginRatio] = await Promise.all([
+        dolomiteMargin.borrowPositionManager.getBorrowPosition(owner, borrowAccountNumber),
+        dolomiteMargin.getters.getMarginRatio(),
+      ]);
+
+      expect(position.collateral.map(({ marketId }) => marketId)).to.eql([market1, market2]);
+      expect(position.debt.map(({ marketId }) => marketId)).to.eql([market3]);
+      expect(position.collateralization).to.eql(new BigNumber(2.5));
+      expect(position.isLiquidatable).to.eql(false);
+      // Either collateral market alone covers the debt, so neither price can make the position liquidatable
+      expect(position.liquidationPrices[market1.toFixed()]).to.eql(null);
+      expect(position.liquidationPrices[market3.toFixed()]).to.eql(
+        collateralWei.times(2).times(price).div(marginRatio.plus(1)).div(borrowWei).integerValue(BigNumber.ROUND_DOWN),
+      );
+    });
+
+    it('Succeeds for empty accounts', async () => {
+      const position = await dolomiteMargin.borrowPositionManager.getBorrowPosition(owner, INTEGERS.ONE);
+      expect(position.collateral).to.eql([]);
+      expect(position.debt).to.eql([]);
+      expect(position.collateralization).to.eql(null);
+    });
+  });
+
+  describe('#closeBorrowPosition', () => {
+    it('Succeeds for repaying the debt and sweeping the collateral to the main account', async () => {
+      const { borrowAccountNumber } = await openPositionWithDebt();
+      await dolomiteMargin.borrowPositionManager.closeBorrowPosition(owner, borrowAccountNumber);
+
+      expect(await dolomiteMargin.getters.getAccountMarketsWithBalances(owner, borrowAccountNumber)).to.eql([]);
+      await expectWei(owner, mainAccountNumber, market1, mainWei);
+      await expectWei(owner, mainAccountNumber, market2, mainWei);
+      await expectWei(owner, mainAccountNumber, market3, mainWei.minus(borrowWei));
+    });
+
+    it('Fails for accounts without a position', async () => {
+      await expectRejection(
+        dolomiteMargin.borrowPositionManager.closeBorrowPosition(owner, INTEGERS.ONE),
+        `Account 1 of ${owner} has no position to close`,
+      );
+    });
+  });
+});
+
+async function openPositionWithDebt(): Promise<{ borrowAccountNumber: Integer }> {
+  const { borrowAccountNumber } = await dolomiteMargin.borrowPositionManager.openBorrowPosition(
+    owner,
+    mainAccountNumber,
+    [{ marketId: market1, amountWei: collateralWei }, { marketId: market2, amountWei: collateralWei }],
+  );
+  await dolomiteMargin.testing.setAccountBalance(owner, borrowAccountNumber, market3, borrowWei.negated());
+  return { borrowAccountNumber };
+}
+
+async function expectWei(accountOwner: address, accountNumber: Integer, marketId: Integer, amount: Integer) {
+  const wei = await dolomiteMargin.getters.getAccountWei(accountOwner, accountNumber, marketId);
+  expect(wei).to.eql(amount);
+}
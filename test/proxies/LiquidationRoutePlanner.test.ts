@@ -0,0 +1,384 @@
+import BigNumber from 'bignumber.js';
+import { ethers } from 'ethers';
+import * as testIsolationModeTokenJson from '../../build/contracts/TestIsolationModeToken.json';
+import * as testIsolationModeUnwrapperTraderV2Json from '../../build/contracts/TestIsolationModeUnwrapperTraderV2.json';
+import * as testIsolationModeWrapperTraderV2Json from '../../build/contracts/TestIsolationModeWrapperTraderV2.json';
+import { TestIsolationModeToken as TestIsolationModeTokenContract } from '../../build/testing_wrappers/TestIsolationModeToken';
+import { TestIsolationModeUnwrapperTraderV2 } from '../../build/testing_wrappers/TestIsolationModeUnwrapperTraderV2';
+import { TestIsolationModeWrapperTraderV2 } from '../../build/testing_wrappers/TestIsolationModeWrapperTraderV2';
+import { address, BalanceCheckFlag, Integer, INTEGERS } from '../../src';
+import { GenericTraderType } from '../../src/modules/GenericTraderProxyV1';
+import { IsolationModeConverter, LiquidationRoute } from '../../src/modules/LiquidationRoutePlanner';
+import { deployContract } from '../helpers/Deploy';
+import { getDolomiteMargin } from '../helpers/DolomiteMargin';
+import { setupMarkets } from '../helpers/DolomiteMarginHelpers';
+import { mineAvgBlock, resetEVM, snapshot } from '../helpers/EVM';
+import { expectRejection } from '../helpers/Expect';
+import { TestDolomiteMargin } from '../modules/TestDolomiteMargin';
+import { TestIsolationModeToken } from '../modules/TestIsolationModeToken';
+
+let dolomiteMargin: TestDolomiteMargin;
+let accounts: address[];
+let snapshotId: string;
+let admin: address;
+let liquidityProvider: address;
+let solidOwner: address;
+let liquidOwner: address;
+let token1: address;
+let token2: address;
+let token3: address;
+let pair12: address;
+let pair13: address;
+let unwrapperConverter: IsolationModeConverter;
+let wrapperConverter: IsolationModeConverter;
+let isolationModeToken: TestIsolationModeToken;
+
+const market1 = INTEGERS.ZERO;
+const market2 = INTEGERS.ONE;
+const market3 = new BigNumber(2);
+const market4 = new BigNumber(3); // isolation mode
+const liquidity = new BigNumber('1e30');
+const inputAmountWei = new BigNumber('1e18');
+const solidNumber = new BigNumber(111);
+const liquidNumber = new BigNumber(222);
+const heldWei = new BigNumber('1.1e18');
+const owedWei = new BigNumber('1e18');
+
+describe('LiquidationRoutePlanner', () => {
+  before(async () => {
+    const r = await getDolomiteMargin();
+    dolomiteMargin = r.dolomiteMargin;
+    accounts = r.accounts;
+    admin = accounts[0];
+    liquidityProvider = accounts[7];
+    solidOwner = accounts[3];
+    liquidOwner = accounts[4];
+
+    await resetEVM();
+    await setupMarkets(dolomiteMargin, accounts);
+    await setupIsolationModeMarket();
+
+    token1 = await dolomiteMargin.getters.getMarketTokenAddress(market1);
+    token2 = await dolomiteMargin.getters.getMarketTokenAddress(market2);
+    token3 = await dolomiteMargin.getters.getMarketTokenAddress(market3);
+
+    await dolomiteMargin.dolomiteAmmFactory.createPair(token1, token2);
+    await dolomiteMargin.dolomiteAmmFactory.createPair(token1, token3);
+    pair12 = await dolomiteMargin.dolomiteAmmFactory.getPair(token1, token2);
+    pair13 = await dolomiteMargin.dolomiteAmmFactory.getPair(token1, token3);
+
+    await addLiquidity(liquidityProvider, liquidity, liquidity.times(2), token1, token2);
+    await addLiquidity(liquidityProvider, liquidity, liquidity.times(3), token1, token3);
+
+    await mineAvgBlock();
+
+    snapshotId = await snapshot();
+  });
+
+  beforeEach(async () => {
+    await resetEVM(snapshotId);
+  });
+
+  describe('#planRoute with LiquidatorProxyV4WithGenericTrader#liquidate', () => {
+    it('Succeeds for liquidating through a Dolomite AMM pair', async () => {
+      await setUpLiquidAccount(market1, market2);
+      const route = await dolomiteMargin.liquidationRoutePlanner.planRoute(market1, market2, await getHeldWeiSeized());
+
+      await liquidate(route, route.inputAmountWei);
+      await expectLiquidated(route);
+    });
+
+    it('Succeeds for unwrapping the held isolation mode market', async () => {
+      await setUpLiquidAccount(market4, market2);
+      const route = await dolomiteMargin.liquidationRoutePlanner.planRoute(
+        market4,
+        market2,
+        await getHeldWeiSeized(),
+        { isolationModeConverters: [unwrapperConverter] },
+      );
+      expect(route.marketIdsPath).to.eql([market4, market1, market2]);
+      expect(route.tradersPath.map(trader => trader.traderType)).to.eql([
+        GenericTraderType.IsolationModeUnwrapper,
+        GenericTraderType.InternalLiquidity,
+      ]);
+
+      // Unwrapping requires selling all of the held market that's seized
+      await liquidate(route, INTEGERS.MAX_UINT);
+      await expectLiquidated(route);
+    });
+
+    it('Succeeds for wrapping into the owed isolation mode market', async () => {
+      await setUpLiquidAccount(market1, market4);
+      const route = await dolomiteMargin.liquidationRoutePlanner.planRoute(
+        market1,
+        market4,
+        await getHeldWeiSeized(),
+        { isolationModeConverters: [wrapperConverter] },
+      );
+      expect(route.marketIdsPath).to.eql([market1, market2, market4]);
+      expect(route.tradersPath.map(trader => trader.traderType)).to.eql([
+        GenericTraderType.InternalLiquidity,
+        GenericTraderType.IsolationModeWrapper,
+      ]);
+
+      await liquidate(route, route.inputAmountWei);
+      await expectLiquidated(route);
+    });
+
+    it('Fails when the unwrapper does not output the underlying market', async () => {
+      await expectRejection(
+        dolomiteMargin.liquidationRoutePlanner.planRoute(
+          market4,
+          market2,
+          inputAmountWei,
+          { isolationModeConverters: [{ ...unwrapperConverter, underlyingMarketId: market3 }] },
+        ),
+        'Invalid underlying market 2 for unwrapper of market 3',
+      );
+    });
+
+    it('Fails when the isolation mode token does not trust the unwrapper', async () => {
+      await isolationModeToken.setTokenConverterTrusted(unwrapperConverter.unwrapper, false);
+      await expectRejection(
+        dolomiteMargin.liquidationRoutePlanner.planRoute(
+          market4,
+          market2,
+          inputAmountWei,
+          { isolationModeConverters: [unwrapperConverter] },
+        ),
+        'Untrusted unwrapper for market 3',
+      );
+    });
+  });
+
+  describe('#planRoute', () => {
+    it('Succeeds for a direct pair', async () => {
+      const quote = await dolomiteMargin.dolomiteAmmRouterProxy.getDolomiteAmmAmountOut(inputAmountWei, token2, token1);
+      const route = await dolomiteMargin.liquidationRoutePlanner.planRoute(market2, market1, inputAmountWei);
+
+      expect(route.marketIdsPath).to.eql([market2, market1]);
+      expect(route.amountWeisPath).to.eql([inputAmountWei, quote]);
+      expect(route.inputAmountWei).to.eql(inputAmountWei);
+      expect(route.minOutputAmountWei).to.eql(quote.times('0.995').integerValue(BigNumber.ROUND_DOWN));
+      expect(route.makerAccounts).to.eql([{ owner: pair12, number: '0' }]);
+      expect(route.tradersPath).to.eql([
+        {
+          traderType: GenericTraderType.InternalLiquidity,
+          makerAccountIndex: 0,
+          trader: pair12,
+          tradeData: ethers.utils.defaultAbiCoder.encode(
+            ['uint256', 'bytes'],
+            [inputAmountWei.toFixed(), ethers.utils.defaultAbiCoder.encode(['uint256'], [quote.toFixed()])],
+          ),
+        },
+      ]);
+    });
+
+    it('Succeeds for quoting the pairs at a past block', async () => {
+      const blockNumber = await dolomiteMargin.web3.eth.getBlockNumber();
+      const quote = await dolomiteMargin.dolomiteAmmRouterProxy.getDolomiteAmmAmountOut(inputAmountWei, token2, token1);
+      await addLiquidity(liquidityProvider, liquidity, liquidity, token1, token2);
+
+      const route = await dolomiteMargin.liquidationRoutePlanner.planRoute(
+        market2,
+        market1,
+        inputAmountWei,
+        {},
+        { blockNumber },
+      );
+      expect(route.amountWeisPath).to.eql([inputAmountWei, quote]);
+      expect(
+        await dolomiteMargin.liquidationRoutePlanner.planRoute(market2, market1, inputAmountWei),
+      ).to.not.eql(route);
+    });
+
+    it('Succeeds for an intermediate market', async () => {
+      const quotes = await dolomiteMargin.dolomiteAmmRouterProxy.getDolomiteAmmAmountsOutWithPath(
+        inputAmountWei,
+        [token2, token1, token3],
+      );
+      const route = await dolomiteMargin.liquidationRoutePlanner.planRoute(
+        market2,
+        market3,
+        inputAmountWei,
+        { slippageTolerance: new BigNumber('0.01'), intermediateMarketIds: [market1] },
+      );
+
+      expect(route.marketIdsPath).to.eql([market2, market1, market3]);
+      expect(route.amountWeisPath).to.eql(quotes);
+      expect(route.minOutputAmountWei).to.eql(quotes[2].times('0.99').integerValue(BigNumber.ROUND_DOWN));
+      expect(route.makerAccounts).to.eql([{ owner: pair12, number: '0' }, { owner: pair13, number: '0' }]);
+      expect(route.tradersPath.map(trader => trader.makerAccountIndex)).to.eql([0, 1]);
+    });
+
+    it('Fails when there is no route', async () => {
+      await expectRejection(
+        dolomiteMargin.liquidationRoutePlanner.planRoute(market2, market3, inputAmountWei),
+        'No route found from market 1 to market 2',
+      );
+    });
+
+    it('Fails when the held and owed markets are the same', async () => {
+      await expectRejection(
+        dolomiteMargin.liquidationRoutePlanner.planRoute(market1, market1, inputAmountWei),
+        'Held market and owed market cannot be the same',
+      );
+    });
+
+    it('Fails when the slippage tolerance is invalid', async () => {
+      await expectRejection(
+        dolomiteMargin.liquidationRoutePlanner.planRoute(
+          market2,
+          market1,
+          inputAmountWei,
+          { slippageTolerance: INTEGERS.ONE },
+        ),
+        'Invalid slippage tolerance: 1',
+      );
+    });
+
+    it('Fails when the liquidator is not whitelisted', async () => {
+      await dolomiteMargin.liquidatorAssetRegistry.addLiquidatorToAssetWhitelist(
+        market2,
+        dolomiteMargin.contracts.liquidatorProxyV1.options.address,
+        { from: admin },
+      );
+      await expectRejection(
+        dolomiteMargin.liquidationRoutePlanner.planRoute(market2, market1, inputAmountWei),
+        'LiquidatorProxyV4WithGenericTrader is not whitelisted for market 1',
+      );
+    });
+  });
+});
+
+async function setupIsolationModeMarket() {
+  const rawTokenContract = await deployContract<TestIsolationModeTokenContract>(
+    dolomiteMargin,
+    testIsolationModeTokenJson,
+    ['Dolomite Isolation: Test Token 4', 'TEST4', 18],
+  );
+  const tokenContract = new TestIsolationModeToken(dolomiteMargin.contracts, dolomiteMargin.token, rawTokenContract);
+  isolationModeToken = tokenContract;
+  await dolomiteMargin.testing.priceOracle.setPrice(tokenContract.address, new BigNumber('1e40'));
+  await dolomiteMargin.admin.addMarket(
+    tokenContract.address,
+    dolomiteMargin.testing.priceOracle.address,
+    dolomiteMargin.testing.interestSetter.address,
+    INTEGERS.ZERO,
+    INTEGERS.ZERO,
+    INTEGERS.ZERO,
+    false,
+    false,
+    { from: admin },
+  );
+
+  // The unwrapper outputs the first market and the wrapper accepts the second one, which the AMM pair trades between
+  const unwrapper = await deployContract<TestIsolationModeUnwrapperTraderV2>(
+    dolomiteMargin,
+    testIsolationModeUnwrapperTraderV2Json,
+    [tokenContract.address, dolomiteMargin.testing.tokenA.address, dolomiteMargin.address],
+  );
+  const wrapper = await deployContract<TestIsolationModeWrapperTraderV2>(
+    dolomiteMargin,
+    testIsolationModeWrapperTraderV2Json,
+    [dolomiteMargin.testing.tokenB.address, tokenContract.address, dolomiteMargin.address],
+  );
+  await Promise.all([
+    tokenContract.setTokenConverterTrusted(unwrapper.options.address, true),
+    tokenContract.setTokenConverterTrusted(wrapper.options.address, true),
+    dolomiteMargin.contracts.callContractFunction(unwrapper.methods.setVault(liquidOwner, true)),
+    tokenContract.issueTo(heldWei.times(10), dolomiteMargin.address),
+    dolomiteMargin.testing.tokenA.issueTo(heldWei.times(10), dolomiteMargin.address),
+    dolomiteMargin.testing.tokenB.issueTo(heldWei.times(10), dolomiteMargin.address),
+  ]);
+
+  unwrapperConverter = {
+    marketId: market4,
+    underlyingMarketId: market1,
+    unwrapper: unwrapper.options.address,
+    wrapper: wrapper.options.address,
+  };
+  wrapperConverter = { ...unwrapperConverter, underlyingMarketId: market2 };
+}
+
+async function setUpLiquidAccount(heldMarketId: Integer, owedMarketId: Integer) {
+  await Promise.all([
+    dolomiteMargin.testing.setAccountBalance(liquidOwner, liquidNumber, heldMarketId, heldWei),
+    dolomiteMargin.testing.setAccountBalance(liquidOwner, liquidNumber, owedMarketId, owedWei.negated()),
+  ]);
+}
+
+/**
+ * All markets have the same price, so the whole debt is repaid by seizing it plus the liquidation reward
+ */
+async function getHeldWeiSeized(): Promise<Integer> {
+  const liquidationSpread = await dolomiteMargin.getters.getLiquidationSpread();
+  return owedWei.times(liquidationSpread.plus(1)).integerValue(BigNumber.ROUND_DOWN);
+}
+
+async function liquidate(route: LiquidationRoute, liquidationInputAmountWei: Integer) {
+  await dolomiteMargin.liquidatorProxyV4WithGenericTrader.liquidate(
+    solidOwner,
+    solidNumber,
+    liquidOwner,
+    liquidNumber,
+    route.marketIdsPath,
+    liquidationInputAmountWei,
+    route.minOutputAmountWei,
+    route.tradersPath,
+    route.makerAccounts,
+    null,
+    { from: solidOwner },
+  );
+}
+
+async function expectLiquidated(route: LiquidationRoute) {
+  const heldMarketId = route.marketIdsPath[0];
+  const owedMarketId = route.marketIdsPath[route.marketIdsPath.length - 1];
+  const outputAmountWei = route.amountWeisPath[route.amountWeisPath.length - 1];
+  const [liquidHeldWei, liquidOwedWei, solidBalances] = await Promise.all([
+    dolomiteMargin.getters.getAccountWei(liquidOwner, liquidNumber, heldMarketId),
+    dolomiteMargin.getters.getAccountWei(liquidOwner, liquidNumber, owedMarketId),
+    Promise.all(route.marketIdsPath.map(marketId =>
+      dolomiteMargin.getters.getAccountWei(solidOwner, solidNumber, marketId),
+    )),
+  ]);
+
+  expect(liquidHeldWei).to.eql(heldWei.minus(route.inputAmountWei));
+  expect(liquidOwedWei).to.eql(INTEGERS.ZERO);
+  // Everything that's seized is sold, and the solid account keeps what's left of the output after repaying the debt
+  expect(solidBalances).to.eql([
+    ...route.marketIdsPath.slice(0, -1).map(() => INTEGERS.ZERO),
+    outputAmountWei.minus(owedWei),
+  ]);
+}
+
+async function addLiquidity(
+  walletAddress: address,
+  amountADesired: BigNumber,
+  amountBDesired: BigNumber,
+  tokenA: address,
+  tokenB: address,
+) {
+  const marketIdA = await dolomiteMargin.getters.getMarketIdByTokenAddress(tokenA);
+  const marketIdB = await dolomiteMargin.getters.getMarketIdByTokenAddress(tokenB);
+  const accountNumber = INTEGERS.ZERO;
+  await Promise.all([
+    dolomiteMargin.testing.setAccountBalance(walletAddress, accountNumber, marketIdA, amountADesired),
+    dolomiteMargin.testing.setAccountBalance(walletAddress, accountNumber, marketIdB, amountBDesired),
+  ]);
+
+  return dolomiteMargin.dolomiteAmmRouterProxy.addLiquidity(
+    walletAddress,
+    INTEGERS.ZERO,
+    tokenA,
+    tokenB,
+    amountADesired,
+    amountBDesired,
+    INTEGERS.ONE,
+    INTEGERS.ONE,
+    new BigNumber('123456789123'),
+    BalanceCheckFlag.Both,
+    { from: walletAddress },
+  );
+}
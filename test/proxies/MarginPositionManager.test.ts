@@ -0,0 +1,277 @@
+import BigNumber from 'bignumber.js';
+import { address, BalanceCheckFlag, Integer, INTEGERS } from '../../src';
+import { GenericTraderParam, GenericTraderType } from '../../src/modules/GenericTraderProxyV1';
+import { getDolomiteMargin } from '../helpers/DolomiteMargin';
+import { setupMarkets } from '../helpers/DolomiteMarginHelpers';
+import { resetEVM, snapshot } from '../helpers/EVM';
+import { expectRejection } from '../helpers/Expect';
+import { TestDolomiteMargin } from '../modules/TestDolomiteMargin';
+
+let dolomiteMargin: TestDolomiteMargin;
+let snapshotId: string;
+let owner: address;
+let tokens: address[];
+let liquidityProvider: address;
+
+const mainAccountNumber = INTEGERS.ZERO;
+const positionAccountNumber = INTEGERS.ONE;
+const collateralMarket = INTEGERS.ZERO;
+const borrowMarket = INTEGERS.ONE;
+const longMarket = new BigNumber(2);
+const mainWei = new BigNumber(5000);
+const collateralWei = new BigNumber(1000);
+const leverage = new BigNumber(3);
+const borrowWei = new BigNumber(2000);
+const price = new BigNumber('1e40');
+const deadline = 123123123123;
+const liquidity = new BigNumber('1e30');
+
+describe('MarginPositionManager', () => {
+  before(async () => {
+    const r = await getDolomiteMargin();
+    dolomiteMargin = r.dolomiteMargin;
+    owner = r.accounts[2];
+    liquidityProvider = r.accounts[7];
+    tokens = [
+      dolomiteMargin.testing.tokenA.address,
+      dolomiteMargin.testing.tokenB.address,
+      dolomiteMargin.testing.tokenC.address,
+    ];
+
+    await resetEVM();
+    await setupMarkets(dolomiteMargin, r.accounts);
+    await Promise.all([
+      dolomiteMargin.testing.tokenA.issueTo(mainWei.times(10), dolomiteMargin.address),
+      dolomiteMargin.testing.tokenB.issueTo(mainWei.times(10), dolomiteMargin.address),
+      dolomiteMargin.testing.tokenC.issueTo(mainWei.times(10), dolomiteMargin.address),
+      dolomiteMargin.testing.setAccountBalance(owner, mainAccountNumber, collateralMarket, mainWei),
+      dolomiteMargin.testing.setAccountBalance(owner, mainAccountNumber, borrowMarket, mainWei),
+    ]);
+    await dolomiteMargin.dolomiteAmmFactory.createPair(tokens[1], tokens[2]);
+    await addLiquidity();
+
+    snapshotId = await snapshot();
+  });
+
+  beforeEach(async () => {
+    await resetEVM(snapshotId);
+    await dolomiteMargin.swapRouteQuoter.refreshAmmPairs();
+  });
+
+  describe('#getOpenMarginPositionQuote', () => {
+    it('Succeeds for computing the borrow amount and liquidation price', async () => {
+      const [quote, marginRatio] = await Promise.all([
+        dolomiteMargin.marginPositionManager.getOpenMarginPositionQuote(owner, {
+          leverage,
+          collateralMarketId: collateralMarket,
+          collateralAmountWei: collateralWei,
+          borrowMarketId: borrowMarket,
+          longMarketId: longMarket,
+        }),
+        dolomiteMargin.getters.getMarginRatio(),
+      ]);
+
+      expect(quote.positionAccountNumber).to.eql(positionAccountNumber);
+      expect(quote.borrowAmountWei).to.eql(borrowWei);
+      expect(quote.outputAmountWei).to.eql(borrowWei);
+      expect(quote.isLiquidatable).to.eql(false);
+      // The collateral covers the part of the required supply the long market doesn't
+      expect(quote.liquidationPrice).to.eql(
+        borrowWei.times(price).times(marginRatio.plus(1))
+          .minus(collateralWei.times(price))
+          .div(borrowWei)
+          .integerValue(BigNumber.ROUND_DOWN),
+      );
+    });
+
+    it('Fails for borrowing the collateral market', async () => {
+      await expectRejection(
+        dolomiteMargin.marginPositionManager.getOpenMarginPositionQuote(owner, {
+          leverage,
+          collateralMarketId: collateralMarket,
+          collateralAmountWei: collateralWei,
+          borrowMarketId: collateralMarket,
+          longMarketId: longMarket,
+        }),
+        'The borrowed market cannot be the collateral market',
+      );
+    });
+  });
+
+  describe('#openMarginPosition', () => {
+    it('Succeeds for routing the trade through the Dolomite AMM', async () => {
+      const outputWei = await dolomiteMargin.dolomiteAmmRouterProxy.getDolomiteAmmAmountOut(
+        borrowWei,
+        tokens[1],
+        tokens[2],
+      );
+      const { quote } = await dolomiteMargin.marginPositionManager.openMarginPosition(owner, {
+        leverage,
+        deadline,
+        collateralMarketId: collateralMarket,
+        collateralAmountWei: collateralWei,
+        borrowMarketId: borrowMarket,
+        longMarketId: longMarket,
+      });
+
+      expect(quote.borrowAmountWei).to.eql(borrowWei);
+      expect(quote.outputAmountWei).to.eql(outputWei.times('0.995').integerValue(BigNumber.ROUND_DOWN));
+      await expectWei(owner, positionAccountNumber, collateralMarket, collateralWei);
+      await expectWei(owner, positionAccountNumber, borrowMarket, borrowWei.negated());
+      await expectWei(owner, positionAccountNumber, longMarket, outputWei);
+    });
+
+    it('Succeeds for borrowing, trading and depositing the collateral at once', async () => {
+      await openPosition();
+
+      await expectWei(owner, positionAccountNumber, collateralMarket, collateralWei);
+      await expectWei(owner, positionAccountNumber, borrowMarket, borrowWei.negated());
+      await expectWei(owner, positionAccountNumber, longMarket, borrowWei);
+      await expectWei(owner, mainAccountNumber, collateralMarket, mainWei.minus(collateralWei));
+    });
+
+    it('Fails when the position would be liquidatable once opened', async () => {
+      await expectRejection(
+        dolomiteMargin.marginPositionManager.openMarginPosition(owner, {
+          leverage,
+          deadline,
+          collateralMarketId: collateralMarket,
+          collateralAmountWei: collateralWei,
+          borrowMarketId: borrowMarket,
+          longMarketId: longMarket,
+          minOutputAmountWei: borrowWei.div(2),
+          traderParams: [getParaswapTraderParam(borrowMarket, longMarket, borrowWei, borrowWei.div(2))],
+        }),
+        'The margin position would be liquidatable once opened',
+      );
+    });
+
+    it('Fails for trader params without a minimum output amount', async () => {
+      await expectRejection(
+        dolomiteMargin.marginPositionManager.openMarginPosition(owner, {
+          leverage,
+          deadline,
+          collateralMarketId: collateralMarket,
+          collateralAmountWei: collateralWei,
+          borrowMarketId: borrowMarket,
+          longMarketId: longMarket,
+          traderParams: [getParaswapTraderParam(borrowMarket, longMarket, borrowWei, borrowWei)],
+        }),
+        'The minimum output amount must be given with trader params',
+      );
+    });
+  });
+
+  describe('#closeMarginPosition', () => {
+    it('Succeeds for routing the sale of the whole long balance through the Dolomite AMM', async () => {
+      await openPosition();
+      const outputWei = await dolomiteMargin.dolomiteAmmRouterProxy.getDolomiteAmmAmountOut(
+        borrowWei,
+        tokens[2],
+        tokens[1],
+      );
+      await dolomiteMargin.marginPositionManager.closeMarginPosition(owner, {
+        positionAccountNumber,
+        deadline,
+        borrowMarketId: borrowMarket,
+        longMarketId: longMarket,
+      });
+
+      expect(await dolomiteMargin.getters.getAccountMarketsWithBalances(owner, positionAccountNumber)).to.eql([]);
+      await expectWei(owner, mainAccountNumber, collateralMarket, mainWei);
+      // The part of the debt the sale doesn't cover is repaid from the main account
+      await expectWei(owner, mainAccountNumber, borrowMarket, mainWei.minus(borrowWei.minus(outputWei)));
+    });
+
+    it('Succeeds for selling the long market and returning the collateral', async () => {
+      await openPosition();
+      const surplusWei = new BigNumber(100);
+      await dolomiteMargin.marginPositionManager.closeMarginPosition(owner, {
+        positionAccountNumber,
+        deadline,
+        borrowMarketId: borrowMarket,
+        longMarketId: longMarket,
+        minOutputAmountWei: borrowWei.plus(surplusWei),
+        traderParams: [getParaswapTraderParam(longMarket, borrowMarket, borrowWei, borrowWei.plus(surplusWei))],
+      });
+
+      expect(await dolomiteMargin.getters.getAccountMarketsWithBalances(owner, positionAccountNumber)).to.eql([]);
+      await expectWei(owner, mainAccountNumber, collateralMarket, mainWei);
+      await expectWei(owner, mainAccountNumber, borrowMarket, mainWei.plus(surplusWei));
+    });
+
+    it('Fails for accounts without a position', async () => {
+      await expectRejection(
+        dolomiteMargin.marginPositionManager.closeMarginPosition(owner, {
+          positionAccountNumber,
+          deadline,
+          borrowMarketId: borrowMarket,
+          longMarketId: longMarket,
+          minOutputAmountWei: borrowWei,
+          traderParams: [getParaswapTraderParam(longMarket, borrowMarket, borrowWei, borrowWei)],
+        }),
+        `Account 1 of ${owner} has no position to close`,
+      );
+    });
+  });
+});
+
+async function openPosition() {
+  await dolomiteMargin.marginPositionManager.openMarginPosition(owner, {
+    leverage,
+    deadline,
+    collateralMarketId: collateralMarket,
+    collateralAmountWei: collateralWei,
+    borrowMarketId: borrowMarket,
+    longMarketId: longMarket,
+    minOutputAmountWei: borrowWei,
+    traderParams: [getParaswapTraderParam(borrowMarket, longMarket, borrowWei, borrowWei)],
+  });
+}
+
+async function addLiquidity() {
+  await Promise.all([
+    dolomiteMargin.testing.setAccountBalance(liquidityProvider, INTEGERS.ZERO, borrowMarket, liquidity),
+    dolomiteMargin.testing.setAccountBalance(liquidityProvider, INTEGERS.ZERO, longMarket, liquidity),
+  ]);
+  await dolomiteMargin.dolomiteAmmRouterProxy.addLiquidity(
+    liquidityProvider,
+    INTEGERS.ZERO,
+    tokens[1],
+    tokens[2],
+    liquidity,
+    liquidity,
+    INTEGERS.ONE,
+    INTEGERS.ONE,
+    new BigNumber('123456789123'),
+    BalanceCheckFlag.Both,
+    { from: liquidityProvider },
+  );
+}
+
+function getParaswapTraderParam(
+  marketIn: Integer,
+  marketOut: Integer,
+  amountIn: Integer,
+  amountOut: Integer,
+): GenericTraderParam {
+  const calldata = dolomiteMargin.contracts.testParaswapAugustusRouter.methods
+    .call(
+      tokens[marketIn.toNumber()],
+      amountIn.toFixed(),
+      tokens[marketOut.toNumber()],
+      amountOut.toFixed(),
+    )
+    .encodeABI();
+  return {
+    traderType: GenericTraderType.ExternalLiquidity,
+    makerAccountIndex: 0,
+    trader: dolomiteMargin.contracts.testParaswapTrader.options.address,
+    tradeData: calldata,
+  };
+}
+
+async function expectWei(accountOwner: address, accountNumber: Integer, marketId: Integer, amount: Integer) {
+  const wei = await dolomiteMargin.getters.getAccountWei(accountOwner, accountNumber, marketId);
+  expect(wei).to.eql(amount);
+}
@@ -0,0 +1,181 @@
+import BigNumber from 'bignumber.js';
+import {
+  address,
+  ADDRESSES,
+  INTEGERS,
+  ProxyType,
+  SignedOperation,
+  SigningMethod,
+  TxResult,
+} from '../../src';
+import { getDolomiteMargin } from '../helpers/DolomiteMargin';
+import { setupMarkets } from '../helpers/DolomiteMarginHelpers';
+import { resetEVM, snapshot } from '../helpers/EVM';
+import { expectThrow } from '../helpers/Expect';
+import { TestDolomiteMargin } from '../modules/TestDolomiteMargin';
+
+let dolomiteMargin: TestDolomiteMargin;
+let snapshotId: string;
+let sender: address;
+let signer: address;
+let rando: address;
+
+const accountNumber = INTEGERS.ZERO;
+const borrowAccountNumber = new BigNumber(123);
+const collateralMarket = INTEGERS.ZERO;
+const borrowMarket = INTEGERS.ONE;
+const par = new BigNumber('1e18');
+
+describe('SignedActions', () => {
+  before(async () => {
+    const r = await getDolomiteMargin();
+    dolomiteMargin = r.dolomiteMargin;
+    sender = r.accounts[5];
+    signer = r.accounts[6];
+    rando = r.accounts[7];
+
+    await resetEVM();
+    await setupMarkets(dolomiteMargin, r.accounts);
+    await Promise.all([
+      dolomiteMargin.testing.setAccountBalance(signer, accountNumber, collateralMarket, par),
+      dolomiteMargin.testing.tokenA.issueTo(par, dolomiteMargin.address),
+    ]);
+
+    snapshotId = await snapshot();
+  });
+
+  beforeEach(async () => {
+    await resetEVM(snapshotId);
+  });
+
+  describe('#signWithdraw', () => {
+    it('Succeeds for withdrawing the whole balance', async () => {
+      const signedOperation = await dolomiteMargin.signedActions.signWithdraw(
+        {
+          accountNumber,
+          accountOwner: signer,
+          marketId: collateralMarket,
+        },
+        { signingMethod: SigningMethod.Hash },
+      );
+      expect(signedOperation.signer).to.eql(signer);
+      expect(signedOperation.sender).to.eql(ADDRESSES.ZERO);
+      expect(signedOperation.expiration).to.eql(INTEGERS.ZERO);
+      expect(dolomiteMargin.signedOperations.operationHasValidSignature(signedOperation)).to.eql(true);
+
+      await relay(signedOperation);
+      expect(await dolomiteMargin.getters.getAccountPar(signer, accountNumber, collateralMarket)).to.eql(
+        INTEGERS.ZERO,
+      );
+      expect(await dolomiteMargin.testing.tokenA.getBalance(signer)).to.eql(par);
+    });
+
+    it('Succeeds for signing the same withdraw twice with different salts', async () => {
+      const args = { accountNumber, accountOwner: signer, marketId: collateralMarket, amount: par.div(2) };
+      const [signedOperation1, signedOperation2] = await Promise.all([
+        dolomiteMargin.signedActions.signWithdraw(args, { signingMethod: SigningMethod.Hash }),
+        dolomiteMargin.signedActions.signWithdraw(args, { signingMethod: SigningMethod.Hash }),
+      ]);
+      expect(signedOperation1.salt).to.not.eql(signedOperation2.salt);
+    });
+
+    it('Fails for a sender other than the one set', async () => {
+      const signedOperation = await dolomiteMargin.signedActions.signWithdraw(
+        {
+          accountNumber,
+          accountOwner: signer,
+          marketId: collateralMarket,
+        },
+        { sender, signingMethod: SigningMethod.Hash },
+      );
+      await expectThrow(relay(signedOperation, rando), 'SignedOperationProxy: Operation sender mismatch');
+    });
+  });
+
+  describe('#signTransfer', () => {
+    it('Succeeds', async () => {
+      const signedOperation = await dolomiteMargin.signedActions.signTransfer(
+        {
+          accountOwner: signer,
+          fromAccountNumber: accountNumber,
+          toAccountNumber: borrowAccountNumber,
+          marketId: collateralMarket,
+          amount: par.div(4),
+        },
+        { signingMethod: SigningMethod.TypedData },
+      );
+      await relay(signedOperation);
+
+      const [fromWei, toWei] = await Promise.all([
+        dolomiteMargin.getters.getAccountWei(signer, accountNumber, collateralMarket),
+        dolomiteMargin.getters.getAccountWei(signer, borrowAccountNumber, collateralMarket),
+      ]);
+      expect(fromWei.plus(toWei)).to.eql(par);
+      expect(toWei).to.eql(par.div(4));
+    });
+  });
+
+  describe('#signOpenBorrowPosition and #signCloseBorrowPosition', () => {
+    it('Succeeds', async () => {
+      const openOperation = await dolomiteMargin.signedActions.signOpenBorrowPosition(
+        {
+          borrowAccountNumber,
+          accountOwner: signer,
+          fromAccountNumber: accountNumber,
+          collateralMarketId: collateralMarket,
+          amount: par.div(2),
+        },
+        { signingMethod: SigningMethod.Hash },
+      );
+      await relay(openOperation);
+      expect(await dolomiteMargin.getters.getAccountWei(signer, borrowAccountNumber, collateralMarket)).to.eql(
+        par.div(2),
+      );
+
+      const closeOperation = await dolomiteMargin.signedActions.signCloseBorrowPosition(
+        {
+          borrowAccountNumber,
+          accountOwner: signer,
+          toAccountNumber: accountNumber,
+          collateralMarketIds: [collateralMarket],
+        },
+        { signingMethod: SigningMethod.Hash },
+      );
+      await relay(closeOperation);
+      expect(await dolomiteMargin.getters.getAccountPar(signer, borrowAccountNumber, collateralMarket)).to.eql(
+        INTEGERS.ZERO,
+      );
+      expect(await dolomiteMargin.getters.getAccountPar(signer, accountNumber, collateralMarket)).to.eql(par);
+    });
+  });
+
+  describe('#signSetExpiry', () => {
+    it('Succeeds', async () => {
+      await Promise.all([
+        dolomiteMargin.testing.setAccountBalance(signer, borrowAccountNumber, collateralMarket, par),
+        dolomiteMargin.testing.setAccountBalance(signer, borrowAccountNumber, borrowMarket, par.div(-10)),
+      ]);
+      const signedOperation = await dolomiteMargin.signedActions.signSetExpiry(
+        {
+          accountOwner: signer,
+          accountNumber: borrowAccountNumber,
+          marketId: borrowMarket,
+          timeDelta: new BigNumber(3600),
+        },
+        { signingMethod: SigningMethod.Hash },
+      );
+      const txResult = await relay(signedOperation);
+      const { timestamp } = await dolomiteMargin.web3.eth.getBlock(txResult.blockNumber);
+      expect(await dolomiteMargin.expiry.getExpiry(signer, borrowAccountNumber, borrowMarket)).to.eql(
+        new BigNumber(timestamp).plus(3600),
+      );
+    });
+  });
+});
+
+async function relay(signedOperation: SignedOperation, from: address = sender): Promise<TxResult> {
+  return dolomiteMargin.operation
+    .initiate({ proxy: ProxyType.Signed })
+    .addSignedOperation(signedOperation)
+    .commit({ from });
+}
@@ -0,0 +1,185 @@
+import BigNumber from 'bignumber.js';
+import {
+  address,
+  INTEGERS,
+  ProxyType,
+  SignedOperation,
+  SignedOperationStatus,
+  SigningMethod,
+} from '../../src';
+import { SignedOperationManager } from '../../src/modules/SignedOperationManager';
+import { getDolomiteMargin } from '../helpers/DolomiteMargin';
+import { setupMarkets } from '../helpers/DolomiteMarginHelpers';
+import { mineAvgBlock, resetEVM, snapshot } from '../helpers/EVM';
+import { TestDolomiteMargin } from '../modules/TestDolomiteMargin';
+
+let dolomiteMargin: TestDolomiteMargin;
+let snapshotId: string;
+let sender: address;
+let signer: address;
+let manager: SignedOperationManager;
+
+const accountNumber = INTEGERS.ZERO;
+const toAccountNumber = INTEGERS.ONE;
+const market = INTEGERS.ZERO;
+const par = new BigNumber('1e18');
+
+describe('SignedOperationManager', () => {
+  before(async () => {
+    const r = await getDolomiteMargin();
+    dolomiteMargin = r.dolomiteMargin;
+    sender = r.accounts[5];
+    signer = r.accounts[6];
+
+    await resetEVM();
+    await setupMarkets(dolomiteMargin, r.accounts);
+    await dolomiteMargin.testing.setAccountBalance(signer, accountNumber, market, par);
+
+    snapshotId = await snapshot();
+  });
+
+  beforeEach(async () => {
+    await resetEVM(snapshotId);
+    manager = new SignedOperationManager(
+      dolomiteMargin.contracts,
+      dolomiteMargin.signedOperations,
+      dolomiteMargin.multiCall,
+    );
+  });
+
+  describe('#getNextSalt', () => {
+    it('Succeeds for deriving salts from the nonce of each signer', async () => {
+      const salt0 = manager.getNextSalt(signer);
+      const salt1 = manager.getNextSalt(signer);
+      expect(salt0).to.not.eql(salt1);
+      expect(manager.getNonce(signer)).to.eql(2);
+      expect(manager.getNonce(sender)).to.eql(0);
+      expect(manager.getNextSalt(sender)).to.not.eql(salt0);
+
+      const resumedManager = new SignedOperationManager(
+        dolomiteMargin.contracts,
+        dolomiteMargin.signedOperations,
+        dolomiteMargin.multiCall,
+      );
+      resumedManager.setNonce(signer, 1);
+      expect(resumedManager.getNextSalt(signer.toLowerCase())).to.eql(salt1);
+    });
+  });
+
+  describe('#getOperationStatus', () => {
+    it('Succeeds for each status', async () => {
+      const [validOperation, executedOperation, canceledOperation] = await Promise.all([
+        signTransfer(),
+        signTransfer(),
+        signTransfer(),
+      ]);
+      const expiredOperation = await signTransfer(INTEGERS.ONE);
+
+      await dolomiteMargin.operation
+        .initiate({ proxy: ProxyType.Signed })
+        .addSignedOperation(executedOperation)
+        .commit({ from: sender });
+      await dolomiteMargin.signedOperations.cancelOperation(canceledOperation);
+
+      expect(await manager.getOperationStatus(validOperation)).to.eql(SignedOperationStatus.Valid);
+      expect(
+        await manager.getOperationStatuses([expiredOperation, executedOperation, canceledOperation]),
+      ).to.eql([
+        SignedOperationStatus.Expired,
+        SignedOperationStatus.Executed,
+        SignedOperationStatus.Canceled,
+      ]);
+    });
+
+    it('Succeeds for reading the statuses at a past block', async () => {
+      const operation = await signTransfer();
+      const { blockNumber } = await dolomiteMargin.operation
+        .initiate({ proxy: ProxyType.Signed })
+        .addSignedOperation(operation)
+        .commit({ from: sender });
+
+      expect(await manager.getOperationStatus(operation, { blockNumber: blockNumber - 1 })).to.eql(
+        SignedOperationStatus.Valid,
+      );
+      expect(await manager.getOperationStatus(operation, { blockNumber })).to.eql(SignedOperationStatus.Executed);
+    });
+
+    it('Succeeds for reporting operations that became invalid before the searched blocks as unknown', async () => {
+      const operation = await signTransfer();
+      const { blockNumber } = await dolomiteMargin.operation
+        .initiate({ proxy: ProxyType.Signed })
+        .addSignedOperation(operation)
+        .commit({ from: sender });
+      await mineAvgBlock();
+
+      expect(await manager.getOperationStatus(operation, { fromBlock: blockNumber + 1 })).to.eql(
+        SignedOperationStatus.Unknown,
+      );
+    });
+  });
+
+  describe('#cancelOperations', () => {
+    it('Succeeds for returning the partial results when a cancel throws', async () => {
+      const signedOperations = await Promise.all([signTransfer(), signTransfer(undefined, sender), signTransfer()]);
+      signedOperations.forEach(operation => manager.track(operation));
+
+      const { txResults, remainingOperations, error } = await manager.cancelOperations(
+        signedOperations,
+        { from: signer },
+      );
+      expect(txResults.length).to.eql(1);
+      expect(remainingOperations).to.eql(signedOperations.slice(1));
+      expect(error.message).to.contain('Canceler must be signer');
+      expect(await manager.getOperationStatuses(signedOperations)).to.eql([
+        SignedOperationStatus.Canceled,
+        SignedOperationStatus.Valid,
+        SignedOperationStatus.Valid,
+      ]);
+      expect(manager.getOutstandingOperations()).to.eql(signedOperations.slice(1));
+    });
+  });
+
+  describe('#cancelOutstandingOperations', () => {
+    it('Succeeds for canceling every valid tracked operation', async () => {
+      const signedOperations = await Promise.all([signTransfer(), signTransfer(), signTransfer()]);
+      const operationHashes = signedOperations.map(operation => manager.track(operation));
+      await dolomiteMargin.operation
+        .initiate({ proxy: ProxyType.Signed })
+        .addSignedOperation(signedOperations[0])
+        .commit({ from: sender });
+
+      const { txResults, remainingOperations, error } = await manager.cancelOutstandingOperations(signer);
+      expect(txResults.length).to.eql(2);
+      expect(remainingOperations).to.eql([]);
+      expect(error).to.eql(null);
+      expect(await manager.getOperationStatuses(signedOperations)).to.eql([
+        SignedOperationStatus.Executed,
+        SignedOperationStatus.Canceled,
+        SignedOperationStatus.Canceled,
+      ]);
+      expect(manager.getOutstandingOperations()).to.eql([signedOperations[0]]);
+
+      expect(await manager.pruneOperations()).to.eql([
+        { operationHash: operationHashes[0], status: SignedOperationStatus.Executed },
+      ]);
+      expect(manager.getOutstandingOperations()).to.eql([]);
+    });
+  });
+});
+
+async function signTransfer(expiration?: BigNumber, accountOwner: address = signer): Promise<SignedOperation> {
+  return dolomiteMargin.signedActions.signTransfer(
+    {
+      toAccountNumber,
+      accountOwner,
+      fromAccountNumber: accountNumber,
+      marketId: market,
+      amount: new BigNumber(1),
+    },
+    {
+      expiration,
+      salt: manager.getNextSalt(accountOwner),
+      signingMethod: SigningMethod.Hash,
+    },
+  );
+}
@@ -0,0 +1,292 @@
+import testContractWalletJson from '../../build/contracts/TestContractWallet.json';
+import { TestContractWallet } from '../../build/testing_wrappers/TestContractWallet';
+import axios from 'axios';
+import BigNumber from 'bignumber.js';
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  address,
+  AmountDenomination,
+  AmountReference,
+  INTEGERS,
+  Operation,
+  PrivateKeySigningProvider,
+  SignedOperation,
+  SigningMethod,
+} from '../../src';
+import { createContractTypedSignature } from '../../src/lib/SignatureHelper';
+import { SignedOperationRelayer } from '../../src/modules/SignedOperationRelayer';
+import { SignedOperationRelayerServer } from '../../src/modules/SignedOperationRelayerServer';
+import { deployContract } from '../helpers/Deploy';
+import { getDolomiteMargin } from '../helpers/DolomiteMargin';
+import { setupMarkets } from '../helpers/DolomiteMarginHelpers';
+import { resetEVM, snapshot } from '../helpers/EVM';
+import { expectRejection } from '../helpers/Expect';
+import { TestDolomiteMargin } from '../modules/TestDolomiteMargin';
+
+let dolomiteMargin: TestDolomiteMargin;
+let snapshotId: string;
+let sender: address;
+let signer: address;
+let rando: address;
+let relayer: SignedOperationRelayer;
+let server: http.Server;
+let baseUrl: string;
+
+const signerNumber = new BigNumber(111);
+const senderNumber = new BigNumber(222);
+const market = INTEGERS.ONE;
+const walletOwner = new PrivateKeySigningProvider(`0x${'11'.repeat(32)}`);
+
+describe('SignedOperationRelayer', () => {
+  before(async () => {
+    const r = await getDolomiteMargin();
+    dolomiteMargin = r.dolomiteMargin;
+    sender = r.accounts[5];
+    signer = r.accounts[6];
+    rando = r.accounts[7];
+
+    await resetEVM();
+    await setupMarkets(dolomiteMargin, r.accounts);
+
+    snapshotId = await snapshot();
+  });
+
+  beforeEach(async () => {
+    await resetEVM(snapshotId);
+    relayer = new SignedOperationRelayer(
+      dolomiteMargin.signedOperations,
+      dolomiteMargin.operation,
+      dolomiteMargin.multiCall,
+      sender,
+    );
+    server = await new SignedOperationRelayerServer(relayer).listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  describe('#submit', () => {
+    it('Succeeds over HTTP', async () => {
+      const signedOperation = await createSignedOperation(new BigNumber(1));
+      const operationHash = dolomiteMargin.signedOperations.getOperationHash(signedOperation);
+
+      const body = JSON.parse(JSON.stringify(signedOperation));
+      const postResponse = await axios.post(`${baseUrl}/signed-operations`, body);
+      expect(postResponse.status).to.eql(201);
+      expect(postResponse.data).to.eql({ operationHash });
+      expect(relayer.getOperation(operationHash)).to.eql(signedOperation);
+
+      const getResponse = await axios.get(`${baseUrl}/signed-operations/${operationHash}`);
+      expect(getResponse.data).to.eql(JSON.parse(JSON.stringify({ operationHash, signedOperation })));
+
+      const listResponse = await axios.get(`${baseUrl}/signed-operations`);
+      expect(listResponse.data.operations.map(operation => operation.operationHash)).to.eql([operationHash]);
+    });
+
+    it('Succeeds for submitting the same operation twice', async () => {
+      const signedOperation = await createSignedOperation(new BigNumber(1));
+      const operationHash = await relayer.submit(signedOperation);
+      expect(await relayer.submit(signedOperation)).to.eql(operationHash);
+      expect(relayer.getPendingOperations().length).to.eql(1);
+    });
+
+    it('Succeeds for an operation signed by a contract wallet', async () => {
+      const wallet = await deployContract<TestContractWallet>(
+        dolomiteMargin,
+        testContractWalletJson,
+        [walletOwner.address],
+      );
+      const operation = createOperation(new BigNumber(1), { signer: wallet.options.address });
+      const signature = await walletOwner.signTypedData(
+        walletOwner.address,
+        {},
+        dolomiteMargin.signedOperations.getOperationHash(operation),
+        SigningMethod.TypedData,
+      );
+      const signedOperation = { ...operation, typedSignature: createContractTypedSignature(signature) };
+
+      const operationHash = await relayer.submit(signedOperation);
+      expect(relayer.getOperation(operationHash)).to.eql(signedOperation);
+    });
+
+    it('Fails over HTTP for an invalid signature', async () => {
+      const signedOperation = await createSignedOperation(new BigNumber(1));
+      const response = await expectHttpError(axios.post(
+        `${baseUrl}/signed-operations`,
+        JSON.parse(JSON.stringify({ ...signedOperation, salt: new BigNumber(2) })),
+      ));
+      expect(response.status).to.eql(400);
+      expect(response.data).to.eql({ error: 'Signed operation has an invalid signature' });
+    });
+
+    it('Fails over HTTP for a body that is too large', async () => {
+      const response = await expectHttpError(axios.post(
+        `${baseUrl}/signed-operations`,
+        { salt: '1'.repeat(1024 * 1024) },
+      ));
+      expect(response.status).to.eql(413);
+      expect(response.data).to.eql({ error: `Request body must be at most ${1024 * 1024} bytes` });
+    });
+
+    it('Fails over HTTP with a server error when the node fails', async () => {
+      relayer.submit = () => Promise.reject(new Error('Invalid JSON RPC response: ""'));
+      const signedOperation = await createSignedOperation(new BigNumber(1));
+      const response = await expectHttpError(axios.post(
+        `${baseUrl}/signed-operations`,
+        JSON.parse(JSON.stringify(signedOperation)),
+      ));
+      expect(response.status).to.eql(500);
+      expect(response.data).to.eql({ error: 'Internal server error' });
+    });
+
+    it('Fails over HTTP for an unknown operation', async () => {
+      const response = await expectHttpError(axios.get(`${baseUrl}/signed-operations/0x1234`));
+      expect(response.status).to.eql(404);
+      expect(response.data).to.eql({ error: 'Signed operation not found: 0x1234' });
+    });
+
+    it('Fails for a different sender', async () => {
+      const signedOperation = await createSignedOperation(new BigNumber(1), { sender: rando });
+      await expectRejection(
+        relayer.submit(signedOperation),
+        `Signed operation sender must be the zero address or ${sender}`,
+      );
+    });
+
+    it('Fails for an expired operation', async () => {
+      const signedOperation = await createSignedOperation(new BigNumber(1), { expiration: INTEGERS.ONE });
+      await expectRejection(relayer.submit(signedOperation), 'Signed operation is expired, already used or canceled');
+    });
+  });
+
+  describe('#relay', () => {
+    it('Succeeds for relaying many operations in one transaction', async () => {
+      const signedOperations = await Promise.all([
+        createSignedOperation(new BigNumber(1)),
+        createSignedOperation(new BigNumber(2)),
+        createSignedOperation(new BigNumber(3)),
+      ]);
+      const operationHashes = [];
+      for (let i = 0; i < signedOperations.length; i += 1) {
+        operationHashes.push(await relayer.submit(signedOperations[i]));
+      }
+
+      const result = await relayer.relay({ maxOperations: 2 });
+      expect(result.operationHashes).to.eql(operationHashes.slice(0, 2));
+      const logs = dolomiteMargin.logs.parseLogs(result.txResult);
+      expect(logs.filter(log => log.name === 'LogOperationExecuted').length).to.eql(2);
+      expect(await dolomiteMargin.signedOperations.getOperationsAreInvalid(signedOperations)).to.eql([
+        true,
+        true,
+        false,
+      ]);
+      expect(relayer.getPendingOperations().map(({ operationHash }) => operationHash)).to.eql([operationHashes[2]]);
+
+      const nextResult = await relayer.relay();
+      expect(nextResult.operationHashes).to.eql([operationHashes[2]]);
+      expect(await relayer.relay()).to.eql(null);
+    });
+
+    it('Succeeds for quarantining operations that fail on their own', async () => {
+      const failingOperation = await createSignedOperation(new BigNumber(1), { value: new BigNumber(-100) });
+      const signedOperation = await createSignedOperation(new BigNumber(2));
+      const failingOperationHash = await relayer.submit(failingOperation);
+      const operationHash = await relayer.submit(signedOperation);
+
+      const result = await relayer.relay();
+      expect(result.operationHashes).to.eql([operationHash]);
+      expect(relayer.getPendingOperations()).to.eql([]);
+
+      const quarantinedOperations = relayer.getQuarantinedOperations();
+      expect(quarantinedOperations.length).to.eql(1);
+      expect(quarantinedOperations[0].operationHash).to.eql(failingOperationHash);
+      expect(quarantinedOperations[0].signedOperation).to.eql(failingOperation);
+      expect(quarantinedOperations[0].error).to.contain('Undercollateralized account');
+
+      expect(await relayer.submit(failingOperation)).to.eql(failingOperationHash);
+      expect(relayer.getQuarantinedOperations()).to.eql([]);
+      expect(relayer.getPendingOperations().map(({ operationHash }) => operationHash)).to.eql([failingOperationHash]);
+    });
+
+    it('Succeeds for leaving operations that only fail alongside the batch pending', async () => {
+      await dolomiteMargin.testing.setAccountBalance(signer, signerNumber, market, new BigNumber(100));
+      const signedOperations = await Promise.all([
+        createSignedOperation(new BigNumber(1), { value: new BigNumber(-100) }),
+        createSignedOperation(new BigNumber(2), { value: new BigNumber(-100) }),
+      ]);
+      const firstOperationHash = await relayer.submit(signedOperations[0]);
+      const secondOperationHash = await relayer.submit(signedOperations[1]);
+
+      const result = await relayer.relay();
+      expect(result.operationHashes).to.eql([firstOperationHash]);
+      expect(relayer.getPendingOperations().map(({ operationHash }) => operationHash)).to.eql([secondOperationHash]);
+      expect(relayer.getQuarantinedOperations()).to.eql([]);
+
+      // The balance is gone, so the second operation now fails on its own
+      expect(await relayer.relay()).to.eql(null);
+      expect(relayer.getPendingOperations()).to.eql([]);
+      expect(relayer.getQuarantinedOperations().map(({ operationHash }) => operationHash)).to.eql([
+        secondOperationHash,
+      ]);
+    });
+
+    it('Succeeds for dropping canceled operations', async () => {
+      const signedOperation = await createSignedOperation(new BigNumber(1));
+      const operationHash = await relayer.submit(signedOperation);
+      await dolomiteMargin.signedOperations.cancelOperation(signedOperation, { from: signer });
+
+      expect(await relayer.relay()).to.eql(null);
+      expect(relayer.getOperation(operationHash)).to.eql(null);
+    });
+  });
+});
+
+async function createSignedOperation(
+  salt: BigNumber,
+  options: { sender?: address; expiration?: BigNumber; value?: BigNumber } = {},
+): Promise<SignedOperation> {
+  const operation = createOperation(salt, options);
+  return {
+    ...operation,
+    typedSignature: await dolomiteMargin.signedOperations.signOperation(operation, SigningMethod.Hash),
+  };
+}
+
+function createOperation(
+  salt: BigNumber,
+  options: { sender?: address; expiration?: BigNumber; value?: BigNumber; signer?: address } = {},
+): Operation {
+  const operationSigner = options.signer || signer;
+  return dolomiteMargin.operation
+    .initiate()
+    .transfer({
+      primaryAccountOwner: operationSigner,
+      primaryAccountId: signerNumber,
+      toAccountOwner: sender,
+      toAccountId: senderNumber,
+      marketId: market,
+      amount: {
+        value: options.value || INTEGERS.ZERO,
+        denomination: AmountDenomination.Par,
+        reference: AmountReference.Delta,
+      },
+    })
+    .createSignableOperation({
+      salt,
+      signer: operationSigner,
+      sender: options.sender || sender,
+      expiration: options.expiration,
+    });
+}
+
+async function expectHttpError(promise: Promise<any>) {
+  try {
+    await promise;
+  } catch (e) {
+    return e.response;
+  }
+  throw new Error('Expected the request to fail');
+}
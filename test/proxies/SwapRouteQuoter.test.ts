@@ -0,0 +1,192 @@
+import BigNumber from 'bignumber.js';
+import { ethers } from 'ethers';
+import { address, BalanceCheckFlag, Integer, INTEGERS } from '../../src';
+import { GenericTraderType } from '../../src/modules/GenericTraderProxyV1';
+import { ExternalLiquiditySource } from '../../src/modules/SwapRouteQuoter';
+import { getDolomiteMargin } from '../helpers/DolomiteMargin';
+import { setupMarkets } from '../helpers/DolomiteMarginHelpers';
+import { mineAvgBlock, resetEVM, snapshot } from '../helpers/EVM';
+import { expectRejection } from '../helpers/Expect';
+import { TestDolomiteMargin } from '../modules/TestDolomiteMargin';
+
+let dolomiteMargin: TestDolomiteMargin;
+let accounts: address[];
+let snapshotId: string;
+let liquidityProvider: address;
+let externalTrader: address;
+let token1: address;
+let token2: address;
+let token3: address;
+let pair12: address;
+let pair13: address;
+
+const market1 = INTEGERS.ZERO;
+const market2 = INTEGERS.ONE;
+const market3 = new BigNumber(2);
+const liquidity = new BigNumber('1e30');
+const inputAmountWei = new BigNumber('1e18');
+
+describe('SwapRouteQuoter', () => {
+  before(async () => {
+    const r = await getDolomiteMargin();
+    dolomiteMargin = r.dolomiteMargin;
+    accounts = r.accounts;
+    liquidityProvider = accounts[7];
+    externalTrader = accounts[8];
+
+    await resetEVM();
+    await setupMarkets(dolomiteMargin, accounts);
+
+    token1 = await dolomiteMargin.getters.getMarketTokenAddress(market1);
+    token2 = await dolomiteMargin.getters.getMarketTokenAddress(market2);
+    token3 = await dolomiteMargin.getters.getMarketTokenAddress(market3);
+
+    await dolomiteMargin.dolomiteAmmFactory.createPair(token1, token2);
+    await dolomiteMargin.dolomiteAmmFactory.createPair(token1, token3);
+    pair12 = await dolomiteMargin.dolomiteAmmFactory.getPair(token1, token2);
+    pair13 = await dolomiteMargin.dolomiteAmmFactory.getPair(token1, token3);
+
+    await addLiquidity(liquidityProvider, liquidity, liquidity.times(2), token1, token2);
+    await addLiquidity(liquidityProvider, liquidity, liquidity.times(3), token1, token3);
+
+    await mineAvgBlock();
+
+    snapshotId = await snapshot();
+  });
+
+  beforeEach(async () => {
+    await resetEVM(snapshotId);
+    await dolomiteMargin.swapRouteQuoter.refreshAmmPairs();
+  });
+
+  describe('#getBestRoute', () => {
+    it('Succeeds for a direct pair', async () => {
+      const quote = await dolomiteMargin.dolomiteAmmRouterProxy.getDolomiteAmmAmountOut(inputAmountWei, token2, token1);
+      const minQuote = quote.times('0.995').integerValue(BigNumber.ROUND_DOWN);
+      const route = await dolomiteMargin.swapRouteQuoter.getBestRoute(market2, market1, inputAmountWei);
+
+      expect(route.marketIdsPath).to.eql([market2, market1]);
+      expect(route.amountWeisPath).to.eql([inputAmountWei, quote]);
+      expect(route.outputAmountWei).to.eql(quote);
+      expect(route.minOutputAmountWei).to.eql(minQuote);
+      expect(route.makerAccounts).to.eql([{ owner: pair12, number: '0' }]);
+      expect(route.tradersPath).to.eql([
+        {
+          traderType: GenericTraderType.InternalLiquidity,
+          makerAccountIndex: 0,
+          trader: pair12,
+          tradeData: ethers.utils.defaultAbiCoder.encode(
+            ['uint256', 'bytes'],
+            [inputAmountWei.toFixed(), ethers.utils.defaultAbiCoder.encode(['uint256'], [minQuote.toFixed()])],
+          ),
+        },
+      ]);
+    });
+
+    it('Succeeds for discovering an intermediate market', async () => {
+      // The second pair is quoted for the output of the first pair after slippage
+      const routerProxy = dolomiteMargin.dolomiteAmmRouterProxy;
+      const quote1 = await routerProxy.getDolomiteAmmAmountOut(inputAmountWei, token2, token1);
+      const minQuote1 = quote1.times('0.995').integerValue(BigNumber.ROUND_DOWN);
+      const quote3 = await routerProxy.getDolomiteAmmAmountOut(minQuote1, token1, token3);
+      const minQuote3 = quote3.times('0.995').integerValue(BigNumber.ROUND_DOWN);
+      const route = await dolomiteMargin.swapRouteQuoter.getBestRoute(market2, market3, inputAmountWei);
+
+      expect(route.marketIdsPath).to.eql([market2, market1, market3]);
+      expect(route.amountWeisPath).to.eql([inputAmountWei, quote1, quote3]);
+      expect(route.minOutputAmountWei).to.eql(minQuote3);
+      expect(route.makerAccounts).to.eql([{ owner: pair12, number: '0' }, { owner: pair13, number: '0' }]);
+      expect(route.tradersPath.map(trader => trader.makerAccountIndex)).to.eql([0, 1]);
+      expect(route.tradersPath[1].tradeData).to.eql(ethers.utils.defaultAbiCoder.encode(
+        ['uint256', 'bytes'],
+        [minQuote1.toFixed(), ethers.utils.defaultAbiCoder.encode(['uint256'], [minQuote3.toFixed()])],
+      ));
+    });
+
+    it('Fails when the input and output markets are the same', async () => {
+      await expectRejection(
+        dolomiteMargin.swapRouteQuoter.getBestRoute(market1, market1, inputAmountWei),
+        'Input market and output market cannot be the same',
+      );
+    });
+  });
+
+  describe('#getBestRoutes', () => {
+    it('Succeeds for ranking external liquidity against Dolomite AMM pairs', async () => {
+      const quote = await dolomiteMargin.dolomiteAmmRouterProxy.getDolomiteAmmAmountOut(inputAmountWei, token2, token1);
+      const tradeData = ethers.utils.defaultAbiCoder.encode(['uint256', 'bytes'], ['0', '0x']);
+      const routes = await dolomiteMargin.swapRouteQuoter.getBestRoutes(market2, market1, inputAmountWei, {
+        externalLiquiditySources: [
+          getExternalLiquiditySource(quote.plus(1), tradeData),
+          getExternalLiquiditySource(quote.minus(1), tradeData),
+        ],
+      });
+
+      expect(routes.map(route => route.outputAmountWei)).to.eql([quote.plus(1), quote, quote.minus(1)]);
+      expect(routes[0].makerAccounts).to.eql([]);
+      expect(routes[0].tradersPath).to.eql([
+        {
+          tradeData,
+          traderType: GenericTraderType.ExternalLiquidity,
+          makerAccountIndex: 0,
+          trader: externalTrader,
+        },
+      ]);
+      expect(routes[1].tradersPath[0].trader).to.eql(pair12);
+    });
+
+    it('Succeeds for skipping external liquidity that fails to quote', async () => {
+      const failingSource: ExternalLiquiditySource = {
+        trader: externalTrader,
+        getQuote: async () => {
+          throw new Error('Service unavailable');
+        },
+      };
+      const routes = await dolomiteMargin.swapRouteQuoter.getBestRoutes(market2, market1, inputAmountWei, {
+        externalLiquiditySources: [failingSource],
+      });
+
+      expect(routes.map(route => route.marketIdsPath)).to.eql([[market2, market1]]);
+    });
+  });
+});
+
+function getExternalLiquiditySource(outputAmountWei: Integer, tradeData: string): ExternalLiquiditySource {
+  return {
+    trader: externalTrader,
+    getQuote: async (inputToken, outputToken, amountWei) => {
+      expect([inputToken, outputToken, amountWei]).to.eql([token2, token1, inputAmountWei]);
+      return { outputAmountWei, tradeData };
+    },
+  };
+}
+
+async function addLiquidity(
+  walletAddress: address,
+  amountADesired: BigNumber,
+  amountBDesired: BigNumber,
+  tokenA: address,
+  tokenB: address,
+) {
+  const marketIdA = await dolomiteMargin.getters.getMarketIdByTokenAddress(tokenA);
+  const marketIdB = await dolomiteMargin.getters.getMarketIdByTokenAddress(tokenB);
+  const accountNumber = INTEGERS.ZERO;
+  await Promise.all([
+    dolomiteMargin.testing.setAccountBalance(walletAddress, accountNumber, marketIdA, amountADesired),
+    dolomiteMargin.testing.setAccountBalance(walletAddress, accountNumber, marketIdB, amountBDesired),
+  ]);
+
+  return dolomiteMargin.dolomiteAmmRouterProxy.addLiquidity(
+    walletAddress,
+    INTEGERS.ZERO,
+    tokenA,
+    tokenB,
+    amountADesired,
+    amountBDesired,
+    INTEGERS.ONE,
+    INTEGERS.ONE,
+    new BigNumber('123456789123'),
+    BalanceCheckFlag.Both,
+    { from: walletAddress },
+  );
+}
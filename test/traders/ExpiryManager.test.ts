@@ -0,0 +1,147 @@
+import BigNumber from 'bignumber.js';
+import { address, ExpiryArg, INTEGERS } from '../../src';
+import { getDolomiteMargin } from '../helpers/DolomiteMargin';
+import { setupMarkets } from '../helpers/DolomiteMarginHelpers';
+import { fastForward, resetEVM, snapshot } from '../helpers/EVM';
+import { expectRejection } from '../helpers/Expect';
+import { TestDolomiteMargin } from '../modules/TestDolomiteMargin';
+
+let dolomiteMargin: TestDolomiteMargin;
+let snapshotId: string;
+let owner1: address;
+let owner2: address;
+let desk: address;
+
+const accountNumber = INTEGERS.ZERO;
+const owedMarket = INTEGERS.ZERO;
+const heldMarket = INTEGERS.ONE;
+const par = new BigNumber(10000);
+const minTimeDelta = new BigNumber(1000);
+
+describe('ExpiryManager', () => {
+  before(async () => {
+    const r = await getDolomiteMargin();
+    dolomiteMargin = r.dolomiteMargin;
+    owner1 = r.accounts[2];
+    owner2 = r.accounts[3];
+    desk = r.accounts[4];
+
+    await resetEVM();
+    await setupMarkets(dolomiteMargin, r.accounts);
+    await Promise.all([
+      dolomiteMargin.testing.setAccountBalance(owner1, accountNumber, owedMarket, par.times(-1)),
+      dolomiteMargin.testing.setAccountBalance(owner1, accountNumber, heldMarket, par.times(2)),
+      dolomiteMargin.testing.setAccountBalance(owner2, accountNumber, owedMarket, par.times(-1)),
+      dolomiteMargin.testing.setAccountBalance(owner2, accountNumber, heldMarket, par.times(2)),
+      dolomiteMargin.expiry.setApproval(desk, minTimeDelta, { from: owner1 }),
+    ]);
+
+    snapshotId = await snapshot();
+  });
+
+  beforeEach(async () => {
+    await resetEVM(snapshotId);
+  });
+
+  describe('#getExpiringPositions', () => {
+    it('Succeeds for finding the positions that have an expiry', async () => {
+      await dolomiteMargin.expiryManager.setExpiries(owner1, accountNumber, [createExpiryArg(owner1, minTimeDelta)]);
+      await dolomiteMargin.expiryManager.setExpiries(owner2, accountNumber, [createExpiryArg(owner2, INTEGERS.ONE)]);
+      await dolomiteMargin.expiryManager.setExpiries(owner1, accountNumber, [createExpiryArg(owner1, INTEGERS.ZERO)]);
+
+      const [positions, expiry] = await Promise.all([
+        dolomiteMargin.expiryManager.getExpiringPositions(owedMarket),
+        dolomiteMargin.expiry.getExpiry(owner2, accountNumber, owedMarket),
+      ]);
+      expect(positions).to.eql([
+        {
+          expiry,
+          owner: owner2,
+          number: accountNumber,
+          marketId: owedMarket,
+        },
+      ]);
+      expect(await dolomiteMargin.expiryManager.getExpiringPositions(heldMarket)).to.eql([]);
+    });
+  });
+
+  describe('#validateExpiryArgs', () => {
+    it('Succeeds for checking approvals and balances', async () => {
+      const validations = await dolomiteMargin.expiryManager.validateExpiryArgs(desk, [
+        createExpiryArg(owner1, minTimeDelta),
+        createExpiryArg(owner1, minTimeDelta.minus(1)),
+        createExpiryArg(owner2, minTimeDelta),
+        { ...createExpiryArg(owner1, minTimeDelta), marketId: heldMarket },
+      ]);
+      expect(validations.map(({ error }) => error)).to.eql([
+        null,
+        `Time delta is less than the approved minimum of ${minTimeDelta.toFixed(0)} seconds`,
+        `${desk} is not approved to set expiries for ${owner2}`,
+        `Account has no borrow in market ${heldMarket.toFixed(0)}, so its expiry would be unset`,
+      ]);
+      expect(validations[0].warnings).to.eql([]);
+    });
+
+    it('Succeeds for warning about expiries that are kept past the ramp', async () => {
+      await dolomiteMargin.expiryManager.setExpiries(owner1, accountNumber, [createExpiryArg(owner1, INTEGERS.ONE)]);
+      await fastForward(INTEGERS.ONE_DAY_IN_SECONDS.toNumber());
+
+      const [validation] = await dolomiteMargin.expiryManager.validateExpiryArgs(desk, [
+        { ...createExpiryArg(owner1, minTimeDelta), forceUpdate: false },
+      ]);
+      expect(validation.error).to.eql(null);
+      expect(validation.newExpiry).to.eql(await dolomiteMargin.expiry.getExpiry(owner1, accountNumber, owedMarket));
+      expect(validation.warnings).to.eql([
+        'The existing expiry is kept, since forceUpdate is false',
+        'The expiry is already past the ramp, so the full liquidation spread applies',
+      ]);
+    });
+  });
+
+  describe('#setExpiries', () => {
+    it('Succeeds for setting expiries of approving accounts', async () => {
+      await dolomiteMargin.expiryManager.setExpiries(desk, accountNumber, [createExpiryArg(owner1, minTimeDelta)]);
+      const expiry = await dolomiteMargin.expiry.getExpiry(owner1, accountNumber, owedMarket);
+      expect(expiry.isZero()).to.eql(false);
+    });
+
+    it('Fails for accounts that have not approved the sender', async () => {
+      await expectRejection(
+        dolomiteMargin.expiryManager.setExpiries(desk, accountNumber, [createExpiryArg(owner2, minTimeDelta)]),
+        `Invalid expiry for <${owner2}, 0, 0>: ${desk} is not approved to set expiries for ${owner2}`,
+      );
+    });
+  });
+
+  describe('#extendExpiries', () => {
+    it('Succeeds for extending every expiring position', async () => {
+      await dolomiteMargin.expiryManager.setExpiries(desk, accountNumber, [createExpiryArg(owner1, minTimeDelta)]);
+      const positions = await dolomiteMargin.expiryManager.getExpiringPositions(owedMarket);
+
+      await dolomiteMargin.expiryManager.extendExpiries(desk, accountNumber, positions, INTEGERS.ONE_DAY_IN_SECONDS);
+      const expiry = await dolomiteMargin.expiry.getExpiry(owner1, accountNumber, owedMarket);
+      expect(expiry.gte(positions[0].expiry.plus(INTEGERS.ONE_DAY_IN_SECONDS))).to.eql(true);
+    });
+
+    it('Fails for extended expiries that would already have passed', async () => {
+      await dolomiteMargin.expiryManager.setExpiries(desk, accountNumber, [createExpiryArg(owner1, minTimeDelta)]);
+      const positions = await dolomiteMargin.expiryManager.getExpiringPositions(owedMarket);
+      await fastForward(INTEGERS.ONE_DAY_IN_SECONDS.toNumber());
+
+      await expectRejection(
+        dolomiteMargin.expiryManager.extendExpiries(desk, accountNumber, positions, INTEGERS.ONE_HOUR_IN_SECONDS),
+        `Extended expiry of <${owner1}, 0, 0> would already have passed`,
+      );
+    });
+  });
+});
+
+function createExpiryArg(accountOwner: address, timeDelta: BigNumber): ExpiryArg {
+  return {
+    accountOwner,
+    timeDelta,
+    accountId: accountNumber,
+    marketId: owedMarket,
+    forceUpdate: true,
+  };
+}